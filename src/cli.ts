@@ -1,27 +1,101 @@
 // Core Modules
 import { Command } from 'commander';
-import { generateDBML } from '../../index';
+import {
+    detectDrift,
+    Diagnostic,
+    diffDatabase,
+    DiffFormatter,
+    diffSchemas,
+    generateDBML,
+    getSourcePaths,
+    LintFormatter,
+    LintOptions,
+    lintSchema,
+    scaffoldEntities,
+    SchemaLinter,
+} from './index';
+import { DBMLComparer } from './diff/DBMLComparer';
+import { SchemaSourceLoader } from './diff/SchemaSourceLoader';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 
 const program = new Command();
 
+// Names of the diagram formats in messages
+const FORMAT_NAMES: Record<string, string> = {
+    mermaid: 'Mermaid diagram',
+    plantuml: 'PlantUML diagram',
+    dot: 'Graphviz graph',
+};
+
+// Output file of each format when --output is not given
+const DEFAULT_OUTPUTS: Record<string, string> = {
+    dbml: './schema.dbml',
+    mermaid: './schema.mmd',
+    plantuml: './schema.puml',
+    dot: './schema.dot',
+};
+
 program.name('typeorm-to-dbml').description('Generate DBML schema files from TypeORM entity files').version('1.0.0');
 
+// Options after a subcommand belong to it, not to the DBML generation
+program.enablePositionalOptions();
+
 program
     .option('-i, --input <patterns...>', 'Input file patterns (glob)', ['./src/entities/**/*.entity.ts'])
-    .option('-o, --output <path>', 'Output DBML file path', './schema.dbml')
+    .option('-o, --output <path>', 'Output file path (default: ./schema.dbml, or .mmd, .puml, .dot after --format)')
+    .option('--format <format>', 'Output format (dbml|mermaid|plantuml|dot)', 'dbml')
     .option('-e, --exclude <patterns...>', 'Exclude file patterns (glob)')
+    .option('--tsconfig <file>', 'tsconfig.json to resolve the entities with (default: ./tsconfig.json if it exists)')
+    .option('-d, --data-source <file>', 'Read entities from a TypeORM DataSource file instead of --input')
+    .option('--data-source-name <name>', 'DataSource to use when the file defines several')
+    .option('--sql <file>', 'Read the schema from a pg_dump or mysqldump file instead of entities')
+    .option(
+        '-n, --naming-strategy <strategy>',
+        'Naming strategy: typeorm, snake, or a module exporting a NamingStrategy class',
+        'typeorm',
+    )
     .option('--no-schemas', 'Exclude schema grouping')
     .option('--no-indexes', 'Exclude index definitions')
+    .option('--no-uniques', 'Exclude unique constraints')
+    .option('--no-checks', 'Exclude check constraints')
     .option('--no-notes', 'Exclude notes and comments')
     .option('--no-enums', 'Exclude enum definitions')
+    .option('--embedded-notes', 'Note which embeddable each flattened column came from')
+    .option('--no-views', 'Exclude view entities')
+    .option('--group-views', 'Group views into their own TableGroup')
+    .option('--collapse-join-tables', 'Render many-to-many relations as <> refs instead of join tables')
+    .option(
+        '--database-type <type>',
+        'Database type: postgres, mysql, mariadb, mssql, sqlite, oracle or cockroachdb (default: the DataSource type)',
+    )
     .option('--project-name <name>', 'Project name for DBML header', 'Database Schema')
     .option('--table-grouping <type>', 'Table grouping strategy (schema|none)', 'schema')
+    .option('--strict', 'Exit with a non-zero code when a diagnostic is an error')
+    .option('--check', 'Compare the output file with freshly generated DBML instead of writing it; exit 1 if stale')
+    .option('--ignore-whitespace', 'With --check, ignore indentation, spacing and blank lines')
+    .option('--ignore-order', 'With --check, ignore the order of tables, refs and the lines within a block')
     .option('-w, --watch', 'Watch mode - regenerate on file changes')
     .action(async (options) => {
         try {
-            await runGeneration(options);
+            options.output ??= DEFAULT_OUTPUTS[options.format] ?? DEFAULT_OUTPUTS.dbml;
+
+            if (options.check) {
+                const { isUpToDate, diagnostics } = await runCheck(options);
+
+                if (options.strict && diagnostics.some((d) => d.severity === 'error')) {
+                    console.error('❌ Failing because of errors (--strict)');
+                    process.exit(1);
+                }
+                process.exit(isUpToDate ? 0 : 1);
+            }
+
+            const diagnostics = await runGeneration(options);
+
+            if (options.strict && !options.watch && diagnostics.some((d) => d.severity === 'error')) {
+                console.error('❌ Failing because of errors (--strict)');
+                process.exit(1);
+            }
 
             if (options.watch) {
                 console.log('\n👀 Watching for changes...');
@@ -33,43 +107,334 @@ program
         }
     });
 
+addSourceOptions(
+    program
+        .command('diff <base> [head]')
+        .description(
+            'Show what changed in the database model between two sources ' +
+                '(git refs, JSON snapshots, SQL dumps or entity globs); head defaults to the entities of the working tree',
+        ),
+)
+    .option('-f, --format <format>', 'Output format (text|markdown|json)', 'text')
+    .option('-o, --output <path>', 'Write the diff to a file instead of the console')
+    .option('--database-type <type>', 'Database type of SQL dumps (default: detected from the dump)')
+    .action(async (base: string, head: string | undefined, options) => {
+        try {
+            const loader = new SchemaSourceLoader({
+                ...getSourceConfig(options),
+                options: { databaseType: options.databaseType },
+            });
+            if (loader.isDump(head) && !loader.isDump(base)) {
+                throw new Error('A SQL dump is compared as the base: diff <dump.sql> [head]');
+            }
+
+            // A dump holds what the database has, so entities are compared with it as the database would hold them
+            const [from, to] = [await loader.load(base), await loader.load(head)];
+            const diff =
+                loader.isDump(base) && !loader.isDump(head)
+                    ? diffDatabase(from, to, loader.getDatabaseType(base))
+                    : diffSchemas(from, to);
+            const output = new DiffFormatter().format(diff, options.format);
+
+            if (options.output) {
+                await fs.writeFile(options.output, output + '\n', 'utf-8');
+            } else {
+                console.log(output);
+            }
+        } catch (error) {
+            console.error('❌ Error:', error instanceof Error ? error.message : error);
+            process.exit(1);
+        }
+    });
+
+addSourceOptions(
+    program
+        .command('snapshot [source]')
+        .description('Save the schema of a source (a git ref or entity globs) as a JSON snapshot for `diff`'),
+)
+    .option('-o, --output <path>', 'Snapshot file path', './schema.snapshot.json')
+    .action(async (source: string | undefined, options) => {
+        try {
+            const loader = new SchemaSourceLoader(getSourceConfig(options));
+            await fs.writeFile(options.output, loader.toSnapshot(await loader.load(source)) + '\n', 'utf-8');
+            console.log(`💾 Snapshot: ${options.output}`);
+        } catch (error) {
+            console.error('❌ Error:', error instanceof Error ? error.message : error);
+            process.exit(1);
+        }
+    });
+
+addSourceOptions(program.command('lint').description('Check the entities against database conventions'))
+    .option('-f, --format <format>', 'Output format (text|json|sarif)', 'text')
+    .option('-o, --output <path>', 'Write the results to a file instead of the console')
+    .option('-c, --config <file>', 'JSON file setting the severity and options of rules: { "rules": { ... } }')
+    .option('-r, --rule <rule=severity...>', 'Set the severity of a rule (error|warning|off), e.g. table-notes=off')
+    .action(async (options) => {
+        try {
+            const lintOptions = await getLintOptions(options);
+            const rules = new SchemaLinter(lintOptions).getEnabledRules();
+            const diagnostics = await lintSchema(getSourceConfig(options), lintOptions);
+            const output = new LintFormatter().format(diagnostics, options.format, rules);
+
+            if (options.output) {
+                await fs.writeFile(options.output, output + '\n', 'utf-8');
+            } else {
+                console.log(output);
+            }
+
+            if (diagnostics.some((d) => d.severity === 'error')) {
+                process.exit(1);
+            }
+        } catch (error) {
+            console.error('❌ Error:', error instanceof Error ? error.message : error);
+            process.exit(1);
+        }
+    });
+
+addSourceOptions(
+    program
+        .command('drift')
+        .description('Compare the entities with the schema their migrations create; exit 1 if they are out of sync'),
+)
+    .option('-m, --migrations <patterns...>', 'Migration file patterns (glob)', ['./src/migrations/**/*.ts'])
+    .option(
+        '--database-type <type>',
+        'Database type: postgres, mysql, mariadb, mssql, sqlite, oracle or cockroachdb (default: the DataSource type)',
+    )
+    .option('-f, --format <format>', 'Output format (text|markdown|json)', 'text')
+    .option('-o, --output <path>', 'Write the drift to a file instead of the console')
+    .action(async (options) => {
+        try {
+            const diff = await detectDrift({
+                ...getSourceConfig(options),
+                migrations: options.migrations,
+                options: { databaseType: options.databaseType },
+            });
+            const output = new DiffFormatter().format(diff, options.format);
+
+            // JSON output carries the diagnostics itself
+            if (options.format !== 'json' || options.output) {
+                printDiagnostics(diff.diagnostics ?? []);
+            }
+
+            if (options.output) {
+                await fs.writeFile(options.output, output + '\n', 'utf-8');
+            } else {
+                console.log(output);
+            }
+
+            if (diff.changes.length > 0) {
+                process.exit(1);
+            }
+        } catch (error) {
+            console.error('❌ Error:', error instanceof Error ? error.message : error);
+            process.exit(1);
+        }
+    });
+
+program
+    .command('scaffold <file>')
+    .description('Write TypeORM entity classes for the tables, views and enums of a DBML file or SQL dump')
+    .option('-o, --output <dir>', 'Directory to write the entity files to', './src/entities')
+    .option('-f, --force', 'Overwrite existing files')
+    .option(
+        '--database-type <type>',
+        'Database type: postgres, mysql, mariadb, mssql, sqlite, oracle or cockroachdb (default: the DBML Project)',
+    )
+    .option('-n, --naming-strategy <strategy>', 'Naming strategy: typeorm, snake, or a module path', 'typeorm')
+    .action(async (file: string, options) => {
+        try {
+            console.log(`🏗️  Scaffolding entities from ${file}...`);
+            const { files, diagnostics } = await scaffoldEntities({
+                input: file,
+                output: options.output,
+                overwrite: options.force,
+                namingStrategy: options.namingStrategy,
+                databaseType: options.databaseType,
+            });
+
+            printDiagnostics(diagnostics);
+            console.log(`✅ ${files.length} files written to ${options.output}`);
+        } catch (error) {
+            console.error('❌ Error:', error instanceof Error ? error.message : error);
+            process.exit(1);
+        }
+    });
+
 /**
- * Run the DBML generation
+ * Read the lint configuration file, with `--rule` settings taking precedence
  */
-async function runGeneration(options: any) {
-    console.log('🔍 Parsing TypeORM entities...');
+async function getLintOptions(options: any): Promise<LintOptions> {
+    const lintOptions: LintOptions = options.config ? JSON.parse(await fs.readFile(options.config, 'utf-8')) : {};
+    const rules = { ...lintOptions.rules };
+
+    for (const setting of options.rule ?? []) {
+        const [name, severity] = setting.split('=');
+        if (!severity) {
+            throw new Error(`Invalid --rule "${setting}", expected <rule>=<severity>`);
+        }
+
+        // Keep the rule options of the configuration file
+        const current = rules[name];
+        rules[name] = Array.isArray(current) ? [severity, current[1]] : severity;
+    }
+
+    return { ...lintOptions, rules };
+}
 
-    const config = {
+/**
+ * Add the options that locate entities, in the working tree and at git refs
+ */
+function addSourceOptions(command: Command): Command {
+    return command
+        .option('-i, --input <patterns...>', 'Input file patterns (glob)', ['./src/entities/**/*.entity.ts'])
+        .option('-e, --exclude <patterns...>', 'Exclude file patterns (glob)')
+        .option(
+            '--tsconfig <file>',
+            'tsconfig.json to resolve the entities with (default: ./tsconfig.json if it exists)',
+        )
+        .option('-d, --data-source <file>', 'Read entities from a TypeORM DataSource file instead of --input')
+        .option('--data-source-name <name>', 'DataSource to use when the file defines several')
+        .option('-n, --naming-strategy <strategy>', 'Naming strategy: typeorm, snake, or a module path', 'typeorm');
+}
+
+/**
+ * Build the config of a source from the options added by `addSourceOptions`
+ */
+function getSourceConfig(options: any) {
+    return {
+        input: options.input,
+        exclude: options.exclude,
+        tsConfig: options.tsconfig,
+        dataSource: options.dataSource ? { path: options.dataSource, name: options.dataSourceName } : undefined,
+        namingStrategy: options.namingStrategy,
+    };
+}
+
+/**
+ * Build the generation config from the options of the root command
+ */
+function getGenerationConfig(options: any) {
+    return {
         input: options.input,
         output: options.output,
+        format: options.format,
         exclude: options.exclude,
+        tsConfig: options.tsconfig,
+        dataSource: options.dataSource ? { path: options.dataSource, name: options.dataSourceName } : undefined,
+        sql: options.sql,
+        namingStrategy: options.namingStrategy,
         options: {
             includeSchemas: options.schemas,
             includeIndexes: options.indexes,
+            includeUniques: options.uniques,
+            includeChecks: options.checks,
             includeNotes: options.notes,
             includeEnums: options.enums,
+            includeEmbeddedNotes: options.embeddedNotes,
+            includeViews: options.views,
+            groupViews: options.groupViews,
+            collapseJoinTables: options.collapseJoinTables,
             projectName: options.projectName,
             tableGrouping: options.tableGrouping as 'schema' | 'none',
+            databaseType: options.databaseType,
         },
     };
+}
 
+/**
+ * Run the DBML generation
+ */
+async function runGeneration(options: any): Promise<Diagnostic[]> {
+    console.log(options.sql ? `🔍 Reading ${options.sql}...` : '🔍 Parsing TypeORM entities...');
+
+    const config = getGenerationConfig(options);
     const startTime = Date.now();
-    const dbml = await generateDBML(config);
+    const { dbml, diagnostics } = await generateDBML(config);
     const duration = Date.now() - startTime;
 
-    // Display stats
+    // Display stats, counted from the DBML syntax
     const lines = dbml.split('\n').length;
-    const tables = (dbml.match(/^Table /gm) || []).length;
-    const enums = (dbml.match(/^Enum /gm) || []).length;
-    const refs = (dbml.match(/^Ref:/gm) || []).length;
-
-    console.log('✅ DBML generated successfully!');
-    console.log(`   📊 Tables: ${tables}`);
-    console.log(`   🔗 Relationships: ${refs}`);
-    console.log(`   📋 Enums: ${enums}`);
+    if (config.format && config.format !== 'dbml') {
+        console.log(`✅ ${FORMAT_NAMES[config.format] ?? config.format} generated successfully!`);
+    } else {
+        const tables = (dbml.match(/^Table /gm) || []).length;
+        const enums = (dbml.match(/^Enum /gm) || []).length;
+        const refs = (dbml.match(/^Ref:/gm) || []).length;
+
+        console.log('✅ DBML generated successfully!');
+        console.log(`   📊 Tables: ${tables}`);
+        console.log(`   🔗 Relationships: ${refs}`);
+        console.log(`   📋 Enums: ${enums}`);
+    }
     console.log(`   📄 Lines: ${lines}`);
     console.log(`   ⏱️  Duration: ${duration}ms`);
     console.log(`   💾 Output: ${options.output}`);
+
+    printDiagnostics(diagnostics);
+
+    return diagnostics;
+}
+
+/**
+ * Generate the DBML in memory and compare it with the output file, printing a unified diff when it is stale
+ */
+async function runCheck(options: any): Promise<{ isUpToDate: boolean; diagnostics: Diagnostic[] }> {
+    const { dbml, diagnostics } = await generateDBML({ ...getGenerationConfig(options), output: undefined });
+    printDiagnostics(diagnostics);
+
+    let committed: string;
+    try {
+        committed = await fs.readFile(options.output, 'utf-8');
+    } catch {
+        console.error(`❌ ${options.output} does not exist; run without --check to generate it`);
+        return { isUpToDate: false, diagnostics };
+    }
+
+    const diff = new DBMLComparer().compare(
+        committed,
+        dbml,
+        { ignoreWhitespace: options.ignoreWhitespace, ignoreOrder: options.ignoreOrder },
+        [options.output, `${options.output} (generated)`],
+    );
+
+    if (!diff) {
+        console.log(`✅ ${options.output} is up to date`);
+        return { isUpToDate: true, diagnostics };
+    }
+
+    console.log(diff);
+    console.error(`\n❌ ${options.output} is out of date; regenerate it without --check`);
+    return { isUpToDate: false, diagnostics };
+}
+
+/**
+ * Print diagnostics as `file:line:column severity code message`, followed by a summary
+ */
+function printDiagnostics(diagnostics: Diagnostic[]) {
+    if (diagnostics.length === 0) {
+        return;
+    }
+
+    console.log('');
+    for (const diagnostic of diagnostics) {
+        const location = diagnostic.file
+            ? `${path.relative(process.cwd(), diagnostic.file)}:${diagnostic.line}:${diagnostic.column} `
+            : '';
+        const line = `${location}${diagnostic.severity} ${diagnostic.code} ${diagnostic.message}`;
+
+        if (diagnostic.severity === 'error') {
+            console.error(line);
+        } else {
+            console.warn(line);
+        }
+    }
+
+    const errors = diagnostics.filter((d) => d.severity === 'error').length;
+    const warnings = diagnostics.length - errors;
+    console.log(
+        `\n⚠️  ${errors} ${errors === 1 ? 'error' : 'errors'}, ${warnings} ${warnings === 1 ? 'warning' : 'warnings'}`,
+    );
 }
 
 /**
@@ -79,7 +444,9 @@ async function watchMode(options: any) {
     // Dynamic import to avoid loading in non-watch mode
     const chokidar = await import('chokidar');
 
-    const watcher = chokidar.watch(options.input, {
+    // The DataSource file and the entity files it resolves to, the SQL dump or the input globs
+    let paths = await getSourcePaths(getGenerationConfig(options));
+    const watcher = chokidar.watch(paths, {
         ignored: options.exclude,
         persistent: true,
         ignoreInitial: true,
@@ -98,6 +465,13 @@ async function watchMode(options: any) {
         timeout = setTimeout(async () => {
             try {
                 await runGeneration(options);
+
+                // Entities may have been added to or removed from the DataSource
+                const current = await getSourcePaths(getGenerationConfig(options));
+                watcher.unwatch(paths.filter((p) => !current.includes(p)));
+                watcher.add(current.filter((p) => !paths.includes(p)));
+                paths = current;
+
                 console.log('👀 Watching for changes...');
             } catch (error) {
                 console.error('❌ Error:', error instanceof Error ? error.message : error);
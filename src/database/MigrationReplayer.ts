@@ -0,0 +1,466 @@
+/**
+ * MigrationReplayer - Rebuilds the schema the migrations create by replaying their `up` methods statically
+ * Raw SQL run with `queryRunner.query` and the QueryRunner API (`createTable`, `addColumn`, `createForeignKey`, ...)
+ * are applied in order; migrations run in the order of the timestamp ending their class name, as TypeORM runs them
+ */
+
+import { CallExpression, ClassDeclaration, Node, SyntaxKind } from 'ts-morph';
+import { StaticEvaluator } from '../extractor/StaticEvaluator';
+import { DiagnosticCollector } from '../utils/DiagnosticCollector';
+import ColumnMetadata from '../utils/interfaces/ColumnMetadata';
+import DBMLSchema from '../utils/interfaces/DBMLSchema';
+import RelationMetadata from '../utils/interfaces/RelationMetadata';
+import { SchemaBuilder } from './SchemaBuilder';
+import { SqlDdlParser } from './SqlDdlParser';
+
+// Options of `new Table()`, `new TableColumn()`, `new TableForeignKey()` and the like, as evaluated
+type Options = Record<string, unknown>;
+
+// Replays one QueryRunner method from its evaluated arguments
+type Step = (builder: SchemaBuilder, args: unknown[], call: CallExpression) => void;
+
+export class MigrationReplayer {
+    // Classes whose constructor takes the options object TypeORM keeps
+    private static readonly SCHEMA_CLASSES = [
+        'Table',
+        'TableColumn',
+        'TableIndex',
+        'TableForeignKey',
+        'TableUnique',
+        'TableCheck',
+    ];
+
+    private evaluator: StaticEvaluator;
+    private sqlParser: SqlDdlParser;
+    private diagnostics: DiagnosticCollector;
+    private steps: Record<string, Step>;
+
+    constructor(diagnostics: DiagnosticCollector = new DiagnosticCollector()) {
+        this.diagnostics = diagnostics;
+        this.evaluator = new StaticEvaluator(diagnostics);
+        this.sqlParser = new SqlDdlParser();
+        this.steps = this.getSteps();
+    }
+
+    /**
+     * Replay the migrations in order and get the schema they leave
+     * Names in `defaultSchema` are left unqualified, as the entities leave them
+     */
+    replay(migrations: ClassDeclaration[], defaultSchema?: string): DBMLSchema {
+        const builder = new SchemaBuilder(defaultSchema);
+
+        for (const migration of this.sortMigrations(migrations)) {
+            const up = migration.getMethod('up');
+            const queryRunner = up?.getParameters()[0]?.getName();
+            if (!up || !queryRunner) {
+                continue;
+            }
+
+            const calls = up
+                .getDescendantsOfKind(SyntaxKind.CallExpression)
+                .filter((call) => this.getReceiver(call) === queryRunner);
+
+            for (const call of calls) {
+                this.replayCall(builder, call);
+            }
+        }
+
+        return builder.build();
+    }
+
+    /**
+     * Apply one call on the QueryRunner; methods that do not change the schema, like `getTable`, are skipped
+     */
+    private replayCall(builder: SchemaBuilder, call: CallExpression): void {
+        const expression = call.getExpression();
+        const method = Node.isPropertyAccessExpression(expression) ? expression.getName() : '';
+        const step = this.steps[method];
+        if (!step) {
+            return;
+        }
+
+        try {
+            step(
+                builder,
+                call.getArguments().map((arg) => this.toValue(arg)),
+                call,
+            );
+        } catch (error) {
+            this.diagnostics.warning(
+                'unsupported-migration-step',
+                `Could not replay \`queryRunner.${method}()\`: ${error instanceof Error ? error.message : error}`,
+                call,
+            );
+        }
+    }
+
+    /**
+     * Get how each QueryRunner method changes the schema
+     */
+    private getSteps(): Record<string, Step> {
+        return {
+            query: (builder, [sql], call) => {
+                if (typeof sql !== 'string') {
+                    throw new Error('The SQL is not a static string');
+                }
+                for (const { message } of this.sqlParser.apply(sql, builder)) {
+                    this.diagnostics.warning('unsupported-migration-step', `Could not replay SQL: ${message}`, call);
+                }
+            },
+            createTable: (builder, [table, ifNotExists, createForeignKeys = true, createIndices = true]) =>
+                this.createTable(builder, this.toOptions(table), !!ifNotExists, !!createForeignKeys, !!createIndices),
+            dropTable: (builder, [table, ifExists]) => builder.dropTable(this.getTableName(table), !!ifExists),
+            renameTable: (builder, [table, newName]) =>
+                builder.renameTable(this.getTableName(table), this.getTableName(newName)),
+            addColumn: (builder, [table, column]) =>
+                builder.addColumn(this.getTableName(table), this.toColumn(this.toOptions(column), builder)),
+            addColumns: (builder, [table, columns]) =>
+                this.toList(columns).forEach((column) =>
+                    builder.addColumn(this.getTableName(table), this.toColumn(this.toOptions(column), builder)),
+                ),
+            renameColumn: (builder, [table, column, newColumn]) =>
+                builder.renameColumn(this.getTableName(table), this.getName(column), this.getName(newColumn)),
+            changeColumn: (builder, [table, column, newColumn]) =>
+                builder.replaceColumn(
+                    this.getTableName(table),
+                    this.getName(column),
+                    this.toColumn(this.toOptions(newColumn), builder),
+                ),
+            changeColumns: (builder, [table, changes]) =>
+                this.toList(changes).forEach((change) => {
+                    const { oldColumn, newColumn } = this.toOptions(change);
+                    builder.replaceColumn(
+                        this.getTableName(table),
+                        this.getName(oldColumn),
+                        this.toColumn(this.toOptions(newColumn), builder),
+                    );
+                }),
+            dropColumn: (builder, [table, column]) =>
+                builder.dropColumn(this.getTableName(table), this.getName(column)),
+            dropColumns: (builder, [table, columns]) =>
+                this.toList(columns).forEach((column) =>
+                    builder.dropColumn(this.getTableName(table), this.getName(column)),
+                ),
+            createPrimaryKey: (builder, [table, columnNames, name]) =>
+                builder.setPrimaryKey(this.getTableName(table), this.toStrings(columnNames), this.toString(name)),
+            dropPrimaryKey: (builder, [table]) => builder.dropPrimaryKey(this.getTableName(table)),
+            createIndex: (builder, [table, index]) => this.createIndex(builder, this.getTableName(table), index),
+            createIndices: (builder, [table, indices]) =>
+                this.toList(indices).forEach((index) => this.createIndex(builder, this.getTableName(table), index)),
+            dropIndex: (builder, [table, index]) => builder.dropIndex(this.getName(index), this.getTableName(table)),
+            dropIndices: (builder, [table, indices]) =>
+                this.toList(indices).forEach((index) =>
+                    builder.dropIndex(this.getName(index), this.getTableName(table)),
+                ),
+            createForeignKey: (builder, [table, foreignKey]) =>
+                this.createForeignKey(builder, this.getTableName(table), foreignKey),
+            createForeignKeys: (builder, [table, foreignKeys]) =>
+                this.toList(foreignKeys).forEach((fk) => this.createForeignKey(builder, this.getTableName(table), fk)),
+            dropForeignKey: (builder, [table, foreignKey]) =>
+                builder.dropConstraint(this.getTableName(table), this.getName(foreignKey)),
+            dropForeignKeys: (builder, [table, foreignKeys]) =>
+                this.toList(foreignKeys).forEach((fk) =>
+                    builder.dropConstraint(this.getTableName(table), this.getName(fk)),
+                ),
+            createUniqueConstraint: (builder, [table, unique]) =>
+                this.createUnique(builder, this.getTableName(table), unique),
+            createUniqueConstraints: (builder, [table, uniques]) =>
+                this.toList(uniques).forEach((unique) => this.createUnique(builder, this.getTableName(table), unique)),
+            dropUniqueConstraint: (builder, [table, unique]) =>
+                builder.dropConstraint(this.getTableName(table), this.getName(unique)),
+            dropUniqueConstraints: (builder, [table, uniques]) =>
+                this.toList(uniques).forEach((unique) =>
+                    builder.dropConstraint(this.getTableName(table), this.getName(unique)),
+                ),
+            createCheckConstraint: (builder, [table, check]) =>
+                this.createCheck(builder, this.getTableName(table), check),
+            createCheckConstraints: (builder, [table, checks]) =>
+                this.toList(checks).forEach((check) => this.createCheck(builder, this.getTableName(table), check)),
+            dropCheckConstraint: (builder, [table, check]) =>
+                builder.dropConstraint(this.getTableName(table), this.getName(check)),
+            dropCheckConstraints: (builder, [table, checks]) =>
+                this.toList(checks).forEach((check) =>
+                    builder.dropConstraint(this.getTableName(table), this.getName(check)),
+                ),
+        };
+    }
+
+    /**
+     * Create a table from the options of `new Table()`, with its constraints
+     */
+    private createTable(
+        builder: SchemaBuilder,
+        options: Options,
+        ifNotExists: boolean,
+        createForeignKeys: boolean,
+        createIndices: boolean,
+    ): void {
+        const table = this.getTableName(options);
+        if (ifNotExists && builder.hasTable(table)) {
+            return;
+        }
+
+        builder.createTable(table);
+        for (const column of this.toList(options.columns)) {
+            builder.addColumn(table, this.toColumn(this.toOptions(column), builder));
+        }
+
+        this.toList(options.uniques).forEach((unique) => this.createUnique(builder, table, unique));
+        this.toList(options.checks).forEach((check) => this.createCheck(builder, table, check));
+        if (createForeignKeys) {
+            this.toList(options.foreignKeys).forEach((fk) => this.createForeignKey(builder, table, fk));
+        }
+        if (createIndices) {
+            this.toList(options.indices).forEach((index) => this.createIndex(builder, table, index));
+        }
+        if (typeof options.comment === 'string') {
+            builder.setTableNote(table, options.comment);
+        }
+    }
+
+    /**
+     * Get a column from the options of `new TableColumn()`; columns are not nullable unless `isNullable` is set
+     */
+    private toColumn(options: Options, builder: SchemaBuilder): ColumnMetadata {
+        const name = this.getName(options);
+        const { isSerial, ...type } = this.sqlParser.parseType(this.toString(options.type) ?? '', builder);
+        const length = options.length !== undefined && options.length !== '' ? Number(options.length) : undefined;
+
+        const column: ColumnMetadata = {
+            propertyName: name,
+            columnName: name,
+            ...type,
+            length: length ?? type.length,
+            precision: this.toNumber(options.precision) ?? type.precision,
+            scale: this.toNumber(options.scale) ?? type.scale,
+            isArray: options.isArray === true || type.isArray,
+            isPrimary: options.isPrimary === true,
+            primaryKeyConstraintName: this.toString(options.primaryKeyConstraintName),
+            isGenerated: options.isGenerated === true || !!isSerial,
+            generationStrategy:
+                (options.generationStrategy as ColumnMetadata['generationStrategy']) ??
+                (isSerial ? 'increment' : undefined),
+            isNullable: options.isNullable === true,
+            isUnique: options.isUnique === true,
+            enumName: this.toString(options.enumName) ?? type.enumName,
+            enumValues: options.enum !== undefined ? this.toStrings(options.enum) : type.enumValues,
+            comment: this.toString(options.comment),
+        };
+
+        if (options.default !== undefined && options.default !== null) {
+            Object.assign(column, this.sqlParser.parseDefault(String(options.default)));
+        }
+        if (column.generationStrategy === 'uuid' && column.isGenerated) {
+            column.default = undefined;
+        }
+
+        return column;
+    }
+
+    /**
+     * Create an index from the options of `new TableIndex()`
+     */
+    private createIndex(builder: SchemaBuilder, table: string, index: unknown): void {
+        const options = this.toOptions(index);
+        builder.addIndex(table, {
+            name: this.toString(options.name),
+            columns: this.toStrings(options.columnNames),
+            isUnique: options.isUnique === true,
+            isSpatial: options.isSpatial === true || undefined,
+            isFulltext: options.isFulltext === true || undefined,
+            where: this.toString(options.where),
+        });
+    }
+
+    /**
+     * Create a foreign key from the options of `new TableForeignKey()`
+     */
+    private createForeignKey(builder: SchemaBuilder, table: string, foreignKey: unknown): void {
+        const options = this.toOptions(foreignKey);
+        const referencedTable = this.getTableName(options.referencedTableName);
+        const referencedSchema = this.toString(options.referencedSchema);
+
+        builder.addForeignKey(
+            table,
+            this.toString(options.name),
+            this.toStrings(options.columnNames),
+            referencedSchema && !referencedTable.includes('.')
+                ? `${referencedSchema}.${referencedTable}`
+                : referencedTable,
+            this.toStrings(options.referencedColumnNames),
+            {
+                onDelete: this.toString(options.onDelete) as RelationMetadata['onDelete'],
+                onUpdate: this.toString(options.onUpdate) as RelationMetadata['onUpdate'],
+            },
+        );
+    }
+
+    /**
+     * Create a unique constraint from the options of `new TableUnique()`
+     */
+    private createUnique(builder: SchemaBuilder, table: string, unique: unknown): void {
+        const options = this.toOptions(unique);
+        builder.addUnique(table, { name: this.toString(options.name), columns: this.toStrings(options.columnNames) });
+    }
+
+    /**
+     * Create a check constraint from the options of `new TableCheck()`
+     */
+    private createCheck(builder: SchemaBuilder, table: string, check: unknown): void {
+        const options = this.toOptions(check);
+        builder.addCheck(table, {
+            name: this.toString(options.name),
+            expression: this.toString(options.expression) ?? '',
+        });
+    }
+
+    /**
+     * Get the value of an argument; `new Table({...})` and the like evaluate to their options
+     */
+    private toValue(node: Node): unknown {
+        if (
+            Node.isAwaitExpression(node) ||
+            Node.isNonNullExpression(node) ||
+            Node.isParenthesizedExpression(node) ||
+            Node.isAsExpression(node)
+        ) {
+            return this.toValue(node.getExpression());
+        }
+
+        if (Node.isNewExpression(node) && MigrationReplayer.SCHEMA_CLASSES.includes(node.getExpression().getText())) {
+            const [options] = node.getArguments();
+            return options ? this.toValue(options) : {};
+        }
+
+        if (Node.isArrayLiteralExpression(node)) {
+            return node.getElements().map((element) => this.toValue(element));
+        }
+
+        if (Node.isObjectLiteralExpression(node)) {
+            const options: Options = {};
+            for (const property of node.getProperties()) {
+                if (Node.isPropertyAssignment(property)) {
+                    options[property.getName().replace(/^['"]|['"]$/g, '')] = this.toValue(
+                        property.getInitializerOrThrow(),
+                    );
+                } else if (Node.isShorthandPropertyAssignment(property)) {
+                    options[property.getName()] = this.toValue(property.getNameNode());
+                } else {
+                    throw new Error(`Cannot evaluate \`${property.getText()}\``);
+                }
+            }
+            return options;
+        }
+
+        // `const table = await queryRunner.getTable("users")` stands for that table
+        if (Node.isCallExpression(node) && node.getExpression().getText().endsWith('.getTable')) {
+            return { name: this.toValue(node.getArguments()[0]) };
+        }
+
+        if (Node.isIdentifier(node)) {
+            const declaration = node.getSymbol()?.getValueDeclaration();
+            const initializer = Node.isVariableDeclaration(declaration) ? declaration.getInitializer() : undefined;
+            if (initializer && !Node.isLiteralExpression(initializer)) {
+                return this.toValue(initializer);
+            }
+        }
+
+        const evaluated = this.evaluator.tryEvaluate(node);
+        if (!evaluated) {
+            throw new Error(`Cannot evaluate \`${node.getText()}\``);
+        }
+        return evaluated.value;
+    }
+
+    /**
+     * Get the name of a table given by name or as a `Table`
+     */
+    private getTableName(table: unknown): string {
+        if (typeof table === 'string') {
+            return table;
+        }
+
+        const options = this.toOptions(table);
+        const name = this.getName(options);
+        return typeof options.schema === 'string' && !name.includes('.') ? `${options.schema}.${name}` : name;
+    }
+
+    /**
+     * Get the name of a column, index or constraint given by name or as an object
+     */
+    private getName(value: unknown): string {
+        const name = typeof value === 'string' ? value : this.toOptions(value).name;
+        if (typeof name !== 'string') {
+            throw new Error('The name is not a static string');
+        }
+        return name;
+    }
+
+    /**
+     * Check that a value is an options object
+     */
+    private toOptions(value: unknown): Options {
+        if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+            throw new Error('Expected an object');
+        }
+        return value as Options;
+    }
+
+    /**
+     * Check that a value is an array, treating a missing one as empty
+     */
+    private toList(value: unknown): unknown[] {
+        if (value === undefined) {
+            return [];
+        }
+        if (!Array.isArray(value)) {
+            throw new Error('Expected an array');
+        }
+        return value;
+    }
+
+    /**
+     * Get an array of strings, e.g. column names
+     */
+    private toStrings(value: unknown): string[] {
+        const list = this.toList(value);
+        if (!list.every((item): item is string => typeof item === 'string')) {
+            throw new Error('Expected an array of strings');
+        }
+        return list;
+    }
+
+    /**
+     * Get an optional string
+     */
+    private toString(value: unknown): string | undefined {
+        return typeof value === 'string' ? value : undefined;
+    }
+
+    /**
+     * Get an optional number, also given as a numeric string
+     */
+    private toNumber(value: unknown): number | undefined {
+        return value !== undefined && value !== '' && !isNaN(Number(value)) ? Number(value) : undefined;
+    }
+
+    /**
+     * Get the name of the variable a method is called on, e.g. `queryRunner` for `queryRunner.query(...)`
+     */
+    private getReceiver(call: CallExpression): string | undefined {
+        const expression = call.getExpression();
+        return Node.isPropertyAccessExpression(expression) && Node.isIdentifier(expression.getExpression())
+            ? expression.getExpression().getText()
+            : undefined;
+    }
+
+    /**
+     * Order migrations by the timestamp ending their class name, keeping the file order for the others
+     */
+    private sortMigrations(migrations: ClassDeclaration[]): ClassDeclaration[] {
+        const timestamp = (migration: ClassDeclaration) =>
+            Number(migration.getName()?.match(/(\d{13})$/)?.[1] ?? Number.MAX_SAFE_INTEGER);
+
+        return [...migrations].sort((a, b) => timestamp(a) - timestamp(b));
+    }
+}
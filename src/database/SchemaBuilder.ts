@@ -0,0 +1,446 @@
+/**
+ * SchemaBuilder - Keeps the tables of a database as DDL statements or migration steps change them
+ * Tables are addressed by name, qualified with their schema outside of the default one (`audit.log`)
+ */
+
+import CheckMetadata from '../utils/interfaces/CheckMetadata';
+import ColumnMetadata from '../utils/interfaces/ColumnMetadata';
+import DBMLSchema from '../utils/interfaces/DBMLSchema';
+import EntityMetadata from '../utils/interfaces/EntityMetadata';
+import EnumMetadata from '../utils/interfaces/EnumMetadata';
+import IndexMetadata from '../utils/interfaces/IndexMetadata';
+import RelationMetadata from '../utils/interfaces/RelationMetadata';
+import UniqueMetadata from '../utils/interfaces/UniqueMetadata';
+
+export class SchemaBuilder {
+    private tables = new Map<string, EntityMetadata>();
+    private enums = new Map<string, EnumMetadata>();
+    private defaultSchema?: string;
+
+    /**
+     * Names in `defaultSchema` (`public.users`) address the same table as unqualified ones (`users`)
+     */
+    constructor(defaultSchema?: string) {
+        this.defaultSchema = defaultSchema;
+    }
+
+    /**
+     * Create a table, replacing one of the same name unless `ifNotExists` keeps it
+     */
+    createTable(table: string, ifNotExists = false): EntityMetadata {
+        const key = this.getKey(table);
+        const existing = this.tables.get(key);
+        if (existing && ifNotExists) {
+            return existing;
+        }
+
+        const { name, schema } = this.splitName(table);
+        const metadata: EntityMetadata = {
+            name,
+            tableName: name,
+            schema,
+            columns: [],
+            relations: [],
+            indexes: [],
+            uniques: [],
+            checks: [],
+        };
+
+        this.tables.set(key, metadata);
+        return metadata;
+    }
+
+    /**
+     * Get a table, which must exist
+     */
+    getTable(table: string): EntityMetadata {
+        const metadata = this.tables.get(this.getKey(table));
+        if (!metadata) {
+            throw new Error(`Table "${table}" does not exist`);
+        }
+        return metadata;
+    }
+
+    /**
+     * Check if a table exists
+     */
+    hasTable(table: string): boolean {
+        return this.tables.has(this.getKey(table));
+    }
+
+    /**
+     * Drop a table; `ifExists` tolerates a table that does not exist
+     */
+    dropTable(table: string, ifExists = false): void {
+        if (!this.tables.delete(this.getKey(table)) && !ifExists) {
+            throw new Error(`Table "${table}" does not exist`);
+        }
+    }
+
+    /**
+     * Rename a table, updating the foreign keys that reference it
+     * A new name without a schema keeps the table in its schema
+     */
+    renameTable(table: string, newName: string): void {
+        const metadata = this.getTable(table);
+        const oldName = metadata.tableName;
+        const renamed = this.splitName(newName);
+
+        this.tables.delete(this.getKey(table));
+        metadata.name = renamed.name;
+        metadata.tableName = renamed.name;
+        metadata.schema = newName.includes('.') ? renamed.schema : metadata.schema;
+        this.tables.set(this.getKey(this.qualify(metadata.tableName, metadata.schema)), metadata);
+
+        for (const relation of this.getRelations()) {
+            if (relation.target === oldName) {
+                relation.target = metadata.tableName;
+            }
+        }
+    }
+
+    /**
+     * Add a column; enum values without a known enum type create one, named as TypeORM names it
+     */
+    addColumn(table: string, column: ColumnMetadata): void {
+        const metadata = this.getTable(table);
+        if (metadata.columns.some((c) => c.columnName === column.columnName)) {
+            throw new Error(`Column "${column.columnName}" already exists in "${table}"`);
+        }
+
+        this.registerEnum(metadata, column);
+        metadata.columns.push(column);
+    }
+
+    /**
+     * Replace a column, keeping its position; the new column may have another name
+     */
+    replaceColumn(table: string, columnName: string, column: ColumnMetadata): void {
+        const metadata = this.getTable(table);
+        const index = this.getColumnIndex(metadata, columnName);
+
+        if (column.columnName !== columnName) {
+            this.renameColumn(table, columnName, column.columnName);
+        }
+
+        this.registerEnum(metadata, column);
+        metadata.columns[index] = column;
+    }
+
+    /**
+     * Change some properties of a column
+     */
+    alterColumn(table: string, columnName: string, changes: Partial<ColumnMetadata>): void {
+        const metadata = this.getTable(table);
+        const column = metadata.columns[this.getColumnIndex(metadata, columnName)];
+
+        Object.assign(column, changes);
+        this.registerEnum(metadata, column);
+    }
+
+    /**
+     * Drop a column, with the indexes and constraints that cover it
+     */
+    dropColumn(table: string, columnName: string, ifExists = false): void {
+        const metadata = this.getTable(table);
+        if (!metadata.columns.some((c) => c.columnName === columnName)) {
+            if (ifExists) return;
+            throw new Error(`Column "${columnName}" does not exist in "${table}"`);
+        }
+
+        metadata.columns = metadata.columns.filter((c) => c.columnName !== columnName);
+        metadata.indexes = metadata.indexes.filter((i) => !i.columns.includes(columnName));
+        metadata.uniques = metadata.uniques.filter((u) => !u.columns.includes(columnName));
+        metadata.relations = metadata.relations.filter((r) => !r.joinColumns?.some((c) => c.name === columnName));
+    }
+
+    /**
+     * Rename a column, in the indexes and constraints of its table and the foreign keys referencing it
+     */
+    renameColumn(table: string, columnName: string, newName: string): void {
+        const metadata = this.getTable(table);
+        const column = metadata.columns[this.getColumnIndex(metadata, columnName)];
+        const rename = (name: string) => (name === columnName ? newName : name);
+
+        column.columnName = newName;
+        column.propertyName = newName;
+
+        for (const constraint of [...metadata.indexes, ...metadata.uniques]) {
+            constraint.columns = constraint.columns.map(rename);
+        }
+        for (const relation of metadata.relations) {
+            relation.joinColumns?.forEach((c) => (c.name = c.name && rename(c.name)));
+        }
+        for (const relation of this.getRelations().filter((r) => r.target === metadata.tableName)) {
+            relation.joinColumns?.forEach(
+                (c) => (c.referencedColumnName = c.referencedColumnName && rename(c.referencedColumnName)),
+            );
+        }
+    }
+
+    /**
+     * Make columns the primary key of their table
+     */
+    setPrimaryKey(table: string, columnNames: string[], name?: string): void {
+        const metadata = this.getTable(table);
+
+        const missing = columnNames.find((columnName) => !metadata.columns.some((c) => c.columnName === columnName));
+        if (missing) {
+            throw new Error(`Column "${missing}" of the primary key does not exist in "${table}"`);
+        }
+
+        for (const column of metadata.columns) {
+            column.isPrimary = columnNames.includes(column.columnName);
+            column.primaryKeyConstraintName = column.isPrimary ? name : undefined;
+            column.isNullable = column.isPrimary ? false : column.isNullable;
+        }
+    }
+
+    /**
+     * Drop the primary key of a table
+     */
+    dropPrimaryKey(table: string): void {
+        for (const column of this.getTable(table).columns) {
+            column.isPrimary = false;
+            column.primaryKeyConstraintName = undefined;
+        }
+    }
+
+    /**
+     * Add an index
+     */
+    addIndex(table: string, index: IndexMetadata): void {
+        this.getTable(table).indexes.push(index);
+    }
+
+    /**
+     * Drop an index by name; index names are unique in a schema, so the table is optional
+     */
+    dropIndex(name: string, table?: string, ifExists = false): void {
+        const candidates = table ? [this.getTable(table)] : [...this.tables.values()];
+        const { name: indexName } = this.splitName(name);
+
+        const metadata = candidates.find((t) => t.indexes.some((i) => i.name === indexName));
+        if (!metadata) {
+            if (ifExists) return;
+            throw new Error(`Index "${name}" does not exist`);
+        }
+
+        metadata.indexes = metadata.indexes.filter((i) => i.name !== indexName);
+    }
+
+    /**
+     * Add a unique constraint
+     */
+    addUnique(table: string, unique: UniqueMetadata): void {
+        this.getTable(table).uniques.push(unique);
+    }
+
+    /**
+     * Add a check constraint
+     */
+    addCheck(table: string, check: CheckMetadata): void {
+        this.getTable(table).checks.push(check);
+    }
+
+    /**
+     * Add a foreign key, kept as a many-to-one relation named after the constraint
+     * Unnamed foreign keys are named as PostgreSQL names them: `<table>_<columns>_fkey`
+     */
+    addForeignKey(
+        table: string,
+        name: string | undefined,
+        columnNames: string[],
+        referencedTable: string,
+        referencedColumnNames: string[],
+        actions: Pick<RelationMetadata, 'onDelete' | 'onUpdate'> = {},
+    ): void {
+        const metadata = this.getTable(table);
+
+        metadata.relations.push({
+            propertyName: name ?? `${metadata.tableName}_${columnNames.join('_')}_fkey`,
+            type: 'many-to-one',
+            target: this.splitName(referencedTable).name,
+            joinColumns: columnNames.map((c, i) => ({ name: c, referencedColumnName: referencedColumnNames[i] })),
+            ...actions,
+        });
+    }
+
+    /**
+     * Drop a constraint by name: a foreign key, unique, check or primary key constraint, or a unique index
+     */
+    dropConstraint(table: string, name: string, ifExists = false): void {
+        const metadata = this.getTable(table);
+        const count = metadata.relations.length + metadata.uniques.length + metadata.checks.length;
+
+        metadata.relations = metadata.relations.filter((r) => r.propertyName !== name);
+        metadata.uniques = metadata.uniques.filter((u) => u.name !== name);
+        metadata.checks = metadata.checks.filter((c) => c.name !== name);
+
+        if (metadata.relations.length + metadata.uniques.length + metadata.checks.length < count) {
+            return;
+        }
+
+        if (metadata.columns.some((c) => c.isPrimary && c.primaryKeyConstraintName === name)) {
+            this.dropPrimaryKey(table);
+        } else if (metadata.indexes.some((i) => i.name === name)) {
+            this.dropIndex(name, table);
+        } else if (!ifExists) {
+            throw new Error(`Constraint "${name}" does not exist in "${table}"`);
+        }
+    }
+
+    /**
+     * Set the note of a table
+     */
+    setTableNote(table: string, note: string | undefined): void {
+        this.getTable(table).note = note;
+    }
+
+    /**
+     * Create an enum type
+     */
+    createEnum(name: string, values: string[]): void {
+        const { name: enumName, schema } = this.splitName(name);
+        this.enums.set(this.getKey(name), { name: enumName, schema, values });
+    }
+
+    /**
+     * Get an enum type, if it exists
+     */
+    getEnum(name: string): EnumMetadata | undefined {
+        return this.enums.get(this.getKey(name));
+    }
+
+    /**
+     * Add a value to an enum type, after the last one unless `before` or `after` names its neighbour
+     */
+    addEnumValue(name: string, value: string, position?: { before?: string; after?: string }): void {
+        const values = this.getEnumOrThrow(name).values;
+        if (values.includes(value)) return;
+
+        const neighbour = position?.before ?? position?.after;
+        const index = neighbour !== undefined ? values.indexOf(neighbour) : -1;
+        if (index < 0) {
+            values.push(value);
+        } else {
+            values.splice(position?.before !== undefined ? index : index + 1, 0, value);
+        }
+    }
+
+    /**
+     * Rename an enum type; the columns of that type keep it
+     */
+    renameEnum(name: string, newName: string): void {
+        const metadata = this.getEnumOrThrow(name);
+        const oldName = metadata.name;
+
+        this.enums.delete(this.getKey(name));
+        metadata.name = this.splitName(newName).name;
+        this.enums.set(this.getKey(this.qualify(metadata.name, metadata.schema)), metadata);
+
+        for (const column of [...this.tables.values()].flatMap((t) => t.columns)) {
+            if (column.enumName === oldName && column.enumSchema === metadata.schema) {
+                column.enumName = metadata.name;
+                column.type = metadata.name;
+            }
+        }
+    }
+
+    /**
+     * Drop an enum type
+     */
+    dropEnum(name: string, ifExists = false): void {
+        if (!this.enums.delete(this.getKey(name)) && !ifExists) {
+            throw new Error(`Type "${name}" does not exist`);
+        }
+    }
+
+    /**
+     * Get the tables and enums as they are now
+     */
+    build(): DBMLSchema {
+        return {
+            entities: [...this.tables.values()],
+            enums: [...this.enums.values()],
+            joinTables: [],
+            views: [],
+        };
+    }
+
+    /**
+     * Link a column to its enum type; values without a type create `<table>_<column>_enum`, as on MySQL
+     */
+    private registerEnum(table: EntityMetadata, column: ColumnMetadata): void {
+        if (column.enumValues) {
+            const name = column.enumName ?? `${table.tableName}_${column.columnName}_enum`;
+            const qualifiedName = this.qualify(name, column.enumSchema ?? table.schema);
+            if (!this.getEnum(qualifiedName)) {
+                this.createEnum(qualifiedName, column.enumValues);
+            }
+
+            column.enumName = name;
+            column.enumSchema = column.enumSchema ?? table.schema;
+            column.enumValues = undefined;
+        }
+
+        if (column.enumName) {
+            column.type = column.enumName;
+        }
+    }
+
+    /**
+     * Get the position of a column, which must exist
+     */
+    private getColumnIndex(table: EntityMetadata, columnName: string): number {
+        const index = table.columns.findIndex((c) => c.columnName === columnName);
+        if (index < 0) {
+            throw new Error(`Column "${columnName}" does not exist in "${table.tableName}"`);
+        }
+        return index;
+    }
+
+    /**
+     * Get an enum type, which must exist
+     */
+    private getEnumOrThrow(name: string): EnumMetadata {
+        const metadata = this.getEnum(name);
+        if (!metadata) {
+            throw new Error(`Type "${name}" does not exist`);
+        }
+        return metadata;
+    }
+
+    /**
+     * Get the foreign keys of all tables
+     */
+    private getRelations(): RelationMetadata[] {
+        return [...this.tables.values()].flatMap((t) => t.relations);
+    }
+
+    /**
+     * Split a qualified name into its schema and name, leaving out the default schema
+     */
+    private splitName(qualifiedName: string): { name: string; schema?: string } {
+        const index = qualifiedName.lastIndexOf('.');
+        const name = qualifiedName.slice(index + 1);
+        const schema = index >= 0 ? qualifiedName.slice(0, index) : undefined;
+
+        return { name, schema: schema === this.defaultSchema ? undefined : schema };
+    }
+
+    /**
+     * Get the key a table or enum is stored under
+     */
+    private getKey(qualifiedName: string): string {
+        const { name, schema } = this.splitName(qualifiedName);
+        return this.qualify(name, schema);
+    }
+
+    /**
+     * Qualify a name with its schema
+     */
+    private qualify(name: string, schema?: string): string {
+        return schema ? `${schema}.${name}` : name;
+    }
+}
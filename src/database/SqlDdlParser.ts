@@ -0,0 +1,1025 @@
+/**
+ * SqlDdlParser - Applies PostgreSQL and MySQL DDL statements to a SchemaBuilder
+ * Handles CREATE/ALTER/DROP TABLE, CREATE/DROP INDEX, CREATE/ALTER/DROP TYPE, RENAME TABLE and COMMENT ON;
+ * statements that do not change tables, such as INSERT, SET or CREATE FUNCTION, are skipped
+ */
+
+import CheckMetadata from '../utils/interfaces/CheckMetadata';
+import ColumnMetadata from '../utils/interfaces/ColumnMetadata';
+import IndexMetadata from '../utils/interfaces/IndexMetadata';
+import RelationMetadata from '../utils/interfaces/RelationMetadata';
+import { SchemaBuilder } from './SchemaBuilder';
+
+type Token = { kind: 'word' | 'quoted' | 'string' | 'number' | 'symbol'; value: string; start: number; end: number };
+
+// Properties of a column given by its type, e.g. `varchar(255)`, `serial` or `enum('a', 'b')`
+type ColumnType = Pick<
+    ColumnMetadata,
+    'type' | 'length' | 'precision' | 'scale' | 'isArray' | 'enumValues' | 'enumName' | 'enumSchema'
+> & { isSerial?: boolean };
+
+// Statement that could not be applied, by its position in the script
+type StatementError = { line: number; column: number; message: string };
+
+// Table and columns a foreign key references
+type Reference = { table: string; columns: string[]; actions: Pick<RelationMetadata, 'onDelete' | 'onUpdate'> };
+
+export class SqlDdlParser {
+    // Spellings of the same type, by the name TypeORM uses
+    private static readonly TYPE_ALIASES: Record<string, string> = {
+        'character varying': 'varchar',
+        'character': 'char',
+        'int': 'integer',
+        'int4': 'integer',
+        'int2': 'smallint',
+        'int8': 'bigint',
+        'bool': 'boolean',
+        'float4': 'real',
+        'float8': 'double precision',
+        'double': 'double precision',
+        'timestamp without time zone': 'timestamp',
+        'timestamp with time zone': 'timestamptz',
+        'time without time zone': 'time',
+    };
+
+    // Auto-incrementing PostgreSQL types, by the integer type they are
+    private static readonly SERIAL_TYPES: Record<string, string> = {
+        serial: 'integer',
+        serial4: 'integer',
+        bigserial: 'bigint',
+        serial8: 'bigint',
+        smallserial: 'smallint',
+        serial2: 'smallint',
+    };
+
+    // Types whose argument is a length rather than a precision
+    private static readonly LENGTH_TYPES = ['varchar', 'char', 'nvarchar', 'nchar', 'varbinary', 'binary', 'varchar2'];
+
+    // Integer types whose MySQL argument is a display width, not part of the type
+    private static readonly INTEGER_TYPES = ['integer', 'smallint', 'bigint', 'mediumint', 'tinyint'];
+
+    // Keywords that end the type of a column definition
+    private static readonly COLUMN_KEYWORDS = [
+        'NOT',
+        'NULL',
+        'DEFAULT',
+        'PRIMARY',
+        'UNIQUE',
+        'REFERENCES',
+        'CHECK',
+        'CONSTRAINT',
+        'AUTO_INCREMENT',
+        'AUTOINCREMENT',
+        'GENERATED',
+        'IDENTITY',
+        'COLLATE',
+        'CHARSET',
+        'COMMENT',
+        'ON',
+        'AS',
+        'USING',
+        'FIRST',
+        'AFTER',
+    ];
+
+    // Keywords that start a table constraint or index in CREATE TABLE and ALTER TABLE ... ADD
+    private static readonly TABLE_CONSTRAINTS = [
+        'CONSTRAINT',
+        'PRIMARY',
+        'UNIQUE',
+        'FOREIGN',
+        'CHECK',
+        'KEY',
+        'INDEX',
+        'FULLTEXT',
+        'SPATIAL',
+        'EXCLUDE',
+    ];
+
+    private static readonly INDEX_TYPES: IndexMetadata['type'][] = ['btree', 'hash', 'gist', 'gin'];
+    private static readonly UUID_FUNCTIONS = ['uuid_generate_v4()', 'gen_random_uuid()', 'newsequentialid()', 'uuid()'];
+
+    private sql = '';
+    private tokens: Token[] = [];
+    private position = 0;
+
+    /**
+     * Apply every statement of a script, returning the statements that could not be applied with the reason
+     */
+    apply(sql: string, builder: SchemaBuilder): StatementError[] {
+        this.sql = sql;
+        const errors: StatementError[] = [];
+
+        for (const statement of this.splitStatements(this.tokenize(sql))) {
+            this.tokens = statement;
+            this.position = 0;
+
+            try {
+                this.applyStatement(builder);
+            } catch (error) {
+                const text = this.text(statement).replace(/\s+/g, ' ');
+                const lines = sql.slice(0, statement[0].start).split('\n');
+                errors.push({
+                    line: lines.length,
+                    column: lines[lines.length - 1].length + 1,
+                    message: `${error instanceof Error ? error.message : error} in \`${text.length > 80 ? text.slice(0, 77) + '...' : text}\``,
+                });
+            }
+        }
+
+        return errors;
+    }
+
+    /**
+     * Parse a column type, e.g. `character varying(255)`, `numeric(10,2)` or `int[]`
+     * With a builder, types named after one of its enums are linked to it
+     */
+    parseType(type: string, builder?: SchemaBuilder): ColumnType {
+        this.sql = type;
+        return this.getColumnType(this.tokenize(type), builder);
+    }
+
+    /**
+     * Parse a default expression; sequences and uuid functions make the column generated instead
+     * Casts and parentheses are dropped and string literals unquoted, as TypeORM writes defaults;
+     * anything but a string, number or boolean, such as `now()`, is flagged as an expression
+     */
+    parseDefault(
+        expression: string,
+    ): Partial<Pick<ColumnMetadata, 'default' | 'isDefaultExpression' | 'isGenerated' | 'generationStrategy'>> {
+        let value = expression.trim();
+        for (let previous = ''; previous !== value;) {
+            previous = value;
+            value = value.replace(/::(?:"[^"]*"|[A-Za-z_][\w ]*)(?:\.(?:"[^"]*"|[A-Za-z_]\w*))*(?:\[\])?$/, '').trim();
+            if (this.isWrapped(value)) {
+                value = value.slice(1, -1).trim();
+            }
+        }
+
+        if (/^nextval\(/i.test(value)) {
+            return { default: undefined, isGenerated: true, generationStrategy: 'increment' };
+        }
+        // pg_dump qualifies functions with their schema: public.uuid_generate_v4()
+        if (SqlDdlParser.UUID_FUNCTIONS.includes(value.replace(/^\w+\.(?=\w+\()/, '').toLowerCase())) {
+            return { default: undefined, isGenerated: true, generationStrategy: 'uuid' };
+        }
+
+        const quoted = value.match(/^'((?:[^']|'')*)'$/s);
+        if (quoted) {
+            return { default: quoted[1].replace(/''/g, "'") };
+        }
+
+        if (/^null$/i.test(value)) {
+            return { default: undefined };
+        }
+        if (/^(true|false)$/i.test(value)) {
+            return { default: value.toLowerCase() };
+        }
+        return /^-?\d+(\.\d+)?$/.test(value) ? { default: value } : { default: value, isDefaultExpression: true };
+    }
+
+    /**
+     * Apply the statement in `tokens`
+     */
+    private applyStatement(builder: SchemaBuilder): void {
+        if (this.accept('CREATE')) {
+            this.accept('OR', 'REPLACE');
+            const isUnique = this.accept('UNIQUE');
+            const isFulltext = this.accept('FULLTEXT');
+            const isSpatial = this.accept('SPATIAL');
+            this.accept('GLOBAL') || this.accept('LOCAL');
+            this.accept('TEMPORARY') || this.accept('TEMP') || this.accept('UNLOGGED');
+
+            if (this.accept('TABLE')) {
+                this.createTable(builder);
+            } else if (this.accept('INDEX')) {
+                this.createIndex(builder, { isUnique, isFulltext, isSpatial });
+            } else if (this.accept('TYPE')) {
+                this.createType(builder);
+            }
+        } else if (this.accept('ALTER', 'TABLE')) {
+            this.alterTable(builder);
+        } else if (this.accept('ALTER', 'TYPE')) {
+            this.alterType(builder);
+        } else if (this.accept('DROP', 'TABLE')) {
+            const ifExists = this.accept('IF', 'EXISTS');
+            this.parseNameList().forEach((table) => builder.dropTable(table, ifExists));
+        } else if (this.accept('DROP', 'INDEX')) {
+            this.accept('CONCURRENTLY');
+            const ifExists = this.accept('IF', 'EXISTS');
+            const name = this.parseName();
+            builder.dropIndex(name, this.accept('ON') ? this.parseName() : undefined, ifExists);
+        } else if (this.accept('DROP', 'TYPE')) {
+            const ifExists = this.accept('IF', 'EXISTS');
+            this.parseNameList().forEach((name) => builder.dropEnum(name, ifExists));
+        } else if (this.accept('RENAME', 'TABLE')) {
+            do {
+                const table = this.parseName();
+                this.expect('TO');
+                builder.renameTable(table, this.parseName());
+            } while (this.accept(','));
+        } else if (this.accept('COMMENT', 'ON')) {
+            this.comment(builder);
+        }
+    }
+
+    /**
+     * CREATE TABLE [IF NOT EXISTS] name (columns and constraints) [options]
+     */
+    private createTable(builder: SchemaBuilder): void {
+        const ifNotExists = this.accept('IF', 'NOT', 'EXISTS');
+        const table = this.parseName();
+
+        // CREATE TABLE ... AS SELECT and partitions of another table are not tracked
+        if (!this.isSymbol(this.peek(), '(') || (ifNotExists && builder.hasTable(table))) {
+            return;
+        }
+
+        builder.createTable(table);
+        for (const element of this.splitList(this.parseGroup())) {
+            this.parseTokens(element, () => {
+                if (this.isWord(this.peek(), ...SqlDdlParser.TABLE_CONSTRAINTS)) {
+                    this.addTableConstraint(builder, table);
+                } else if (!this.isWord(this.peek(), 'LIKE')) {
+                    this.addColumnDefinition(builder, table);
+                }
+            });
+        }
+
+        // MySQL table options: ENGINE=InnoDB COMMENT='...'
+        while (!this.atEnd()) {
+            if (this.accept('COMMENT')) {
+                this.accept('=');
+                builder.setTableNote(table, this.next().value);
+            } else {
+                this.next();
+            }
+        }
+    }
+
+    /**
+     * A column definition: name type [NOT NULL] [DEFAULT expr] [PRIMARY KEY] [UNIQUE] [REFERENCES ...] ...
+     * Replaces the column named `replacing` instead of adding one, for MODIFY and CHANGE
+     */
+    private addColumnDefinition(builder: SchemaBuilder, table: string, replacing?: string): void {
+        const name = this.parseIdentifier();
+        const { isSerial, ...type } = this.getColumnType(this.readUntil(SqlDdlParser.COLUMN_KEYWORDS), builder);
+        const column: ColumnMetadata = {
+            propertyName: name,
+            columnName: name,
+            ...type,
+            isPrimary: false,
+            isGenerated: !!isSerial,
+            generationStrategy: isSerial ? 'increment' : undefined,
+            isNullable: true,
+            isUnique: false,
+        };
+
+        const references: { name?: string; reference: Reference }[] = [];
+        const checks: CheckMetadata[] = [];
+        let constraintName: string | undefined;
+
+        while (!this.atEnd()) {
+            if (this.accept('NOT', 'NULL')) {
+                column.isNullable = false;
+            } else if (this.accept('NULL')) {
+                column.isNullable = true;
+            } else if (this.accept('DEFAULT')) {
+                // Dumps write `DEFAULT NULL`, maybe cast, which readUntil would stop at
+                const prefix = this.accept('NULL') ? 'NULL' : '';
+                const expression = prefix + this.text(this.readUntil(SqlDdlParser.COLUMN_KEYWORDS));
+                Object.assign(column, this.parseDefault(expression));
+            } else if (this.accept('CONSTRAINT')) {
+                constraintName = this.parseIdentifier();
+            } else if (this.accept('PRIMARY', 'KEY')) {
+                column.isPrimary = true;
+                column.isNullable = false;
+                column.primaryKeyConstraintName = constraintName;
+            } else if (this.accept('UNIQUE')) {
+                this.accept('KEY');
+                column.isUnique = true;
+            } else if (this.isWord(this.peek(), 'REFERENCES')) {
+                references.push({ name: constraintName, reference: this.parseReference() });
+            } else if (this.accept('CHECK')) {
+                checks.push({ name: constraintName, expression: this.text(this.parseGroup()) });
+            } else if (this.accept('AUTO_INCREMENT') || this.accept('AUTOINCREMENT') || this.accept('IDENTITY')) {
+                column.isGenerated = true;
+                column.generationStrategy = 'increment';
+                this.skipGroup();
+            } else if (this.accept('GENERATED')) {
+                this.accept('ALWAYS') || this.accept('BY', 'DEFAULT');
+                if (this.accept('AS', 'IDENTITY')) {
+                    column.isGenerated = true;
+                    column.generationStrategy = 'increment';
+                }
+                this.accept('AS');
+                this.skipGroup();
+            } else if (this.accept('AS')) {
+                // MySQL generated column: AS (expression) [STORED | VIRTUAL]
+                this.skipGroup();
+            } else if (this.accept('COLLATE') || this.accept('CHARACTER', 'SET') || this.accept('CHARSET')) {
+                this.next();
+            } else if (this.accept('COMMENT')) {
+                column.comment = this.next().value;
+            } else if (this.accept('ON', 'UPDATE')) {
+                this.readUntil(SqlDdlParser.COLUMN_KEYWORDS);
+            } else {
+                this.next();
+            }
+        }
+
+        if (replacing) {
+            builder.replaceColumn(table, replacing, column);
+        } else {
+            builder.addColumn(table, column);
+        }
+
+        for (const { name: fkName, reference } of references) {
+            builder.addForeignKey(table, fkName, [name], reference.table, reference.columns, reference.actions);
+        }
+        checks.forEach((check) => builder.addCheck(table, check));
+    }
+
+    /**
+     * A table constraint or MySQL index:
+     * [CONSTRAINT name] PRIMARY KEY (...) | UNIQUE [KEY] [name] (...) | FOREIGN KEY (...) REFERENCES ... | CHECK (...)
+     * [FULLTEXT | SPATIAL] KEY | INDEX [name] (...)
+     */
+    private addTableConstraint(builder: SchemaBuilder, table: string): void {
+        let name: string | undefined;
+        if (this.accept('CONSTRAINT') && !this.isWord(this.peek(), ...SqlDdlParser.TABLE_CONSTRAINTS)) {
+            name = this.parseIdentifier();
+        }
+
+        if (this.accept('PRIMARY', 'KEY')) {
+            this.skipIndexType();
+            builder.setPrimaryKey(table, this.parseColumnNames(), name);
+        } else if (this.accept('UNIQUE')) {
+            this.accept('KEY') || this.accept('INDEX');
+            const uniqueName =
+                this.isSymbol(this.peek(), '(') || this.isWord(this.peek(), 'USING') ? name : this.parseIdentifier();
+            this.skipIndexType();
+            builder.addUnique(table, { name: uniqueName, columns: this.parseColumnNames() });
+        } else if (this.accept('FOREIGN', 'KEY')) {
+            const foreignKeyName = this.isSymbol(this.peek(), '(') ? name : (name ?? this.parseIdentifier());
+            if (!this.isSymbol(this.peek(), '(')) {
+                this.parseIdentifier();
+            }
+            const columns = this.parseColumnNames();
+            const reference = this.parseReference(builder);
+            builder.addForeignKey(
+                table,
+                foreignKeyName,
+                columns,
+                reference.table,
+                reference.columns,
+                reference.actions,
+            );
+        } else if (this.accept('CHECK')) {
+            builder.addCheck(table, { name, expression: this.text(this.parseGroup()) });
+        } else if (!this.accept('EXCLUDE')) {
+            const isFulltext = this.accept('FULLTEXT');
+            const isSpatial = this.accept('SPATIAL');
+            this.accept('KEY') || this.accept('INDEX');
+
+            const indexName =
+                this.isSymbol(this.peek(), '(') || this.isWord(this.peek(), 'USING')
+                    ? undefined
+                    : this.parseIdentifier();
+            this.skipIndexType();
+            builder.addIndex(table, {
+                name: indexName,
+                columns: this.parseColumnNames(),
+                isUnique: false,
+                isFulltext: isFulltext || undefined,
+                isSpatial: isSpatial || undefined,
+            });
+        }
+    }
+
+    /**
+     * REFERENCES table [(columns)] [ON DELETE action] [ON UPDATE action]; without columns, the primary key
+     */
+    private parseReference(builder?: SchemaBuilder): Reference {
+        this.expect('REFERENCES');
+        const table = this.parseName();
+        const primaryKey =
+            builder?.hasTable(table) === true
+                ? builder
+                      .getTable(table)
+                      .columns.filter((c) => c.isPrimary)
+                      .map((c) => c.columnName)
+                : ['id'];
+        const columns = this.isSymbol(this.peek(), '(') ? this.parseColumnNames() : primaryKey;
+        const actions: Reference['actions'] = {};
+
+        while (!this.atEnd()) {
+            if (this.accept('ON', 'DELETE')) {
+                actions.onDelete = this.parseReferentialAction();
+            } else if (this.accept('ON', 'UPDATE')) {
+                actions.onUpdate = this.parseReferentialAction();
+            } else if (this.accept('MATCH') || this.accept('INITIALLY')) {
+                this.next();
+            } else if (this.accept('DEFERRABLE') || this.accept('NOT', 'DEFERRABLE')) {
+                continue;
+            } else {
+                break;
+            }
+        }
+
+        return { table, columns, actions };
+    }
+
+    /**
+     * CASCADE | RESTRICT | SET NULL | SET DEFAULT | NO ACTION
+     */
+    private parseReferentialAction(): RelationMetadata['onDelete'] {
+        if (this.accept('SET', 'NULL')) return 'SET NULL';
+        if (this.accept('SET', 'DEFAULT')) return 'SET DEFAULT';
+        if (this.accept('NO', 'ACTION')) return 'NO ACTION';
+        if (this.accept('CASCADE')) return 'CASCADE';
+        if (this.accept('RESTRICT')) return 'RESTRICT';
+        throw new Error(`Unknown referential action "${this.peek()?.value}"`);
+    }
+
+    /**
+     * CREATE [UNIQUE] INDEX [CONCURRENTLY] [IF NOT EXISTS] [name] ON table [USING method] (columns) [WHERE predicate]
+     */
+    private createIndex(
+        builder: SchemaBuilder,
+        kind: Pick<IndexMetadata, 'isUnique' | 'isFulltext' | 'isSpatial'>,
+    ): void {
+        this.accept('CONCURRENTLY');
+        const ifNotExists = this.accept('IF', 'NOT', 'EXISTS');
+        const name = this.isWord(this.peek(), 'ON') ? undefined : this.parseIdentifier();
+
+        let type = this.parseIndexType();
+        this.expect('ON');
+        this.accept('ONLY');
+        const table = this.parseName();
+        type = this.parseIndexType() ?? type;
+
+        const columns = this.parseColumnNames();
+        while (!this.atEnd() && !this.isWord(this.peek(), 'WHERE')) {
+            this.next();
+        }
+        const where = this.accept('WHERE') ? this.text(this.readUntil([])) : undefined;
+
+        if (ifNotExists && name && builder.getTable(table).indexes.some((i) => i.name === name)) {
+            return;
+        }
+
+        builder.addIndex(table, {
+            name,
+            columns,
+            isUnique: kind.isUnique,
+            isFulltext: kind.isFulltext || undefined,
+            isSpatial: kind.isSpatial || undefined,
+            where,
+            type,
+        });
+    }
+
+    /**
+     * CREATE TYPE name AS ENUM ('a', 'b'); other kinds of types are not tracked
+     */
+    private createType(builder: SchemaBuilder): void {
+        const name = this.parseName();
+        if (this.accept('AS', 'ENUM')) {
+            builder.createEnum(
+                name,
+                this.splitList(this.parseGroup()).map((value) => value[0].value),
+            );
+        }
+    }
+
+    /**
+     * ALTER TABLE [IF EXISTS] [ONLY] name action [, action ...]
+     */
+    private alterTable(builder: SchemaBuilder): void {
+        this.accept('IF', 'EXISTS');
+        this.accept('ONLY');
+        let table = this.parseName();
+
+        for (const action of this.splitList(this.readUntil([]))) {
+            this.parseTokens(action, () => {
+                table = this.alterTableAction(builder, table);
+            });
+        }
+    }
+
+    /**
+     * Apply one action of ALTER TABLE, returning the name of the table after it
+     */
+    private alterTableAction(builder: SchemaBuilder, table: string): string {
+        if (this.accept('ADD')) {
+            if (this.isWord(this.peek(), ...SqlDdlParser.TABLE_CONSTRAINTS)) {
+                this.addTableConstraint(builder, table);
+                return table;
+            }
+
+            this.accept('COLUMN');
+            const ifNotExists = this.accept('IF', 'NOT', 'EXISTS');
+            const name = this.peek()?.value;
+            if (!ifNotExists || !builder.getTable(table).columns.some((c) => c.columnName === name)) {
+                this.addColumnDefinition(builder, table);
+            }
+        } else if (this.accept('DROP')) {
+            if (this.accept('CONSTRAINT') || this.accept('FOREIGN', 'KEY') || this.accept('CHECK')) {
+                const ifExists = this.accept('IF', 'EXISTS');
+                builder.dropConstraint(table, this.parseIdentifier(), ifExists);
+            } else if (this.accept('PRIMARY', 'KEY')) {
+                builder.dropPrimaryKey(table);
+            } else if (this.accept('INDEX') || this.accept('KEY')) {
+                builder.dropIndex(this.parseIdentifier(), table);
+            } else {
+                this.accept('COLUMN');
+                const ifExists = this.accept('IF', 'EXISTS');
+                builder.dropColumn(table, this.parseIdentifier(), ifExists);
+            }
+        } else if (this.accept('RENAME')) {
+            if (this.accept('TO') || this.accept('AS')) {
+                const newName = this.parseName();
+                builder.renameTable(table, newName);
+                return newName;
+            }
+            if (this.accept('CONSTRAINT') || this.accept('INDEX') || this.accept('KEY')) {
+                // Only the name changes, which is not compared
+                return table;
+            }
+
+            this.accept('COLUMN');
+            const column = this.parseIdentifier();
+            this.expect('TO');
+            builder.renameColumn(table, column, this.parseIdentifier());
+        } else if (this.accept('ALTER')) {
+            this.accept('COLUMN');
+            this.alterColumn(builder, table, this.parseIdentifier());
+        } else if (this.accept('MODIFY')) {
+            this.accept('COLUMN');
+            this.addColumnDefinition(builder, table, this.peek()?.value);
+        } else if (this.accept('CHANGE')) {
+            this.accept('COLUMN');
+            this.addColumnDefinition(builder, table, this.parseIdentifier());
+        }
+
+        // OWNER TO, ENABLE TRIGGER, SET (...) and the like do not change the columns
+        return table;
+    }
+
+    /**
+     * ALTER COLUMN name SET/DROP NOT NULL | SET DEFAULT expr | DROP DEFAULT | [SET DATA] TYPE type [USING expr]
+     */
+    private alterColumn(builder: SchemaBuilder, table: string, column: string): void {
+        if (this.accept('SET', 'NOT', 'NULL')) {
+            builder.alterColumn(table, column, { isNullable: false });
+        } else if (this.accept('DROP', 'NOT', 'NULL')) {
+            builder.alterColumn(table, column, { isNullable: true });
+        } else if (this.accept('SET', 'DEFAULT')) {
+            const changes = this.parseDefault(this.text(this.readUntil([])));
+            builder.alterColumn(table, column, { isDefaultExpression: undefined, ...changes });
+        } else if (this.accept('DROP', 'DEFAULT')) {
+            builder.alterColumn(table, column, { default: undefined, isDefaultExpression: undefined });
+        } else if (this.accept('SET', 'DATA', 'TYPE') || this.accept('TYPE')) {
+            const { isSerial: _isSerial, ...type } = this.getColumnType(this.readUntil(['USING', 'COLLATE']), builder);
+            builder.alterColumn(table, column, {
+                length: undefined,
+                precision: undefined,
+                scale: undefined,
+                isArray: undefined,
+                enumName: undefined,
+                enumSchema: undefined,
+                ...type,
+            });
+        } else if (this.accept('ADD', 'GENERATED')) {
+            builder.alterColumn(table, column, { isGenerated: true, generationStrategy: 'increment' });
+        } else if (this.accept('DROP', 'IDENTITY')) {
+            builder.alterColumn(table, column, { isGenerated: false, generationStrategy: undefined });
+        }
+    }
+
+    /**
+     * ALTER TYPE name ADD VALUE 'value' [BEFORE | AFTER 'value'] | RENAME TO new_name | RENAME VALUE 'a' TO 'b'
+     */
+    private alterType(builder: SchemaBuilder): void {
+        const name = this.parseName();
+
+        if (this.accept('ADD', 'VALUE')) {
+            this.accept('IF', 'NOT', 'EXISTS');
+            const value = this.next().value;
+            const position = this.accept('BEFORE')
+                ? { before: this.next().value }
+                : this.accept('AFTER')
+                  ? { after: this.next().value }
+                  : undefined;
+            builder.addEnumValue(name, value, position);
+        } else if (this.accept('RENAME', 'TO')) {
+            builder.renameEnum(name, this.parseIdentifier());
+        } else if (this.accept('RENAME', 'VALUE')) {
+            const value = this.next().value;
+            this.expect('TO');
+            const newValue = this.next().value;
+            const values = builder.getEnum(name)?.values;
+            values?.splice(values.indexOf(value), 1, newValue);
+        }
+    }
+
+    /**
+     * COMMENT ON TABLE name IS 'note' | COMMENT ON COLUMN table.column IS 'note'
+     */
+    private comment(builder: SchemaBuilder): void {
+        const isTable = this.accept('TABLE');
+        if (!isTable && !this.accept('COLUMN')) {
+            return;
+        }
+
+        const name = this.parseName();
+        this.expect('IS');
+        const token = this.next();
+        const note = token.kind === 'string' ? token.value : undefined;
+
+        if (isTable) {
+            builder.setTableNote(name, note);
+        } else {
+            const index = name.lastIndexOf('.');
+            builder.alterColumn(name.slice(0, index), name.slice(index + 1), { comment: note });
+        }
+    }
+
+    /**
+     * Get the column properties a type sets, linking types named after an enum to it
+     */
+    private getColumnType(tokens: Token[], builder?: SchemaBuilder): ColumnType {
+        let name = '';
+        let args: Token[][] = [];
+        let isArray = false;
+
+        for (let i = 0; i < tokens.length; i++) {
+            const token = tokens[i];
+
+            if (this.isSymbol(token, '(')) {
+                const end = this.findClosing(tokens, i);
+                args = this.splitList(tokens.slice(i + 1, end));
+                i = end;
+            } else if (this.isSymbol(token, '[')) {
+                isArray = true;
+                while (i < tokens.length && !this.isSymbol(tokens[i], ']')) i++;
+            } else if (this.isWord(token, 'ARRAY')) {
+                isArray = true;
+            } else if (this.isSymbol(token, '.')) {
+                name += '.';
+            } else if (!this.isWord(token, 'UNSIGNED', 'SIGNED', 'ZEROFILL')) {
+                const value = token.kind === 'word' ? token.value.toLowerCase() : token.value;
+                name += name && !name.endsWith('.') ? ` ${value}` : value;
+            }
+        }
+
+        const serialType = SqlDdlParser.SERIAL_TYPES[name];
+        const type = serialType ?? SqlDdlParser.TYPE_ALIASES[name] ?? name;
+        const columnType: ColumnType = { type, isArray: isArray || undefined, isSerial: !!serialType || undefined };
+
+        const enumType = builder?.getEnum(type);
+        if (enumType) {
+            return { ...columnType, type: enumType.name, enumName: enumType.name, enumSchema: enumType.schema };
+        }
+
+        if (type === 'enum') {
+            return { ...columnType, enumValues: args.map((arg) => arg[0].value) };
+        }
+
+        const numbers = args.map((arg) => Number(arg[0]?.value)).filter((n) => !isNaN(n));
+        if (numbers.length === 0) {
+            return columnType;
+        }
+
+        if (SqlDdlParser.LENGTH_TYPES.includes(type)) {
+            return { ...columnType, length: numbers[0] };
+        }
+        if (SqlDdlParser.INTEGER_TYPES.includes(type)) {
+            // Display widths are not part of the type, but tinyint(1) is MySQL's boolean
+            return type === 'tinyint' && numbers[0] === 1 ? { ...columnType, precision: 1 } : columnType;
+        }
+        return { ...columnType, precision: numbers[0], scale: numbers[1] };
+    }
+
+    /**
+     * Get the columns of an index or constraint; expressions are kept as written
+     * MySQL prefix lengths (`name(10)`) and sort orders are dropped
+     */
+    private parseColumnNames(): string[] {
+        return this.splitList(this.parseGroup()).map((tokens) => {
+            const [first, second, third] = tokens;
+            const isColumn =
+                first.kind === 'quoted' ||
+                (first.kind === 'word' && (!this.isSymbol(second, '(') || third?.kind === 'number'));
+            return isColumn ? first.value : this.text(tokens);
+        });
+    }
+
+    /**
+     * Get the method of an index, `USING btree`, when it is one DBML supports
+     */
+    private parseIndexType(): IndexMetadata['type'] | undefined {
+        if (!this.accept('USING')) {
+            return undefined;
+        }
+
+        const method = this.next().value.toLowerCase() as IndexMetadata['type'];
+        return SqlDdlParser.INDEX_TYPES.includes(method) ? method : undefined;
+    }
+
+    /**
+     * Skip `USING BTREE` in a MySQL key definition
+     */
+    private skipIndexType(): void {
+        this.parseIndexType();
+    }
+
+    /**
+     * Get a comma-separated list of names
+     */
+    private parseNameList(): string[] {
+        const names = [this.parseName()];
+        while (this.accept(',')) {
+            names.push(this.parseName());
+        }
+        return names;
+    }
+
+    /**
+     * Get a name, qualified with its schema when it has one: `"public"."users"` is `public.users`
+     */
+    private parseName(): string {
+        let name = this.parseIdentifier();
+        while (this.isSymbol(this.peek(), '.')) {
+            this.next();
+            name += `.${this.parseIdentifier()}`;
+        }
+        return name;
+    }
+
+    /**
+     * Get a quoted or unquoted identifier
+     */
+    private parseIdentifier(): string {
+        const token = this.next();
+        if (token.kind !== 'word' && token.kind !== 'quoted' && token.kind !== 'string') {
+            throw new Error(`Expected a name but found "${token.value}"`);
+        }
+        return token.value;
+    }
+
+    /**
+     * Get the tokens inside the parentheses that follow
+     */
+    private parseGroup(): Token[] {
+        if (!this.isSymbol(this.peek(), '(')) {
+            throw new Error(`Expected "(" but found "${this.peek()?.value ?? 'end of statement'}"`);
+        }
+
+        const end = this.findClosing(this.tokens, this.position);
+        const tokens = this.tokens.slice(this.position + 1, end);
+        this.position = end + 1;
+        return tokens;
+    }
+
+    /**
+     * Skip the parenthesized arguments that may follow, e.g. IDENTITY(1,1)
+     */
+    private skipGroup(): void {
+        if (this.isSymbol(this.peek(), '(')) {
+            this.parseGroup();
+        }
+    }
+
+    /**
+     * Read tokens up to one of the keywords, outside of parentheses
+     */
+    private readUntil(keywords: string[]): Token[] {
+        const start = this.position;
+        let depth = 0;
+
+        while (!this.atEnd()) {
+            const token = this.peek()!;
+            if (depth === 0 && this.isWord(token, ...keywords)) {
+                // CHARACTER SET ends a type, CHARACTER VARYING does not
+                break;
+            }
+            if (depth === 0 && this.isWord(token, 'CHARACTER') && this.isWord(this.peek(1), 'SET')) {
+                break;
+            }
+            depth += this.isSymbol(token, '(') ? 1 : this.isSymbol(token, ')') ? -1 : 0;
+            this.position++;
+        }
+
+        return this.tokens.slice(start, this.position);
+    }
+
+    /**
+     * Consume a sequence of keywords or symbols if the next tokens match it
+     */
+    private accept(...sequence: string[]): boolean {
+        const matches = sequence.every((value, i) => {
+            const token = this.peek(i);
+            return token?.kind === 'symbol' ? token.value === value : this.isWord(token, value);
+        });
+
+        if (matches) {
+            this.position += sequence.length;
+        }
+        return matches;
+    }
+
+    /**
+     * Consume a sequence of keywords, which must follow
+     */
+    private expect(...sequence: string[]): void {
+        if (!this.accept(...sequence)) {
+            throw new Error(`Expected ${sequence.join(' ')} but found "${this.peek()?.value ?? 'end of statement'}"`);
+        }
+    }
+
+    /**
+     * Parse other tokens with the same methods, e.g. an element of CREATE TABLE
+     */
+    private parseTokens(tokens: Token[], parse: () => void): void {
+        const [tokensBefore, positionBefore] = [this.tokens, this.position];
+        this.tokens = tokens;
+        this.position = 0;
+
+        try {
+            parse();
+        } finally {
+            this.tokens = tokensBefore;
+            this.position = positionBefore;
+        }
+    }
+
+    /**
+     * Get the next token, which must exist
+     */
+    private next(): Token {
+        const token = this.tokens[this.position++];
+        if (!token) {
+            throw new Error('Unexpected end of statement');
+        }
+        return token;
+    }
+
+    /**
+     * Look at a token ahead without consuming it
+     */
+    private peek(offset = 0): Token | undefined {
+        return this.tokens[this.position + offset];
+    }
+
+    /**
+     * Check if all tokens were consumed
+     */
+    private atEnd(): boolean {
+        return this.position >= this.tokens.length;
+    }
+
+    /**
+     * Check if a token is one of the keywords, case-insensitively
+     */
+    private isWord(token: Token | undefined, ...words: string[]): boolean {
+        return token?.kind === 'word' && words.includes(token.value.toUpperCase());
+    }
+
+    /**
+     * Check if a token is the symbol
+     */
+    private isSymbol(token: Token | undefined, symbol: string): boolean {
+        return token?.kind === 'symbol' && token.value === symbol;
+    }
+
+    /**
+     * Get the position of the parenthesis closing the one at `start`
+     */
+    private findClosing(tokens: Token[], start: number): number {
+        let depth = 0;
+        for (let i = start; i < tokens.length; i++) {
+            depth += this.isSymbol(tokens[i], '(') ? 1 : this.isSymbol(tokens[i], ')') ? -1 : 0;
+            if (depth === 0) {
+                return i;
+            }
+        }
+        throw new Error('Unbalanced parentheses');
+    }
+
+    /**
+     * Split tokens at the commas outside of parentheses
+     */
+    private splitList(tokens: Token[]): Token[][] {
+        const items: Token[][] = [[]];
+        let depth = 0;
+
+        for (const token of tokens) {
+            depth += this.isSymbol(token, '(') ? 1 : this.isSymbol(token, ')') ? -1 : 0;
+            if (depth === 0 && this.isSymbol(token, ',')) {
+                items.push([]);
+            } else {
+                items[items.length - 1].push(token);
+            }
+        }
+
+        return items.filter((item) => item.length > 0);
+    }
+
+    /**
+     * Split a script into statements at the semicolons
+     */
+    private splitStatements(tokens: Token[]): Token[][] {
+        const statements: Token[][] = [[]];
+        for (const token of tokens) {
+            if (this.isSymbol(token, ';')) {
+                statements.push([]);
+            } else {
+                statements[statements.length - 1].push(token);
+            }
+        }
+        return statements.filter((statement) => statement.length > 0);
+    }
+
+    /**
+     * Get the source text of tokens, as written
+     */
+    private text(tokens: Token[]): string {
+        return tokens.length > 0 ? this.sql.slice(tokens[0].start, tokens[tokens.length - 1].end) : '';
+    }
+
+    /**
+     * Check if an expression is wrapped in a single pair of parentheses
+     */
+    private isWrapped(value: string): boolean {
+        if (!value.startsWith('(') || !value.endsWith(')')) {
+            return false;
+        }
+
+        let depth = 0;
+        for (let i = 0; i < value.length - 1; i++) {
+            depth += value[i] === '(' ? 1 : value[i] === ')' ? -1 : 0;
+            if (depth === 0) {
+                return false;
+            }
+        }
+        return true;
+    }
+
+    /**
+     * Split SQL into words, quoted identifiers, strings, numbers and symbols, dropping comments
+     */
+    private tokenize(sql: string): Token[] {
+        const tokens: Token[] = [];
+        const patterns: [Token['kind'] | 'skip', RegExp][] = [
+            // Whitespace, comments and psql meta-commands (`\connect`, `\restrict`) of pg_dump
+            ['skip', /\s+|--[^\n]*|#[^\n]*|\/\*[\s\S]*?(\*\/|$)|(?<=^|\n)\\[^\n]*/y],
+            ['string', /[eEnN]?'(?:[^'\\]|''|\\[\s\S])*'/y],
+            ['string', /\$([A-Za-z_]\w*)?\$[\s\S]*?\$\1\$/y],
+            ['quoted', /"(?:[^"]|"")*"|`(?:[^`]|``)*`/y],
+            ['word', /[A-Za-z_][\w$]*/y],
+            ['number', /\d+(?:\.\d+)?(?:[eE][+-]?\d+)?|\.\d+/y],
+            ['symbol', /::|[^\s]/y],
+        ];
+
+        let position = 0;
+        while (position < sql.length) {
+            for (const [kind, pattern] of patterns) {
+                pattern.lastIndex = position;
+                const match = pattern.exec(sql);
+                if (!match) continue;
+
+                const end = position + match[0].length;
+                if (kind !== 'skip') {
+                    tokens.push({ kind, value: this.unquote(kind, match[0]), start: position, end });
+                }
+                position = end;
+                break;
+            }
+        }
+
+        return tokens;
+    }
+
+    /**
+     * Get the value of a string or quoted identifier
+     */
+    private unquote(kind: Token['kind'], text: string): string {
+        if (kind === 'quoted') {
+            return text.slice(1, -1).replace(text[0] === '"' ? /""/g : /``/g, text[0]);
+        }
+        if (kind === 'string' && text.startsWith('$')) {
+            const tag = text.slice(0, text.indexOf('$', 1) + 1);
+            return text.slice(tag.length, -tag.length);
+        }
+        if (kind === 'string') {
+            return text
+                .replace(/^[eEnN]/, '')
+                .slice(1, -1)
+                .replace(/''/g, "'")
+                .replace(/\\(.)/g, '$1');
+        }
+        return text;
+    }
+}
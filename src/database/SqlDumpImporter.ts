@@ -0,0 +1,66 @@
+/**
+ * SqlDumpImporter - Reads the schema of a `pg_dump --schema-only` or `mysqldump --no-data` file
+ * Statements that do not change tables are skipped; those that cannot be applied are reported with their line
+ */
+
+import { TypeMapper } from '../generator/TypeMapper';
+import { DiagnosticCollector } from '../utils/DiagnosticCollector';
+import DBMLSchema from '../utils/interfaces/DBMLSchema';
+import GeneratorOptions from '../utils/interfaces/GeneratorOptions';
+import { SchemaBuilder } from './SchemaBuilder';
+import { SqlDdlParser } from './SqlDdlParser';
+
+type DatabaseType = NonNullable<GeneratorOptions['databaseType']>;
+
+export class SqlDumpImporter {
+    private diagnostics: DiagnosticCollector;
+    private parser = new SqlDdlParser();
+
+    constructor(diagnostics: DiagnosticCollector = new DiagnosticCollector()) {
+        this.diagnostics = diagnostics;
+    }
+
+    /**
+     * Read the schema of a dump; `file` locates the statements that could not be applied
+     */
+    import(sql: string, databaseType: DatabaseType = this.detectDatabaseType(sql), file?: string): DBMLSchema {
+        const builder = new SchemaBuilder(new TypeMapper(databaseType).getDefaultSchema());
+
+        for (const { line, column, message } of this.parser.apply(sql, builder)) {
+            this.diagnostics.warning(
+                'unsupported-sql-statement',
+                `Could not apply SQL: ${message}`,
+                file ? { file, line, column } : undefined,
+            );
+        }
+
+        const schema = builder.build();
+        if (databaseType === 'mysql' || databaseType === 'mariadb') {
+            this.removeForeignKeyIndexes(schema);
+        }
+        return schema;
+    }
+
+    /**
+     * Tell a mysqldump, with its backquoted names and table engines, from a pg_dump
+     */
+    detectDatabaseType(sql: string): DatabaseType {
+        return /`|\bENGINE\s*=/i.test(sql) ? 'mysql' : 'postgres';
+    }
+
+    /**
+     * Drop the index MySQL creates for each foreign key, named after it; entities do not declare it
+     */
+    private removeForeignKeyIndexes(schema: DBMLSchema): void {
+        for (const entity of schema.entities) {
+            entity.indexes = entity.indexes.filter(
+                (index) =>
+                    !entity.relations.some(
+                        (r) =>
+                            r.propertyName === index.name &&
+                            r.joinColumns?.map((c) => c.name).join() === index.columns.join(),
+                    ),
+            );
+        }
+    }
+}
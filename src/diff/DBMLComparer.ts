@@ -0,0 +1,200 @@
+/**
+ * DBMLComparer - Compares two DBML texts line by line and renders the differences as a unified diff
+ * Whitespace and the order of blocks and their lines can be ignored, so that only meaningful changes count
+ */
+
+type CompareOptions = {
+    ignoreWhitespace?: boolean; // Ignore indentation, spacing and blank lines
+    ignoreOrder?: boolean; // Ignore the order of top-level blocks and of the lines within a block
+    context?: number; // Unchanged lines shown around each change
+};
+
+// A line of DBML with the lines nested under it, when it opens a `{ }` block
+type Block = { header: string[]; children: Block[]; footer?: string };
+
+// A line of the diff: kept (' '), removed ('-') or added ('+')
+type DiffLine = { op: ' ' | '-' | '+'; text: string };
+
+export class DBMLComparer {
+    /**
+     * Compare the expected DBML with the actual DBML; returns the unified diff, or undefined when they match
+     */
+    compare(
+        expected: string,
+        actual: string,
+        options: CompareOptions = {},
+        labels: [string, string] = ['expected', 'actual'],
+    ): string | undefined {
+        const from = this.normalize(expected, options);
+        const to = this.normalize(actual, options);
+
+        if (from.join('\n') === to.join('\n')) {
+            return undefined;
+        }
+
+        const hunks = this.getHunks(this.diffLines(from, to), options.context ?? 3);
+        return [`--- ${labels[0]}`, `+++ ${labels[1]}`, ...hunks].join('\n');
+    }
+
+    /**
+     * Split a DBML text into the lines that are compared
+     */
+    private normalize(dbml: string, options: CompareOptions): string[] {
+        let lines = dbml.replace(/\r\n/g, '\n').replace(/\n+$/, '').split('\n');
+
+        if (options.ignoreWhitespace) {
+            lines = lines.map((line) => line.trim().replace(/\s+/g, ' ')).filter((line) => line !== '');
+        }
+
+        if (options.ignoreOrder) {
+            const root = this.parseBlocks(lines.filter((line) => line.trim() !== ''));
+            lines = this.sortBlock(root).flatMap((block) => this.renderBlock(block));
+        }
+
+        return lines;
+    }
+
+    /**
+     * Nest the lines of blocks (`Table users {` ... `}`) under the line that opens them
+     * Multi-line strings (''' ... ''') stay in one piece with the line that starts them
+     */
+    private parseBlocks(lines: string[]): Block[] {
+        const root: Block = { header: [], children: [] };
+        const stack = [root];
+        let inString = false;
+
+        for (const line of lines) {
+            const parent = stack[stack.length - 1];
+            const current = parent.children[parent.children.length - 1];
+            const isStringDelimiter = (line.match(/(?<!\\)'''/g) ?? []).length % 2 === 1;
+
+            if (inString) {
+                current.header.push(line);
+                inString = !isStringDelimiter;
+            } else if (line.trim().startsWith('}') && stack.length > 1) {
+                parent.footer = line;
+                stack.pop();
+            } else {
+                const block: Block = { header: [line], children: [] };
+                parent.children.push(block);
+                inString = isStringDelimiter;
+
+                if (line.trim().endsWith('{')) {
+                    stack.push(block);
+                }
+            }
+        }
+
+        return root.children;
+    }
+
+    /**
+     * Sort blocks by their content, recursively, keeping each block's opening and closing lines in place
+     */
+    private sortBlock(blocks: Block[]): Block[] {
+        return blocks
+            .map((block) => ({ ...block, children: this.sortBlock(block.children) }))
+            .map((block) => ({ block, text: this.renderBlock(block).join('\n') }))
+            .sort((a, b) => (a.text < b.text ? -1 : a.text > b.text ? 1 : 0))
+            .map(({ block }) => block);
+    }
+
+    /**
+     * Render a block back to lines
+     */
+    private renderBlock(block: Block): string[] {
+        return [
+            ...block.header,
+            ...block.children.flatMap((child) => this.renderBlock(child)),
+            ...(block.footer !== undefined ? [block.footer] : []),
+        ];
+    }
+
+    /**
+     * Get the kept, removed and added lines from the longest common subsequence of both sides
+     */
+    private diffLines(from: string[], to: string[]): DiffLine[] {
+        // Common leading and trailing lines need no table
+        let start = 0;
+        while (start < from.length && start < to.length && from[start] === to[start]) {
+            start++;
+        }
+        let end = 0;
+        while (
+            end < from.length - start &&
+            end < to.length - start &&
+            from[from.length - 1 - end] === to[to.length - 1 - end]
+        ) {
+            end++;
+        }
+
+        const a = from.slice(start, from.length - end);
+        const b = to.slice(start, to.length - end);
+
+        // lengths[i * (b.length + 1) + j]: length of the common subsequence of a[i..] and b[j..]
+        const width = b.length + 1;
+        const lengths = new Uint32Array((a.length + 1) * width);
+        for (let i = a.length - 1; i >= 0; i--) {
+            for (let j = b.length - 1; j >= 0; j--) {
+                lengths[i * width + j] =
+                    a[i] === b[j]
+                        ? lengths[(i + 1) * width + j + 1] + 1
+                        : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+            }
+        }
+
+        const lines: DiffLine[] = from.slice(0, start).map((text) => ({ op: ' ', text }));
+        let i = 0;
+        let j = 0;
+        while (i < a.length || j < b.length) {
+            if (i < a.length && j < b.length && a[i] === b[j]) {
+                lines.push({ op: ' ', text: a[i++] });
+                j++;
+            } else if (j === b.length || (i < a.length && lengths[(i + 1) * width + j] >= lengths[i * width + j + 1])) {
+                lines.push({ op: '-', text: a[i++] });
+            } else {
+                lines.push({ op: '+', text: b[j++] });
+            }
+        }
+        lines.push(...from.slice(from.length - end).map((text): DiffLine => ({ op: ' ', text })));
+
+        return lines;
+    }
+
+    /**
+     * Group the changed lines into hunks with `context` unchanged lines around them
+     */
+    private getHunks(lines: DiffLine[], context: number): string[] {
+        const output: string[] = [];
+        const changed = lines.map((line, index) => (line.op !== ' ' ? index : -1)).filter((index) => index >= 0);
+
+        let index = 0;
+        while (index < changed.length) {
+            // Extend the hunk while the next change is within reach of its context
+            let last = index;
+            while (last + 1 < changed.length && changed[last + 1] - changed[last] <= context * 2) {
+                last++;
+            }
+
+            const first = Math.max(0, changed[index] - context);
+            const end = Math.min(lines.length, changed[last] + context + 1);
+            const hunk = lines.slice(first, end);
+
+            // Line numbers of the hunk on each side, counted from 1
+            const before = lines.slice(0, first);
+            const fromStart = before.filter((l) => l.op !== '+').length + 1;
+            const toStart = before.filter((l) => l.op !== '-').length + 1;
+            const fromCount = hunk.filter((l) => l.op !== '+').length;
+            const toCount = hunk.filter((l) => l.op !== '-').length;
+
+            output.push(
+                `@@ -${fromCount ? fromStart : fromStart - 1},${fromCount} +${toCount ? toStart : toStart - 1},${toCount} @@`,
+            );
+            output.push(...hunk.map((l) => `${l.op}${l.text}`));
+
+            index = last + 1;
+        }
+
+        return output;
+    }
+}
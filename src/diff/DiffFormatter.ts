@@ -0,0 +1,123 @@
+/**
+ * DiffFormatter - Renders a schema diff as text for the terminal, Markdown for pull requests, or JSON
+ */
+
+import SchemaChange from '../utils/interfaces/SchemaChange';
+import SchemaDiff from '../utils/interfaces/SchemaDiff';
+
+export class DiffFormatter {
+    private static readonly FORMATS = ['text', 'markdown', 'json'];
+    private static readonly SYMBOLS: Record<SchemaChange['action'], string> = {
+        added: '+',
+        removed: '-',
+        renamed: '~',
+        changed: '~',
+    };
+
+    /**
+     * Render a diff in the given format
+     */
+    format(diff: SchemaDiff, format = 'text'): string {
+        switch (format) {
+            case 'text':
+                return this.formatText(diff);
+            case 'markdown':
+                return this.formatMarkdown(diff);
+            case 'json':
+                return JSON.stringify(diff, null, 2);
+            default:
+                throw new Error(`Unknown diff format "${format}" (supported: ${DiffFormatter.FORMATS.join(', ')})`);
+        }
+    }
+
+    /**
+     * One line per change, grouped under the table it belongs to
+     */
+    private formatText(diff: SchemaDiff): string {
+        if (diff.changes.length === 0) {
+            return 'No schema changes';
+        }
+
+        const lines: string[] = [];
+        let currentTable: string | undefined;
+
+        for (const change of diff.changes) {
+            if (change.kind === 'table') {
+                const rename = change.action === 'renamed' ? ` (renamed from ${change.from})` : '';
+                lines.push(`${DiffFormatter.SYMBOLS[change.action]} table ${change.table}${rename}`);
+                continue;
+            }
+
+            if (change.table !== currentTable) {
+                currentTable = change.table;
+                lines.push('', `${change.table}:`);
+            }
+            lines.push(`  ${DiffFormatter.SYMBOLS[change.action]} ${this.describe(change)}`);
+        }
+
+        lines.push('', this.summarize(diff));
+        return lines.join('\n').trim();
+    }
+
+    /**
+     * A table of changes, for pull request comments
+     */
+    private formatMarkdown(diff: SchemaDiff): string {
+        const lines = ['## Schema changes', ''];
+
+        if (diff.changes.length === 0) {
+            lines.push('No schema changes.');
+            return lines.join('\n');
+        }
+
+        lines.push('| Table | Change | Item | Before | After |');
+        lines.push('| ----- | ------ | ---- | ------ | ----- |');
+
+        for (const change of diff.changes) {
+            const item = change.kind === 'table' ? 'table' : `${change.kind} ${this.code(change.name)}`;
+            const property = change.property ? ` (${change.property})` : '';
+            const cells = [
+                this.code(change.table),
+                change.action,
+                `${item}${property}`,
+                this.code(change.from),
+                this.code(change.to),
+            ];
+            lines.push(`| ${cells.join(' | ')} |`);
+        }
+
+        lines.push('', this.summarize(diff));
+        return lines.join('\n');
+    }
+
+    /**
+     * Describe a change within a table, e.g. `column email type: varchar(100) -> varchar(255)`
+     */
+    private describe(change: SchemaChange): string {
+        const subject = `${change.kind} ${change.name}`;
+
+        if (change.action === 'changed') {
+            const property = change.property ? ` ${change.property}` : '';
+            return `${subject}${property}: ${change.from} -> ${change.to}`;
+        }
+
+        const definition = change.action === 'added' ? change.to : change.from;
+        return definition ? `${subject}: ${definition}` : subject;
+    }
+
+    /**
+     * Count the changes and the tables they touch
+     */
+    private summarize(diff: SchemaDiff): string {
+        const tables = new Set(diff.changes.map((c) => c.table)).size;
+        const changes = diff.changes.length;
+        return `${changes} ${changes === 1 ? 'change' : 'changes'} in ${tables} ${tables === 1 ? 'table' : 'tables'}`;
+    }
+
+    /**
+     * Wrap a value in inline code, escaping the pipes that would end a table cell
+     */
+    private code(value?: string): string {
+        return value ? `\`${value.replace(/\|/g, '\\|')}\`` : '';
+    }
+}
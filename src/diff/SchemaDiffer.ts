@@ -0,0 +1,263 @@
+/**
+ * SchemaDiffer - Compares two schema snapshots table by table, column by column
+ */
+
+import CheckMetadata from '../utils/interfaces/CheckMetadata';
+import ColumnMetadata from '../utils/interfaces/ColumnMetadata';
+import DBMLSchema from '../utils/interfaces/DBMLSchema';
+import IndexMetadata from '../utils/interfaces/IndexMetadata';
+import RelationMetadata from '../utils/interfaces/RelationMetadata';
+import SchemaChange from '../utils/interfaces/SchemaChange';
+import SchemaDiff from '../utils/interfaces/SchemaDiff';
+import UniqueMetadata from '../utils/interfaces/UniqueMetadata';
+
+// Entity tables and join tables, compared alike
+type Table = {
+    columns: ColumnMetadata[];
+    indexes: IndexMetadata[];
+    uniques: UniqueMetadata[];
+    checks: CheckMetadata[];
+    relations: RelationMetadata[];
+};
+
+export class SchemaDiffer {
+    /**
+     * Get the changes that turn one schema into the other
+     */
+    diff(from: DBMLSchema, to: DBMLSchema): SchemaDiff {
+        const fromTables = this.getTables(from);
+        const toTables = this.getTables(to);
+        const changes: SchemaChange[] = [];
+
+        const removed = [...fromTables.keys()].filter((name) => !toTables.has(name));
+        const added = [...toTables.keys()].filter((name) => !fromTables.has(name));
+
+        // A removed and an added table with the same columns are taken as a rename
+        const renames = new Map<string, string>();
+        for (const name of removed) {
+            const signature = this.getColumnSignature(fromTables.get(name)!);
+            const newName = added.find(
+                (a) => ![...renames.values()].includes(a) && this.getColumnSignature(toTables.get(a)!) === signature,
+            );
+            if (newName) {
+                renames.set(name, newName);
+            }
+        }
+
+        for (const name of added.filter((a) => ![...renames.values()].includes(a))) {
+            changes.push({ action: 'added', kind: 'table', table: name });
+        }
+        for (const name of removed.filter((r) => !renames.has(r))) {
+            changes.push({ action: 'removed', kind: 'table', table: name });
+        }
+        for (const [oldName, newName] of renames) {
+            changes.push({ action: 'renamed', kind: 'table', table: newName, from: oldName, to: newName });
+        }
+
+        const pairs: [string, string][] = [
+            ...[...toTables.keys()]
+                .filter((name) => fromTables.has(name))
+                .map((name): [string, string] => [name, name]),
+            ...renames,
+        ];
+        for (const [oldName, newName] of pairs) {
+            changes.push(...this.diffTable(newName, fromTables.get(oldName)!, toTables.get(newName)!));
+        }
+
+        return { changes };
+    }
+
+    /**
+     * Compare the columns, indexes, constraints and relations of a table
+     */
+    private diffTable(table: string, from: Table, to: Table): SchemaChange[] {
+        const changes: SchemaChange[] = [];
+
+        // Columns, by column name
+        const fromColumns = new Map(from.columns.map((c) => [c.columnName, c]));
+        const toColumns = new Map(to.columns.map((c) => [c.columnName, c]));
+
+        for (const [name, column] of toColumns) {
+            const previous = fromColumns.get(name);
+            if (!previous) {
+                changes.push({ action: 'added', kind: 'column', table, name, to: this.describeColumn(column) });
+                continue;
+            }
+
+            const properties: Record<string, (c: ColumnMetadata) => string> = {
+                type: (c) => this.formatType(c),
+                values: (c) => c.enumValues?.join(', ') ?? 'none',
+                nullable: (c) => String(c.isNullable),
+                default: (c) => c.default ?? (c.isCreateDate || c.isUpdateDate ? 'now()' : 'none'),
+                unique: (c) => String(c.isUnique && !c.isPrimary),
+            };
+            for (const [property, format] of Object.entries(properties)) {
+                if (format(previous) !== format(column)) {
+                    changes.push({
+                        action: 'changed',
+                        kind: 'column',
+                        table,
+                        name,
+                        property,
+                        from: format(previous),
+                        to: format(column),
+                    });
+                }
+            }
+        }
+        for (const [name, column] of fromColumns) {
+            if (!toColumns.has(name)) {
+                changes.push({ action: 'removed', kind: 'column', table, name, from: this.describeColumn(column) });
+            }
+        }
+
+        // Indexes and constraints, by their whole definition
+        changes.push(...this.diffDefinitions(table, 'index', this.getIndexes(from), this.getIndexes(to)));
+        changes.push(...this.diffDefinitions(table, 'constraint', this.getConstraints(from), this.getConstraints(to)));
+
+        // Relations, by property name
+        const fromRelations = new Map(from.relations.map((r) => [r.propertyName, this.describeRelation(r)]));
+        const toRelations = new Map(to.relations.map((r) => [r.propertyName, this.describeRelation(r)]));
+
+        for (const [name, relation] of toRelations) {
+            const previous = fromRelations.get(name);
+            if (previous === undefined) {
+                changes.push({ action: 'added', kind: 'relation', table, name, to: relation });
+            } else if (previous !== relation) {
+                changes.push({ action: 'changed', kind: 'relation', table, name, from: previous, to: relation });
+            }
+        }
+        for (const [name, relation] of fromRelations) {
+            if (!toRelations.has(name)) {
+                changes.push({ action: 'removed', kind: 'relation', table, name, from: relation });
+            }
+        }
+
+        return changes;
+    }
+
+    /**
+     * Report definitions present on one side only; a changed definition is removed and added
+     */
+    private diffDefinitions(table: string, kind: SchemaChange['kind'], from: string[], to: string[]): SchemaChange[] {
+        return [
+            ...to
+                .filter((d) => !from.includes(d))
+                .map((name): SchemaChange => ({ action: 'added', kind, table, name })),
+            ...from
+                .filter((d) => !to.includes(d))
+                .map((name): SchemaChange => ({ action: 'removed', kind, table, name })),
+        ];
+    }
+
+    /**
+     * Get the tables of a schema by their qualified name
+     */
+    private getTables(schema: DBMLSchema): Map<string, Table> {
+        const tables = new Map<string, Table>();
+
+        for (const entity of schema.entities) {
+            tables.set(this.qualify(entity.tableName, entity.schema), entity);
+        }
+        for (const joinTable of schema.joinTables) {
+            tables.set(this.qualify(joinTable.name, joinTable.schema), {
+                columns: joinTable.columns,
+                indexes: joinTable.indexes,
+                uniques: [],
+                checks: [],
+                relations: [],
+            });
+        }
+
+        return tables;
+    }
+
+    /**
+     * Get the column names and types of a table, to recognize it under another name
+     */
+    private getColumnSignature(table: Table): string {
+        return table.columns
+            .map((c) => `${c.columnName} ${this.formatType(c)}`)
+            .sort()
+            .join(', ');
+    }
+
+    /**
+     * Describe the indexes of a table, e.g. `idx_email (email) unique`
+     */
+    private getIndexes(table: Table): string[] {
+        return table.indexes.map((index) => {
+            const parts = [`(${index.columns.join(', ')})`];
+            if (index.name) parts.unshift(index.name);
+            if (index.isUnique) parts.push('unique');
+            if (index.type) parts.push(`using ${index.type}`);
+            if (index.where) parts.push(`where ${index.where}`);
+            return parts.join(' ');
+        });
+    }
+
+    /**
+     * Describe the primary key, unique and check constraints of a table
+     */
+    private getConstraints(table: Table): string[] {
+        const primaryColumns = table.columns.filter((c) => c.isPrimary);
+        const primaryKeyName = primaryColumns.find((c) => c.primaryKeyConstraintName)?.primaryKeyConstraintName;
+        const named = (name: string | undefined, definition: string) => (name ? `${name} ${definition}` : definition);
+
+        return [
+            ...(primaryColumns.length > 0
+                ? [named(primaryKeyName, `PRIMARY KEY (${primaryColumns.map((c) => c.columnName).join(', ')})`)]
+                : []),
+            ...table.uniques.map((u) => named(u.name, `UNIQUE (${u.columns.join(', ')})`)),
+            ...table.checks.map((c) => named(c.name, `CHECK (${c.expression})`)),
+        ];
+    }
+
+    /**
+     * Describe a column, e.g. `varchar(255) not null default 'draft'`
+     */
+    private describeColumn(column: ColumnMetadata): string {
+        const parts = [this.formatType(column)];
+        if (!column.isNullable) parts.push('not null');
+        if (column.isUnique && !column.isPrimary) parts.push('unique');
+        if (column.default !== undefined) parts.push(`default ${column.default}`);
+        return parts.join(' ');
+    }
+
+    /**
+     * Describe a relation, e.g. `many-to-one User (authorId) on delete CASCADE`
+     */
+    private describeRelation(relation: RelationMetadata): string {
+        const parts = [relation.type, relation.target];
+
+        const joinColumns = relation.joinColumns?.map((c) => c.name).filter((name) => !!name);
+        if (joinColumns?.length) parts.push(`(${joinColumns.join(', ')})`);
+        if (relation.joinTable?.name) parts.push(`through ${relation.joinTable.name}`);
+        if (relation.onDelete) parts.push(`on delete ${relation.onDelete}`);
+        if (relation.onUpdate) parts.push(`on update ${relation.onUpdate}`);
+
+        return parts.join(' ');
+    }
+
+    /**
+     * Format the type of a column with its length or precision, e.g. `varchar(255)` or `decimal(10,2)`
+     */
+    private formatType(column: ColumnMetadata): string {
+        let type = column.enumSchema ? `${column.enumSchema}.${column.type}` : column.type;
+
+        if (column.length) {
+            type += `(${column.length})`;
+        } else if (column.precision !== undefined) {
+            type += column.scale !== undefined ? `(${column.precision},${column.scale})` : `(${column.precision})`;
+        }
+
+        return column.isArray ? `${type}[]` : type;
+    }
+
+    /**
+     * Qualify a table name with its schema
+     */
+    private qualify(name: string, schema?: string): string {
+        return schema ? `${schema}.${name}` : name;
+    }
+}
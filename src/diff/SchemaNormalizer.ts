@@ -0,0 +1,245 @@
+/**
+ * SchemaNormalizer - Reduces a schema to what the database holds, so entities compare with a database schema
+ * Join tables become tables with their foreign keys, relations become foreign keys named after their columns,
+ * and types, defaults and constraints are written one way; names TypeORM generates are left out
+ */
+
+import { TypeMapper } from '../generator/TypeMapper';
+import ColumnMetadata from '../utils/interfaces/ColumnMetadata';
+import DBMLSchema from '../utils/interfaces/DBMLSchema';
+import EntityMetadata from '../utils/interfaces/EntityMetadata';
+import EnumMetadata from '../utils/interfaces/EnumMetadata';
+import GeneratorOptions from '../utils/interfaces/GeneratorOptions';
+import JoinColumnMetadata from '../utils/interfaces/JoinColumnMetadata';
+import RelationMetadata from '../utils/interfaces/RelationMetadata';
+
+export class SchemaNormalizer {
+    // Spellings of the same type, after the dialect mapping
+    private static readonly TYPE_EQUIVALENTS: Record<string, string> = {
+        'decimal': 'numeric',
+        'int': 'integer',
+        'int4': 'integer',
+        'tinyint(1)': 'tinyint',
+    };
+
+    // Expressions of the current time, written `now()`
+    private static readonly CURRENT_TIMESTAMPS = [
+        /^now\(\)$/i,
+        /^current_timestamp(\(\d*\))?$/i,
+        /^localtimestamp(\(\d*\))?$/i,
+        /^getdate\(\)$/i,
+        /^sysdatetime\(\)$/i,
+        /^datetime\('now'\)$/i,
+    ];
+
+    private typeMapper: TypeMapper;
+    private defaultSchema?: string;
+
+    constructor(databaseType: GeneratorOptions['databaseType'] = 'postgres') {
+        this.typeMapper = new TypeMapper(databaseType);
+        this.defaultSchema = this.typeMapper.getDefaultSchema();
+    }
+
+    /**
+     * Get the tables of a schema as the database has them
+     */
+    normalize(schema: DBMLSchema): DBMLSchema {
+        const entities = [
+            ...schema.entities.map((e) => this.normalizeEntity(e, schema)),
+            ...this.getJoinTables(schema),
+        ];
+
+        return {
+            entities,
+            enums: schema.enums.map((e) => ({ ...e, schema: this.getSchema(e.schema) })),
+            joinTables: [],
+            views: [],
+        };
+    }
+
+    /**
+     * Normalize the columns, constraints and foreign keys of a table
+     */
+    private normalizeEntity(entity: EntityMetadata, schema: DBMLSchema): EntityMetadata {
+        // Unique constraints on one column are the column's unique flag, however they were declared
+        const singleUniques = entity.uniques.filter((u) => u.columns.length === 1).map((u) => u.columns[0]);
+        const primaryIndexes = entity.indexes.filter((i) => i.isPrimary).flatMap((i) => i.columns);
+
+        const columns = entity.columns.map((column) =>
+            this.normalizeColumn(
+                {
+                    ...column,
+                    isPrimary: column.isPrimary || primaryIndexes.includes(column.columnName),
+                    isUnique: column.isUnique || singleUniques.includes(column.columnName),
+                },
+                schema.enums,
+            ),
+        );
+
+        return {
+            name: entity.tableName,
+            tableName: entity.tableName,
+            schema: this.getSchema(entity.schema),
+            columns,
+            relations: entity.relations
+                .filter((r) => (r.type === 'many-to-one' || r.type === 'one-to-one') && r.joinColumns?.length)
+                .map((r) => this.toForeignKey(r.target, r.joinColumns!, r, schema)),
+            indexes: entity.indexes
+                .filter((i) => !i.isPrimary)
+                .map((i) => ({ ...i, name: undefined, type: i.type === 'btree' ? undefined : i.type })),
+            uniques: entity.uniques.filter((u) => u.columns.length > 1).map((u) => ({ ...u, name: undefined })),
+            checks: entity.checks.map((c) => ({ ...c, name: undefined })),
+        };
+    }
+
+    /**
+     * Write a column's type and default one way; names of constraints and TypeORM-only flags are dropped
+     * Enum columns carry the values of their enum type, so that changed values show on the column
+     */
+    private normalizeColumn(column: ColumnMetadata, enums: EnumMetadata[]): ColumnMetadata {
+        const enumSchema = this.getSchema(column.enumSchema);
+        const type = this.typeMapper
+            .mapType({ ...column, enumSchema })
+            .toLowerCase()
+            .replace(/\s+/g, ' ');
+        const base = type.replace(/\(.*$/, '');
+        const canonical =
+            SchemaNormalizer.TYPE_EQUIVALENTS[type] ??
+            (SchemaNormalizer.TYPE_EQUIVALENTS[base]
+                ? SchemaNormalizer.TYPE_EQUIVALENTS[base] + type.slice(base.length)
+                : type);
+
+        return {
+            propertyName: column.columnName,
+            columnName: column.columnName,
+            type: canonical,
+            isPrimary: column.isPrimary,
+            isGenerated: column.isGenerated,
+            generationStrategy: column.generationStrategy,
+            isNullable: column.isNullable && !column.isPrimary,
+            isUnique: column.isUnique,
+            default: this.normalizeDefault(column, canonical),
+            enumValues: column.enumName
+                ? (enums.find((e) => e.name === column.enumName && this.getSchema(e.schema) === enumSchema)?.values ??
+                  column.enumValues)
+                : undefined,
+        };
+    }
+
+    /**
+     * Write the current time as `now()` and booleans as true/false
+     * Creation and update dates default to the current time, as TypeORM creates them
+     */
+    private normalizeDefault(column: ColumnMetadata, type: string): string | undefined {
+        if (column.isCreateDate || column.isUpdateDate) {
+            return 'now()';
+        }
+        if (column.default === undefined || column.default.toLowerCase() === 'null') {
+            return undefined;
+        }
+        if (SchemaNormalizer.CURRENT_TIMESTAMPS.some((pattern) => pattern.test(column.default!.trim()))) {
+            return 'now()';
+        }
+
+        const isBoolean = ['boolean', 'bool', 'tinyint', 'bit', 'number(1)'].includes(type);
+        const value = column.default.toLowerCase();
+        if (isBoolean && (value === '1' || value === 'true')) return 'true';
+        if (isBoolean && (value === '0' || value === 'false')) return 'false';
+
+        return column.default;
+    }
+
+    /**
+     * Get the join tables of many-to-many relations as tables, with a foreign key to each side
+     * Their foreign keys cascade unless the relations say otherwise, as TypeORM creates them
+     */
+    private getJoinTables(schema: DBMLSchema): EntityMetadata[] {
+        const owners = schema.entities.flatMap((entity) =>
+            entity.relations
+                .filter((r) => r.type === 'many-to-many' && r.joinTable?.name)
+                .map((relation) => ({ entity, relation })),
+        );
+
+        return schema.joinTables.map((joinTable) => {
+            const owner = owners.find(({ relation }) => relation.joinTable!.name === joinTable.name);
+            const relations: RelationMetadata[] = [];
+
+            if (owner) {
+                const { entity, relation } = owner;
+                const inverse = schema.entities
+                    .find((e) => e.tableName === relation.target)
+                    ?.relations.find((r) => r.propertyName === relation.inverseSide);
+
+                relations.push(
+                    this.toForeignKey(
+                        entity.tableName,
+                        relation.joinTable!.joinColumns ?? [],
+                        {
+                            onDelete: relation.onDelete ?? 'CASCADE',
+                            onUpdate: relation.onUpdate ?? 'CASCADE',
+                        },
+                        schema,
+                    ),
+                    this.toForeignKey(
+                        relation.target,
+                        relation.joinTable!.inverseJoinColumns ?? [],
+                        {
+                            onDelete: inverse?.onDelete ?? 'CASCADE',
+                            onUpdate: inverse?.onUpdate ?? 'CASCADE',
+                        },
+                        schema,
+                    ),
+                );
+            }
+
+            return {
+                name: joinTable.name,
+                tableName: joinTable.name,
+                schema: this.getSchema(joinTable.schema),
+                columns: joinTable.columns.map((c) => this.normalizeColumn(c, schema.enums)),
+                relations,
+                indexes: joinTable.indexes.map((i) => ({ ...i, name: undefined })),
+                uniques: [],
+                checks: [],
+            };
+        });
+    }
+
+    /**
+     * Get the foreign key a relation owns, named after its columns; NO ACTION is the same as no action given
+     * Referenced columns given as properties are resolved to their column names
+     */
+    private toForeignKey(
+        target: string,
+        joinColumns: JoinColumnMetadata[],
+        actions: Pick<RelationMetadata, 'onDelete' | 'onUpdate'>,
+        schema: DBMLSchema,
+    ): RelationMetadata {
+        const targetColumns = schema.entities.find((e) => e.tableName === target)?.columns ?? [];
+        const primaryKey = targetColumns.filter((c) => c.isPrimary).map((c) => c.columnName);
+
+        return {
+            propertyName: joinColumns.map((c) => c.name).join(', '),
+            type: 'many-to-one',
+            target,
+            joinColumns: joinColumns.map((c, i) => ({
+                name: c.name,
+                referencedColumnName:
+                    targetColumns.find(
+                        (t) => t.columnName === c.referencedColumnName || t.propertyName === c.referencedColumnName,
+                    )?.columnName ??
+                    primaryKey[i] ??
+                    c.referencedColumnName,
+            })),
+            onDelete: actions.onDelete === 'NO ACTION' ? undefined : actions.onDelete,
+            onUpdate: actions.onUpdate === 'NO ACTION' ? undefined : actions.onUpdate,
+        };
+    }
+
+    /**
+     * Leave out the default schema of the dialect, which unqualified names are in
+     */
+    private getSchema(schema?: string): string | undefined {
+        return schema === this.defaultSchema ? undefined : schema;
+    }
+}
@@ -0,0 +1,126 @@
+/**
+ * SchemaSourceLoader - Loads the schema of one side of a diff
+ * A source is a saved JSON snapshot, a SQL dump, a git ref of the repository, or a glob of entity files
+ */
+
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { generateSchema } from '../index';
+import { SqlDumpImporter } from '../database/SqlDumpImporter';
+import Config from '../utils/interfaces/Config';
+import DBMLSchema from '../utils/interfaces/DBMLSchema';
+import GeneratorOptions from '../utils/interfaces/GeneratorOptions';
+
+export class SchemaSourceLoader {
+    private config: Config;
+
+    /**
+     * `config` locates the entities in the working tree and at git refs, and may set the database type of dumps
+     */
+    constructor(config: Config) {
+        this.config = config;
+    }
+
+    /**
+     * Load a schema; without a source, from the entities of the working tree
+     */
+    async load(source?: string): Promise<DBMLSchema> {
+        if (!source) {
+            return generateSchema(this.config);
+        }
+
+        if (source.endsWith('.json') && fs.existsSync(source)) {
+            return this.loadSnapshot(source);
+        }
+
+        if (this.isDump(source)) {
+            return generateSchema({ ...this.config, sql: source, input: undefined, dataSource: undefined });
+        }
+
+        if (this.isGitRef(source)) {
+            return this.loadGitRef(source);
+        }
+
+        return generateSchema({ ...this.config, input: source, dataSource: undefined });
+    }
+
+    /**
+     * Check if a source is a SQL dump, whose schema is what a database holds rather than what entities declare
+     */
+    isDump(source?: string): source is string {
+        return !!source?.endsWith('.sql') && fs.existsSync(source);
+    }
+
+    /**
+     * Get the database type of a SQL dump, unless the options set it
+     */
+    getDatabaseType(dump: string): GeneratorOptions['databaseType'] {
+        return (
+            this.config.options?.databaseType ??
+            new SqlDumpImporter().detectDatabaseType(fs.readFileSync(dump, 'utf-8'))
+        );
+    }
+
+    /**
+     * Serialize a schema as a snapshot `load` can read back
+     */
+    toSnapshot(schema: DBMLSchema): string {
+        const { diagnostics: _diagnostics, ...snapshot } = schema;
+        return JSON.stringify(snapshot, null, 2);
+    }
+
+    /**
+     * Read a snapshot saved with `toSnapshot`
+     */
+    private loadSnapshot(file: string): DBMLSchema {
+        const schema = JSON.parse(fs.readFileSync(file, 'utf-8')) as DBMLSchema;
+
+        if (!Array.isArray(schema.entities)) {
+            throw new Error(`${file} is not a schema snapshot`);
+        }
+
+        return { ...schema, enums: schema.enums ?? [], joinTables: schema.joinTables ?? [], views: schema.views ?? [] };
+    }
+
+    /**
+     * Extract the schema of the entities as they were at a git ref, from a temporary worktree
+     */
+    private async loadGitRef(ref: string): Promise<DBMLSchema> {
+        const root = this.git('rev-parse', '--show-toplevel');
+        const relativeCwd = path.relative(root, process.cwd());
+        const worktree = fs.mkdtempSync(path.join(os.tmpdir(), 'typeorm-to-dbml-'));
+
+        this.git('worktree', 'add', '--detach', '--quiet', worktree, ref);
+
+        // Input globs and the DataSource path are relative to the working directory, which moves to the worktree
+        const cwd = process.cwd();
+        try {
+            process.chdir(path.join(worktree, relativeCwd));
+            return await generateSchema(this.config);
+        } finally {
+            process.chdir(cwd);
+            this.git('worktree', 'remove', '--force', worktree);
+        }
+    }
+
+    /**
+     * Check if a source names a commit of the repository
+     */
+    private isGitRef(source: string): boolean {
+        try {
+            this.git('rev-parse', '--verify', '--quiet', `${source}^{commit}`);
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    /**
+     * Run a git command, returning its trimmed output
+     */
+    private git(...args: string[]): string {
+        return execFileSync('git', args, { encoding: 'utf-8', stdio: ['ignore', 'pipe', 'pipe'] }).trim();
+    }
+}
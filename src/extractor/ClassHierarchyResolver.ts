@@ -0,0 +1,185 @@
+/**
+ * ClassHierarchyResolver - Walks the `extends` chain of entity classes
+ * Follows imported and generic base classes as well as mixin functions returning classes
+ */
+
+import {
+    ArrowFunction,
+    CallExpression,
+    ClassDeclaration,
+    ClassExpression,
+    FunctionDeclaration,
+    FunctionExpression,
+    Node,
+    PropertyDeclaration,
+} from 'ts-morph';
+import { getDeclaration } from '../utils/AstUtils';
+
+export type ClassLike = ClassDeclaration | ClassExpression;
+
+export class ClassHierarchyResolver {
+    /**
+     * Get the inheritance chain of a class, ordered from the root base class to the class itself
+     */
+    getClassChain(classDecl: ClassLike): ClassLike[] {
+        return this.resolveChain(classDecl, new Map(), new Set());
+    }
+
+    /**
+     * Get properties declared on a class and all of its bases
+     * A property redeclared further down the chain replaces the inherited one, keeping its position
+     */
+    getProperties(classDecl: ClassLike, isMember: (property: PropertyDeclaration) => boolean): PropertyDeclaration[] {
+        const properties: PropertyDeclaration[] = [];
+
+        for (const classLike of this.getClassChain(classDecl)) {
+            for (const property of classLike.getProperties()) {
+                if (!isMember(property)) {
+                    continue;
+                }
+
+                const index = properties.findIndex((p) => p.getName() === property.getName());
+                if (index >= 0) {
+                    properties[index] = property;
+                } else {
+                    properties.push(property);
+                }
+            }
+        }
+
+        return properties;
+    }
+
+    /**
+     * Resolve the chain for a class, with mixin parameters bound to their argument chains
+     */
+    private resolveChain(classLike: ClassLike, bindings: Map<string, ClassLike[]>, visited: Set<Node>): ClassLike[] {
+        if (visited.has(classLike)) {
+            return [];
+        }
+        visited.add(classLike);
+
+        const heritage = classLike.getExtends();
+        const bases = heritage ? this.resolveBaseExpression(heritage.getExpression(), bindings, visited) : [];
+
+        return [...bases, classLike];
+    }
+
+    /**
+     * Resolve the expression of an `extends` clause to a class chain
+     */
+    private resolveBaseExpression(expr: Node, bindings: Map<string, ClassLike[]>, visited: Set<Node>): ClassLike[] {
+        // Parenthesized, cast and generic instantiation expressions: TenantModel<string>
+        if (
+            Node.isParenthesizedExpression(expr) ||
+            Node.isAsExpression(expr) ||
+            Node.isExpressionWithTypeArguments(expr)
+        ) {
+            return this.resolveBaseExpression(expr.getExpression(), bindings, visited);
+        }
+
+        if (Node.isClassExpression(expr)) {
+            return this.resolveChain(expr, bindings, visited);
+        }
+
+        // Mixin: class User extends Timestamped(SoftDeletable(BaseModel))
+        if (Node.isCallExpression(expr)) {
+            return this.resolveMixinCall(expr, bindings, visited);
+        }
+
+        if (Node.isIdentifier(expr) && bindings.has(expr.getText())) {
+            return bindings.get(expr.getText())!;
+        }
+
+        if (Node.isIdentifier(expr) || Node.isPropertyAccessExpression(expr)) {
+            const declaration = getDeclaration(expr);
+
+            if (!declaration) {
+                return [];
+            }
+
+            if (Node.isClassDeclaration(declaration) || Node.isClassExpression(declaration)) {
+                return this.resolveChain(declaration, new Map(), visited);
+            }
+
+            // const Base = Timestamped(BaseModel)
+            if (Node.isVariableDeclaration(declaration)) {
+                const initializer = declaration.getInitializer();
+                return initializer ? this.resolveBaseExpression(initializer, new Map(), visited) : [];
+            }
+        }
+
+        return [];
+    }
+
+    /**
+     * Resolve a mixin call to the class it returns, binding parameters to the call arguments
+     */
+    private resolveMixinCall(
+        call: CallExpression,
+        bindings: Map<string, ClassLike[]>,
+        visited: Set<Node>,
+    ): ClassLike[] {
+        const declaration = getDeclaration(call.getExpression());
+        const mixin = Node.isVariableDeclaration(declaration) ? declaration.getInitializer() : declaration;
+
+        if (
+            !mixin ||
+            !(Node.isFunctionDeclaration(mixin) || Node.isArrowFunction(mixin) || Node.isFunctionExpression(mixin))
+        ) {
+            return [];
+        }
+
+        // Bind each parameter name to the chain of the argument passed for it
+        const mixinBindings = new Map<string, ClassLike[]>();
+        const args = call.getArguments();
+        mixin.getParameters().forEach((param, i) => {
+            if (args[i]) {
+                mixinBindings.set(param.getName(), this.resolveBaseExpression(args[i], bindings, visited));
+            }
+        });
+
+        const returned = this.findReturnedClass(mixin);
+        return returned ? this.resolveChain(returned, mixinBindings, visited) : [];
+    }
+
+    /**
+     * Find the class returned from a mixin function body
+     */
+    private findReturnedClass(fn: FunctionDeclaration | ArrowFunction | FunctionExpression): ClassLike | undefined {
+        const body = fn.getBody();
+        if (!body) {
+            return undefined;
+        }
+
+        // (Base) => class extends Base { ... }
+        if (Node.isClassExpression(body)) {
+            return body;
+        }
+
+        for (const statement of body.getDescendantStatements()) {
+            if (!Node.isReturnStatement(statement)) {
+                continue;
+            }
+
+            let returned = statement.getExpression();
+            while (returned && (Node.isParenthesizedExpression(returned) || Node.isAsExpression(returned))) {
+                returned = returned.getExpression();
+            }
+
+            if (returned && Node.isClassExpression(returned)) {
+                return returned;
+            }
+
+            // class Mixed extends Base { ... } return Mixed;
+            if (returned && Node.isIdentifier(returned)) {
+                const declaration = getDeclaration(returned);
+                if (declaration && Node.isClassDeclaration(declaration)) {
+                    return declaration;
+                }
+            }
+        }
+
+        return undefined;
+    }
+}
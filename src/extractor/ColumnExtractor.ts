@@ -2,19 +2,104 @@
  * ColumnExtractor - Extracts column metadata from TypeORM entity properties
  */
 
-import { ClassDeclaration, PropertyDeclaration, SyntaxKind } from 'ts-morph';
-import { ColumnMetadata, EnumMetadata } from '../parser/types';
+import { ClassDeclaration, Decorator, Node, PropertyDeclaration, SyntaxKind } from 'ts-morph';
+import ColumnMetadata from '../utils/interfaces/ColumnMetadata';
+import NamingStrategy from '../utils/interfaces/NamingStrategy';
+import { DiagnosticCollector } from '../utils/DiagnosticCollector';
+import { DefaultNamingStrategy } from '../naming/DefaultNamingStrategy';
+import { ClassHierarchyResolver, ClassLike } from './ClassHierarchyResolver';
+import { EnumExtractor } from './EnumExtractor';
+import { StaticEvaluator } from './StaticEvaluator';
 
 export class ColumnExtractor {
+    // Column options that only affect how TypeORM reads and writes values, not the schema
+    private static readonly RUNTIME_COLUMN_OPTIONS = ['select', 'insert', 'update', 'transformer'];
+
+    private hierarchyResolver: ClassHierarchyResolver;
+    private enumExtractor: EnumExtractor;
+    private evaluator: StaticEvaluator;
+    private diagnostics: DiagnosticCollector;
+    private namingStrategy: NamingStrategy;
+
+    constructor(
+        diagnostics: DiagnosticCollector = new DiagnosticCollector(),
+        namingStrategy: NamingStrategy = new DefaultNamingStrategy(),
+    ) {
+        this.hierarchyResolver = new ClassHierarchyResolver();
+        this.enumExtractor = new EnumExtractor(diagnostics);
+        this.evaluator = new StaticEvaluator(diagnostics);
+        this.diagnostics = diagnostics;
+        this.namingStrategy = namingStrategy;
+    }
+
+    /**
+     * Extract all columns from an entity class, including those inherited from base classes
+     */
+    extractColumns(classDecl: ClassDeclaration): ColumnMetadata[] {
+        return this.extractClassColumns(classDecl, new Set([classDecl]), []);
+    }
+
     /**
-     * Extract all columns from an entity class
+     * Extract @ViewColumn members of a view entity
+     * View columns carry no type information, so the type is inferred from the TypeScript type
      */
-    extractColumns(classDecl: ClassDeclaration, enumsMap: Map<string, EnumMetadata>): ColumnMetadata[] {
+    extractViewColumns(classDecl: ClassDeclaration): ColumnMetadata[] {
+        const properties = this.hierarchyResolver.getProperties(classDecl, (p) => !!p.getDecorator('ViewColumn'));
+
+        return properties.map((property) => {
+            const metadata: ColumnMetadata = {
+                propertyName: property.getName(),
+                columnName: this.namingStrategy.columnName(property.getName(), undefined, []),
+                type: 'varchar',
+                isPrimary: false,
+                isGenerated: false,
+                isNullable: true,
+                isUnique: false,
+            };
+
+            const options = property.getDecoratorOrThrow('ViewColumn').getArguments()[0];
+            if (options && Node.isObjectLiteralExpression(options)) {
+                const nameProp = options.getProperty('name');
+                const name = Node.isPropertyAssignment(nameProp) ? nameProp.getInitializer() : undefined;
+                const customName = name ? this.evaluator.evaluateString(name) : undefined;
+                metadata.columnName = this.namingStrategy.columnName(property.getName(), customName, []);
+            }
+
+            metadata.type = this.inferTypeFromTsType(property.getType().getText(), metadata);
+
+            const jsDocs = property.getJsDocs();
+            if (jsDocs.length > 0) {
+                const comment = jsDocs[0].getComment();
+                if (typeof comment === 'string') {
+                    metadata.comment = comment;
+                }
+            }
+
+            return metadata;
+        });
+    }
+
+    /**
+     * Extract columns of an entity or embeddable class, expanding embedded columns
+     * `embeddedPrefixes` holds the prefixes of the embeddeds the class is nested in
+     */
+    private extractClassColumns(
+        classDecl: ClassLike,
+        visited: Set<ClassLike>,
+        embeddedPrefixes: string[],
+    ): ColumnMetadata[] {
         const columns: ColumnMetadata[] = [];
-        const properties = classDecl.getProperties();
+        const properties = this.hierarchyResolver.getProperties(classDecl, (p) => !!this.getColumnDecorator(p));
 
         for (const property of properties) {
-            const columnMetadata = this.extractColumnFromProperty(property, enumsMap);
+            // Embedded: @Column(() => Address)
+            const embeddedClass = this.resolveEmbeddedClass(property);
+            if (embeddedClass) {
+                columns.push(...this.extractEmbeddedColumns(property, embeddedClass, visited, embeddedPrefixes));
+                continue;
+            }
+
+            const columnMetadata = this.extractColumnFromProperty(property, embeddedPrefixes);
             if (columnMetadata) {
                 columns.push(columnMetadata);
             }
@@ -23,28 +108,89 @@ export class ColumnExtractor {
         return columns;
     }
 
+    /**
+     * Resolve the embeddable class of an embedded column through the type checker
+     */
+    private resolveEmbeddedClass(property: PropertyDeclaration): ClassLike | undefined {
+        const decorator = property.getDecorator('Column');
+        const firstArg = decorator?.getArguments()[0];
+
+        if (!firstArg || !(Node.isArrowFunction(firstArg) || Node.isFunctionExpression(firstArg))) {
+            return undefined;
+        }
+
+        const declarations = firstArg.getReturnType().getSymbol()?.getDeclarations() ?? [];
+
+        return declarations.find((d): d is ClassLike => Node.isClassDeclaration(d) || Node.isClassExpression(d));
+    }
+
+    /**
+     * Expand an embedded column into the columns of its embeddable class
+     * Nested embeddeds accumulate their prefixes, which the naming strategy joins, e.g. address_geo_lat
+     */
+    private extractEmbeddedColumns(
+        property: PropertyDeclaration,
+        embeddedClass: ClassLike,
+        visited: Set<ClassLike>,
+        embeddedPrefixes: string[],
+    ): ColumnMetadata[] {
+        // Guard against embeddables that (indirectly) embed themselves
+        if (visited.has(embeddedClass)) {
+            return [];
+        }
+
+        const prefix = this.getEmbeddedPrefix(property);
+        const columns = this.extractClassColumns(
+            embeddedClass,
+            new Set([...visited, embeddedClass]),
+            prefix ? [...embeddedPrefixes, prefix] : embeddedPrefixes,
+        );
+
+        return columns.map((column) => ({
+            ...column,
+            propertyName: `${property.getName()}.${column.propertyName}`,
+            embeddedFrom: column.embeddedFrom ?? embeddedClass.getName(),
+        }));
+    }
+
+    /**
+     * Get the column name prefix of an embedded column
+     * Defaults to the property name; `prefix: false` or `prefix: ''` disables it
+     */
+    private getEmbeddedPrefix(property: PropertyDeclaration): string | undefined {
+        const defaultPrefix = property.getName();
+        const options = property.getDecorator('Column')?.getArguments()[1];
+
+        if (!options || !Node.isObjectLiteralExpression(options)) {
+            return defaultPrefix;
+        }
+
+        const prefixProp = options.getProperty('prefix');
+        const initializer = Node.isPropertyAssignment(prefixProp) ? prefixProp.getInitializer() : undefined;
+
+        if (!initializer) {
+            return defaultPrefix;
+        }
+
+        const prefix = this.evaluator.evaluate(initializer);
+        if (typeof prefix === 'string') {
+            return prefix || undefined;
+        }
+
+        return prefix === false ? undefined : defaultPrefix;
+    }
+
     /**
      * Extract column metadata from a single property
      */
     private extractColumnFromProperty(
         property: PropertyDeclaration,
-        enumsMap: Map<string, EnumMetadata>,
+        embeddedPrefixes: string[],
     ): ColumnMetadata | null {
-        const decorators = property.getDecorators();
         const propertyName = property.getName();
 
         // Check for column decorators
-        const columnDecorator = decorators.find((d) =>
-            [
-                'Column',
-                'PrimaryColumn',
-                'PrimaryGeneratedColumn',
-                'CreateDateColumn',
-                'UpdateDateColumn',
-                'DeleteDateColumn',
-                'VersionColumn',
-            ].includes(d.getName()),
-        );
+        const columnDecorator = this.getColumnDecorator(property);
 
         if (!columnDecorator) {
             // Not a column (might be a relation)
@@ -56,11 +202,11 @@ export class ColumnExtractor {
         // Initialize metadata
         const metadata: ColumnMetadata = {
             propertyName,
-            columnName: this.toSnakeCase(propertyName),
+            columnName: '', // Resolved through the naming strategy once the `name` option is known
             type: 'varchar',
             isPrimary: false,
             isGenerated: false,
-            isNullable: true,
+            isNullable: decoratorName === 'DeleteDateColumn', // Delete dates are nullable, other columns NOT NULL by default
             isUnique: false,
             isCreateDate: decoratorName === 'CreateDateColumn',
             isUpdateDate: decoratorName === 'UpdateDateColumn',
@@ -71,7 +217,6 @@ export class ColumnExtractor {
         // Handle primary columns
         if (decoratorName === 'PrimaryColumn' || decoratorName === 'PrimaryGeneratedColumn') {
             metadata.isPrimary = true;
-            metadata.isNullable = false;
         }
 
         // Handle generated columns
@@ -79,8 +224,8 @@ export class ColumnExtractor {
             metadata.isGenerated = true;
 
             const args = columnDecorator.getArguments();
-            if (args.length > 0) {
-                const firstArg = args[0].getText().replace(/['"]/g, '');
+            if (args.length > 0 && !Node.isObjectLiteralExpression(args[0])) {
+                const firstArg = this.evaluator.evaluateString(args[0]);
                 if (firstArg === 'uuid') {
                     metadata.generationStrategy = 'uuid';
                     metadata.type = 'uuid';
@@ -101,23 +246,42 @@ export class ColumnExtractor {
         // Handle special date columns
         if (['CreateDateColumn', 'UpdateDateColumn', 'DeleteDateColumn'].includes(decoratorName)) {
             metadata.type = 'timestamp';
-            metadata.isNullable = false;
         }
 
         // Handle version column
         if (decoratorName === 'VersionColumn') {
             metadata.type = 'integer';
-            metadata.isNullable = false;
         }
 
         // Extract options from decorator arguments
         const args = columnDecorator.getArguments();
+
+        // @Column('decimal', { ... }) / @PrimaryColumn(ColumnTypes.UUID)
+        if (
+            ['Column', 'PrimaryColumn'].includes(decoratorName) &&
+            args.length > 0 &&
+            !Node.isObjectLiteralExpression(args[0])
+        ) {
+            metadata.type = this.evaluator.evaluateString(args[0]) ?? metadata.type;
+        }
+
         for (const arg of args) {
             if (arg.getKind() === SyntaxKind.ObjectLiteralExpression) {
-                this.extractColumnOptions(arg.asKind(SyntaxKind.ObjectLiteralExpression)!, metadata, enumsMap);
+                this.extractColumnOptions(arg.asKind(SyntaxKind.ObjectLiteralExpression)!, metadata, decoratorName);
             }
         }
 
+        // Enum columns without an `enum` option take their values from a union property type
+        if (['enum', 'simple-enum'].includes(metadata.type) && !metadata.enumValues) {
+            this.enumExtractor.extractUnionEnum(property, metadata);
+        }
+
+        metadata.columnName = this.namingStrategy.columnName(
+            propertyName,
+            metadata.columnName || undefined,
+            embeddedPrefixes,
+        );
+
         // Infer type from TypeScript type if not explicitly set
         if (metadata.type === 'varchar' && !metadata.isGenerated) {
             const tsType = property.getType();
@@ -136,10 +300,29 @@ export class ColumnExtractor {
         return metadata;
     }
 
+    /**
+     * Find the column decorator on a property, if any
+     */
+    private getColumnDecorator(property: PropertyDeclaration): Decorator | undefined {
+        return property
+            .getDecorators()
+            .find((d) =>
+                [
+                    'Column',
+                    'PrimaryColumn',
+                    'PrimaryGeneratedColumn',
+                    'CreateDateColumn',
+                    'UpdateDateColumn',
+                    'DeleteDateColumn',
+                    'VersionColumn',
+                ].includes(d.getName()),
+            );
+    }
+
     /**
      * Extract column options from decorator object literal
      */
-    private extractColumnOptions(options: any, metadata: ColumnMetadata, enumsMap: Map<string, EnumMetadata>): void {
+    private extractColumnOptions(options: any, metadata: ColumnMetadata, decoratorName: string): void {
         const properties = options.getProperties();
 
         for (const prop of properties) {
@@ -151,95 +334,80 @@ export class ColumnExtractor {
                 const initializer = propAssignment.getInitializer();
                 if (!initializer) continue;
 
-                const value = initializer.getText();
-
                 switch (name) {
                     case 'type':
-                        metadata.type = value.replace(/['"]/g, '');
+                        metadata.type = this.evaluator.evaluateString(initializer) ?? metadata.type;
                         break;
                     case 'name':
-                        metadata.columnName = value.replace(/['"]/g, '');
+                        metadata.columnName = this.evaluator.evaluateString(initializer) ?? metadata.columnName;
                         break;
                     case 'length':
-                        metadata.length = parseInt(value);
+                        metadata.length = this.evaluator.evaluateNumber(initializer);
                         break;
                     case 'precision':
-                        metadata.precision = parseInt(value);
+                        metadata.precision = this.evaluator.evaluateNumber(initializer);
                         break;
                     case 'scale':
-                        metadata.scale = parseInt(value);
+                        metadata.scale = this.evaluator.evaluateNumber(initializer);
                         break;
                     case 'nullable':
-                        metadata.isNullable = value === 'true';
+                        metadata.isNullable = this.evaluator.evaluateBoolean(initializer) ?? metadata.isNullable;
                         break;
                     case 'unique':
-                        metadata.isUnique = value === 'true';
+                        metadata.isUnique = this.evaluator.evaluateBoolean(initializer) ?? metadata.isUnique;
                         break;
                     case 'default':
-                        metadata.default = value.replace(/['"]/g, '');
+                        Object.assign(metadata, this.extractDefaultValue(initializer));
                         break;
                     case 'comment':
-                        metadata.comment = value.replace(/['"]/g, '');
+                        metadata.comment = this.evaluator.evaluateString(initializer);
                         break;
                     case 'array':
-                        metadata.isArray = value === 'true';
+                        metadata.isArray = this.evaluator.evaluateBoolean(initializer) ?? metadata.isArray;
                         break;
                     case 'enum':
-                        this.extractEnumMetadata(initializer, metadata, enumsMap);
+                        this.enumExtractor.extractEnum(initializer, metadata);
                         break;
+                    case 'enumName':
+                        metadata.enumName = this.evaluator.evaluateString(initializer);
+                        break;
+                    case 'primary':
+                        metadata.isPrimary = this.evaluator.evaluateBoolean(initializer) ?? metadata.isPrimary;
+                        break;
+                    case 'primaryKeyConstraintName':
+                        metadata.primaryKeyConstraintName = this.evaluator.evaluateString(initializer);
+                        break;
+                    default:
+                        if (!ColumnExtractor.RUNTIME_COLUMN_OPTIONS.includes(name)) {
+                            this.diagnostics.unsupportedOption(propAssignment, name, `@${decoratorName}`);
+                        }
                 }
             }
         }
     }
 
     /**
-     * Extract enum metadata from column options
+     * Extract a column default
+     * `() => 'now()'` yields the raw SQL expression, flagged as one; values that cannot be evaluated keep their source text
      */
-    private extractEnumMetadata(
-        enumInitializer: any,
-        metadata: ColumnMetadata,
-        enumsMap: Map<string, EnumMetadata>,
-    ): void {
-        const enumText = enumInitializer.getText();
-
-        // Try to resolve the enum
-        const symbol = enumInitializer.getType().getSymbol();
-        if (!symbol) return;
-
-        const enumName = symbol.getName();
-        metadata.enumName = this.toSnakeCase(enumName);
-        metadata.type = metadata.enumName;
-
-        // Check if we've already processed this enum
-        if (enumsMap.has(enumName)) {
-            return;
+    extractDefaultValue(initializer: Node): Pick<ColumnMetadata, 'default' | 'isDefaultExpression'> {
+        if (Node.isArrowFunction(initializer)) {
+            const body = initializer.getBody();
+            return Node.isBlock(body)
+                ? { default: undefined }
+                : { default: this.extractDefaultValue(body).default, isDefaultExpression: true };
         }
 
-        // Get enum values
-        const declarations = symbol.getDeclarations();
-        if (declarations.length === 0) return;
-
-        const enumDecl = declarations[0];
-        if (enumDecl.getKind() === SyntaxKind.EnumDeclaration) {
-            const enumNode = enumDecl.asKind(SyntaxKind.EnumDeclaration);
-            if (!enumNode) return;
-
-            const members = enumNode.getMembers();
-            const values = members.map((member) => {
-                const initializer = member.getInitializer();
-                if (initializer) {
-                    return initializer.getText().replace(/['"]/g, '');
-                }
-                return member.getName();
-            });
-
-            enumsMap.set(enumName, {
-                name: this.toSnakeCase(enumName),
-                values,
-            });
+        const value = this.evaluator.evaluate(initializer);
+        if (value === undefined) {
+            return { default: initializer.getText().replace(/['"]/g, '') };
+        }
 
-            metadata.enumValues = values;
+        if (value === null) {
+            return { default: 'null' };
         }
+
+        return { default: typeof value === 'object' ? JSON.stringify(value) : String(value) };
     }
 
     /**
@@ -275,14 +443,4 @@ export class ColumnExtractor {
                 return 'varchar';
         }
     }
-
-    /**
-     * Convert PascalCase/camelCase to snake_case
-     */
-    private toSnakeCase(str: string): string {
-        return str
-            .replace(/([A-Z])/g, '_$1')
-            .toLowerCase()
-            .replace(/^_/, '');
-    }
 }
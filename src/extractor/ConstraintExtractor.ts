@@ -2,12 +2,31 @@
  * ConstraintExtractor - Extracts constraint metadata (indexes, unique, checks) from TypeORM entities
  */
 
-import { ClassDeclaration, SyntaxKind } from 'ts-morph';
-import { IndexMetadata, UniqueMetadata, CheckMetadata } from '../parser/types';
+import { ClassDeclaration, Decorator, Node, SyntaxKind } from 'ts-morph';
+import CheckMetadata from '../utils/interfaces/CheckMetadata';
+import EntityMetadata from '../utils/interfaces/EntityMetadata';
+import IndexMetadata from '../utils/interfaces/IndexMetadata';
+import UniqueMetadata from '../utils/interfaces/UniqueMetadata';
+import { DiagnosticCollector } from '../utils/DiagnosticCollector';
+import { ClassHierarchyResolver } from './ClassHierarchyResolver';
+import { StaticEvaluator } from './StaticEvaluator';
 
 export class ConstraintExtractor {
+    // Index options that only affect how TypeORM builds and syncs indexes, not the schema
+    private static readonly RUNTIME_INDEX_OPTIONS = ['sparse', 'background', 'expireAfterSeconds', 'synchronize'];
+
+    private hierarchyResolver: ClassHierarchyResolver;
+    private evaluator: StaticEvaluator;
+    private diagnostics: DiagnosticCollector;
+
+    constructor(diagnostics: DiagnosticCollector = new DiagnosticCollector()) {
+        this.hierarchyResolver = new ClassHierarchyResolver();
+        this.evaluator = new StaticEvaluator(diagnostics);
+        this.diagnostics = diagnostics;
+    }
+
     /**
-     * Extract all constraints from an entity class
+     * Extract all constraints from an entity class, including those declared on base classes
      */
     extractConstraints(classDecl: ClassDeclaration): {
         indexes: IndexMetadata[];
@@ -21,12 +40,39 @@ export class ConstraintExtractor {
         return { indexes, uniques, checks };
     }
 
+    /**
+     * Map the property names indexes and uniques are declared with to the database column names
+     * the naming strategy gave them; names matching no property are taken as column names already
+     */
+    resolveColumnNames(entity: EntityMetadata): void {
+        const columnNames = new Map<string, string[]>();
+        for (const column of entity.columns) {
+            columnNames.set(column.propertyName, [column.columnName]);
+        }
+        for (const relation of entity.relations) {
+            const names = relation.joinColumns?.map((c) => c.name).filter((name): name is string => !!name);
+            if (names?.length) {
+                columnNames.set(relation.propertyName, names);
+            }
+        }
+
+        // A relation with a composite foreign key expands to all of its columns
+        const resolve = (name: string) => columnNames.get(name) ?? [name];
+
+        for (const index of entity.indexes) {
+            index.columns = index.columns.flatMap(resolve);
+        }
+        for (const unique of entity.uniques) {
+            unique.columns = unique.columns.flatMap(resolve);
+        }
+    }
+
     /**
      * Extract index metadata from @Index decorators
      */
     private extractIndexes(classDecl: ClassDeclaration): IndexMetadata[] {
         const indexes: IndexMetadata[] = [];
-        const decorators = classDecl.getDecorators();
+        const decorators = this.getClassDecorators(classDecl);
 
         for (const decorator of decorators) {
             if (decorator.getName() === 'Index') {
@@ -38,7 +84,7 @@ export class ConstraintExtractor {
         }
 
         // Also check properties for individual column indexes
-        const properties = classDecl.getProperties();
+        const properties = this.hierarchyResolver.getProperties(classDecl, (p) => !!p.getDecorator('Index'));
         for (const property of properties) {
             const propertyDecorators = property.getDecorators();
             for (const decorator of propertyDecorators) {
@@ -54,6 +100,13 @@ export class ConstraintExtractor {
         return indexes;
     }
 
+    /**
+     * Get class-level decorators of an entity and all of its base classes
+     */
+    private getClassDecorators(classDecl: ClassDeclaration): Decorator[] {
+        return this.hierarchyResolver.getClassChain(classDecl).flatMap((c) => c.getDecorators());
+    }
+
     /**
      * Extract index metadata from class-level @Index decorator
      */
@@ -73,28 +126,30 @@ export class ConstraintExtractor {
 
         // First argument could be: name (string), columns (array), or options (object)
         const firstArg = args[0];
-        const firstArgKind = firstArg.getKind();
 
-        // Case 1: @Index(['col1', 'col2'])
-        if (firstArgKind === SyntaxKind.ArrayLiteralExpression) {
+        // Case 1: @Index({ ... }) - options only
+        if (firstArg.getKind() === SyntaxKind.ObjectLiteralExpression) {
+            this.extractIndexOptions(firstArg, metadata);
+            return metadata;
+        }
+
+        const firstValue = this.evaluator.evaluate(firstArg);
+
+        // Case 2: @Index(['col1', 'col2'])
+        if (Array.isArray(firstValue)) {
             metadata.columns = this.extractColumnsFromArray(firstArg);
             currentArgIndex = 1;
         }
-        // Case 2: @Index('index_name', ['col1', 'col2'])
-        else if (firstArgKind === SyntaxKind.StringLiteral) {
-            metadata.name = firstArg.getText().replace(/['"]/g, '');
+        // Case 3: @Index('index_name', ['col1', 'col2'])
+        else if (typeof firstValue === 'string') {
+            metadata.name = firstValue;
             currentArgIndex = 1;
 
-            if (args.length > 1 && args[1].getKind() === SyntaxKind.ArrayLiteralExpression) {
+            if (args.length > 1 && args[1].getKind() !== SyntaxKind.ObjectLiteralExpression) {
                 metadata.columns = this.extractColumnsFromArray(args[1]);
                 currentArgIndex = 2;
             }
         }
-        // Case 3: @Index({ ... }) - options only
-        else if (firstArgKind === SyntaxKind.ObjectLiteralExpression) {
-            this.extractIndexOptions(firstArg, metadata);
-            return metadata;
-        }
 
         // Check for options object as last argument
         if (args.length > currentArgIndex) {
@@ -112,7 +167,7 @@ export class ConstraintExtractor {
      */
     private extractIndexFromPropertyDecorator(decorator: any, propertyName: string): IndexMetadata | null {
         const metadata: IndexMetadata = {
-            columns: [this.toSnakeCase(propertyName)],
+            columns: [propertyName],
             isUnique: false,
         };
 
@@ -120,12 +175,10 @@ export class ConstraintExtractor {
 
         // Could have name and/or options
         for (const arg of args) {
-            const argKind = arg.getKind();
-
-            if (argKind === SyntaxKind.StringLiteral) {
-                metadata.name = arg.getText().replace(/['"]/g, '');
-            } else if (argKind === SyntaxKind.ObjectLiteralExpression) {
+            if (arg.getKind() === SyntaxKind.ObjectLiteralExpression) {
                 this.extractIndexOptions(arg, metadata);
+            } else {
+                metadata.name = this.evaluator.evaluateString(arg);
             }
         }
 
@@ -147,27 +200,29 @@ export class ConstraintExtractor {
                 const initializer = propAssignment.getInitializer();
                 if (!initializer) continue;
 
-                const value = initializer.getText();
-
                 switch (name) {
                     case 'unique':
-                        metadata.isUnique = value === 'true';
+                        metadata.isUnique = this.evaluator.evaluateBoolean(initializer) ?? false;
                         break;
                     case 'spatial':
-                        metadata.isSpatial = value === 'true';
+                        metadata.isSpatial = this.evaluator.evaluateBoolean(initializer) ?? false;
                         break;
                     case 'fulltext':
-                        metadata.isFulltext = value === 'true';
+                        metadata.isFulltext = this.evaluator.evaluateBoolean(initializer) ?? false;
                         break;
                     case 'where':
-                        metadata.where = value.replace(/['"]/g, '');
+                        metadata.where = this.evaluator.evaluateString(initializer);
                         break;
                     case 'using':
-                        const typeValue = value.replace(/['"]/g, '').toLowerCase();
+                        const typeValue = this.evaluator.evaluateString(initializer)?.toLowerCase() ?? '';
                         if (['btree', 'hash', 'gist', 'gin'].includes(typeValue)) {
                             metadata.type = typeValue as IndexMetadata['type'];
                         }
                         break;
+                    default:
+                        if (!ConstraintExtractor.RUNTIME_INDEX_OPTIONS.includes(name)) {
+                            this.diagnostics.unsupportedOption(propAssignment, name, '@Index');
+                        }
                 }
             }
         }
@@ -178,7 +233,7 @@ export class ConstraintExtractor {
      */
     private extractUniques(classDecl: ClassDeclaration): UniqueMetadata[] {
         const uniques: UniqueMetadata[] = [];
-        const decorators = classDecl.getDecorators();
+        const decorators = this.getClassDecorators(classDecl);
 
         for (const decorator of decorators) {
             if (decorator.getName() === 'Unique') {
@@ -210,17 +265,17 @@ export class ConstraintExtractor {
 
         // First argument could be: name (string) or columns (array)
         const firstArg = args[0];
-        const firstArgKind = firstArg.getKind();
+        const firstValue = this.evaluator.evaluate(firstArg);
 
         // Case 1: @Unique(['col1', 'col2'])
-        if (firstArgKind === SyntaxKind.ArrayLiteralExpression) {
+        if (Array.isArray(firstValue)) {
             metadata.columns = this.extractColumnsFromArray(firstArg);
         }
         // Case 2: @Unique('unique_name', ['col1', 'col2'])
-        else if (firstArgKind === SyntaxKind.StringLiteral) {
-            metadata.name = firstArg.getText().replace(/['"]/g, '');
+        else if (typeof firstValue === 'string') {
+            metadata.name = firstValue;
 
-            if (args.length > 1 && args[1].getKind() === SyntaxKind.ArrayLiteralExpression) {
+            if (args.length > 1) {
                 metadata.columns = this.extractColumnsFromArray(args[1]);
             }
         }
@@ -233,7 +288,7 @@ export class ConstraintExtractor {
      */
     private extractChecks(classDecl: ClassDeclaration): CheckMetadata[] {
         const checks: CheckMetadata[] = [];
-        const decorators = classDecl.getDecorators();
+        const decorators = this.getClassDecorators(classDecl);
 
         for (const decorator of decorators) {
             if (decorator.getName() === 'Check') {
@@ -261,50 +316,21 @@ export class ConstraintExtractor {
             expression: '',
         };
 
-        // First argument is always the expression
-        const firstArg = args[0];
-        metadata.expression = firstArg.getText().replace(/['"]/g, '');
-
-        // Second argument could be name
+        // @Check('expression') or @Check('name', 'expression')
         if (args.length > 1) {
-            const secondArg = args[1];
-            if (secondArg.getKind() === SyntaxKind.StringLiteral) {
-                metadata.name = secondArg.getText().replace(/['"]/g, '');
-            }
+            metadata.name = this.evaluator.evaluateString(args[0]);
+            metadata.expression = this.evaluator.evaluateString(args[1]) ?? '';
+        } else {
+            metadata.expression = this.evaluator.evaluateString(args[0]) ?? '';
         }
 
         return metadata.expression ? metadata : null;
     }
 
     /**
-     * Extract column names from an array literal
-     */
-    private extractColumnsFromArray(arrayLiteral: any): string[] {
-        const columns: string[] = [];
-        const array = arrayLiteral.asKind(SyntaxKind.ArrayLiteralExpression);
-
-        if (!array) {
-            return columns;
-        }
-
-        const elements = array.getElements();
-        for (const element of elements) {
-            if (element.getKind() === SyntaxKind.StringLiteral) {
-                const columnName = element.getText().replace(/['"]/g, '');
-                columns.push(columnName);
-            }
-        }
-
-        return columns;
-    }
-
-    /**
-     * Convert PascalCase/camelCase to snake_case
+     * Extract column names from an array, which may reference constants
      */
-    private toSnakeCase(str: string): string {
-        return str
-            .replace(/([A-Z])/g, '_$1')
-            .toLowerCase()
-            .replace(/^_/, '');
+    private extractColumnsFromArray(arrayLiteral: Node): string[] {
+        return this.evaluator.evaluateStringArray(arrayLiteral) ?? [];
     }
 }
@@ -0,0 +1,469 @@
+/**
+ * EntitySchemaExtractor - Extracts metadata from decorator-free `new EntitySchema({ ... })` definitions
+ */
+
+import { Node, ObjectLiteralExpression, SyntaxKind } from 'ts-morph';
+import CheckMetadata from '../utils/interfaces/CheckMetadata';
+import ColumnMetadata from '../utils/interfaces/ColumnMetadata';
+import EntityMetadata from '../utils/interfaces/EntityMetadata';
+import IndexMetadata from '../utils/interfaces/IndexMetadata';
+import JoinColumnMetadata from '../utils/interfaces/JoinColumnMetadata';
+import JoinTableMetadata from '../utils/interfaces/JoinTableMetadata';
+import NamingStrategy from '../utils/interfaces/NamingStrategy';
+import RelationMetadata from '../utils/interfaces/RelationMetadata';
+import UniqueMetadata from '../utils/interfaces/UniqueMetadata';
+import { DiagnosticCollector } from '../utils/DiagnosticCollector';
+import { getLintIgnores } from '../utils/JsDocUtils';
+import { DefaultNamingStrategy } from '../naming/DefaultNamingStrategy';
+import { ColumnExtractor } from './ColumnExtractor';
+import { EnumExtractor } from './EnumExtractor';
+import { StaticEvaluator } from './StaticEvaluator';
+
+export class EntitySchemaExtractor {
+    private columnExtractor: ColumnExtractor;
+    private enumExtractor: EnumExtractor;
+    private evaluator: StaticEvaluator;
+    private diagnostics: DiagnosticCollector;
+    private namingStrategy: NamingStrategy;
+
+    constructor(
+        diagnostics: DiagnosticCollector = new DiagnosticCollector(),
+        namingStrategy: NamingStrategy = new DefaultNamingStrategy(),
+    ) {
+        this.columnExtractor = new ColumnExtractor(diagnostics, namingStrategy);
+        this.enumExtractor = new EnumExtractor(diagnostics);
+        this.evaluator = new StaticEvaluator(diagnostics);
+        this.diagnostics = diagnostics;
+        this.namingStrategy = namingStrategy;
+    }
+
+    /**
+     * Extract entity metadata from the options object of an EntitySchema
+     */
+    extractEntitySchema(options: ObjectLiteralExpression): EntityMetadata {
+        const name = this.getString(options, 'name') ?? this.getTargetName(options) ?? 'Unknown';
+
+        return {
+            name,
+            tableName: this.namingStrategy.tableName(name, this.getString(options, 'tableName')),
+            schema: this.getString(options, 'schema'),
+            columns: this.extractColumns(options),
+            relations: this.extractRelations(options),
+            indexes: this.extractIndexes(options),
+            uniques: this.extractUniques(options),
+            checks: this.extractChecks(options),
+            note: this.extractNote(options),
+            lintIgnore: getLintIgnores(options.getFirstAncestorByKind(SyntaxKind.VariableStatement)?.getJsDocs() ?? []),
+        };
+    }
+
+    /**
+     * Get the class name passed as `target`, which decorator entities use to reference this one
+     */
+    getTargetName(options: ObjectLiteralExpression): string | undefined {
+        const target = this.getOption(options, 'target');
+        return target && Node.isIdentifier(target) ? target.getText() : undefined;
+    }
+
+    /**
+     * Extract columns from the `columns` map
+     */
+    private extractColumns(options: ObjectLiteralExpression): ColumnMetadata[] {
+        const columns: ColumnMetadata[] = [];
+
+        for (const [propertyName, columnOptions] of this.getEntries(options, 'columns')) {
+            const metadata: ColumnMetadata = {
+                propertyName,
+                columnName: this.namingStrategy.columnName(propertyName, this.getString(columnOptions, 'name'), []),
+                type: this.extractColumnType(columnOptions),
+                isPrimary: this.getBoolean(columnOptions, 'primary') ?? false,
+                isGenerated: false,
+                isNullable: this.getBoolean(columnOptions, 'deleteDate') ?? false, // Delete dates are nullable, others NOT NULL
+                isUnique: this.getBoolean(columnOptions, 'unique') ?? false,
+                isCreateDate: this.getBoolean(columnOptions, 'createDate') ?? false,
+                isUpdateDate: this.getBoolean(columnOptions, 'updateDate') ?? false,
+                isDeleteDate: this.getBoolean(columnOptions, 'deleteDate') ?? false,
+                isVersion: this.getBoolean(columnOptions, 'version') ?? false,
+            };
+
+            // Handle generated columns: generated: true | 'increment' | 'uuid' | 'rowid'
+            const generatedOption = this.getOption(columnOptions, 'generated');
+            const generated = generatedOption ? this.evaluator.evaluate(generatedOption) : undefined;
+            if (generated === true || typeof generated === 'string') {
+                const strategy = typeof generated === 'string' ? generated : 'increment';
+                metadata.isGenerated = true;
+                metadata.generationStrategy = strategy as ColumnMetadata['generationStrategy'];
+                metadata.type = strategy === 'uuid' ? 'uuid' : 'integer';
+            }
+
+            const nullable = this.getBoolean(columnOptions, 'nullable');
+            if (nullable !== undefined) {
+                metadata.isNullable = nullable;
+            }
+
+            const length = this.getNumber(columnOptions, 'length');
+            if (length !== undefined) {
+                metadata.length = length;
+            }
+
+            const precision = this.getNumber(columnOptions, 'precision');
+            if (precision !== undefined) {
+                metadata.precision = precision;
+            }
+
+            const scale = this.getNumber(columnOptions, 'scale');
+            if (scale !== undefined) {
+                metadata.scale = scale;
+            }
+
+            const defaultValue = this.getOption(columnOptions, 'default');
+            if (defaultValue) {
+                Object.assign(metadata, this.columnExtractor.extractDefaultValue(defaultValue));
+            }
+
+            const comment = this.getString(columnOptions, 'comment');
+            if (comment !== undefined) {
+                metadata.comment = comment;
+            }
+
+            const primaryKeyConstraintName = this.getString(columnOptions, 'primaryKeyConstraintName');
+            if (primaryKeyConstraintName !== undefined) {
+                metadata.primaryKeyConstraintName = primaryKeyConstraintName;
+            }
+
+            const array = this.getBoolean(columnOptions, 'array');
+            if (array !== undefined) {
+                metadata.isArray = array;
+            }
+
+            const enumName = this.getString(columnOptions, 'enumName');
+            if (enumName !== undefined) {
+                metadata.enumName = enumName;
+            }
+
+            const enumOption = this.getOption(columnOptions, 'enum');
+            if (enumOption) {
+                this.enumExtractor.extractEnum(enumOption, metadata);
+            }
+
+            columns.push(metadata);
+        }
+
+        return columns;
+    }
+
+    /**
+     * Determine the database type of a column
+     * `type` may be a database type string or a JS constructor such as String or Number
+     */
+    private extractColumnType(columnOptions: ObjectLiteralExpression): string {
+        if (['createDate', 'updateDate', 'deleteDate'].some((option) => this.getBoolean(columnOptions, option))) {
+            return 'timestamp';
+        }
+        if (this.getBoolean(columnOptions, 'version')) {
+            return 'integer';
+        }
+
+        const type = this.getOption(columnOptions, 'type');
+        if (!type) {
+            return 'varchar';
+        }
+
+        switch (type.getText()) {
+            case 'String':
+                return 'varchar';
+            case 'Number':
+                return 'integer';
+            case 'Boolean':
+                return 'boolean';
+            case 'Date':
+                return 'timestamp';
+            case 'Buffer':
+                return 'bytea';
+            default:
+                return this.evaluator.evaluateString(type) ?? 'varchar';
+        }
+    }
+
+    /**
+     * Extract relations from the `relations` map
+     */
+    private extractRelations(options: ObjectLiteralExpression): RelationMetadata[] {
+        const relations: RelationMetadata[] = [];
+
+        for (const [propertyName, relationOptions] of this.getEntries(options, 'relations')) {
+            const type = this.getString(relationOptions, 'type') as RelationMetadata['type'] | undefined;
+            if (!type || !['one-to-one', 'many-to-one', 'one-to-many', 'many-to-many'].includes(type)) {
+                continue;
+            }
+
+            const metadata: RelationMetadata = {
+                propertyName,
+                type,
+                target: this.extractRelationTarget(relationOptions),
+                inverseSide: this.getString(relationOptions, 'inverseSide'),
+            };
+
+            const onDelete = this.getString(relationOptions, 'onDelete');
+            if (onDelete) {
+                metadata.onDelete = onDelete.toUpperCase() as RelationMetadata['onDelete'];
+            }
+
+            const onUpdate = this.getString(relationOptions, 'onUpdate');
+            if (onUpdate) {
+                metadata.onUpdate = onUpdate.toUpperCase() as RelationMetadata['onUpdate'];
+            }
+
+            const nullable = this.getBoolean(relationOptions, 'nullable');
+            if (nullable !== undefined) {
+                metadata.isNullable = nullable;
+            }
+
+            // many-to-one always owns the foreign key, one-to-one only with `joinColumn`
+            const joinColumn = this.getOption(relationOptions, 'joinColumn');
+            if (type === 'many-to-one' || (type === 'one-to-one' && joinColumn && joinColumn.getText() !== 'false')) {
+                // Join columns without referencedColumnName are resolved from the target's primary key
+                metadata.joinColumns = this.extractJoinColumnList(joinColumn);
+                for (const option of metadata.joinColumns) {
+                    if (option.referencedColumnName) {
+                        option.name ??= this.namingStrategy.joinColumnName(propertyName, option.referencedColumnName);
+                    }
+                }
+            }
+
+            const joinTable = this.getOption(relationOptions, 'joinTable');
+            if (type === 'many-to-many' && joinTable && joinTable.getText() !== 'false') {
+                metadata.joinTable = Node.isObjectLiteralExpression(joinTable)
+                    ? this.extractJoinTable(joinTable)
+                    : { joinColumns: [], inverseJoinColumns: [] };
+            }
+
+            this.diagnostics.setSource(metadata, relationOptions);
+            relations.push(metadata);
+        }
+
+        return relations;
+    }
+
+    /**
+     * Extract the relation target: an entity name string, a class, or a function returning one
+     */
+    private extractRelationTarget(relationOptions: ObjectLiteralExpression): string {
+        const target = this.getOption(relationOptions, 'target');
+        if (!target) {
+            return 'Unknown';
+        }
+
+        if (Node.isArrowFunction(target)) {
+            return target.getBody().getText();
+        }
+
+        // Entity names may come from constants; anything else is a class reference
+        const name = this.evaluator.tryEvaluate(target);
+        return typeof name?.value === 'string' ? name.value : target.getText();
+    }
+
+    /**
+     * Extract a join column options object
+     */
+    private extractJoinColumn(obj: ObjectLiteralExpression): JoinColumnMetadata {
+        const joinColumn: JoinColumnMetadata = {};
+
+        const name = this.getString(obj, 'name');
+        if (name) {
+            joinColumn.name = name;
+        }
+
+        const referencedColumnName = this.getString(obj, 'referencedColumnName');
+        if (referencedColumnName) {
+            joinColumn.referencedColumnName = referencedColumnName;
+        }
+
+        return joinColumn;
+    }
+
+    /**
+     * Extract a join table options object
+     */
+    private extractJoinTable(obj: ObjectLiteralExpression): JoinTableMetadata {
+        return {
+            name: this.getString(obj, 'name'),
+            schema: this.getString(obj, 'schema'),
+            joinColumns: this.extractJoinColumnList(
+                this.getOption(obj, 'joinColumn') ?? this.getOption(obj, 'joinColumns'),
+            ),
+            inverseJoinColumns: this.extractJoinColumnList(
+                this.getOption(obj, 'inverseJoinColumn') ?? this.getOption(obj, 'inverseJoinColumns'),
+            ),
+        };
+    }
+
+    /**
+     * Extract join columns from a single object or an array of objects
+     */
+    private extractJoinColumnList(node: Node | undefined): JoinColumnMetadata[] {
+        if (!node) {
+            return [];
+        }
+
+        const elements = Node.isArrayLiteralExpression(node) ? node.getElements() : [node];
+
+        return elements
+            .filter((element): element is ObjectLiteralExpression => Node.isObjectLiteralExpression(element))
+            .map((element) => this.extractJoinColumn(element));
+    }
+
+    /**
+     * Extract indexes from the `indices` array
+     */
+    private extractIndexes(options: ObjectLiteralExpression): IndexMetadata[] {
+        return this.getObjectArray(options, 'indices').map((index) => {
+            const metadata: IndexMetadata = {
+                columns: this.getStringArray(index, 'columns'),
+                isUnique: this.getBoolean(index, 'unique') ?? false,
+            };
+
+            const name = this.getString(index, 'name');
+            if (name) {
+                metadata.name = name;
+            }
+
+            const spatial = this.getBoolean(index, 'spatial');
+            if (spatial !== undefined) {
+                metadata.isSpatial = spatial;
+            }
+
+            const fulltext = this.getBoolean(index, 'fulltext');
+            if (fulltext !== undefined) {
+                metadata.isFulltext = fulltext;
+            }
+
+            const where = this.getString(index, 'where');
+            if (where) {
+                metadata.where = where;
+            }
+
+            return metadata;
+        });
+    }
+
+    /**
+     * Extract unique constraints from the `uniques` array
+     */
+    private extractUniques(options: ObjectLiteralExpression): UniqueMetadata[] {
+        return this.getObjectArray(options, 'uniques')
+            .map((unique) => ({
+                name: this.getString(unique, 'name'),
+                columns: this.getStringArray(unique, 'columns'),
+            }))
+            .filter((unique) => unique.columns.length > 0);
+    }
+
+    /**
+     * Extract check constraints from the `checks` array
+     */
+    private extractChecks(options: ObjectLiteralExpression): CheckMetadata[] {
+        return this.getObjectArray(options, 'checks')
+            .map((check) => ({
+                name: this.getString(check, 'name'),
+                expression: this.getString(check, 'expression') ?? '',
+            }))
+            .filter((check) => check.expression);
+    }
+
+    /**
+     * Extract the JSDoc comment of the variable holding the schema as a note
+     */
+    private extractNote(options: ObjectLiteralExpression): string | undefined {
+        const statement = options.getFirstAncestorByKind(SyntaxKind.VariableStatement);
+        const jsDocs = statement?.getJsDocs() ?? [];
+
+        if (jsDocs.length > 0) {
+            const comment = jsDocs[0].getComment();
+            if (typeof comment === 'string') {
+                return comment;
+            }
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Get the value of a property in an object literal
+     */
+    private getOption(obj: ObjectLiteralExpression, name: string): Node | undefined {
+        const prop = obj.getProperty(name);
+        if (prop && Node.isPropertyAssignment(prop)) {
+            return prop.getInitializer();
+        }
+        return undefined;
+    }
+
+    /**
+     * Get `[propertyName, options]` pairs from a map-like option such as `columns`
+     */
+    private getEntries(obj: ObjectLiteralExpression, name: string): [string, ObjectLiteralExpression][] {
+        const map = this.getOption(obj, name);
+        if (!map || !Node.isObjectLiteralExpression(map)) {
+            return [];
+        }
+
+        const entries: [string, ObjectLiteralExpression][] = [];
+        for (const prop of map.getProperties()) {
+            if (!Node.isPropertyAssignment(prop)) continue;
+
+            const initializer = prop.getInitializer();
+            if (initializer && Node.isObjectLiteralExpression(initializer)) {
+                entries.push([prop.getName().replace(/['"]/g, ''), initializer]);
+            }
+        }
+
+        return entries;
+    }
+
+    /**
+     * Get the object literal elements of an array option such as `indices`
+     */
+    private getObjectArray(obj: ObjectLiteralExpression, name: string): ObjectLiteralExpression[] {
+        const array = this.getOption(obj, name);
+        if (!array || !Node.isArrayLiteralExpression(array)) {
+            return [];
+        }
+
+        return array
+            .getElements()
+            .filter((element): element is ObjectLiteralExpression => Node.isObjectLiteralExpression(element));
+    }
+
+    /**
+     * Get a string option
+     */
+    private getString(obj: ObjectLiteralExpression, name: string): string | undefined {
+        const value = this.getOption(obj, name);
+        return value ? this.evaluator.evaluateString(value) : undefined;
+    }
+
+    /**
+     * Get a boolean option
+     */
+    private getBoolean(obj: ObjectLiteralExpression, name: string): boolean | undefined {
+        const value = this.getOption(obj, name);
+        return value ? this.evaluator.evaluateBoolean(value) : undefined;
+    }
+
+    /**
+     * Get a numeric option
+     */
+    private getNumber(obj: ObjectLiteralExpression, name: string): number | undefined {
+        const value = this.getOption(obj, name);
+        return value ? this.evaluator.evaluateNumber(value) : undefined;
+    }
+
+    /**
+     * Get a list of strings from an array option such as `columns`
+     */
+    private getStringArray(obj: ObjectLiteralExpression, name: string): string[] {
+        const array = this.getOption(obj, name);
+        return array ? (this.evaluator.evaluateStringArray(array) ?? []) : [];
+    }
+}
@@ -0,0 +1,161 @@
+/**
+ * EnumExtractor - Resolves the values of enum columns and registers the enum types the database creates for them
+ */
+
+import { Node, PropertyDeclaration } from 'ts-morph';
+import ColumnMetadata from '../utils/interfaces/ColumnMetadata';
+import EntityMetadata from '../utils/interfaces/EntityMetadata';
+import EnumMetadata from '../utils/interfaces/EnumMetadata';
+import { DiagnosticCollector } from '../utils/DiagnosticCollector';
+import { StaticEvaluator } from './StaticEvaluator';
+import { getDeclaration } from '../utils/AstUtils';
+
+type EnumMember = { value: string; note?: string };
+
+export class EnumExtractor {
+    private evaluator: StaticEvaluator;
+    private diagnostics: DiagnosticCollector;
+
+    constructor(diagnostics: DiagnosticCollector = new DiagnosticCollector()) {
+        this.evaluator = new StaticEvaluator(diagnostics);
+        this.diagnostics = diagnostics;
+    }
+
+    /**
+     * Read the `enum` option of a column: a TypeScript enum, an `as const` object or an array of values
+     */
+    extractEnum(initializer: Node, metadata: ColumnMetadata): void {
+        const declaration = getDeclaration(initializer);
+
+        const members = Node.isEnumDeclaration(declaration)
+            ? declaration.getMembers().map((member) => ({
+                  // Numeric members without an initializer get their implicit value, as TypeORM stores it
+                  value: String(member.getValue() ?? member.getName()),
+                  note: this.getJsDoc(member),
+              }))
+            : this.evaluateMembers(initializer, declaration);
+
+        if (!members) {
+            this.diagnostics.warning(
+                'unresolved-enum',
+                `Cannot resolve \`${initializer.getText()}\` to enum values; column \`${metadata.propertyName}\` keeps type ${metadata.type}`,
+                initializer,
+            );
+            return;
+        }
+
+        this.applyMembers(metadata, members);
+    }
+
+    /**
+     * Read the values of an enum column without an `enum` option from its property type ('draft' | 'published')
+     */
+    extractUnionEnum(property: PropertyDeclaration, metadata: ColumnMetadata): void {
+        const type = property.getType();
+        const literals = (type.isUnion() ? type.getUnionTypes() : [type]).filter(
+            (t) => !t.isNull() && !t.isUndefined(),
+        );
+
+        if (literals.length === 0 || !literals.every((t) => t.isStringLiteral() || t.isNumberLiteral())) {
+            this.diagnostics.warning(
+                'unresolved-enum',
+                `Enum column \`${metadata.propertyName}\` has neither an \`enum\` option nor a union of literals as its type`,
+                property,
+            );
+            return;
+        }
+
+        const members = literals.map((t) => ({ value: String(t.getLiteralValue()) }));
+        this.applyMembers(metadata, members);
+    }
+
+    /**
+     * Name the enums of a table and register them by their database name
+     * Enums without `enumName` get TypeORM's `<table>_<column>_enum`, whatever the `enum` option refers to,
+     * as Postgres creates a type per column; enums live in the schema of their table
+     */
+    registerEnums(entity: EntityMetadata, enums: Map<string, EnumMetadata>): void {
+        for (const column of entity.columns) {
+            if (!column.enumValues) continue;
+
+            const name = column.enumName ?? `${entity.tableName}_${column.columnName}_enum`;
+            const key = entity.schema ? `${entity.schema}.${name}` : name;
+
+            column.isNamedEnum = column.enumName !== undefined;
+            column.enumName = name;
+            column.enumSchema = entity.schema;
+            column.type = name;
+
+            const existing = enums.get(key);
+            if (!existing) {
+                enums.set(key, {
+                    name,
+                    schema: entity.schema,
+                    values: column.enumValues,
+                    valueNotes: column.enumValueNotes,
+                });
+            } else if (existing.values.join('\n') !== column.enumValues.join('\n')) {
+                this.diagnostics.warning(
+                    'conflicting-enum',
+                    `Enum \`${key}\` of \`${entity.tableName}.${column.columnName}\` has other values than an enum of the same name; the first one is kept`,
+                    entity,
+                );
+            }
+        }
+    }
+
+    /**
+     * Set the enum values of a column, with the JSDoc of the members as notes
+     */
+    private applyMembers(metadata: ColumnMetadata, members: EnumMember[]): void {
+        const notes = members.filter((m) => m.note).map((m) => [m.value, m.note!]);
+
+        metadata.enumValues = members.map((m) => m.value);
+        metadata.enumValueNotes = notes.length > 0 ? Object.fromEntries(notes) : undefined;
+    }
+
+    /**
+     * Evaluate an array of values or an `as const` object, whose property JSDoc becomes value notes
+     */
+    private evaluateMembers(initializer: Node, declaration?: Node): EnumMember[] | undefined {
+        const value = this.evaluator.tryEvaluate(initializer)?.value;
+
+        if (Array.isArray(value)) {
+            return value.map((v) => ({ value: String(v) }));
+        }
+
+        if (!value || typeof value !== 'object') {
+            return undefined;
+        }
+
+        let object = Node.isVariableDeclaration(declaration) ? declaration.getInitializer() : initializer;
+        while (object && Node.isAsExpression(object)) {
+            object = object.getExpression();
+        }
+
+        return Object.entries(value).map(([key, v]) => {
+            const property = Node.isObjectLiteralExpression(object) ? object.getProperty(key) : undefined;
+            return { value: String(v), note: property ? this.getJsDoc(property) : undefined };
+        });
+    }
+
+    /**
+     * Get the JSDoc description of an enum member or object property
+     */
+    private getJsDoc(node: Node): string | undefined {
+        if (Node.isJSDocable(node)) {
+            return node.getJsDocs()[0]?.getDescription().trim() || undefined;
+        }
+
+        // Object literal properties keep their JSDoc as a plain leading comment
+        const jsDoc = node
+            .getLeadingCommentRanges()
+            .map((range) => range.getText())
+            .find((text) => text.startsWith('/**'));
+        const comment = jsDoc
+            ?.replace(/^\/\*\*|\*\/$/g, '')
+            .replace(/^\s*\* ?/gm, '')
+            .trim();
+        return comment || undefined;
+    }
+}
@@ -0,0 +1,258 @@
+/**
+ * InheritanceExtractor - Extracts @TableInheritance/@ChildEntity hierarchies
+ * and folds child entities into the tables TypeORM creates for them
+ */
+
+import { ClassDeclaration, Decorator, Node } from 'ts-morph';
+import ColumnMetadata from '../utils/interfaces/ColumnMetadata';
+import EntityMetadata from '../utils/interfaces/EntityMetadata';
+import InheritanceMetadata from '../utils/interfaces/InheritanceMetadata';
+import { DiagnosticCollector } from '../utils/DiagnosticCollector';
+import { ClassHierarchyResolver } from './ClassHierarchyResolver';
+import { StaticEvaluator } from './StaticEvaluator';
+
+export class InheritanceExtractor {
+    private hierarchyResolver: ClassHierarchyResolver;
+    private evaluator: StaticEvaluator;
+    private diagnostics: DiagnosticCollector;
+
+    constructor(diagnostics: DiagnosticCollector = new DiagnosticCollector()) {
+        this.hierarchyResolver = new ClassHierarchyResolver();
+        this.evaluator = new StaticEvaluator(diagnostics);
+        this.diagnostics = diagnostics;
+    }
+
+    /**
+     * Extract inheritance metadata of a root entity (@TableInheritance) or one of its children (@ChildEntity)
+     */
+    extractInheritance(classDecl: ClassDeclaration): InheritanceMetadata | undefined {
+        const childDecorator = classDecl.getDecorator('ChildEntity');
+
+        // The root of the hierarchy declares @TableInheritance, children share its options
+        const root = this.hierarchyResolver
+            .getClassChain(classDecl)
+            .find((c): c is ClassDeclaration => Node.isClassDeclaration(c) && !!c.getDecorator('TableInheritance'));
+
+        if (!root) {
+            if (childDecorator) {
+                this.diagnostics.warning(
+                    'unknown-parent-entity',
+                    `\`${classDecl.getName()}\` is a @ChildEntity, but none of its base classes has @TableInheritance; it keeps a table of its own`,
+                    childDecorator,
+                );
+            }
+            return undefined;
+        }
+
+        const inheritance = this.extractTableInheritanceOptions(root.getDecoratorOrThrow('TableInheritance'));
+
+        if (root === classDecl) {
+            // Rows of a concrete root are discriminated by its class name
+            if (!classDecl.isAbstract()) {
+                inheritance.discriminatorValue = classDecl.getName();
+            }
+        } else {
+            // @ChildEntity('photo'), defaulting to the class name
+            const [value] = childDecorator?.getArguments() ?? [];
+            inheritance.parent = root.getName() || 'Unknown';
+            inheritance.discriminatorValue = (value && this.evaluator.evaluateString(value)) || classDecl.getName();
+        }
+
+        return inheritance;
+    }
+
+    /**
+     * Fold child entities into their hierarchy
+     * STI children are merged into the root table and registered as aliases of it;
+     * CTI children keep a table with their own columns and the primary key, referencing the root one-to-one
+     */
+    applyInheritance(entities: EntityMetadata[], aliases: Map<string, string>): EntityMetadata[] {
+        const roots = new Map(entities.filter((e) => e.inheritance && !e.inheritance.parent).map((e) => [e.name, e]));
+        const children = new Map<EntityMetadata, EntityMetadata[]>();
+        const tables: EntityMetadata[] = [];
+
+        // The discriminator goes after the root's own columns, before those merged from children
+        const ownColumnCounts = new Map([...roots.values()].map((root) => [root, root.columns.length]));
+
+        for (const entity of entities) {
+            const parent = entity.inheritance?.parent;
+            const root = parent ? roots.get(parent) : undefined;
+
+            if (!parent) {
+                tables.push(entity);
+                continue;
+            }
+
+            if (!root) {
+                this.diagnostics.warning(
+                    'unknown-parent-entity',
+                    `\`${entity.name}\` is a child of \`${parent}\`, which is not among the entities; it keeps a table of its own`,
+                    entity,
+                );
+                tables.push(entity);
+                continue;
+            }
+
+            children.set(root, [...(children.get(root) ?? []), entity]);
+
+            if (entity.inheritance?.pattern === 'STI') {
+                this.mergeIntoRoot(root, entity);
+                aliases.set(entity.name, root.tableName);
+            } else if (entity.inheritance?.pattern === 'CTI') {
+                this.reduceToOwnColumns(root, entity);
+                tables.push(entity);
+            } else {
+                // Table per concrete class: every child table holds all of its columns
+                tables.push(entity);
+            }
+        }
+
+        for (const root of roots.values()) {
+            if (root.inheritance?.pattern !== 'TPC') {
+                this.addDiscriminatorColumn(root, children.get(root) ?? [], ownColumnCounts.get(root)!);
+            }
+        }
+
+        return tables;
+    }
+
+    /**
+     * Merge a single-table child into the root table; its columns are nullable, as other children leave them empty
+     */
+    private mergeIntoRoot(root: EntityMetadata, child: EntityMetadata): void {
+        for (const column of child.columns) {
+            if (!root.columns.some((c) => c.columnName === column.columnName)) {
+                root.columns.push({ ...column, isNullable: true });
+            }
+        }
+
+        for (const relation of child.relations) {
+            if (!root.relations.some((r) => r.propertyName === relation.propertyName)) {
+                relation.isNullable = true;
+                root.relations.push(relation);
+            }
+        }
+
+        root.indexes.push(...this.getOwnConstraints(root.indexes, child.indexes));
+        root.uniques.push(...this.getOwnConstraints(root.uniques, child.uniques));
+        root.checks.push(...this.getOwnConstraints(root.checks, child.checks));
+    }
+
+    /**
+     * Reduce a class-table child to the primary key and the members it declares itself,
+     * with a one-to-one reference from its primary key to the root's
+     */
+    private reduceToOwnColumns(root: EntityMetadata, child: EntityMetadata): void {
+        const primaryColumns = child.columns.filter((c) => c.isPrimary);
+
+        // The root generates the key, the child copies it
+        child.columns = child.columns
+            .filter((c) => c.isPrimary || !root.columns.some((r) => r.columnName === c.columnName))
+            .map((c) => (c.isPrimary ? { ...c, isGenerated: false, generationStrategy: undefined } : c));
+        child.relations = child.relations.filter(
+            (relation) => !root.relations.some((r) => r.propertyName === relation.propertyName),
+        );
+        child.indexes = this.getOwnConstraints(root.indexes, child.indexes);
+        child.uniques = this.getOwnConstraints(root.uniques, child.uniques);
+        child.checks = this.getOwnConstraints(root.checks, child.checks);
+
+        child.relations.push({
+            propertyName: root.name,
+            type: 'one-to-one',
+            target: root.name,
+            joinColumns: primaryColumns.map((c) => ({ name: c.columnName, referencedColumnName: c.columnName })),
+            onDelete: 'CASCADE',
+        });
+    }
+
+    /**
+     * Add the discriminator column to the root table, with the value of each class in the table note
+     */
+    private addDiscriminatorColumn(root: EntityMetadata, children: EntityMetadata[], position: number): void {
+        const inheritance = root.inheritance!;
+        const columnName = inheritance.discriminatorColumn ?? 'type';
+
+        if (!root.columns.some((c) => c.columnName === columnName)) {
+            const column: ColumnMetadata = {
+                propertyName: columnName,
+                columnName,
+                type: inheritance.discriminatorType ?? 'varchar',
+                isPrimary: false,
+                isGenerated: false,
+                isNullable: false,
+                isUnique: false,
+            };
+            root.columns.splice(position, 0, column);
+        }
+
+        const values = [root, ...children]
+            .filter((entity) => entity.inheritance?.discriminatorValue)
+            .map((entity) => `${entity.name} = '${entity.inheritance!.discriminatorValue}'`);
+
+        if (values.length > 0) {
+            const note = `Discriminator ${columnName}: ${values.join(', ')}`;
+            root.note = root.note ? `${root.note} - ${note}` : note;
+        }
+    }
+
+    /**
+     * Get the constraints of a child that are not inherited from the root
+     */
+    private getOwnConstraints<T>(rootConstraints: T[], childConstraints: T[]): T[] {
+        const inherited = new Set(rootConstraints.map((c) => JSON.stringify(c)));
+        return childConstraints.filter((c) => !inherited.has(JSON.stringify(c)));
+    }
+
+    /**
+     * Read the options of @TableInheritance({ pattern, column }), also when cast, satisfied or held in a constant
+     * Options that cannot be evaluated leave single-table inheritance with a `type` column, with a warning
+     */
+    private extractTableInheritanceOptions(decorator: Decorator): InheritanceMetadata {
+        const inheritance: InheritanceMetadata = { pattern: 'STI' };
+
+        const [argument] = decorator.getArguments();
+        if (!argument) {
+            return inheritance;
+        }
+
+        const options = this.evaluator.tryEvaluate(argument)?.value;
+        if (!options || typeof options !== 'object' || Array.isArray(options)) {
+            this.diagnostics.warning(
+                'unresolved-value',
+                `Cannot statically determine the @TableInheritance options \`${argument.getText()}\`; single-table inheritance with a \`type\` column is assumed`,
+                argument,
+            );
+            return inheritance;
+        }
+
+        const { pattern, column } = options as { pattern?: unknown; column?: unknown };
+        if (typeof pattern === 'string') {
+            inheritance.pattern = pattern as InheritanceMetadata['pattern'];
+        }
+
+        Object.assign(inheritance, this.getDiscriminatorColumn(column));
+
+        return inheritance;
+    }
+
+    /**
+     * Get the discriminator column from `column: 'type'` or `column: { name: 'type', type: 'varchar' }`
+     */
+    private getDiscriminatorColumn(
+        value: unknown,
+    ): Pick<InheritanceMetadata, 'discriminatorColumn' | 'discriminatorType'> {
+        if (typeof value === 'string') {
+            return { discriminatorColumn: value };
+        }
+
+        if (value && typeof value === 'object') {
+            const { name, type } = value as { name?: unknown; type?: unknown };
+            return {
+                discriminatorColumn: typeof name === 'string' ? name : undefined,
+                discriminatorType: typeof type === 'string' ? type : undefined,
+            };
+        }
+
+        return {};
+    }
+}
@@ -2,47 +2,133 @@
  * MetadataExtractor - Extracts metadata from TypeORM entity classes
  */
 
-import { ClassDeclaration } from 'ts-morph';
-import { EntityMetadata, DBMLSchema, EnumMetadata } from './types';
-import { ColumnExtractor } from '../extractor/ColumnExtractor';
-import { RelationExtractor } from '../extractor/RelationExtractor';
-import { ConstraintExtractor } from '../extractor/ConstraintExtractor';
+import { ClassDeclaration, ObjectLiteralExpression, SyntaxKind } from 'ts-morph';
+import ColumnMetadata from '../utils/interfaces/ColumnMetadata';
+import DBMLSchema from '../utils/interfaces/DBMLSchema';
+import Diagnostic from '../utils/interfaces/Diagnostic';
+import EntityMetadata from '../utils/interfaces/EntityMetadata';
+import EnumMetadata from '../utils/interfaces/EnumMetadata';
+import JoinColumnMetadata from '../utils/interfaces/JoinColumnMetadata';
+import JoinTableEntity from '../utils/interfaces/JoinTableEntity';
+import NamingStrategy from '../utils/interfaces/NamingStrategy';
+import ViewMetadata from '../utils/interfaces/ViewMetadata';
+import { DefaultNamingStrategy } from '../naming/DefaultNamingStrategy';
+import { DiagnosticCollector } from '../utils/DiagnosticCollector';
+import { getLintIgnores } from '../utils/JsDocUtils';
+import { ColumnExtractor } from './ColumnExtractor';
+import { RelationExtractor } from './RelationExtractor';
+import { ConstraintExtractor } from './ConstraintExtractor';
+import { EntitySchemaExtractor } from './EntitySchemaExtractor';
+import { EnumExtractor } from './EnumExtractor';
+import { InheritanceExtractor } from './InheritanceExtractor';
+import { StaticEvaluator } from './StaticEvaluator';
+import { TreeExtractor } from './TreeExtractor';
+import { ViewExtractor } from './ViewExtractor';
 
 export class MetadataExtractor {
+    // Entity options that only affect TypeORM's runtime behaviour, not the schema
+    private static readonly RUNTIME_ENTITY_OPTIONS = ['orderBy', 'synchronize'];
+
     private columnExtractor: ColumnExtractor;
     private relationExtractor: RelationExtractor;
     private constraintExtractor: ConstraintExtractor;
+    private entitySchemaExtractor: EntitySchemaExtractor;
+    private viewExtractor: ViewExtractor;
+    private treeExtractor: TreeExtractor;
+    private inheritanceExtractor: InheritanceExtractor;
+    private enumExtractor: EnumExtractor;
+    private evaluator: StaticEvaluator;
+    private diagnostics: DiagnosticCollector;
+    private namingStrategy: NamingStrategy;
     private enumsMap: Map<string, EnumMetadata>;
-
-    constructor() {
-        this.columnExtractor = new ColumnExtractor();
-        this.relationExtractor = new RelationExtractor();
-        this.constraintExtractor = new ConstraintExtractor();
+    private entityAliases: Map<string, string>;
+
+    constructor(
+        namingStrategy: NamingStrategy = new DefaultNamingStrategy(),
+        diagnostics: DiagnosticCollector = new DiagnosticCollector(),
+    ) {
+        // All extractors share one collector so its diagnostics cover the whole run
+        this.diagnostics = diagnostics;
+        this.evaluator = new StaticEvaluator(diagnostics);
+        this.namingStrategy = namingStrategy;
+        this.columnExtractor = new ColumnExtractor(diagnostics, namingStrategy);
+        this.relationExtractor = new RelationExtractor(diagnostics, namingStrategy);
+        this.constraintExtractor = new ConstraintExtractor(diagnostics);
+        this.entitySchemaExtractor = new EntitySchemaExtractor(diagnostics, namingStrategy);
+        this.viewExtractor = new ViewExtractor(diagnostics, namingStrategy);
+        this.treeExtractor = new TreeExtractor(diagnostics, namingStrategy);
+        this.inheritanceExtractor = new InheritanceExtractor(diagnostics);
+        this.enumExtractor = new EnumExtractor(diagnostics);
         this.enumsMap = new Map();
+        this.entityAliases = new Map();
     }
 
     /**
-     * Extract metadata from all entity classes
+     * Extract metadata from all entity classes and EntitySchema definitions
      */
-    extractMetadata(entities: ClassDeclaration[]): DBMLSchema {
+    extractMetadata(entities: ClassDeclaration[], entitySchemas: ObjectLiteralExpression[] = []): DBMLSchema {
         const entityMetadata: EntityMetadata[] = [];
+        const viewMetadata: ViewMetadata[] = [];
 
         // First pass: extract basic entity info
         for (const entity of entities) {
+            if (this.viewExtractor.isViewEntity(entity)) {
+                viewMetadata.push(this.viewExtractor.extractView(entity));
+                continue;
+            }
+
             const metadata = this.extractEntityMetadata(entity);
+            this.diagnostics.setSource(metadata, entity);
+            entityMetadata.push(metadata);
+
+            // Tree entities get extra columns and, for closure tables, an extra table
+            this.treeExtractor.applyTreeColumns(metadata);
+            const closureTable = this.treeExtractor.createClosureTable(metadata);
+            if (closureTable) {
+                entityMetadata.push(closureTable);
+            }
+        }
+
+        for (const entitySchema of entitySchemas) {
+            const metadata = this.entitySchemaExtractor.extractEntitySchema(entitySchema);
+            this.diagnostics.setSource(metadata, entitySchema);
             entityMetadata.push(metadata);
+
+            // Decorator entities reference a schema entity through its `target` class
+            const targetName = this.entitySchemaExtractor.getTargetName(entitySchema);
+            if (targetName) {
+                this.entityAliases.set(targetName, metadata.tableName);
+            }
+        }
+
+        // Single-table children merge into their parent's table, class-table children keep their own
+        const inheritedMetadata = this.inheritanceExtractor.applyInheritance(entityMetadata, this.entityAliases);
+
+        // Enums are named after the table holding them, once inheritance decided which one that is
+        for (const metadata of inheritedMetadata) {
+            this.enumExtractor.registerEnums(metadata, this.enumsMap);
         }
 
         // Second pass: resolve relationships now that we have all entities
-        this.resolveRelationships(entityMetadata, entities);
+        this.resolveRelationships(inheritedMetadata, entities);
+        this.resolveViewDependencies(viewMetadata, inheritedMetadata);
+        const { tables, views } = this.removeDuplicateTables(inheritedMetadata, viewMetadata);
 
         return {
-            entities: entityMetadata,
+            entities: tables,
             enums: Array.from(this.enumsMap.values()),
-            joinTables: this.extractJoinTables(entityMetadata),
+            joinTables: this.extractJoinTables(tables),
+            views,
         };
     }
 
+    /**
+     * Get the diagnostics reported while extracting, e.g. decorator arguments that could not be evaluated
+     */
+    getDiagnostics(): Diagnostic[] {
+        return this.diagnostics.getDiagnostics();
+    }
+
     /**
      * Extract metadata from a single entity class
      */
@@ -53,7 +139,7 @@ export class MetadataExtractor {
         const { tableName, schema, note } = this.extractEntityDecorator(classDecl);
 
         // Extract columns
-        const columns = this.columnExtractor.extractColumns(classDecl, this.enumsMap);
+        const columns = this.columnExtractor.extractColumns(classDecl);
 
         // Extract relations (basic info, will resolve later)
         const relations = this.relationExtractor.extractRelations(classDecl);
@@ -62,7 +148,10 @@ export class MetadataExtractor {
         const { indexes, uniques, checks } = this.constraintExtractor.extractConstraints(classDecl);
 
         // Extract inheritance info
-        const inheritance = this.extractInheritance(classDecl);
+        const inheritance = this.inheritanceExtractor.extractInheritance(classDecl);
+
+        // Extract @Tree info
+        const tree = this.treeExtractor.extractTree(classDecl);
 
         return {
             name: className,
@@ -75,6 +164,8 @@ export class MetadataExtractor {
             checks,
             note,
             inheritance,
+            tree,
+            lintIgnore: getLintIgnores(classDecl.getJsDocs()),
         };
     }
 
@@ -87,7 +178,7 @@ export class MetadataExtractor {
         note?: string;
     } {
         const className = classDecl.getName() || 'Unknown';
-        let tableName = this.toSnakeCase(className);
+        let tableName: string | undefined;
         let schema: string | undefined;
         let note: string | undefined;
 
@@ -98,137 +189,267 @@ export class MetadataExtractor {
             if (args.length > 0) {
                 const firstArg = args[0];
 
-                // Check if first argument is a string (table name)
-                if (firstArg.getKind() === 40 /* StringLiteral */) {
-                    tableName = firstArg.getText().replace(/['"]/g, '');
-                }
                 // Check if first argument is an object (options)
-                else if (firstArg.getKind() === 206 /* ObjectLiteralExpression */) {
-                    const obj = firstArg.asKind(206);
+                if (firstArg.getKind() === SyntaxKind.ObjectLiteralExpression) {
+                    const obj = firstArg.asKind(SyntaxKind.ObjectLiteralExpression);
                     if (obj) {
                         const props = obj.getProperties();
                         for (const prop of props) {
-                            if (prop.getKind() === 296 /* PropertyAssignment */) {
-                                const propAssignment = prop.asKind(296);
+                            if (prop.getKind() === SyntaxKind.PropertyAssignment) {
+                                const propAssignment = prop.asKind(SyntaxKind.PropertyAssignment);
                                 if (propAssignment) {
                                     const name = propAssignment.getName();
                                     const init = propAssignment.getInitializer();
 
                                     if (name === 'name' && init) {
-                                        tableName = init.getText().replace(/['"]/g, '');
+                                        tableName = this.evaluator.evaluateString(init);
                                     } else if (name === 'schema' && init) {
-                                        schema = init.getText().replace(/['"]/g, '');
+                                        schema = this.evaluator.evaluateString(init);
+                                    } else if (name === 'comment' && init) {
+                                        note = this.evaluator.evaluateString(init);
+                                    } else if (!MetadataExtractor.RUNTIME_ENTITY_OPTIONS.includes(name)) {
+                                        this.diagnostics.unsupportedOption(propAssignment, name, '@Entity');
                                     }
                                 }
                             }
                         }
                     }
                 }
+                // Otherwise the table name, possibly a constant: @Entity(TableNames.USERS)
+                else {
+                    tableName = this.evaluator.evaluateString(firstArg);
+                }
             }
         }
 
-        // Extract JSDoc comment as note
+        // Extract JSDoc comment as note, unless given as the `comment` option
         const jsDocs = classDecl.getJsDocs();
-        if (jsDocs.length > 0) {
+        if (!note && jsDocs.length > 0) {
             const comment = jsDocs[0].getComment();
             if (typeof comment === 'string') {
                 note = comment;
             }
         }
 
-        return { tableName, schema, note };
+        return { tableName: this.namingStrategy.tableName(className, tableName), schema, note };
     }
 
     /**
-     * Extract inheritance metadata
+     * Resolve relationships between entities (second pass)
      */
-    private extractInheritance(classDecl: ClassDeclaration) {
-        // Check for @TableInheritance decorator
-        const inheritanceDecorator = classDecl.getDecorator('TableInheritance');
-        if (!inheritanceDecorator) {
-            return undefined;
-        }
+    private resolveRelationships(entities: EntityMetadata[], classDeclarations: ClassDeclaration[]): void {
+        // Create a map of class names to table names for lookup
+        const classToTable = new Map<string, string>(this.entityAliases);
+        entities.forEach((e) => classToTable.set(e.name, e.tableName));
+
+        // Update relation targets from class names to table names
+        const tableNames = new Set(classToTable.values());
 
-        const args = inheritanceDecorator.getArguments();
-        if (args.length === 0) {
-            return undefined;
+        // Relations to unknown entities are dropped, as their references would not resolve in the DBML
+        for (const entity of entities) {
+            entity.relations = entity.relations.filter((relation) => {
+                const targetTable = classToTable.get(relation.target);
+                if (targetTable) {
+                    relation.target = targetTable;
+                } else if (!tableNames.has(relation.target)) {
+                    this.diagnostics.error(
+                        'unknown-relation-target',
+                        relation.target === 'Unknown'
+                            ? `Cannot determine the target entity of relation \`${entity.name}.${relation.propertyName}\`; it was left out`
+                            : `Relation \`${entity.name}.${relation.propertyName}\` targets \`${relation.target}\`, which is not a known entity; it was left out`,
+                        relation,
+                    );
+                    return false;
+                }
+                return true;
+            });
         }
 
-        const options = args[0].asKind(206); // ObjectLiteralExpression
-        if (!options) {
-            return undefined;
+        this.resolveForeignKeys(entities);
+        this.addForeignKeyColumns(entities);
+
+        // Indexes and uniques on a relation cover its foreign key columns, named by now
+        entities.forEach((entity) => this.constraintExtractor.resolveColumnNames(entity));
+    }
+
+    /**
+     * Complete the join columns of relations owning a foreign key, now that their targets are known
+     * Without explicit join columns, there is one per primary key column of the target, as TypeORM creates them
+     */
+    private resolveForeignKeys(entities: EntityMetadata[]): void {
+        const tables = new Map<string, EntityMetadata>();
+        entities.forEach((e) => tables.has(e.tableName) || tables.set(e.tableName, e));
+
+        for (const entity of entities) {
+            entity.relations = entity.relations.filter((relation) => {
+                if (!relation.joinColumns) {
+                    return true;
+                }
+
+                // Join columns naming their referenced column do not need the primary key
+                const target = tables.get(relation.target);
+                const needsPrimaryKey =
+                    relation.joinColumns.length === 0 || relation.joinColumns.some((c) => !c.referencedColumnName);
+                if (needsPrimaryKey && !target?.columns.some((c) => c.isPrimary)) {
+                    this.diagnostics.error(
+                        'unresolved-foreign-key',
+                        `Relation \`${entity.name}.${relation.propertyName}\` targets \`${relation.target}\`, which has no primary key for its foreign key to reference; it was left out`,
+                        relation,
+                    );
+                    return false;
+                }
+
+                if (target) {
+                    relation.joinColumns = this.resolveJoinColumns(relation.joinColumns, target, (column) =>
+                        this.namingStrategy.joinColumnName(relation.propertyName, column.propertyName),
+                    );
+                }
+                return true;
+            });
         }
+    }
+
+    /**
+     * Add the foreign key columns TypeORM creates for relations owning a join column,
+     * unless the entity declares them itself (e.g. `@Column() authorId` next to `@ManyToOne() author`)
+     */
+    private addForeignKeyColumns(entities: EntityMetadata[]): void {
+        const tables = new Map<string, EntityMetadata>();
+        entities.forEach((e) => tables.has(e.tableName) || tables.set(e.tableName, e));
+
+        for (const entity of entities) {
+            for (const relation of entity.relations) {
+                const target = tables.get(relation.target);
+                const joinColumns = relation.joinColumns ?? [];
 
-        let pattern: 'STI' | 'CTI' | 'TPC' = 'STI';
-        let discriminatorColumn: string | undefined;
-
-        const props = options.getProperties();
-        for (const prop of props) {
-            if (prop.getKind() === 296) {
-                const propAssignment = prop.asKind(296);
-                if (propAssignment) {
-                    const name = propAssignment.getName();
-                    const init = propAssignment.getInitializer();
-
-                    if (name === 'pattern' && init) {
-                        const patternValue = init.getText().replace(/['"]/g, '');
-                        pattern = patternValue as 'STI' | 'CTI' | 'TPC';
-                    } else if (name === 'column' && init) {
-                        discriminatorColumn = init.getText().replace(/['"]/g, '');
+                for (const joinColumn of joinColumns) {
+                    if (!joinColumn.name || entity.columns.some((c) => c.columnName === joinColumn.name)) {
+                        continue;
                     }
+
+                    // Typed after the referenced column, resolved to a column name with the foreign key
+                    const referencedName = joinColumn.referencedColumnName!;
+                    const named = target?.columns.find((c) => c.columnName === referencedName);
+                    const referenced = named ?? target?.columns.find((c) => c.isPrimary);
+
+                    entity.columns.push({
+                        propertyName: joinColumn.name,
+                        columnName: joinColumn.name,
+                        type: referenced?.type ?? 'integer',
+                        length: referenced?.length,
+                        precision: referenced?.precision,
+                        scale: referenced?.scale,
+                        enumName: referenced?.enumName,
+                        enumSchema: referenced?.enumSchema,
+                        isPrimary: false,
+                        isGenerated: false,
+                        isNullable: relation.isNullable ?? true,
+                        // TypeORM adds a unique constraint to the foreign key of a one-to-one relation
+                        isUnique: relation.type === 'one-to-one' && joinColumns.length === 1,
+                        foreignKeyOf: `${relation.propertyName} -> ${relation.target}.${named?.columnName ?? referencedName}`,
+                    });
                 }
             }
         }
+    }
 
-        // Check for @ChildEntity decorator for discriminator value
-        const childDecorator = classDecl.getDecorator('ChildEntity');
-        let discriminatorValue: string | undefined;
-
-        if (childDecorator) {
-            const childArgs = childDecorator.getArguments();
-            if (childArgs.length > 0) {
-                discriminatorValue = childArgs[0].getText().replace(/['"]/g, '');
+    /**
+     * Drop tables and views whose name is already taken, as they would overwrite each other in the DBML
+     */
+    private removeDuplicateTables(
+        entities: EntityMetadata[],
+        views: ViewMetadata[],
+    ): { tables: EntityMetadata[]; views: ViewMetadata[] } {
+        const owners = new Map<string, string>();
+        const isUnique = (item: { name: string; schema?: string }, tableName: string): boolean => {
+            const key = item.schema ? `${item.schema}.${tableName}` : tableName;
+            const owner = owners.get(key);
+            if (owner) {
+                this.diagnostics.error(
+                    'duplicate-table',
+                    `\`${item.name}\` maps to table \`${key}\`, already used by \`${owner}\`; it was left out`,
+                    item,
+                );
+                return false;
             }
-        }
+            owners.set(key, item.name);
+            return true;
+        };
 
         return {
-            pattern,
-            discriminatorColumn,
-            discriminatorValue,
+            tables: entities.filter((entity) => isUnique(entity, entity.tableName)),
+            views: views.filter((view) => isUnique(view, view.viewName)),
         };
     }
 
     /**
-     * Resolve relationships between entities (second pass)
+     * Resolve view `dependsOn` references from class names to table and view names
      */
-    private resolveRelationships(entities: EntityMetadata[], classDeclarations: ClassDeclaration[]): void {
-        // Create a map of class names to table names for lookup
-        const classToTable = new Map<string, string>();
-        entities.forEach((e) => classToTable.set(e.name, e.tableName));
+    private resolveViewDependencies(views: ViewMetadata[], entities: EntityMetadata[]): void {
+        const classToName = new Map<string, string>(this.entityAliases);
+        entities.forEach((e) => classToName.set(e.name, e.tableName));
+        views.forEach((v) => classToName.set(v.name, v.viewName));
 
-        // Update relation targets from class names to table names
-        for (const entity of entities) {
-            for (const relation of entity.relations) {
-                const targetTable = classToTable.get(relation.target);
-                if (targetTable) {
-                    relation.target = targetTable;
-                }
-            }
+        for (const view of views) {
+            view.dependsOn = view.dependsOn.map((dependency) => classToName.get(dependency) ?? dependency);
         }
     }
 
     /**
-     * Extract join tables from many-to-many relationships
+     * Build the junction table of each owning many-to-many relation the way TypeORM creates it:
+     * a column per primary key column of both sides, a composite primary key and an index per side
+     * The relation's join table is completed with the resolved names, so its references match the table
      */
-    private extractJoinTables(entities: EntityMetadata[]) {
-        const joinTables = [];
+    private extractJoinTables(entities: EntityMetadata[]): JoinTableEntity[] {
+        const joinTables: JoinTableEntity[] = [];
+        const tables = new Map(entities.map((e) => [e.tableName, e]));
 
         for (const entity of entities) {
             for (const relation of entity.relations) {
-                if (relation.type === 'many-to-many' && relation.joinTable) {
-                    // Join tables will be generated by the DBML generator
-                    // For now, we just collect the metadata
+                const target = tables.get(relation.target);
+                if (relation.type !== 'many-to-many' || !relation.joinTable || !target) {
+                    continue;
+                }
+
+                const joinTable = relation.joinTable;
+                joinTable.name ||= this.namingStrategy.joinTableName(
+                    entity.tableName,
+                    target.tableName,
+                    relation.propertyName,
+                    relation.inverseSide ?? '',
+                );
+                joinTable.joinColumns = this.resolveJoinColumns(joinTable.joinColumns, entity, (column) =>
+                    this.namingStrategy.joinTableColumnName(entity.tableName, column.propertyName, column.columnName),
+                );
+                joinTable.inverseJoinColumns = this.resolveJoinColumns(joinTable.inverseJoinColumns, target, (column) =>
+                    this.namingStrategy.joinTableInverseColumnName(
+                        target.tableName,
+                        column.propertyName,
+                        column.columnName,
+                    ),
+                );
+
+                if (tables.has(joinTable.name) || joinTables.some((t) => t.name === joinTable.name)) {
+                    this.diagnostics.error(
+                        'duplicate-table',
+                        `Join table \`${joinTable.name}\` of \`${entity.name}.${relation.propertyName}\` is already defined; it was left out`,
+                        relation,
+                    );
+                    continue;
                 }
+
+                const ownerColumns = this.createJoinTableColumns(joinTable.joinColumns, entity);
+                const inverseColumns = this.createJoinTableColumns(joinTable.inverseJoinColumns, target);
+
+                joinTables.push({
+                    name: joinTable.name,
+                    schema: joinTable.schema ?? entity.schema,
+                    columns: [...ownerColumns, ...inverseColumns],
+                    indexes: [ownerColumns, inverseColumns].map((columns) => ({
+                        columns: columns.map((c) => c.columnName),
+                        isUnique: false,
+                    })),
+                });
             }
         }
 
@@ -236,12 +457,61 @@ export class MetadataExtractor {
     }
 
     /**
-     * Convert PascalCase to snake_case
+     * Complete the join columns referencing one side of a relation or join table
+     * Without explicit join columns, there is one per primary key column of that side
+     */
+    private resolveJoinColumns(
+        joinColumns: JoinColumnMetadata[] | undefined,
+        side: EntityMetadata,
+        defaultName: (referenced: ColumnMetadata) => string,
+    ): JoinColumnMetadata[] {
+        const primaryColumns = side.columns.filter((c) => c.isPrimary);
+        if (!joinColumns?.length) {
+            return primaryColumns.map((column) => ({
+                name: defaultName(column),
+                referencedColumnName: column.columnName,
+            }));
+        }
+
+        // referencedColumnName names a property of the referenced entity, defaulting to its primary key
+        return joinColumns.map((joinColumn, i) => {
+            const referenced =
+                side.columns.find(
+                    (c) =>
+                        c.propertyName === joinColumn.referencedColumnName ||
+                        c.columnName === joinColumn.referencedColumnName,
+                ) ?? (joinColumn.referencedColumnName ? undefined : primaryColumns[i]);
+            const referencedColumnName = referenced?.columnName ?? joinColumn.referencedColumnName ?? 'id';
+
+            return {
+                name: joinColumn.name ?? (referenced ? defaultName(referenced) : referencedColumnName),
+                referencedColumnName,
+            };
+        });
+    }
+
+    /**
+     * Create the join table columns of one side, typed after the columns they reference
      */
-    private toSnakeCase(str: string): string {
-        return str
-            .replace(/([A-Z])/g, '_$1')
-            .toLowerCase()
-            .replace(/^_/, '');
+    private createJoinTableColumns(joinColumns: JoinColumnMetadata[], side: EntityMetadata): ColumnMetadata[] {
+        return joinColumns.map((joinColumn) => {
+            const referenced = side.columns.find((c) => c.columnName === joinColumn.referencedColumnName);
+            const name = joinColumn.name!;
+
+            return {
+                propertyName: name,
+                columnName: name,
+                type: referenced?.type ?? 'integer',
+                length: referenced?.length,
+                precision: referenced?.precision,
+                scale: referenced?.scale,
+                enumName: referenced?.enumName,
+                enumSchema: referenced?.enumSchema,
+                isPrimary: true,
+                isGenerated: false,
+                isNullable: false,
+                isUnique: false,
+            };
+        });
     }
 }
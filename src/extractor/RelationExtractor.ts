@@ -2,19 +2,48 @@
  * RelationExtractor - Extracts relationship metadata from TypeORM entity properties
  */
 
-import { ClassDeclaration, PropertyDeclaration, SyntaxKind } from 'ts-morph';
-import { RelationMetadata, JoinColumnMetadata, JoinTableMetadata } from '../parser/types';
+import { ClassDeclaration, Decorator, Node, PropertyDeclaration, SyntaxKind } from 'ts-morph';
+import JoinColumnMetadata from '../utils/interfaces/JoinColumnMetadata';
+import JoinTableMetadata from '../utils/interfaces/JoinTableMetadata';
+import NamingStrategy from '../utils/interfaces/NamingStrategy';
+import RelationMetadata from '../utils/interfaces/RelationMetadata';
+import { DiagnosticCollector } from '../utils/DiagnosticCollector';
+import { DefaultNamingStrategy } from '../naming/DefaultNamingStrategy';
+import { ClassHierarchyResolver } from './ClassHierarchyResolver';
+import { StaticEvaluator } from './StaticEvaluator';
+
+// Relation options reflected in the schema
+type RelationOptions = Pick<RelationMetadata, 'onDelete' | 'onUpdate' | 'isNullable'>;
 
 export class RelationExtractor {
+    // Relation options that only affect how TypeORM loads and saves entities, not the schema
+    private static readonly RUNTIME_RELATION_OPTIONS = ['cascade', 'persistence', 'lazy', 'eager', 'orphanedRowAction'];
+
+    private hierarchyResolver: ClassHierarchyResolver;
+    private evaluator: StaticEvaluator;
+    private diagnostics: DiagnosticCollector;
+    private namingStrategy: NamingStrategy;
+
+    constructor(
+        diagnostics: DiagnosticCollector = new DiagnosticCollector(),
+        namingStrategy: NamingStrategy = new DefaultNamingStrategy(),
+    ) {
+        this.hierarchyResolver = new ClassHierarchyResolver();
+        this.evaluator = new StaticEvaluator(diagnostics);
+        this.diagnostics = diagnostics;
+        this.namingStrategy = namingStrategy;
+    }
+
     /**
-     * Extract all relationships from an entity class
+     * Extract all relationships from an entity class, including those inherited from base classes
      */
     extractRelations(classDecl: ClassDeclaration): RelationMetadata[] {
         const relations: RelationMetadata[] = [];
-        const properties = classDecl.getProperties();
+        const properties = this.hierarchyResolver.getProperties(classDecl, (p) => !!this.getRelationDecorator(p));
+        const className = classDecl.getName() || 'Unknown';
 
         for (const property of properties) {
-            const relationMetadata = this.extractRelationFromProperty(property);
+            const relationMetadata = this.extractRelationFromProperty(property, className);
             if (relationMetadata) {
                 relations.push(relationMetadata);
             }
@@ -25,14 +54,13 @@ export class RelationExtractor {
 
     /**
      * Extract relationship metadata from a single property
+     * @TreeParent and @TreeChildren are self-references to the entity class itself
      */
-    private extractRelationFromProperty(property: PropertyDeclaration): RelationMetadata | null {
+    private extractRelationFromProperty(property: PropertyDeclaration, className: string): RelationMetadata | null {
         const decorators = property.getDecorators();
 
         // Check for relation decorators
-        const relationDecorator = decorators.find((d) =>
-            ['OneToOne', 'ManyToOne', 'OneToMany', 'ManyToMany'].includes(d.getName()),
-        );
+        const relationDecorator = this.getRelationDecorator(property);
 
         if (!relationDecorator) {
             return null;
@@ -48,9 +76,11 @@ export class RelationExtractor {
                 type = 'one-to-one';
                 break;
             case 'ManyToOne':
+            case 'TreeParent':
                 type = 'many-to-one';
                 break;
             case 'OneToMany':
+            case 'TreeChildren':
                 type = 'one-to-many';
                 break;
             case 'ManyToMany':
@@ -61,28 +91,37 @@ export class RelationExtractor {
         }
 
         // Extract target entity and inverse side
-        const { target, inverseSide, onDelete, onUpdate } = this.extractRelationArguments(relationDecorator);
+        const isTreeRelation = decoratorName === 'TreeParent' || decoratorName === 'TreeChildren';
+        const { target, inverseSide, options } = isTreeRelation
+            ? this.extractTreeRelationArguments(relationDecorator, className)
+            : this.extractRelationArguments(relationDecorator);
 
         const metadata: RelationMetadata = {
             propertyName,
             type,
             target,
             inverseSide,
-            onDelete,
-            onUpdate,
+            ...options,
         };
+        this.diagnostics.setSource(metadata, relationDecorator);
 
         // Extract JoinColumn metadata (for OneToOne and ManyToOne)
         if (type === 'one-to-one' || type === 'many-to-one') {
             const joinColumnDecorator = decorators.find((d) => d.getName() === 'JoinColumn');
+            // Join columns without referencedColumnName are resolved from the target's primary key in the second pass
             if (joinColumnDecorator) {
-                metadata.joinColumn = this.extractJoinColumn(joinColumnDecorator);
-            } else {
-                // Default join column
-                metadata.joinColumn = {
-                    name: `${this.toSnakeCase(propertyName)}_id`,
-                    referencedColumnName: 'id',
-                };
+                metadata.joinColumns = this.extractJoinColumn(joinColumnDecorator);
+                for (const joinColumn of metadata.joinColumns) {
+                    if (joinColumn.referencedColumnName) {
+                        joinColumn.name ??= this.namingStrategy.joinColumnName(
+                            propertyName,
+                            joinColumn.referencedColumnName,
+                        );
+                    }
+                }
+            } else if (type === 'many-to-one') {
+                // A one-to-one only has a foreign key on the side declaring @JoinColumn
+                metadata.joinColumns = [];
             }
         }
 
@@ -97,19 +136,42 @@ export class RelationExtractor {
         return metadata;
     }
 
+    /**
+     * Find the relation decorator on a property, if any
+     */
+    private getRelationDecorator(property: PropertyDeclaration): Decorator | undefined {
+        return property
+            .getDecorators()
+            .find((d) =>
+                ['OneToOne', 'ManyToOne', 'OneToMany', 'ManyToMany', 'TreeParent', 'TreeChildren'].includes(
+                    d.getName(),
+                ),
+            );
+    }
+
+    /**
+     * Extract arguments of @TreeParent/@TreeChildren, which only take an options object
+     */
+    private extractTreeRelationArguments(
+        decorator: Decorator,
+        className: string,
+    ): { target: string; inverseSide?: string; options: RelationOptions } {
+        const [options] = decorator.getArguments();
+
+        return { target: className, options: options ? this.extractRelationOptions(options) : {} };
+    }
+
     /**
      * Extract target entity and inverse side from relation decorator arguments
      */
     private extractRelationArguments(decorator: any): {
         target: string;
         inverseSide?: string;
-        onDelete?: RelationMetadata['onDelete'];
-        onUpdate?: RelationMetadata['onUpdate'];
+        options: RelationOptions;
     } {
         let target = 'Unknown';
         let inverseSide: string | undefined;
-        let onDelete: RelationMetadata['onDelete'] | undefined;
-        let onUpdate: RelationMetadata['onUpdate'] | undefined;
+        let options: RelationOptions = {};
 
         const args = decorator.getArguments();
 
@@ -125,6 +187,10 @@ export class RelationExtractor {
                     target = body.getText();
                 }
             }
+            // Handle entity name: 'TargetEntity'
+            else if (Node.isStringLiteral(firstArg)) {
+                target = firstArg.getLiteralValue();
+            }
             // Handle direct reference: TargetEntity
             else {
                 target = firstArg.getText();
@@ -149,78 +215,64 @@ export class RelationExtractor {
             }
         }
 
-        // Third argument: options object
-        if (args.length > 2) {
-            const thirdArg = args[2];
-
-            if (thirdArg.getKind() === SyntaxKind.ObjectLiteralExpression) {
-                const options = thirdArg.asKind(SyntaxKind.ObjectLiteralExpression);
-                if (options) {
-                    const properties = options.getProperties();
-
-                    for (const prop of properties) {
-                        if (prop.getKind() === SyntaxKind.PropertyAssignment) {
-                            const propAssignment = prop.asKind(SyntaxKind.PropertyAssignment);
-                            if (!propAssignment) continue;
-
-                            const name = propAssignment.getName();
-                            const initializer = propAssignment.getInitializer();
-                            if (!initializer) continue;
+        // Last argument: options object, either after the inverse side or in its place
+        const lastArg = args.length > 1 ? args[args.length - 1] : undefined;
+        if (lastArg && lastArg.getKind() === SyntaxKind.ObjectLiteralExpression) {
+            options = this.extractRelationOptions(lastArg);
+        }
 
-                            const value = initializer.getText().replace(/['"]/g, '');
+        return { target, inverseSide, options };
+    }
 
-                            if (name === 'onDelete') {
-                                onDelete = value.toUpperCase() as RelationMetadata['onDelete'];
-                            } else if (name === 'onUpdate') {
-                                onUpdate = value.toUpperCase() as RelationMetadata['onUpdate'];
-                            }
-                        }
+    /**
+     * Extract referential actions and nullability from a relation options object
+     */
+    private extractRelationOptions(optionsArg: any): RelationOptions {
+        let onDelete: RelationMetadata['onDelete'] | undefined;
+        let onUpdate: RelationMetadata['onUpdate'] | undefined;
+        let isNullable: boolean | undefined;
+
+        const options = optionsArg.asKind(SyntaxKind.ObjectLiteralExpression);
+        if (options) {
+            const properties = options.getProperties();
+
+            for (const prop of properties) {
+                if (prop.getKind() === SyntaxKind.PropertyAssignment) {
+                    const propAssignment = prop.asKind(SyntaxKind.PropertyAssignment);
+                    if (!propAssignment) continue;
+
+                    const name = propAssignment.getName();
+                    const initializer = propAssignment.getInitializer();
+                    if (!initializer) continue;
+
+                    if (name === 'onDelete') {
+                        onDelete = this.evaluator
+                            .evaluateString(initializer)
+                            ?.toUpperCase() as RelationMetadata['onDelete'];
+                    } else if (name === 'onUpdate') {
+                        onUpdate = this.evaluator
+                            .evaluateString(initializer)
+                            ?.toUpperCase() as RelationMetadata['onUpdate'];
+                    } else if (name === 'nullable') {
+                        isNullable = this.evaluator.evaluateBoolean(initializer);
+                    } else if (!RelationExtractor.RUNTIME_RELATION_OPTIONS.includes(name)) {
+                        this.diagnostics.unsupportedOption(propAssignment, name, 'the relation');
                     }
                 }
             }
         }
 
-        return { target, inverseSide, onDelete, onUpdate };
+        return { onDelete, onUpdate, isNullable };
     }
 
     /**
      * Extract JoinColumn metadata
+     * `@JoinColumn([{ ... }, { ... }])` declares one column per part of a composite foreign key;
+     * `@JoinColumn()` leaves them to the primary key of the target
      */
-    private extractJoinColumn(decorator: any): JoinColumnMetadata {
-        const joinColumn: JoinColumnMetadata = {};
-
+    private extractJoinColumn(decorator: any): JoinColumnMetadata[] {
         const args = decorator.getArguments();
-        if (args.length > 0) {
-            const firstArg = args[0];
-
-            if (firstArg.getKind() === SyntaxKind.ObjectLiteralExpression) {
-                const options = firstArg.asKind(SyntaxKind.ObjectLiteralExpression);
-                if (options) {
-                    const properties = options.getProperties();
-
-                    for (const prop of properties) {
-                        if (prop.getKind() === SyntaxKind.PropertyAssignment) {
-                            const propAssignment = prop.asKind(SyntaxKind.PropertyAssignment);
-                            if (!propAssignment) continue;
-
-                            const name = propAssignment.getName();
-                            const initializer = propAssignment.getInitializer();
-                            if (!initializer) continue;
-
-                            const value = initializer.getText().replace(/['"]/g, '');
-
-                            if (name === 'name') {
-                                joinColumn.name = value;
-                            } else if (name === 'referencedColumnName') {
-                                joinColumn.referencedColumnName = value;
-                            }
-                        }
-                    }
-                }
-            }
-        }
-
-        return joinColumn;
+        return args.length > 0 ? this.extractJoinColumns(args[0]) : [];
     }
 
     /**
@@ -252,11 +304,15 @@ export class RelationExtractor {
                             if (!initializer) continue;
 
                             if (name === 'name') {
-                                joinTable.name = initializer.getText().replace(/['"]/g, '');
+                                joinTable.name = this.evaluator.evaluateString(initializer);
+                            } else if (name === 'schema') {
+                                joinTable.schema = this.evaluator.evaluateString(initializer);
                             } else if (name === 'joinColumn' || name === 'joinColumns') {
                                 joinTable.joinColumns = this.extractJoinColumns(initializer);
                             } else if (name === 'inverseJoinColumn' || name === 'inverseJoinColumns') {
                                 joinTable.inverseJoinColumns = this.extractJoinColumns(initializer);
+                            } else {
+                                this.diagnostics.unsupportedOption(propAssignment, name, '@JoinTable');
                             }
                         }
                     }
@@ -315,26 +371,16 @@ export class RelationExtractor {
                 const initializer = propAssignment.getInitializer();
                 if (!initializer) continue;
 
-                const value = initializer.getText().replace(/['"]/g, '');
-
                 if (name === 'name') {
-                    joinColumn.name = value;
+                    joinColumn.name = this.evaluator.evaluateString(initializer);
                 } else if (name === 'referencedColumnName') {
-                    joinColumn.referencedColumnName = value;
+                    joinColumn.referencedColumnName = this.evaluator.evaluateString(initializer);
+                } else {
+                    this.diagnostics.unsupportedOption(propAssignment, name, '@JoinColumn');
                 }
             }
         }
 
         return joinColumn;
     }
-
-    /**
-     * Convert PascalCase/camelCase to snake_case
-     */
-    private toSnakeCase(str: string): string {
-        return str
-            .replace(/([A-Z])/g, '_$1')
-            .toLowerCase()
-            .replace(/^_/, '');
-    }
 }
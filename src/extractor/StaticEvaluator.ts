@@ -0,0 +1,457 @@
+/**
+ * StaticEvaluator - Computes the value of decorator arguments at analysis time
+ * Resolves literals, const variables, enum members, object properties, templates and simple arithmetic across imports
+ */
+
+import {
+    BinaryExpression,
+    Node,
+    ObjectLiteralExpression,
+    PrefixUnaryExpression,
+    SyntaxKind,
+    TemplateExpression,
+} from 'ts-morph';
+import { DiagnosticCollector } from '../utils/DiagnosticCollector';
+import { getDeclaration } from '../utils/AstUtils';
+
+const UNRESOLVED = Symbol('unresolved');
+
+type Evaluated = unknown | typeof UNRESOLVED;
+
+export class StaticEvaluator {
+    private diagnostics: DiagnosticCollector;
+
+    constructor(diagnostics: DiagnosticCollector = new DiagnosticCollector()) {
+        this.diagnostics = diagnostics;
+    }
+
+    /**
+     * Evaluate an expression, reporting a diagnostic when it cannot be determined statically
+     */
+    evaluate(node: Node): unknown {
+        const value = this.resolve(node, new Set());
+
+        if (value === UNRESOLVED) {
+            this.report(node);
+            return undefined;
+        }
+
+        return value;
+    }
+
+    /**
+     * Evaluate an expression without reporting, for callers with their own fallback
+     */
+    tryEvaluate(node: Node): { value: unknown } | undefined {
+        const value = this.resolve(node, new Set());
+        return value === UNRESOLVED ? undefined : { value };
+    }
+
+    /**
+     * Evaluate an expression expected to produce a string (numbers are converted)
+     */
+    evaluateString(node: Node): string | undefined {
+        const value = this.evaluate(node);
+
+        if (typeof value === 'string') {
+            return value;
+        }
+        if (typeof value === 'number') {
+            return String(value);
+        }
+        if (value !== undefined) {
+            this.report(node, 'a string');
+        }
+        return undefined;
+    }
+
+    /**
+     * Evaluate an expression expected to produce a number (numeric strings are converted)
+     */
+    evaluateNumber(node: Node): number | undefined {
+        const value = this.evaluate(node);
+
+        if (typeof value === 'number') {
+            return value;
+        }
+        if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) {
+            return Number(value);
+        }
+        if (value !== undefined) {
+            this.report(node, 'a number');
+        }
+        return undefined;
+    }
+
+    /**
+     * Evaluate an expression expected to produce a boolean
+     */
+    evaluateBoolean(node: Node): boolean | undefined {
+        const value = this.evaluate(node);
+
+        if (typeof value === 'boolean') {
+            return value;
+        }
+        if (value !== undefined) {
+            this.report(node, 'a boolean');
+        }
+        return undefined;
+    }
+
+    /**
+     * Evaluate an array of strings, e.g. index columns
+     */
+    evaluateStringArray(node: Node): string[] | undefined {
+        const value = this.evaluate(node);
+
+        if (Array.isArray(value) && value.every((v) => typeof v === 'string')) {
+            return value;
+        }
+        if (value !== undefined) {
+            this.report(node, 'an array of strings');
+        }
+        return undefined;
+    }
+
+    /**
+     * Resolve a node to its value, or UNRESOLVED
+     */
+    private resolve(node: Node, visited: Set<Node>): Evaluated {
+        if (visited.has(node)) {
+            return UNRESOLVED;
+        }
+        visited.add(node);
+
+        try {
+            return this.resolveNode(node, visited);
+        } finally {
+            visited.delete(node);
+        }
+    }
+
+    /**
+     * Resolve a node by kind
+     */
+    private resolveNode(node: Node, visited: Set<Node>): Evaluated {
+        if (Node.isStringLiteral(node) || Node.isNoSubstitutionTemplateLiteral(node)) {
+            return node.getLiteralValue();
+        }
+
+        if (Node.isNumericLiteral(node)) {
+            return node.getLiteralValue();
+        }
+
+        switch (node.getKind()) {
+            case SyntaxKind.TrueKeyword:
+                return true;
+            case SyntaxKind.FalseKeyword:
+                return false;
+            case SyntaxKind.NullKeyword:
+                return null;
+        }
+
+        // Wrappers that do not change the value: (x), x as T, x satisfies T, x!, <T>x
+        if (
+            Node.isParenthesizedExpression(node) ||
+            Node.isAsExpression(node) ||
+            Node.isSatisfiesExpression(node) ||
+            Node.isNonNullExpression(node) ||
+            Node.isTypeAssertion(node)
+        ) {
+            return this.resolve(node.getExpression(), visited);
+        }
+
+        if (Node.isTemplateExpression(node)) {
+            return this.resolveTemplate(node, visited);
+        }
+
+        if (Node.isPrefixUnaryExpression(node)) {
+            return this.resolvePrefixUnary(node, visited);
+        }
+
+        if (Node.isBinaryExpression(node)) {
+            return this.resolveBinary(node, visited);
+        }
+
+        if (Node.isArrayLiteralExpression(node)) {
+            const values: unknown[] = [];
+            for (const element of node.getElements()) {
+                if (Node.isSpreadElement(element)) {
+                    const spread = this.resolve(element.getExpression(), visited);
+                    if (!Array.isArray(spread)) {
+                        return UNRESOLVED;
+                    }
+                    values.push(...spread);
+                    continue;
+                }
+
+                const value = this.resolve(element, visited);
+                if (value === UNRESOLVED) {
+                    return UNRESOLVED;
+                }
+                values.push(value);
+            }
+            return values;
+        }
+
+        if (Node.isObjectLiteralExpression(node)) {
+            return this.resolveObject(node, visited);
+        }
+
+        if (Node.isIdentifier(node) && node.getText() === 'undefined') {
+            return undefined;
+        }
+
+        if (Node.isIdentifier(node) || Node.isPropertyAccessExpression(node) || Node.isElementAccessExpression(node)) {
+            const value = this.resolveReference(node, visited);
+            return value === UNRESOLVED ? this.resolveLiteralType(node) : value;
+        }
+
+        return this.resolveLiteralType(node);
+    }
+
+    /**
+     * Resolve `${a}-${b}` template literals
+     */
+    private resolveTemplate(node: TemplateExpression, visited: Set<Node>): Evaluated {
+        let result = node.getHead().getLiteralText();
+        for (const span of node.getTemplateSpans()) {
+            const value = this.resolve(span.getExpression(), visited);
+            if (value === UNRESOLVED) {
+                return UNRESOLVED;
+            }
+            result += String(value) + span.getLiteral().getLiteralText();
+        }
+
+        return result;
+    }
+
+    /**
+     * Resolve -x, +x and !x
+     */
+    private resolvePrefixUnary(node: PrefixUnaryExpression, visited: Set<Node>): Evaluated {
+        const operand = this.resolve(node.getOperand(), visited);
+        if (operand === UNRESOLVED) {
+            return UNRESOLVED;
+        }
+
+        switch (node.getOperatorToken()) {
+            case SyntaxKind.MinusToken:
+                return typeof operand === 'number' ? -operand : UNRESOLVED;
+            case SyntaxKind.PlusToken:
+                return typeof operand === 'number' ? operand : UNRESOLVED;
+            case SyntaxKind.ExclamationToken:
+                return !operand;
+        }
+
+        return UNRESOLVED;
+    }
+
+    /**
+     * Resolve string concatenation, arithmetic and `??` / `||` fallbacks
+     */
+    private resolveBinary(node: BinaryExpression, visited: Set<Node>): Evaluated {
+        const left = this.resolve(node.getLeft(), visited);
+        const right = this.resolve(node.getRight(), visited);
+        if (left === UNRESOLVED || right === UNRESOLVED) {
+            return UNRESOLVED;
+        }
+
+        switch (node.getOperatorToken().getKind()) {
+            case SyntaxKind.PlusToken:
+                if (typeof left === 'number' && typeof right === 'number') {
+                    return left + right;
+                }
+                return typeof left === 'string' || typeof right === 'string'
+                    ? String(left) + String(right)
+                    : UNRESOLVED;
+            case SyntaxKind.MinusToken:
+                return typeof left === 'number' && typeof right === 'number' ? left - right : UNRESOLVED;
+            case SyntaxKind.AsteriskToken:
+                return typeof left === 'number' && typeof right === 'number' ? left * right : UNRESOLVED;
+            case SyntaxKind.SlashToken:
+                return typeof left === 'number' && typeof right === 'number' ? left / right : UNRESOLVED;
+            case SyntaxKind.QuestionQuestionToken:
+                return left ?? right;
+            case SyntaxKind.BarBarToken:
+                return left || right;
+        }
+
+        return UNRESOLVED;
+    }
+
+    /**
+     * Resolve an object literal; properties that cannot be determined make the whole object unresolved
+     */
+    private resolveObject(node: ObjectLiteralExpression, visited: Set<Node>): Evaluated {
+        const result: Record<string, unknown> = {};
+
+        for (const prop of node.getProperties()) {
+            if (Node.isPropertyAssignment(prop)) {
+                const initializer = prop.getInitializer();
+                const value = initializer ? this.resolve(initializer, visited) : UNRESOLVED;
+                if (value === UNRESOLVED) {
+                    return UNRESOLVED;
+                }
+                result[this.getPropertyName(prop)] = value;
+            } else if (Node.isShorthandPropertyAssignment(prop)) {
+                const value = this.resolveReference(prop.getNameNode(), visited);
+                if (value === UNRESOLVED) {
+                    return UNRESOLVED;
+                }
+                result[prop.getName()] = value;
+            } else if (Node.isSpreadAssignment(prop)) {
+                const value = this.resolve(prop.getExpression(), visited);
+                if (value === UNRESOLVED || typeof value !== 'object' || value === null) {
+                    return UNRESOLVED;
+                }
+                Object.assign(result, value);
+            } else {
+                return UNRESOLVED;
+            }
+        }
+
+        return result;
+    }
+
+    /**
+     * Resolve an identifier or property access through its declaration
+     * Follows imports, const variables, enum members and object literal properties
+     */
+    private resolveReference(node: Node, visited: Set<Node>): Evaluated {
+        const declaration = getDeclaration(node);
+
+        if (!declaration) {
+            // Object property read from a resolvable object, e.g. config['key'] or a spread object
+            if (Node.isPropertyAccessExpression(node) || Node.isElementAccessExpression(node)) {
+                return this.resolveMemberOf(node, visited);
+            }
+            return UNRESOLVED;
+        }
+
+        if (Node.isEnumMember(declaration)) {
+            const value = declaration.getValue();
+            return value === undefined ? UNRESOLVED : value;
+        }
+
+        if (Node.isVariableDeclaration(declaration)) {
+            // Only `const` bindings are guaranteed to keep their initial value
+            const list = declaration.getVariableStatement()?.getDeclarationKind();
+            const initializer = declaration.getInitializer();
+            if (list !== 'const' || !initializer) {
+                return UNRESOLVED;
+            }
+            return this.resolve(initializer, visited);
+        }
+
+        if (Node.isPropertyAssignment(declaration)) {
+            const initializer = declaration.getInitializer();
+            return initializer ? this.resolve(initializer, visited) : UNRESOLVED;
+        }
+
+        if (Node.isShorthandPropertyAssignment(declaration)) {
+            return this.resolveReference(declaration.getNameNode(), visited);
+        }
+
+        // `static readonly` class properties
+        if (Node.isPropertyDeclaration(declaration) && declaration.isStatic() && declaration.isReadonly()) {
+            const initializer = declaration.getInitializer();
+            return initializer ? this.resolve(initializer, visited) : UNRESOLVED;
+        }
+
+        if (Node.isPropertyAccessExpression(node) || Node.isElementAccessExpression(node)) {
+            return this.resolveMemberOf(node, visited);
+        }
+
+        return UNRESOLVED;
+    }
+
+    /**
+     * Resolve obj.key / obj['key'] by evaluating the object itself
+     */
+    private resolveMemberOf(node: Node, visited: Set<Node>): Evaluated {
+        let key: Evaluated;
+        let target: Node;
+
+        if (Node.isPropertyAccessExpression(node)) {
+            key = node.getName();
+            target = node.getExpression();
+        } else if (Node.isElementAccessExpression(node)) {
+            const argument = node.getArgumentExpression();
+            key = argument ? this.resolve(argument, visited) : UNRESOLVED;
+            target = node.getExpression();
+        } else {
+            return UNRESOLVED;
+        }
+
+        if (key === UNRESOLVED) {
+            return UNRESOLVED;
+        }
+
+        const object = this.resolve(target, visited);
+        if (object === UNRESOLVED || typeof object !== 'object' || object === null) {
+            return UNRESOLVED;
+        }
+
+        if (Array.isArray(object) && key === 'length') {
+            return object.length;
+        }
+
+        const record = object as Record<string, unknown>;
+        return String(key) in record ? record[String(key)] : UNRESOLVED;
+    }
+
+    /**
+     * Fall back to the type checker for values only known through their literal type,
+     * e.g. `declare const SCHEMA: 'public'` or a function returning `'users' as const`
+     */
+    private resolveLiteralType(node: Node): Evaluated {
+        const type = node.getType();
+
+        if (type.isStringLiteral() || type.isNumberLiteral()) {
+            return type.getLiteralValue();
+        }
+        if (type.isBooleanLiteral()) {
+            return type.getText() === 'true';
+        }
+
+        return UNRESOLVED;
+    }
+
+    /**
+     * Get the name of an object literal property, unquoting string and computed keys
+     */
+    private getPropertyName(prop: Node): string {
+        if (!Node.isPropertyAssignment(prop)) {
+            return '';
+        }
+
+        const nameNode = prop.getNameNode();
+        if (Node.isStringLiteral(nameNode) || Node.isNumericLiteral(nameNode)) {
+            return String(nameNode.getLiteralValue());
+        }
+        if (Node.isComputedPropertyName(nameNode)) {
+            const key = this.tryEvaluate(nameNode.getExpression());
+            return key ? String(key.value) : nameNode.getText();
+        }
+
+        return prop.getName();
+    }
+
+    /**
+     * Report a value that cannot be determined or has the wrong type
+     */
+    private report(node: Node, expected?: string): void {
+        const text = node.getText();
+
+        if (expected) {
+            this.diagnostics.warning(
+                'invalid-value',
+                `Expected ${expected} but \`${text}\` has a different type`,
+                node,
+            );
+        } else {
+            this.diagnostics.warning('unresolved-value', `Cannot statically determine the value of \`${text}\``, node);
+        }
+    }
+}
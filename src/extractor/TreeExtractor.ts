@@ -0,0 +1,197 @@
+/**
+ * TreeExtractor - Synthesizes the columns and tables TypeORM creates for @Tree entities
+ */
+
+import { ClassDeclaration, Node } from 'ts-morph';
+import ColumnMetadata from '../utils/interfaces/ColumnMetadata';
+import EntityMetadata from '../utils/interfaces/EntityMetadata';
+import JoinColumnMetadata from '../utils/interfaces/JoinColumnMetadata';
+import NamingStrategy from '../utils/interfaces/NamingStrategy';
+import RelationMetadata from '../utils/interfaces/RelationMetadata';
+import TreeMetadata from '../utils/interfaces/TreeMetadata';
+import { DiagnosticCollector } from '../utils/DiagnosticCollector';
+import { DefaultNamingStrategy } from '../naming/DefaultNamingStrategy';
+import { StaticEvaluator } from './StaticEvaluator';
+
+export class TreeExtractor {
+    private evaluator: StaticEvaluator;
+    private diagnostics: DiagnosticCollector;
+    private namingStrategy: NamingStrategy;
+
+    constructor(
+        diagnostics: DiagnosticCollector = new DiagnosticCollector(),
+        namingStrategy: NamingStrategy = new DefaultNamingStrategy(),
+    ) {
+        this.evaluator = new StaticEvaluator(diagnostics);
+        this.diagnostics = diagnostics;
+        this.namingStrategy = namingStrategy;
+    }
+
+    /**
+     * Extract tree metadata from the @Tree decorator
+     */
+    extractTree(classDecl: ClassDeclaration): TreeMetadata | undefined {
+        const treeDecorator = classDecl.getDecorator('Tree');
+        if (!treeDecorator) {
+            return undefined;
+        }
+
+        const [typeArg, optionsArg] = treeDecorator.getArguments();
+        const type = typeArg ? this.evaluator.evaluateString(typeArg) : undefined;
+        if (!type) {
+            return undefined;
+        }
+
+        const tree: TreeMetadata = {
+            type: type as TreeMetadata['type'],
+        };
+
+        // Closure table options: { closureTableName, ancestorColumnName, descendantColumnName }
+        if (optionsArg && Node.isObjectLiteralExpression(optionsArg)) {
+            for (const prop of optionsArg.getProperties()) {
+                if (!Node.isPropertyAssignment(prop)) continue;
+
+                const initializer = prop.getInitializer();
+                if (!initializer) continue;
+
+                switch (prop.getName()) {
+                    case 'closureTableName':
+                        tree.closureTableName = this.evaluator.evaluateString(initializer);
+                        break;
+                    case 'ancestorColumnName':
+                        tree.ancestorColumnName = this.extractColumnNamePattern(initializer);
+                        break;
+                    case 'descendantColumnName':
+                        tree.descendantColumnName = this.extractColumnNamePattern(initializer);
+                        break;
+                    default:
+                        this.diagnostics.unsupportedOption(prop, prop.getName(), '@Tree');
+                }
+            }
+        }
+
+        return tree;
+    }
+
+    /**
+     * Add the tree columns TypeORM maintains on the entity table itself
+     * nested-set: nsleft/nsright, materialized-path: mpath, named by the naming strategy
+     * The @TreeParent foreign key is added with the other foreign keys, once relations are resolved
+     */
+    applyTreeColumns(entity: EntityMetadata): void {
+        if (!entity.tree) {
+            return;
+        }
+
+        const treeColumns: ColumnMetadata[] = [];
+
+        if (entity.tree.type === 'nested-set') {
+            const { left, right } = this.namingStrategy.nestedSetColumnNames;
+            treeColumns.push(this.createColumn(left, 'integer', false, '1'));
+            treeColumns.push(this.createColumn(right, 'integer', false, '2'));
+        }
+
+        if (entity.tree.type === 'materialized-path') {
+            treeColumns.push(this.createColumn(this.namingStrategy.materializedPathColumnName, 'varchar', true, ''));
+        }
+
+        for (const column of treeColumns) {
+            if (!entity.columns.some((c) => c.columnName === column.columnName)) {
+                entity.columns.push(column);
+            }
+        }
+    }
+
+    /**
+     * Create the `<table>_closure` table of a closure-table tree
+     * It holds one ancestor and one descendant column per primary key column, both referencing the entity
+     */
+    createClosureTable(entity: EntityMetadata): EntityMetadata | undefined {
+        if (entity.tree?.type !== 'closure-table') {
+            return undefined;
+        }
+
+        const columns: ColumnMetadata[] = [];
+        const relations: RelationMetadata[] = [];
+        const primaryColumns = entity.columns.filter((c) => c.isPrimary);
+
+        for (const side of ['ancestor', 'descendant'] as const) {
+            const pattern = side === 'ancestor' ? entity.tree.ancestorColumnName : entity.tree.descendantColumnName;
+            const joinColumns: JoinColumnMetadata[] = [];
+
+            for (const primaryColumn of primaryColumns) {
+                const columnName = pattern
+                    ? pattern.replace('{column}', primaryColumn.columnName)
+                    : `${primaryColumn.columnName}_${side}`;
+
+                columns.push({
+                    ...this.createColumn(columnName, primaryColumn.type, false),
+                    isPrimary: true,
+                    length: primaryColumn.length,
+                });
+                joinColumns.push({ name: columnName, referencedColumnName: primaryColumn.columnName });
+            }
+
+            // One foreign key per side, spanning all primary key columns
+            if (joinColumns.length > 0) {
+                relations.push({
+                    propertyName: side,
+                    type: 'many-to-one',
+                    target: entity.name,
+                    joinColumns,
+                    onDelete: 'CASCADE',
+                });
+            }
+        }
+
+        return {
+            name: `${entity.name}Closure`,
+            tableName: this.namingStrategy.closureJunctionTableName(entity.tree.closureTableName ?? entity.tableName),
+            schema: entity.schema,
+            columns,
+            relations,
+            indexes: [],
+            uniques: [],
+            checks: [],
+            note: `Closure table of ${entity.tableName}`,
+        };
+    }
+
+    /**
+     * Turn a `(column) => ...` naming option into a pattern with a `{column}` placeholder
+     */
+    private extractColumnNamePattern(initializer: Node): string | undefined {
+        if (!Node.isArrowFunction(initializer)) {
+            return this.evaluator.evaluateString(initializer);
+        }
+
+        const [param] = initializer.getParameters();
+        const body = initializer.getBody().getText();
+        if (!param) {
+            return body.replace(/['"`]/g, '');
+        }
+
+        // `${column.propertyName}_ancestor` or column.databaseName + '_ancestor'
+        const columnRef = new RegExp(`\\$?\\{?${param.getName()}\\.(propertyName|propertyPath|databaseName)\\}?`, 'g');
+        return body
+            .replace(columnRef, '{column}')
+            .replace(/\s*\+\s*/g, '')
+            .replace(/['"`]/g, '');
+    }
+
+    /**
+     * Create a synthesized column
+     */
+    private createColumn(columnName: string, type: string, isNullable: boolean, defaultValue?: string): ColumnMetadata {
+        return {
+            propertyName: columnName,
+            columnName,
+            type,
+            isPrimary: false,
+            isGenerated: false,
+            isNullable,
+            isUnique: false,
+            default: defaultValue,
+        };
+    }
+}
@@ -0,0 +1,165 @@
+/**
+ * ViewExtractor - Extracts view metadata from TypeORM @ViewEntity classes
+ */
+
+import { ClassDeclaration, Node, ObjectLiteralExpression } from 'ts-morph';
+import NamingStrategy from '../utils/interfaces/NamingStrategy';
+import ViewMetadata from '../utils/interfaces/ViewMetadata';
+import { DiagnosticCollector } from '../utils/DiagnosticCollector';
+import { DefaultNamingStrategy } from '../naming/DefaultNamingStrategy';
+import { ColumnExtractor } from './ColumnExtractor';
+import { StaticEvaluator } from './StaticEvaluator';
+
+export class ViewExtractor {
+    private columnExtractor: ColumnExtractor;
+    private evaluator: StaticEvaluator;
+    private diagnostics: DiagnosticCollector;
+    private namingStrategy: NamingStrategy;
+
+    constructor(
+        diagnostics: DiagnosticCollector = new DiagnosticCollector(),
+        namingStrategy: NamingStrategy = new DefaultNamingStrategy(),
+    ) {
+        this.columnExtractor = new ColumnExtractor(diagnostics, namingStrategy);
+        this.evaluator = new StaticEvaluator(diagnostics);
+        this.diagnostics = diagnostics;
+        this.namingStrategy = namingStrategy;
+    }
+
+    /**
+     * Check if a class is a view entity
+     */
+    isViewEntity(classDecl: ClassDeclaration): boolean {
+        return !!classDecl.getDecorator('ViewEntity');
+    }
+
+    /**
+     * Extract view metadata from a @ViewEntity class
+     */
+    extractView(classDecl: ClassDeclaration): ViewMetadata {
+        const className = classDecl.getName() || 'Unknown';
+
+        const metadata: ViewMetadata = {
+            name: className,
+            viewName: this.namingStrategy.tableName(className, undefined),
+            isMaterialized: false,
+            columns: this.columnExtractor.extractViewColumns(classDecl),
+            dependsOn: [],
+        };
+
+        // @ViewEntity('name', { ... }) or @ViewEntity({ name, ... })
+        for (const arg of classDecl.getDecoratorOrThrow('ViewEntity').getArguments()) {
+            if (Node.isObjectLiteralExpression(arg)) {
+                this.extractViewOptions(arg, metadata);
+            } else {
+                metadata.viewName = this.namingStrategy.tableName(className, this.evaluator.evaluateString(arg));
+            }
+        }
+
+        // Extract JSDoc comment as note
+        const jsDocs = classDecl.getJsDocs();
+        if (jsDocs.length > 0) {
+            const comment = jsDocs[0].getComment();
+            if (typeof comment === 'string') {
+                metadata.note = comment;
+            }
+        }
+
+        return metadata;
+    }
+
+    /**
+     * Extract view options from the decorator object literal
+     */
+    private extractViewOptions(options: ObjectLiteralExpression, metadata: ViewMetadata): void {
+        for (const prop of options.getProperties()) {
+            if (!Node.isPropertyAssignment(prop)) continue;
+
+            const name = prop.getName();
+            const initializer = prop.getInitializer();
+            if (!initializer) continue;
+
+            switch (name) {
+                case 'name':
+                    metadata.viewName = this.namingStrategy.tableName(
+                        metadata.name,
+                        this.evaluator.evaluateString(initializer),
+                    );
+                    break;
+                case 'schema':
+                    metadata.schema = this.evaluator.evaluateString(initializer);
+                    break;
+                case 'materialized':
+                    metadata.isMaterialized = this.evaluator.evaluateBoolean(initializer) ?? false;
+                    break;
+                case 'expression':
+                    metadata.expression = this.extractExpression(initializer);
+                    break;
+                case 'dependsOn':
+                    metadata.dependsOn = this.extractDependsOn(initializer);
+                    break;
+                default:
+                    this.diagnostics.unsupportedOption(prop, name, '@ViewEntity');
+            }
+        }
+    }
+
+    /**
+     * Extract the view SQL
+     * Query builder functions cannot be evaluated statically, so their source is kept as-is
+     */
+    private extractExpression(initializer: Node): string {
+        if (Node.isArrowFunction(initializer) || Node.isFunctionExpression(initializer)) {
+            return this.dedent(initializer.getText());
+        }
+
+        const sql = this.evaluator.tryEvaluate(initializer);
+        if (typeof sql?.value === 'string') {
+            return this.dedent(sql.value);
+        }
+
+        // Templates interpolating runtime values keep their placeholders
+        if (Node.isTemplateExpression(initializer)) {
+            return this.dedent(initializer.getText().slice(1, -1));
+        }
+
+        return this.dedent(initializer.getText());
+    }
+
+    /**
+     * Extract the names of entities/views this view depends on
+     */
+    private extractDependsOn(initializer: Node): string[] {
+        if (!Node.isArrayLiteralExpression(initializer)) {
+            return [];
+        }
+
+        return initializer.getElements().map((element) => {
+            if (Node.isStringLiteral(element)) {
+                return element.getLiteralValue();
+            }
+            if (Node.isArrowFunction(element)) {
+                return element.getBody().getText();
+            }
+            return element.getText();
+        });
+    }
+
+    /**
+     * Remove common leading indentation and surrounding blank lines from multi-line text
+     */
+    private dedent(text: string): string {
+        const lines = text
+            .replace(/^\s*\n/, '')
+            .replace(/\n\s*$/, '')
+            .split('\n');
+        const indentOf = (line: string) => line.match(/^\s*/)![0].length;
+
+        // A first line starting right after the opening quote does not count towards the indentation
+        const indented = lines.length > 1 && indentOf(lines[0]) === 0 ? lines.slice(1) : lines;
+        const indents = indented.filter((line) => line.trim()).map(indentOf);
+        const minIndent = indents.length > 0 ? Math.min(...indents) : 0;
+
+        return lines.map((line) => line.slice(Math.min(minIndent, indentOf(line)))).join('\n');
+    }
+}
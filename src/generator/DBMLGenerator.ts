@@ -2,27 +2,30 @@
  * DBMLGenerator - Generates DBML syntax from entity metadata
  */
 
-import { DBMLSchema, GeneratorOptions, EntityMetadata, EnumMetadata } from '../parser/types';
+import DBMLSchema from '../utils/interfaces/DBMLSchema';
+import EntityMetadata from '../utils/interfaces/EntityMetadata';
+import EnumMetadata from '../utils/interfaces/EnumMetadata';
+import GeneratorOptions from '../utils/interfaces/GeneratorOptions';
+import NamingStrategy from '../utils/interfaces/NamingStrategy';
+import SchemaRenderer from '../utils/interfaces/SchemaRenderer';
+import ViewMetadata from '../utils/interfaces/ViewMetadata';
 import { TableGenerator } from './TableGenerator';
 import { RelationGenerator } from './RelationGenerator';
+import { TypeMapper } from './TypeMapper';
+import { getJoinTables, groupTables, resolveGeneratorOptions } from '../utils/RendererUtils';
 
-export class DBMLGenerator {
+export class DBMLGenerator implements SchemaRenderer {
     private tableGenerator: TableGenerator;
     private relationGenerator: RelationGenerator;
+    private typeMapper: TypeMapper;
     private options: Required<GeneratorOptions>;
 
-    constructor(options?: GeneratorOptions) {
-        this.options = {
-            includeSchemas: options?.includeSchemas ?? true,
-            includeIndexes: options?.includeIndexes ?? true,
-            includeNotes: options?.includeNotes ?? true,
-            includeEnums: options?.includeEnums ?? true,
-            tableGrouping: options?.tableGrouping ?? 'schema',
-            projectName: options?.projectName ?? 'Database Schema',
-        };
+    constructor(options?: GeneratorOptions, namingStrategy?: NamingStrategy) {
+        this.options = resolveGeneratorOptions(options);
 
+        this.typeMapper = new TypeMapper(this.options.databaseType);
         this.tableGenerator = new TableGenerator(this.options);
-        this.relationGenerator = new RelationGenerator();
+        this.relationGenerator = new RelationGenerator(namingStrategy, this.options.collapseJoinTables);
     }
 
     /**
@@ -47,18 +50,28 @@ export class DBMLGenerator {
             sections.push(tablesSection);
         }
 
+        // Join tables, unless many-to-many relations are collapsed to `<>` refs
+        const joinTables = getJoinTables(schema, this.options);
+        if (joinTables.length > 0) {
+            sections.push(joinTables.map((joinTable) => this.tableGenerator.generateJoinTable(joinTable)).join('\n\n'));
+        }
+
+        // Views
+        const views = this.options.includeViews ? schema.views : [];
+        if (views.length > 0) {
+            sections.push(this.generateViews(views));
+        }
+
         // Relationships
         const relationsSection = this.relationGenerator.generateRelations(schema.entities);
         if (relationsSection) {
             sections.push(relationsSection);
         }
 
-        // Table groups (by schema)
-        if (this.options.includeSchemas && this.options.tableGrouping === 'schema') {
-            const tableGroupsSection = this.generateTableGroups(schema.entities);
-            if (tableGroupsSection) {
-                sections.push(tableGroupsSection);
-            }
+        // Table groups, by schema and of views
+        const tableGroupsSection = this.generateTableGroups(groupTables(schema, this.options));
+        if (tableGroupsSection) {
+            sections.push(tableGroupsSection);
         }
 
         return sections.filter((s) => s.trim()).join('\n\n');
@@ -69,7 +82,7 @@ export class DBMLGenerator {
      */
     private generateProjectHeader(): string {
         return `Project ${this.escapeIdentifier(this.options.projectName)} {
-  database_type: 'PostgreSQL'
+  database_type: '${this.typeMapper.getDatabaseName()}'
   Note: 'Generated from TypeORM entities'
 }`;
     }
@@ -79,15 +92,25 @@ export class DBMLGenerator {
      */
     private generateEnums(enums: EnumMetadata[]): string {
         const enumDefs = enums.map((enumMeta) => {
-            const values = enumMeta.values.map((v) => `  ${this.escapeIdentifier(v)}`).join('\n');
-            return `Enum ${this.escapeIdentifier(enumMeta.name)} {
-${values}
+            const values = enumMeta.values.map((v) => `  ${this.generateEnumValue(v, enumMeta.valueNotes?.[v])}`);
+            const schema =
+                this.options.includeSchemas && enumMeta.schema ? `${this.escapeIdentifier(enumMeta.schema)}.` : '';
+            return `Enum ${schema}${this.escapeIdentifier(enumMeta.name)} {
+${values.join('\n')}
 }`;
         });
 
         return enumDefs.join('\n\n');
     }
 
+    /**
+     * Generate an enum value, with the JSDoc of its member as note
+     */
+    private generateEnumValue(value: string, note?: string): string {
+        const escaped = this.escapeIdentifier(value);
+        return this.options.includeNotes && note ? `${escaped} [note: '${note.replace(/'/g, "\\'")}']` : escaped;
+    }
+
     /**
      * Generate all table definitions
      */
@@ -98,40 +121,44 @@ ${values}
     }
 
     /**
-     * Generate table groups by schema
+     * Generate all view definitions
      */
-    private generateTableGroups(entities: EntityMetadata[]): string {
-        // Group entities by schema
-        const schemaGroups = new Map<string, string[]>();
-
-        for (const entity of entities) {
-            const schema = entity.schema || 'public';
-            if (!schemaGroups.has(schema)) {
-                schemaGroups.set(schema, []);
-            }
-            schemaGroups.get(schema)!.push(entity.tableName);
-        }
+    private generateViews(views: ViewMetadata[]): string {
+        const viewDefs = views.map((view) => this.tableGenerator.generateView(view));
 
-        // Generate TableGroup for each schema
+        return viewDefs.join('\n\n');
+    }
+
+    /**
+     * Generate a table group for each group of tables
+     */
+    private generateTableGroups(tableGroups: Map<string, string[]>): string {
         const groups: string[] = [];
-        for (const [schema, tables] of schemaGroups) {
+        for (const [name, tables] of tableGroups) {
             if (tables.length > 0) {
-                const tableList = tables.map((t) => `  ${this.escapeIdentifier(t)}`).join('\n');
-                groups.push(`TableGroup ${this.escapeIdentifier(schema)} {
-${tableList}
-}`);
+                groups.push(this.generateTableGroup(name, tables));
             }
         }
 
         return groups.join('\n\n');
     }
 
+    /**
+     * Generate a single table group
+     */
+    private generateTableGroup(name: string, tables: string[]): string {
+        const tableList = tables.map((t) => `  ${this.escapeIdentifier(t)}`).join('\n');
+        return `TableGroup ${this.escapeIdentifier(name)} {
+${tableList}
+}`;
+    }
+
     /**
      * Escape identifiers that need quoting
      */
     private escapeIdentifier(identifier: string): string {
-        // If identifier contains spaces or special characters, quote it
-        if (/[^a-zA-Z0-9_]/.test(identifier)) {
+        // If identifier contains spaces or special characters, or starts with a digit (numeric enum values), quote it
+        if (/[^a-zA-Z0-9_]|^[0-9]/.test(identifier)) {
             return `"${identifier}"`;
         }
         return identifier;
@@ -0,0 +1,296 @@
+/**
+ * DotGenerator - Generates a Graphviz DOT graph of HTML-table nodes from entity metadata
+ */
+
+import ColumnMetadata from '../utils/interfaces/ColumnMetadata';
+import DBMLSchema from '../utils/interfaces/DBMLSchema';
+import EnumMetadata from '../utils/interfaces/EnumMetadata';
+import GeneratorOptions from '../utils/interfaces/GeneratorOptions';
+import IndexMetadata from '../utils/interfaces/IndexMetadata';
+import NamingStrategy from '../utils/interfaces/NamingStrategy';
+import Relationship from '../utils/interfaces/Relationship';
+import RenderedTable from '../utils/interfaces/RenderedTable';
+import SchemaRenderer from '../utils/interfaces/SchemaRenderer';
+import { RelationshipResolver } from './RelationshipResolver';
+import { TypeMapper } from './TypeMapper';
+import { getRenderedTables, groupTables, resolveGeneratorOptions } from '../utils/RendererUtils';
+
+export class DotGenerator implements SchemaRenderer {
+    // Arrow shapes of each cardinality, the first shape touching the node
+    private static readonly ARROWS: Record<Relationship['toCardinality'], string> = {
+        'one': 'teetee',
+        'zero-or-one': 'teeodot',
+        'many': 'crowodot',
+    };
+
+    // Header colors of tables, views and enums
+    private static readonly HEADER_COLORS: Record<RenderedTable['kind'] | 'enum', string> = {
+        'table': '#D6E4F0',
+        'join table': '#D6E4F0',
+        'view': '#E5E5E5',
+        'materialized view': '#E5E5E5',
+        'enum': '#F5E6CC',
+    };
+
+    private relationshipResolver: RelationshipResolver;
+    private typeMapper: TypeMapper;
+    private options: Required<GeneratorOptions>;
+
+    constructor(options?: GeneratorOptions, namingStrategy?: NamingStrategy) {
+        this.options = resolveGeneratorOptions(options);
+
+        this.typeMapper = new TypeMapper(this.options.databaseType);
+        this.relationshipResolver = new RelationshipResolver(namingStrategy, this.options.collapseJoinTables);
+    }
+
+    /**
+     * Generate a complete DOT graph from schema metadata
+     */
+    generate(schema: DBMLSchema): string {
+        const sections: string[] = [];
+
+        // Graph attributes
+        const graph = ['rankdir=LR', 'fontname="Helvetica"'];
+        if (this.options.projectName) {
+            graph.push(`label=${this.quote(this.options.projectName)}`, 'labelloc=t');
+        }
+        sections.push(
+            [
+                `    graph [${graph.join(', ')}];`,
+                '    node [shape=plain, fontname="Helvetica", fontsize=10];',
+                '    edge [fontname="Helvetica", fontsize=9, dir=both];',
+            ].join('\n'),
+        );
+
+        // Enums
+        if (this.options.includeEnums && schema.enums.length > 0) {
+            sections.push(schema.enums.map((enumMeta) => this.indent(this.generateEnum(enumMeta))).join('\n'));
+        }
+
+        // Tables, in a cluster per group
+        const relationships = this.relationshipResolver.resolve(schema);
+        const foreignKeys = this.relationshipResolver.getForeignKeys(relationships);
+        const tables = getRenderedTables(schema, this.options);
+        const groups = groupTables(schema, this.options);
+        const grouped = new Set([...groups.values()].flat());
+
+        const ungrouped = tables.filter((t) => !grouped.has(t.name));
+        if (ungrouped.length > 0) {
+            sections.push(ungrouped.map((t) => this.indent(this.generateTable(t, foreignKeys.get(t.name)))).join('\n'));
+        }
+
+        for (const [name, members] of groups) {
+            const nodes = tables
+                .filter((t) => members.includes(t.name))
+                .map((t) => this.indent(this.generateTable(t, foreignKeys.get(t.name))));
+            if (nodes.length > 0) {
+                sections.push(this.indent(this.generateCluster(name, nodes)));
+            }
+        }
+
+        // Relationships, between the columns of both sides when they are rendered
+        if (relationships.length > 0) {
+            const ports = new Map(tables.map((t) => [t.name, new Set(t.columns.map((c) => c.columnName))]));
+            sections.push(relationships.map((r) => this.indent(this.generateRelationship(r, ports))).join('\n'));
+        }
+
+        const name = this.options.projectName ? `${this.quote(this.options.projectName)} ` : '';
+        return `digraph ${name}{\n${sections.join('\n\n')}\n}`;
+    }
+
+    /**
+     * Generate a cluster subgraph of tables
+     */
+    private generateCluster(name: string, nodes: string[]): string {
+        return [
+            `subgraph ${this.quote(`cluster_${name}`)} {`,
+            `    label=${this.quote(name)};`,
+            '    style="rounded,dashed";',
+            '    color="#7F8C8D";',
+            ...nodes,
+            '}',
+        ].join('\n');
+    }
+
+    /**
+     * Generate the HTML-table node of a table: a header, a row per column with a port, then indexes and note
+     */
+    private generateTable(table: RenderedTable, foreignKeys = new Set<string>()): string {
+        const comments = this.options.includeNotes && table.columns.some((c) => c.comment);
+        const width = comments ? 4 : 3;
+
+        const title = `<b>${this.escapeHtml(table.name)}</b>`;
+        const header = table.kind.endsWith('view') ? `<i>&laquo;${table.kind}&raquo;</i><br/>${title}` : title;
+        const rows = [this.generateHeader(header, table.kind, width)];
+
+        for (const column of table.columns) {
+            const cells = [
+                `<td port=${this.quote(column.columnName)} align="left">${this.formatColumnName(column)}</td>`,
+                `<td align="left">${this.escapeHtml(this.typeMapper.mapType(column))}</td>`,
+                `<td align="left">${this.getKeys(column, foreignKeys).join(', ')}</td>`,
+            ];
+            if (comments) {
+                cells.push(
+                    `<td align="left">${column.comment ? `<i>${this.escapeHtml(column.comment)}</i>` : ''}</td>`,
+                );
+            }
+            rows.push(`<tr>${cells.join('')}</tr>`);
+        }
+
+        // Indexes, except the composite primary key already marked on its columns
+        const indexes = this.options.includeIndexes ? table.indexes.filter((i) => !i.isPrimary) : [];
+        for (const index of indexes) {
+            rows.push(this.generateFooter(this.escapeHtml(this.formatIndex(index)), width));
+        }
+
+        // Table note
+        if (this.options.includeNotes && table.note) {
+            rows.push(this.generateFooter(`<i>${this.escapeHtml(table.note).replace(/\n/g, '<br/>')}</i>`, width));
+        }
+
+        return this.generateNode(table.name, rows);
+    }
+
+    /**
+     * Generate the HTML-table node of an enum, with a row per value
+     */
+    private generateEnum(enumMeta: EnumMetadata): string {
+        const name =
+            this.options.includeSchemas && enumMeta.schema ? `${enumMeta.schema}.${enumMeta.name}` : enumMeta.name;
+        const rows = [
+            this.generateHeader(`<i>&laquo;enum&raquo;</i><br/><b>${this.escapeHtml(name)}</b>`, 'enum', 1),
+            ...enumMeta.values.map((v) => `<tr><td align="left">${this.escapeHtml(v)}</td></tr>`),
+        ];
+
+        return this.generateNode(name, rows);
+    }
+
+    /**
+     * Generate a node with an HTML table as label
+     */
+    private generateNode(name: string, rows: string[]): string {
+        return [
+            `${this.quote(name)} [label=<`,
+            '    <table border="0" cellborder="1" cellspacing="0" cellpadding="4">',
+            ...rows.map((row) => `        ${row}`),
+            '    </table>',
+            '>];',
+        ].join('\n');
+    }
+
+    /**
+     * Generate the header row of a node
+     */
+    private generateHeader(content: string, kind: RenderedTable['kind'] | 'enum', width: number): string {
+        return `<tr><td colspan="${width}" bgcolor="${DotGenerator.HEADER_COLORS[kind]}">${content}</td></tr>`;
+    }
+
+    /**
+     * Generate a row spanning the whole node, below the columns
+     */
+    private generateFooter(content: string, width: number): string {
+        return `<tr><td colspan="${width}" align="left">${content}</td></tr>`;
+    }
+
+    /**
+     * Generate an edge from the foreign key to the referenced key, with the cardinality of each side as arrows
+     * Format: "table1":"column" -> "table2":"id" [arrowtail=crowodot, arrowhead=teetee, label="property"];
+     */
+    private generateRelationship(relationship: Relationship, ports: Map<string, Set<string>>): string {
+        const endpoint = (table: string, columns: string[]) =>
+            ports.get(table)?.has(columns[0]) ? `${this.quote(table)}:${this.quote(columns[0])}` : this.quote(table);
+
+        const attributes = [
+            `arrowtail=${DotGenerator.ARROWS[relationship.fromCardinality]}`,
+            `arrowhead=${DotGenerator.ARROWS[relationship.toCardinality]}`,
+            `label=${this.quote(relationship.label)}`,
+        ];
+
+        return (
+            `${endpoint(relationship.from, relationship.fromColumns)} -> ` +
+            `${endpoint(relationship.to, relationship.toColumns)} [${attributes.join(', ')}];`
+        );
+    }
+
+    /**
+     * Format a column name: underlined in the primary key, bold when mandatory
+     */
+    private formatColumnName(column: ColumnMetadata): string {
+        let name = this.escapeHtml(column.columnName);
+        if (column.isPrimary) {
+            name = `<u>${name}</u>`;
+        }
+        if (!column.isNullable || column.isPrimary) {
+            name = `<b>${name}</b>`;
+        }
+        return name;
+    }
+
+    /**
+     * Get the key markers of a column
+     */
+    private getKeys(column: ColumnMetadata, foreignKeys: Set<string>): string[] {
+        const keys: string[] = [];
+        if (column.isPrimary) {
+            keys.push('PK');
+        }
+        if (foreignKeys.has(column.columnName)) {
+            keys.push('FK');
+        }
+        if (column.isUnique && !column.isPrimary) {
+            keys.push('UK');
+        }
+        return keys;
+    }
+
+    /**
+     * Format an index
+     * Format: name (column1, column2) unique
+     */
+    private formatIndex(index: IndexMetadata): string {
+        const columns = `(${index.columns.join(', ')})`;
+        const name = index.name ? `${index.name} ${columns}` : columns;
+
+        return `${name} ${index.isUnique ? 'unique' : 'index'}`;
+    }
+
+    /**
+     * Quote a DOT identifier
+     */
+    private quote(identifier: string): string {
+        return `"${identifier.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+    }
+
+    /**
+     * Escape the characters HTML labels reserve
+     */
+    private escapeHtml(text: string): string {
+        return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+    }
+
+    /**
+     * Indent every line of a block
+     */
+    private indent(block: string): string {
+        return block
+            .split('\n')
+            .map((line) => `    ${line}`)
+            .join('\n');
+    }
+
+    /**
+     * Generate the graph and write to file
+     */
+    async generateToFile(schema: DBMLSchema, outputPath: string): Promise<void> {
+        const dot = this.generate(schema);
+        const fs = await import('fs/promises');
+        await fs.writeFile(outputPath, dot, 'utf-8');
+    }
+
+    /**
+     * Get the current options
+     */
+    getOptions(): Required<GeneratorOptions> {
+        return { ...this.options };
+    }
+}
@@ -0,0 +1,910 @@
+/**
+ * EntityGenerator - Generates TypeORM entity classes from schema metadata, the reverse of MetadataExtractor
+ * Each table, view and enum gets a file of its own; options are only written where they differ from what
+ * TypeORM and the naming strategy derive, so extracting the entities gives back the same schema
+ */
+
+import {
+    DecoratorStructure,
+    IndentationText,
+    OptionalKind,
+    Project,
+    PropertyDeclarationStructure,
+    QuoteKind,
+    SourceFile,
+} from 'ts-morph';
+import * as path from 'path';
+import { DefaultNamingStrategy } from '../naming/DefaultNamingStrategy';
+import ColumnMetadata from '../utils/interfaces/ColumnMetadata';
+import DBMLSchema from '../utils/interfaces/DBMLSchema';
+import EntityMetadata from '../utils/interfaces/EntityMetadata';
+import EnumMetadata from '../utils/interfaces/EnumMetadata';
+import GeneratorOptions from '../utils/interfaces/GeneratorOptions';
+import JoinColumnMetadata from '../utils/interfaces/JoinColumnMetadata';
+import NamingStrategy from '../utils/interfaces/NamingStrategy';
+import RelationMetadata from '../utils/interfaces/RelationMetadata';
+import ViewMetadata from '../utils/interfaces/ViewMetadata';
+import { camelCase, pluralize, singularize, snakeCase } from '../utils/StringUtils';
+import { TypeMapper } from './TypeMapper';
+
+type Decorator = OptionalKind<DecoratorStructure>;
+type Property = OptionalKind<PropertyDeclarationStructure>;
+
+// Code of object literal properties by name; undefined ones are left out
+type Options = Record<string, string | undefined>;
+
+// Relation declared on its target, pointing back at the relation owning the foreign key or join table
+type InverseSide = { owner: EntityMetadata; relation: RelationMetadata; name: string };
+
+// What a class file refers to: decorators imported from typeorm, and the classes and enums of other files
+type Imports = { decorators: Set<string>; files: Set<EntityMetadata | ViewMetadata | EnumMetadata> };
+
+export class EntityGenerator {
+    // TypeScript types of column types, string for the others
+    private static readonly TS_TYPES: Record<string, string> = {
+        'integer': 'number',
+        'int': 'number',
+        'smallint': 'number',
+        'tinyint': 'number',
+        'mediumint': 'number',
+        'real': 'number',
+        'float': 'number',
+        'double': 'number',
+        'double precision': 'number',
+        'boolean': 'boolean',
+        'bool': 'boolean',
+        'bit': 'boolean',
+        'timestamp': 'Date',
+        'timestamptz': 'Date',
+        'timestamp with time zone': 'Date',
+        'datetime': 'Date',
+        'datetime2': 'Date',
+        'datetimeoffset': 'Date',
+        'bytea': 'Buffer',
+        'blob': 'Buffer',
+        'longblob': 'Buffer',
+        'binary': 'Buffer',
+        'varbinary': 'Buffer',
+        'json': 'Record<string, unknown>',
+        'jsonb': 'Record<string, unknown>',
+        'simple-json': 'Record<string, unknown>',
+    };
+
+    // Decorators of the special date columns, by the names they are recognized from
+    private static readonly DATE_COLUMNS: [RegExp, 'CreateDateColumn' | 'UpdateDateColumn' | 'DeleteDateColumn'][] = [
+        [/^created/i, 'CreateDateColumn'],
+        [/^updated/i, 'UpdateDateColumn'],
+        [/^deleted/i, 'DeleteDateColumn'],
+    ];
+
+    // Decorators of the relations owning a foreign key or join table
+    private static readonly RELATION_DECORATORS: Record<RelationMetadata['type'], string> = {
+        'one-to-one': 'OneToOne',
+        'many-to-one': 'ManyToOne',
+        'one-to-many': 'OneToMany',
+        'many-to-many': 'ManyToMany',
+    };
+
+    // Length of the literals written on one line, which leaves room for the decorator around them
+    private static readonly MAX_LINE_LENGTH = 80;
+
+    private namingStrategy: NamingStrategy;
+    private typeMapper: TypeMapper;
+    private schema: DBMLSchema = { entities: [], enums: [], joinTables: [], views: [] };
+    private classNames = new Map<EntityMetadata | ViewMetadata | EnumMetadata, string>();
+    private propertyNames = new Map<ColumnMetadata | RelationMetadata, string>();
+    private enumMembers = new Map<EnumMetadata, Map<string, string>>();
+    private implicitColumns = new Set<ColumnMetadata>();
+    private inverseSides = new Map<EntityMetadata, InverseSide[]>();
+
+    constructor(
+        namingStrategy: NamingStrategy = new DefaultNamingStrategy(),
+        databaseType?: GeneratorOptions['databaseType'],
+    ) {
+        this.namingStrategy = namingStrategy;
+        this.typeMapper = new TypeMapper(databaseType);
+    }
+
+    /**
+     * Generate the source of the entity, view and enum files, by file name
+     */
+    generate(schema: DBMLSchema): Record<string, string> {
+        const project = new Project({
+            useInMemoryFileSystem: true,
+            manipulationSettings: { quoteKind: QuoteKind.Single, indentationText: IndentationText.FourSpaces },
+        });
+
+        this.nameSchema(schema);
+
+        for (const enumType of schema.enums) {
+            this.generateEnum(project, enumType);
+        }
+        for (const entity of schema.entities) {
+            this.generateEntity(project, entity);
+        }
+        for (const view of schema.views) {
+            this.generateView(project, view);
+        }
+
+        return Object.fromEntries(project.getSourceFiles().map((file) => [file.getBaseName(), file.getFullText()]));
+    }
+
+    /**
+     * Write the files of the schema to a directory, returning their paths
+     * Existing files are only replaced with `overwrite`
+     */
+    async generateToDirectory(schema: DBMLSchema, directory: string, overwrite = false): Promise<string[]> {
+        const fs = await import('fs/promises');
+        const files = Object.entries(this.generate(schema)).map(([name, text]) => [path.join(directory, name), text]);
+
+        if (!overwrite) {
+            for (const [file] of files) {
+                const exists = await fs.access(file).then(
+                    () => true,
+                    () => false,
+                );
+                if (exists) {
+                    throw new Error(`${file} already exists; remove it or overwrite existing files`);
+                }
+            }
+        }
+
+        await fs.mkdir(directory, { recursive: true });
+        for (const [file, text] of files) {
+            await fs.writeFile(file, text, 'utf-8');
+        }
+        return files.map(([file]) => file);
+    }
+
+    /**
+     * Name the classes, enums and properties up front, as relations refer to the names of both of their sides
+     */
+    private nameSchema(schema: DBMLSchema): void {
+        this.schema = schema;
+        this.classNames.clear();
+        this.propertyNames.clear();
+        this.enumMembers.clear();
+        this.implicitColumns.clear();
+        this.inverseSides.clear();
+
+        // Classes and enums are named after their tables, prefixed with their schema when the name is taken
+        const classNames = new Set<string>();
+        for (const table of [...schema.entities, ...schema.views]) {
+            const name = this.toIdentifier(singularize('tableName' in table ? table.tableName : table.viewName), true);
+            this.classNames.set(table, this.uniqueName(classNames, ...this.withSchema(name, table.schema)));
+        }
+        for (const enumType of schema.enums) {
+            const name = this.toIdentifier(enumType.name, true);
+            this.classNames.set(enumType, this.uniqueName(classNames, ...this.withSchema(name, enumType.schema)));
+
+            const members = new Set<string>();
+            this.enumMembers.set(
+                enumType,
+                new Map(
+                    enumType.values.map((value) => [value, this.uniqueName(members, this.toIdentifier(value, true))]),
+                ),
+            );
+        }
+
+        const used = new Map<EntityMetadata | ViewMetadata, Set<string>>();
+        for (const table of [...schema.entities, ...schema.views]) {
+            const names = new Set<string>();
+            used.set(table, names);
+
+            for (const column of table.columns) {
+                if ('relations' in table && this.isImplicitForeignKey(table, column)) {
+                    this.implicitColumns.add(column);
+                } else {
+                    this.propertyNames.set(column, this.uniqueName(names, this.toIdentifier(column.columnName)));
+                }
+            }
+        }
+
+        // Relations owning a foreign key or a join table, then the inverse sides declared on their targets
+        for (const entity of schema.entities) {
+            for (const relation of entity.relations) {
+                const target = this.findEntity(relation.target);
+                if (target) {
+                    this.propertyNames.set(
+                        relation,
+                        this.uniqueName(used.get(entity)!, ...this.nameRelation(entity, relation, target)),
+                    );
+                }
+            }
+        }
+
+        for (const owner of schema.entities) {
+            for (const relation of owner.relations) {
+                const target = this.findEntity(relation.target);
+                if (!target || (relation.type === 'many-to-many' && target === owner)) {
+                    continue;
+                }
+
+                const ownerClass = this.classNames.get(owner)!;
+                const relationName = this.propertyNames.get(relation)!;
+                const names =
+                    relation.type === 'one-to-one'
+                        ? [this.toIdentifier(ownerClass), relationName + ownerClass]
+                        : [
+                              this.pluralName(ownerClass),
+                              relationName + this.toIdentifier(this.pluralName(ownerClass), true),
+                          ];
+
+                const inverseSides = this.inverseSides.get(target) ?? [];
+                inverseSides.push({ owner, relation, name: this.uniqueName(used.get(target)!, ...names) });
+                this.inverseSides.set(target, inverseSides);
+            }
+        }
+    }
+
+    /**
+     * Get the names a relation could have, in order of preference
+     * Implicit foreign keys keep the name of the relation they were added for; foreign keys declared as
+     * columns name it after the column (authorId -> author), join tables after their middle part (post_tags_tag -> tags)
+     */
+    private nameRelation(entity: EntityMetadata, relation: RelationMetadata, target: EntityMetadata): string[] {
+        const targetClass = this.classNames.get(target)!;
+
+        if (relation.type === 'many-to-many') {
+            const tables = [entity.tableName, target.tableName].map((name) =>
+                name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'),
+            );
+            const middle = relation.joinTable?.name?.match(new RegExp(`^${tables[0]}_(.+)_${tables[1]}$`))?.[1];
+            return [middle ? this.toIdentifier(middle) : this.pluralName(targetClass)];
+        }
+
+        const joinColumns = relation.joinColumns ?? [];
+        if (
+            joinColumns.some((c) =>
+                this.implicitColumns.has(entity.columns.find((column) => column.columnName === c.name)!),
+            )
+        ) {
+            return [this.toIdentifier(relation.propertyName)];
+        }
+
+        const stripped = joinColumns.length === 1 ? joinColumns[0].name!.replace(/(_id|Id|ID)$/, '') : '';
+        const named = stripped && stripped !== joinColumns[0].name ? [this.toIdentifier(stripped)] : [];
+        return [...named, this.toIdentifier(targetClass), `${named[0] ?? ''}${targetClass}`];
+    }
+
+    /**
+     * Check if a column is a foreign key TypeORM adds for its relation, which entities do not declare
+     */
+    private isImplicitForeignKey(entity: EntityMetadata, column: ColumnMetadata): boolean {
+        const relation = entity.relations.find(
+            (r) =>
+                r.joinColumns?.some((c) => c.name === column.columnName) &&
+                column.foreignKeyOf?.startsWith(`${r.propertyName} -> `),
+        );
+
+        return (
+            !!relation &&
+            !!this.findEntity(relation.target) &&
+            !column.isPrimary &&
+            !column.comment &&
+            column.default === undefined &&
+            column.isNullable === (relation.isNullable ?? true) &&
+            column.isUnique === (relation.type === 'one-to-one' && relation.joinColumns!.length === 1)
+        );
+    }
+
+    /**
+     * export enum Role { Admin = 'admin', ... }
+     */
+    private generateEnum(project: Project, enumType: EnumMetadata): void {
+        const name = this.classNames.get(enumType)!;
+        const members = this.enumMembers.get(enumType)!;
+
+        project.createSourceFile(this.getFileName(enumType)).addEnum({
+            name,
+            isExported: true,
+            members: enumType.values.map((value) => ({
+                name: members.get(value)!,
+                value,
+                docs: enumType.valueNotes?.[value] ? [enumType.valueNotes[value]] : undefined,
+            })),
+        });
+    }
+
+    /**
+     * @Entity class with its columns, relations and constraints
+     */
+    private generateEntity(project: Project, entity: EntityMetadata): void {
+        const className = this.classNames.get(entity)!;
+        const imports: Imports = { decorators: new Set(['Entity']), files: new Set() };
+
+        const name =
+            this.namingStrategy.tableName(className, undefined) !== entity.tableName ? entity.tableName : undefined;
+        const entityArguments = entity.schema
+            ? [this.formatOptions({ name: name && this.quote(name), schema: this.quote(entity.schema) })!]
+            : name
+              ? [this.quote(name)]
+              : [];
+
+        const properties = [
+            ...entity.columns
+                .filter((column) => !this.implicitColumns.has(column))
+                .map((column) => this.generateColumn(entity, column, imports)),
+            ...entity.relations
+                .filter((relation) => this.propertyNames.has(relation))
+                .map((relation) => this.generateRelation(entity, relation, imports)),
+            ...(this.inverseSides.get(entity) ?? []).map((inverse) => this.generateInverseSide(inverse, imports)),
+        ];
+
+        const decorators: Decorator[] = [
+            { name: 'Entity', arguments: entityArguments },
+            ...this.generateConstraints(entity, imports),
+        ];
+
+        const file = project.createSourceFile(this.getFileName(entity));
+        file.addClass({
+            name: className,
+            isExported: true,
+            docs: entity.note ? [entity.note] : undefined,
+            decorators,
+            properties: this.separate(properties),
+        });
+        this.addImports(file, imports);
+        file.formatText({ indentSize: 4 });
+    }
+
+    /**
+     * Column property, with the decorator TypeORM would create its metadata with
+     */
+    private generateColumn(entity: EntityMetadata, column: ColumnMetadata, imports: Imports): Property {
+        const propertyName = this.propertyNames.get(column)!;
+
+        // Dialects without a boolean type store booleans as tinyint(1) or bit
+        if (column.type !== 'boolean' && this.isType(column, 'boolean')) {
+            const value = { 1: 'true', 0: 'false' }[column.default ?? ''] ?? column.default;
+            column = { ...column, type: 'boolean', length: undefined, precision: undefined, default: value };
+        }
+        const enumType = this.findEnum(column);
+        const tsType = this.getTsType(column, imports);
+
+        const name =
+            this.namingStrategy.columnName(propertyName, undefined, []) !== column.columnName
+                ? this.quote(column.columnName)
+                : undefined;
+        const typeOptions: Options = enumType
+            ? {
+                  type: this.quote('enum'),
+                  enum: this.classNames.get(enumType),
+                  // TypeORM names the enum type of a column without `enumName` `<table>_<column>_enum`
+                  enumName:
+                      `${entity.tableName}_${column.columnName}_enum` !== enumType.name
+                          ? this.quote(enumType.name)
+                          : undefined,
+              }
+            : {
+                  type: this.quote(column.type),
+                  length: column.length?.toString(),
+                  precision: column.precision?.toString(),
+                  scale: column.scale?.toString(),
+              };
+        const array = column.isArray ? 'true' : undefined;
+        const defaultValue = this.formatDefault(column, tsType, enumType);
+
+        let decorator: Decorator;
+        const special = this.getSpecialColumn(entity, column);
+        if (special) {
+            decorator = { name: special, arguments: name ? [this.formatOptions({ name })!] : [] };
+        } else if (column.isPrimary && column.isGenerated && column.generationStrategy === 'uuid') {
+            const options = this.formatOptions({
+                name,
+                primaryKeyConstraintName: this.quote(column.primaryKeyConstraintName),
+            });
+            decorator = {
+                name: 'PrimaryGeneratedColumn',
+                arguments: [this.quote('uuid'), ...(options ? [options] : [])],
+            };
+        } else if (column.isPrimary && column.isGenerated) {
+            const options = this.formatOptions({
+                name,
+                type: column.type !== 'integer' ? typeOptions.type : undefined,
+                primaryKeyConstraintName: this.quote(column.primaryKeyConstraintName),
+            });
+            decorator = { name: 'PrimaryGeneratedColumn', arguments: options ? [options] : [] };
+        } else if (column.isPrimary) {
+            const options = this.formatOptions({
+                name,
+                ...typeOptions,
+                array,
+                default: defaultValue,
+                primaryKeyConstraintName: this.quote(column.primaryKeyConstraintName),
+            });
+            decorator = { name: 'PrimaryColumn', arguments: [options!] };
+        } else {
+            const options = this.formatOptions({
+                name,
+                ...typeOptions,
+                array,
+                // Columns are NOT NULL unless they say otherwise
+                nullable: column.isNullable ? 'true' : undefined,
+                unique: column.isUnique ? 'true' : undefined,
+                default: defaultValue,
+            });
+            decorator = { name: 'Column', arguments: [options!] };
+        }
+
+        imports.decorators.add(decorator.name);
+        return {
+            name: propertyName,
+            type: column.isNullable && !column.isPrimary ? `${tsType} | null` : tsType,
+            docs: column.comment ? [column.comment] : undefined,
+            decorators: [decorator],
+        };
+    }
+
+    /**
+     * Get the decorator of a creation, update or deletion date or version column, if the column is one
+     * They are recognized from their name, and must be shaped as the decorator creates them
+     */
+    private getSpecialColumn(entity: EntityMetadata, column: ColumnMetadata): string | undefined {
+        if (column.isPrimary || column.isUnique || column.isArray) {
+            return undefined;
+        }
+
+        const currentTimestamp = this.typeMapper.getCurrentTimestamp();
+        const [, decorator] = EntityGenerator.DATE_COLUMNS.find(([pattern]) => pattern.test(column.columnName)) ?? [];
+
+        if (decorator && this.isType(column, 'timestamp')) {
+            // Deletion dates are nullable without a default, the others NOT NULL with the current timestamp
+            const isDeleteDate = decorator === 'DeleteDateColumn';
+            const isDefault =
+                column.isNullable === isDeleteDate &&
+                (isDeleteDate ? column.default === undefined : column.default === currentTimestamp);
+            // Only one of each per table
+            const first = entity.columns.find((c) =>
+                EntityGenerator.DATE_COLUMNS.some(([p, d]) => d === decorator && p.test(c.columnName)),
+            );
+            return isDefault && first === column ? decorator : undefined;
+        }
+
+        if (
+            /^version$/i.test(column.columnName) &&
+            !column.isNullable &&
+            column.default === undefined &&
+            this.isType(column, 'integer')
+        ) {
+            return 'VersionColumn';
+        }
+        return undefined;
+    }
+
+    /**
+     * Check if a column has the type TypeORM creates for another type in this dialect, e.g. timestamp for datetime
+     */
+    private isType(column: ColumnMetadata, type: string): boolean {
+        const probe = { ...column, type, length: undefined, precision: undefined, scale: undefined };
+        return this.typeMapper.mapType(column) === this.typeMapper.mapType(probe);
+    }
+
+    /**
+     * Relation owning a foreign key or join table, with its @JoinColumn or @JoinTable
+     */
+    private generateRelation(entity: EntityMetadata, relation: RelationMetadata, imports: Imports): Property {
+        const propertyName = this.propertyNames.get(relation)!;
+        const target = this.findEntity(relation.target)!;
+        const inverse = this.inverseSides.get(target)?.find((i) => i.relation === relation);
+
+        const decorators: Decorator[] = [
+            {
+                name: EntityGenerator.RELATION_DECORATORS[relation.type],
+                arguments: this.getRelationArguments(target, inverse?.name, {
+                    onDelete: this.quote(relation.onDelete),
+                    onUpdate: this.quote(relation.onUpdate),
+                    nullable: relation.isNullable === false && relation.type !== 'many-to-many' ? 'false' : undefined,
+                }),
+            },
+        ];
+
+        if (relation.type === 'many-to-many') {
+            const joinTable = relation.joinTable ?? {};
+            const defaultName = this.namingStrategy.joinTableName(
+                entity.tableName,
+                target.tableName,
+                propertyName,
+                inverse?.name ?? '',
+            );
+
+            const options = this.formatOptions({
+                name: joinTable.name && joinTable.name !== defaultName ? this.quote(joinTable.name) : undefined,
+                schema: this.quote(joinTable.schema),
+                ...this.formatJoinTableColumns('joinColumn', joinTable.joinColumns, entity, (c) =>
+                    this.namingStrategy.joinTableColumnName(entity.tableName, this.propertyNames.get(c)!, c.columnName),
+                ),
+                ...this.formatJoinTableColumns('inverseJoinColumn', joinTable.inverseJoinColumns, target, (c) =>
+                    this.namingStrategy.joinTableInverseColumnName(
+                        target.tableName,
+                        this.propertyNames.get(c)!,
+                        c.columnName,
+                    ),
+                ),
+            });
+            decorators.push({ name: 'JoinTable', arguments: options ? [options] : [] });
+        } else {
+            const joinColumn = this.formatJoinColumns(relation, propertyName, target);
+            if (joinColumn !== undefined) {
+                decorators.push({ name: 'JoinColumn', arguments: joinColumn ? [joinColumn] : [] });
+            }
+        }
+
+        decorators.forEach((d) => imports.decorators.add(d.name));
+        imports.files.add(target);
+        const targetClass = this.classNames.get(target)!;
+        return {
+            name: propertyName,
+            type: relation.type === 'many-to-many' ? `${targetClass}[]` : targetClass,
+            decorators,
+        };
+    }
+
+    /**
+     * Inverse side of a relation: @OneToMany, the @OneToOne without a join column, or the @ManyToMany without a join table
+     */
+    private generateInverseSide({ owner, relation, name }: InverseSide, imports: Imports): Property {
+        const decorator =
+            relation.type === 'many-to-one' ? 'OneToMany' : relation.type === 'one-to-one' ? 'OneToOne' : 'ManyToMany';
+        const ownerClass = this.classNames.get(owner)!;
+
+        imports.decorators.add(decorator);
+        imports.files.add(owner);
+        return {
+            name,
+            type: relation.type === 'one-to-one' ? ownerClass : `${ownerClass}[]`,
+            decorators: [
+                { name: decorator, arguments: this.getRelationArguments(owner, this.propertyNames.get(relation)) },
+            ],
+        };
+    }
+
+    /**
+     * () => Target, (target) => target.inverse, { options }
+     */
+    private getRelationArguments(target: EntityMetadata, inverseSide?: string, options: Options = {}): string[] {
+        const targetClass = this.classNames.get(target)!;
+        const parameter = camelCase(targetClass);
+        const formatted = this.formatOptions(options);
+
+        return [
+            `() => ${targetClass}`,
+            ...(inverseSide ? [`(${parameter}) => ${parameter}.${inverseSide}`] : []),
+            ...(formatted ? [formatted] : []),
+        ];
+    }
+
+    /**
+     * Get the @JoinColumn argument of a relation: empty when the defaults apply,
+     * undefined when the decorator can be left out, which a one-to-one or composite key never can
+     */
+    private formatJoinColumns(
+        relation: RelationMetadata,
+        propertyName: string,
+        target: EntityMetadata,
+    ): string | undefined | '' {
+        const joinColumns = (relation.joinColumns ?? []).map((joinColumn) => {
+            const referenced = target.columns.find((c) => c.columnName === joinColumn.referencedColumnName);
+            const referencedName =
+                referenced?.columnName === 'id'
+                    ? undefined
+                    : (this.getPropertyName(referenced) ?? joinColumn.referencedColumnName);
+            const defaultName = this.namingStrategy.joinColumnName(propertyName, referencedName ?? 'id');
+
+            return {
+                name: joinColumn.name !== defaultName ? this.quote(joinColumn.name) : undefined,
+                referencedColumnName: this.quote(referencedName),
+            };
+        });
+
+        if (joinColumns.length > 1) {
+            return this.formatList(joinColumns.map((c) => this.formatOptions(c)!));
+        }
+
+        const options = this.formatOptions(joinColumns[0] ?? {});
+        return options ?? (relation.type === 'one-to-one' ? '' : undefined);
+    }
+
+    /**
+     * Get the `joinColumn(s)` or `inverseJoinColumn(s)` option of a @JoinTable, unless the defaults apply:
+     * one column per primary key column of the side, named by the naming strategy
+     */
+    private formatJoinTableColumns(
+        option: 'joinColumn' | 'inverseJoinColumn',
+        joinColumns: JoinColumnMetadata[] | undefined,
+        side: EntityMetadata,
+        defaultName: (referenced: ColumnMetadata) => string,
+    ): Options {
+        const primaryColumns = side.columns.filter((c) => c.isPrimary);
+        const defaults = primaryColumns.map((c) => `${defaultName(c)}\n${c.columnName}`);
+        if (
+            !joinColumns?.length ||
+            joinColumns.map((c) => `${c.name}\n${c.referencedColumnName}`).join('\n') === defaults.join('\n')
+        ) {
+            return {};
+        }
+
+        const formatted = joinColumns.map((joinColumn) => {
+            const referenced = side.columns.find((c) => c.columnName === joinColumn.referencedColumnName);
+            return this.formatOptions({
+                name: this.quote(joinColumn.name),
+                referencedColumnName: this.quote(this.getPropertyName(referenced) ?? joinColumn.referencedColumnName),
+            });
+        });
+
+        return formatted.length === 1
+            ? { [option]: formatted[0] }
+            : { [`${option}s`]: this.formatList(formatted as string[]) };
+    }
+
+    /**
+     * Class-level @Index, @Unique and @Check decorators
+     * Columns are named by their property, and implicit foreign keys by their column
+     */
+    private generateConstraints(entity: EntityMetadata, imports: Imports): Decorator[] {
+        const columns = (names: string[]) => {
+            const properties = names.map(
+                (name) => this.getPropertyName(entity.columns.find((c) => c.columnName === name)) ?? name,
+            );
+            return this.formatList(properties.map((p) => this.quote(p)));
+        };
+        const named = (name?: string) => (name ? [this.quote(name)] : []);
+
+        const decorators: Decorator[] = [
+            ...entity.indexes
+                .filter((index) => !index.isPrimary)
+                .map((index) => {
+                    const options = this.formatOptions({
+                        unique: index.isUnique ? 'true' : undefined,
+                        spatial: index.isSpatial ? 'true' : undefined,
+                        fulltext: index.isFulltext ? 'true' : undefined,
+                        where: this.quote(index.where),
+                        using: this.quote(index.type),
+                    });
+                    return {
+                        name: 'Index',
+                        arguments: [...named(index.name), columns(index.columns), ...(options ? [options] : [])],
+                    };
+                }),
+            ...entity.uniques.map((unique) => ({
+                name: 'Unique',
+                arguments: [...named(unique.name), columns(unique.columns)],
+            })),
+            ...entity.checks.map((check) => ({
+                name: 'Check',
+                arguments: [...named(check.name), this.quote(check.expression)],
+            })),
+        ];
+
+        decorators.forEach((d) => imports.decorators.add(d.name));
+        return decorators;
+    }
+
+    /**
+     * @ViewEntity class with its SQL and @ViewColumn properties
+     */
+    private generateView(project: Project, view: ViewMetadata): void {
+        const className = this.classNames.get(view)!;
+        const imports: Imports = { decorators: new Set(['ViewEntity', 'ViewColumn']), files: new Set() };
+
+        const dependsOn = view.dependsOn.map((name) => {
+            const table = [...this.schema.entities, ...this.schema.views].find((t) => this.classNames.get(t) === name);
+            if (table && table !== view) {
+                imports.files.add(table);
+            }
+            return table ? name : this.quote(name);
+        });
+
+        const options = this.formatOptions({
+            name:
+                this.namingStrategy.tableName(className, undefined) !== view.viewName
+                    ? this.quote(view.viewName)
+                    : undefined,
+            schema: this.quote(view.schema),
+            materialized: view.isMaterialized ? 'true' : undefined,
+            expression: view.expression !== undefined ? this.formatTemplate(view.expression) : undefined,
+            dependsOn: dependsOn.length > 0 ? this.formatList(dependsOn) : undefined,
+        });
+
+        const file = project.createSourceFile(this.getFileName(view));
+        file.addClass({
+            name: className,
+            isExported: true,
+            docs: view.note ? [view.note] : undefined,
+            decorators: [{ name: 'ViewEntity', arguments: options ? [options] : [] }],
+            properties: this.separate(
+                view.columns.map((column) => {
+                    const propertyName = this.propertyNames.get(column)!;
+                    const name = this.namingStrategy.columnName(propertyName, undefined, []) !== column.columnName;
+                    const columnOptions = name
+                        ? this.formatOptions({ name: this.quote(column.columnName) })
+                        : undefined;
+
+                    return {
+                        name: propertyName,
+                        type: this.getTsType(column, imports),
+                        docs: column.comment ? [column.comment] : undefined,
+                        decorators: [{ name: 'ViewColumn', arguments: columnOptions ? [columnOptions] : [] }],
+                    };
+                }),
+            ),
+        });
+        this.addImports(file, imports);
+        file.formatText({ indentSize: 4 });
+    }
+
+    /**
+     * Separate the properties of a class with blank lines
+     */
+    private separate(properties: Property[]): Property[] {
+        return properties.map((property, i) => (i > 0 ? { ...property, leadingTrivia: '\n' } : property));
+    }
+
+    /**
+     * Import the decorators from typeorm, then the classes and enums of the other files
+     */
+    private addImports(file: SourceFile, imports: Imports): void {
+        file.insertImportDeclarations(0, [
+            { namedImports: [...imports.decorators].sort(), moduleSpecifier: 'typeorm' },
+            ...[...imports.files]
+                .map((item) => ({
+                    namedImports: [this.classNames.get(item)!],
+                    moduleSpecifier: './' + path.basename(this.getFileName(item), '.ts'),
+                }))
+                .sort((a, b) => a.moduleSpecifier.localeCompare(b.moduleSpecifier)),
+        ]);
+    }
+
+    /**
+     * Get the TypeScript type of a column: its enum, or the type TypeORM reads its values as
+     */
+    private getTsType(column: ColumnMetadata, imports: Imports): string {
+        const enumType = this.findEnum(column);
+        if (enumType) {
+            imports.files.add(enumType);
+        }
+
+        const type = enumType
+            ? this.classNames.get(enumType)!
+            : (EntityGenerator.TS_TYPES[column.type.toLowerCase()] ?? 'string');
+        return column.isArray ? `${type}[]` : type;
+    }
+
+    /**
+     * Get the code of a column default
+     * SQL expressions, such as `now()`, are written as functions; enum members, numbers and booleans as such,
+     * and other values as strings
+     */
+    private formatDefault(column: ColumnMetadata, tsType: string, enumType?: EnumMetadata): string | undefined {
+        const value = column.default;
+        if (value === undefined) {
+            return undefined;
+        }
+
+        if (column.isDefaultExpression) {
+            return `() => ${this.quote(value)}`;
+        }
+
+        const member = enumType && this.enumMembers.get(enumType)!.get(value);
+        if (member) {
+            return `${this.classNames.get(enumType)}.${member}`;
+        }
+        if (
+            (tsType === 'boolean' && /^(true|false)$/.test(value)) ||
+            (tsType === 'number' && /^-?\d+(\.\d+)?$/.test(value))
+        ) {
+            return value;
+        }
+        return this.quote(value);
+    }
+
+    /**
+     * Format a SQL text as an indented template literal
+     */
+    private formatTemplate(text: string): string {
+        const escaped = text.replace(/\\/g, '\\\\').replace(/`/g, '\\`').replace(/\$\{/g, '\\${');
+        const lines = escaped.split('\n').map((line) => (line ? '        ' + line : line));
+        return '`\n' + lines.join('\n') + '\n    `';
+    }
+
+    /**
+     * Format options as an object literal; undefined without options
+     */
+    private formatOptions(options: Options): string | undefined {
+        const entries = Object.entries(options).filter(([, value]) => value !== undefined);
+        return entries.length > 0
+            ? this.formatList(
+                  entries.map(([key, value]) => `${key}: ${value}`),
+                  '{ ',
+                  ' }',
+              )
+            : undefined;
+    }
+
+    /**
+     * Format the items of a literal on one line, or one per line when they do not fit or span lines themselves
+     * Lines are indented once the file is formatted
+     */
+    private formatList(items: string[], open = '[', close = ']'): string {
+        const line = open + items.join(', ') + close;
+        return line.length <= EntityGenerator.MAX_LINE_LENGTH && !line.includes('\n')
+            ? line
+            : `${open.trim()}\n${items.map((item) => `${item},`).join('\n')}\n${close.trim()}`;
+    }
+
+    /**
+     * Quote a string literal
+     */
+    private quote(value: string): string;
+    private quote(value: string | undefined): string | undefined;
+    private quote(value: string | undefined): string | undefined {
+        return value === undefined
+            ? undefined
+            : `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\n/g, '\\n')}'`;
+    }
+
+    /**
+     * Get the file of a class or enum: kebab-cased, with an `.entity.ts` or `.enum.ts` suffix
+     */
+    private getFileName(item: EntityMetadata | ViewMetadata | EnumMetadata): string {
+        const kind = 'values' in item ? 'enum' : 'entity';
+        return `${snakeCase(this.classNames.get(item)!).replace(/_/g, '-')}.${kind}.ts`;
+    }
+
+    /**
+     * Get the property of a column, if it is declared
+     */
+    private getPropertyName(column?: ColumnMetadata): string | undefined {
+        return column && this.propertyNames.get(column);
+    }
+
+    /**
+     * Find the entity of a relation target, by its table name
+     */
+    private findEntity(tableName: string): EntityMetadata | undefined {
+        return this.schema.entities.find((e) => e.tableName === tableName);
+    }
+
+    /**
+     * Find the enum of a column, in its schema
+     */
+    private findEnum(column: ColumnMetadata): EnumMetadata | undefined {
+        return column.enumName === undefined
+            ? undefined
+            : this.schema.enums.find((e) => e.name === column.enumName && e.schema === column.enumSchema);
+    }
+
+    /**
+     * Get the camelCased plural of a class name (UserProfile -> userProfiles)
+     */
+    private pluralName(className: string): string {
+        return this.toIdentifier(pluralize(snakeCase(className)));
+    }
+
+    /**
+     * Turn a name into an identifier, camelCased or PascalCased
+     */
+    private toIdentifier(name: string, firstCapital = false): string {
+        const identifier = camelCase(name.replace(/[^A-Za-z0-9]+/g, '_').replace(/^_+|_+$/g, ''), firstCapital);
+        return /^\d/.test(identifier) || !identifier ? `_${identifier}` : identifier;
+    }
+
+    /**
+     * Get a class name, then the same prefixed with its schema
+     */
+    private withSchema(name: string, schema?: string): string[] {
+        return schema ? [name, this.toIdentifier(`${schema}_${name}`, true)] : [name];
+    }
+
+    /**
+     * Take the first name not used yet, or the first one numbered
+     */
+    private uniqueName(used: Set<string>, ...names: string[]): string {
+        let name = names.find((n) => !used.has(n));
+        for (let i = 2; !name; i++) {
+            name = used.has(`${names[0]}${i}`) ? undefined : `${names[0]}${i}`;
+        }
+        used.add(name);
+        return name;
+    }
+}
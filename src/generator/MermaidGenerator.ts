@@ -0,0 +1,154 @@
+/**
+ * MermaidGenerator - Generates a Mermaid erDiagram from entity metadata
+ */
+
+import ColumnMetadata from '../utils/interfaces/ColumnMetadata';
+import DBMLSchema from '../utils/interfaces/DBMLSchema';
+import GeneratorOptions from '../utils/interfaces/GeneratorOptions';
+import NamingStrategy from '../utils/interfaces/NamingStrategy';
+import Relationship from '../utils/interfaces/Relationship';
+import RenderedTable from '../utils/interfaces/RenderedTable';
+import SchemaRenderer from '../utils/interfaces/SchemaRenderer';
+import { RelationshipResolver } from './RelationshipResolver';
+import { TypeMapper } from './TypeMapper';
+import { formatCrowsFoot, getRenderedTables, resolveGeneratorOptions } from '../utils/RendererUtils';
+
+export class MermaidGenerator implements SchemaRenderer {
+    private relationshipResolver: RelationshipResolver;
+    private typeMapper: TypeMapper;
+    private options: Required<GeneratorOptions>;
+
+    constructor(options?: GeneratorOptions, namingStrategy?: NamingStrategy) {
+        this.options = resolveGeneratorOptions(options);
+
+        this.typeMapper = new TypeMapper(this.options.databaseType);
+        this.relationshipResolver = new RelationshipResolver(namingStrategy, this.options.collapseJoinTables);
+    }
+
+    /**
+     * Generate a complete Mermaid erDiagram from schema metadata
+     */
+    generate(schema: DBMLSchema): string {
+        const lines: string[] = [];
+
+        // Front matter title
+        if (this.options.projectName) {
+            lines.push('---', `title: ${this.options.projectName}`, '---');
+        }
+        lines.push('erDiagram');
+
+        // Entity blocks of tables, join tables and views
+        const relationships = this.relationshipResolver.resolve(schema);
+        const foreignKeys = this.relationshipResolver.getForeignKeys(relationships);
+        const blocks = getRenderedTables(schema, this.options).map((t) =>
+            this.generateEntity(t, foreignKeys.get(t.name)),
+        );
+        lines.push(...blocks.join('\n\n').split('\n'));
+
+        // Relationships
+        if (relationships.length > 0) {
+            lines.push('', ...relationships.map((r) => this.generateRelationship(r)));
+        }
+
+        return lines.join('\n');
+    }
+
+    /**
+     * Generate the block of a single entity, with a line per attribute
+     * Format: type name PK, FK "comment"
+     */
+    private generateEntity(table: RenderedTable, foreignKeys = new Set<string>()): string {
+        const entityName = this.escapeEntityName(table.name);
+        if (table.columns.length === 0) {
+            return `    ${entityName}`;
+        }
+
+        const attributes = table.columns.map((column) => {
+            const parts = [this.formatType(column), this.escapeAttributeName(column.columnName)];
+
+            const keys: string[] = [];
+            if (column.isPrimary) {
+                keys.push('PK');
+            }
+            if (foreignKeys.has(column.columnName)) {
+                keys.push('FK');
+            }
+            if (column.isUnique && !column.isPrimary) {
+                keys.push('UK');
+            }
+            if (keys.length > 0) {
+                parts.push(keys.join(', '));
+            }
+
+            if (this.options.includeNotes && column.comment) {
+                parts.push(this.formatComment(column.comment));
+            }
+
+            return `        ${parts.join(' ')}`;
+        });
+
+        return `    ${entityName} {
+${attributes.join('\n')}
+    }`;
+    }
+
+    /**
+     * Generate a relationship line, with the cardinality of each side next to it
+     * Format: table1 }o--|| table2 : property
+     */
+    private generateRelationship(relationship: Relationship): string {
+        const { from, to, label } = relationship;
+        const markers = formatCrowsFoot(relationship);
+        const escapedLabel = /^[A-Za-z_][\w-]*$/.test(label) ? label : `"${label.replace(/"/g, "'")}"`;
+
+        return `    ${this.escapeEntityName(from)} ${markers} ${this.escapeEntityName(to)} : ${escapedLabel}`;
+    }
+
+    /**
+     * Format a column type within the characters Mermaid allows: decimal(10,2) becomes decimal(10-2)
+     */
+    private formatType(column: ColumnMetadata): string {
+        const type = column.enumName ?? this.typeMapper.mapType(column);
+        return type
+            .replace(/\s*,\s*/g, '-')
+            .replace(/[^\w\-()[\]]+/g, '_')
+            .replace(/^(?=[^A-Za-z_])/, '_');
+    }
+
+    /**
+     * Format a comment as a double-quoted string on a single line
+     */
+    private formatComment(comment: string): string {
+        return `"${comment.replace(/"/g, "'").replace(/\s*\n\s*/g, ' ')}"`;
+    }
+
+    /**
+     * Quote entity names Mermaid does not accept bare
+     */
+    private escapeEntityName(name: string): string {
+        return /^[A-Za-z_][\w-]*$/.test(name) ? name : `"${name.replace(/"/g, "'")}"`;
+    }
+
+    /**
+     * Replace the characters Mermaid does not accept in attribute names
+     */
+    private escapeAttributeName(name: string): string {
+        return name.replace(/[^\w\-[\]]+/g, '_').replace(/^(?=[^A-Za-z_])/, '_');
+    }
+
+    /**
+     * Generate the diagram and write to file
+     */
+    async generateToFile(schema: DBMLSchema, outputPath: string): Promise<void> {
+        const mermaid = this.generate(schema);
+        const fs = await import('fs/promises');
+        await fs.writeFile(outputPath, mermaid, 'utf-8');
+    }
+
+    /**
+     * Get the current options
+     */
+    getOptions(): Required<GeneratorOptions> {
+        return { ...this.options };
+    }
+}
@@ -0,0 +1,206 @@
+/**
+ * PlantUmlGenerator - Generates a PlantUML entity-relationship diagram from entity metadata
+ */
+
+import ColumnMetadata from '../utils/interfaces/ColumnMetadata';
+import DBMLSchema from '../utils/interfaces/DBMLSchema';
+import EnumMetadata from '../utils/interfaces/EnumMetadata';
+import GeneratorOptions from '../utils/interfaces/GeneratorOptions';
+import IndexMetadata from '../utils/interfaces/IndexMetadata';
+import NamingStrategy from '../utils/interfaces/NamingStrategy';
+import Relationship from '../utils/interfaces/Relationship';
+import RenderedTable from '../utils/interfaces/RenderedTable';
+import SchemaRenderer from '../utils/interfaces/SchemaRenderer';
+import { RelationshipResolver } from './RelationshipResolver';
+import { TypeMapper } from './TypeMapper';
+import { formatCrowsFoot, getRenderedTables, groupTables, resolveGeneratorOptions } from '../utils/RendererUtils';
+
+export class PlantUmlGenerator implements SchemaRenderer {
+    private relationshipResolver: RelationshipResolver;
+    private typeMapper: TypeMapper;
+    private options: Required<GeneratorOptions>;
+
+    constructor(options?: GeneratorOptions, namingStrategy?: NamingStrategy) {
+        this.options = resolveGeneratorOptions(options);
+
+        this.typeMapper = new TypeMapper(this.options.databaseType);
+        this.relationshipResolver = new RelationshipResolver(namingStrategy, this.options.collapseJoinTables);
+    }
+
+    /**
+     * Generate a complete PlantUML diagram from schema metadata
+     */
+    generate(schema: DBMLSchema): string {
+        const sections: string[] = [];
+
+        // Header
+        const header = ['@startuml'];
+        if (this.options.projectName) {
+            header.push(`title ${this.options.projectName}`);
+        }
+        header.push('hide circle', 'skinparam linetype ortho');
+        sections.push(header.join('\n'));
+
+        // Enums
+        if (this.options.includeEnums && schema.enums.length > 0) {
+            sections.push(schema.enums.map((enumMeta) => this.generateEnum(enumMeta)).join('\n\n'));
+        }
+
+        // Entities, in a package per group
+        const relationships = this.relationshipResolver.resolve(schema);
+        const foreignKeys = this.relationshipResolver.getForeignKeys(relationships);
+        const tables = getRenderedTables(schema, this.options);
+        const groups = groupTables(schema, this.options);
+        const grouped = new Set([...groups.values()].flat());
+
+        const ungrouped = tables.filter((t) => !grouped.has(t.name));
+        if (ungrouped.length > 0) {
+            sections.push(ungrouped.map((t) => this.generateEntity(t, foreignKeys.get(t.name))).join('\n\n'));
+        }
+
+        for (const [name, members] of groups) {
+            const entities = tables
+                .filter((t) => members.includes(t.name))
+                .map((t) => this.indent(this.generateEntity(t, foreignKeys.get(t.name))));
+            if (entities.length > 0) {
+                sections.push(`package "${name}" {\n${entities.join('\n\n')}\n}`);
+            }
+        }
+
+        // Relationships
+        if (relationships.length > 0) {
+            sections.push(relationships.map((r) => this.generateRelationship(r)).join('\n'));
+        }
+
+        sections.push('@enduml');
+
+        return sections.join('\n\n');
+    }
+
+    /**
+     * Generate an entity block: the primary key above the line, `*` marking mandatory columns
+     */
+    private generateEntity(table: RenderedTable, foreignKeys = new Set<string>()): string {
+        const alias = this.toAlias(table.name);
+        const name = alias === table.name ? alias : `"${table.name}" as ${alias}`;
+        const stereotype = table.kind.endsWith('view') ? ` <<${table.kind}>>` : '';
+
+        const primaryKey = table.columns.filter((c) => c.isPrimary);
+        const otherColumns = table.columns.filter((c) => !c.isPrimary);
+        const lines = primaryKey.map((c) => this.generateColumn(c, foreignKeys));
+        if (primaryKey.length > 0 && otherColumns.length > 0) {
+            lines.push('--');
+        }
+        lines.push(...otherColumns.map((c) => this.generateColumn(c, foreignKeys)));
+
+        // Indexes, except the composite primary key already marked on its columns
+        const indexes = this.options.includeIndexes ? table.indexes.filter((i) => !i.isPrimary) : [];
+        if (indexes.length > 0) {
+            lines.push('..', ...indexes.map((i) => this.generateIndex(i)));
+        }
+
+        const entity = [`entity ${name}${stereotype} {`, ...lines.map((line) => `    ${line}`), '}'];
+
+        // Table note
+        if (this.options.includeNotes && table.note) {
+            entity.push(`note bottom of ${alias}`, ...table.note.split('\n').map((line) => `    ${line}`), 'end note');
+        }
+
+        return entity.join('\n');
+    }
+
+    /**
+     * Generate a column line
+     * Format: * name : type <<PK>> //comment//
+     */
+    private generateColumn(column: ColumnMetadata, foreignKeys: Set<string>): string {
+        const parts = [
+            `${column.isNullable && !column.isPrimary ? '' : '* '}${column.columnName} : ${this.typeMapper.mapType(column)}`,
+        ];
+
+        const keys: string[] = [];
+        if (column.isPrimary) {
+            keys.push('<<PK>>');
+        }
+        if (foreignKeys.has(column.columnName)) {
+            keys.push('<<FK>>');
+        }
+        if (column.isUnique && !column.isPrimary) {
+            keys.push('<<UK>>');
+        }
+        parts.push(...keys);
+
+        if (this.options.includeNotes && column.comment) {
+            parts.push(`//${column.comment.replace(/\s*\n\s*/g, ' ')}//`);
+        }
+
+        return parts.join(' ');
+    }
+
+    /**
+     * Generate an index line
+     * Format: name : (column1, column2) <<unique>>
+     */
+    private generateIndex(index: IndexMetadata): string {
+        const columns = `(${index.columns.join(', ')})`;
+        const name = index.name ? `${index.name} : ${columns}` : columns;
+
+        return `${name} <<${index.isUnique ? 'unique' : 'index'}>>`;
+    }
+
+    /**
+     * Generate an enum definition
+     */
+    private generateEnum(enumMeta: EnumMetadata): string {
+        const name =
+            this.options.includeSchemas && enumMeta.schema ? `${enumMeta.schema}.${enumMeta.name}` : enumMeta.name;
+        const alias = this.toAlias(name);
+        const declaration = alias === name ? alias : `"${name}" as ${alias}`;
+
+        return [`enum ${declaration} {`, ...enumMeta.values.map((v) => `    ${v}`), '}'].join('\n');
+    }
+
+    /**
+     * Generate a relationship line, with the cardinality of each side next to it
+     * Format: table1 }o--|| table2 : property
+     */
+    private generateRelationship(relationship: Relationship): string {
+        const { from, to, label } = relationship;
+        const markers = formatCrowsFoot(relationship);
+
+        return `${this.toAlias(from)} ${markers} ${this.toAlias(to)} : ${label}`;
+    }
+
+    /**
+     * Get the alias of a name PlantUML does not accept bare
+     */
+    private toAlias(name: string): string {
+        return name.replace(/\W/g, '_');
+    }
+
+    /**
+     * Indent every line of a block
+     */
+    private indent(block: string): string {
+        return block
+            .split('\n')
+            .map((line) => `    ${line}`)
+            .join('\n');
+    }
+
+    /**
+     * Generate the diagram and write to file
+     */
+    async generateToFile(schema: DBMLSchema, outputPath: string): Promise<void> {
+        const plantUml = this.generate(schema);
+        const fs = await import('fs/promises');
+        await fs.writeFile(outputPath, plantUml, 'utf-8');
+    }
+
+    /**
+     * Get the current options
+     */
+    getOptions(): Required<GeneratorOptions> {
+        return { ...this.options };
+    }
+}
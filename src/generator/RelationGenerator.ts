@@ -2,9 +2,21 @@
  * RelationGenerator - Generates DBML relationship references from entity metadata
  */
 
-import { EntityMetadata, RelationMetadata } from '../parser/types';
+import EntityMetadata from '../utils/interfaces/EntityMetadata';
+import NamingStrategy from '../utils/interfaces/NamingStrategy';
+import RelationMetadata from '../utils/interfaces/RelationMetadata';
+import { DefaultNamingStrategy } from '../naming/DefaultNamingStrategy';
+import { isCollapsible } from '../utils/RendererUtils';
 
 export class RelationGenerator {
+    private namingStrategy: NamingStrategy;
+    private collapseJoinTables: boolean;
+
+    constructor(namingStrategy: NamingStrategy = new DefaultNamingStrategy(), collapseJoinTables = false) {
+        this.namingStrategy = namingStrategy;
+        this.collapseJoinTables = collapseJoinTables;
+    }
+
     /**
      * Generate all relationship references
      */
@@ -47,25 +59,7 @@ export class RelationGenerator {
      * Format: Ref: table1.foreign_key > table2.primary_key
      */
     private generateManyToOne(entity: EntityMetadata, relation: RelationMetadata): string {
-        const fromTable = entity.tableName;
-        const toTable = relation.target;
-
-        // Get join column info
-        const joinColumnName = relation.joinColumn?.name || `${this.toSnakeCase(relation.propertyName)}_id`;
-        const referencedColumnName = relation.joinColumn?.referencedColumnName || 'id';
-
-        const parts: string[] = [];
-        parts.push(`Ref: ${this.escapeIdentifier(fromTable)}.${this.escapeIdentifier(joinColumnName)}`);
-        parts.push('>');
-        parts.push(`${this.escapeIdentifier(toTable)}.${this.escapeIdentifier(referencedColumnName)}`);
-
-        // Add relationship options
-        const options = this.generateRelationOptions(relation);
-        if (options) {
-            parts.push(options);
-        }
-
-        return parts.join(' ');
+        return this.generateForeignKeyRef(entity, relation, '>');
     }
 
     /**
@@ -74,21 +68,32 @@ export class RelationGenerator {
      */
     private generateOneToOne(entity: EntityMetadata, relation: RelationMetadata): string | null {
         // Only generate from the side that has the join column
-        if (!relation.joinColumn) {
+        if (!relation.joinColumns?.length) {
             return null;
         }
 
+        return this.generateForeignKeyRef(entity, relation, '-');
+    }
+
+    /**
+     * Generate the reference of a relation owning its foreign key
+     * Composite keys reference all columns at once: Ref: table1.(a, b) > table2.(a, b)
+     */
+    private generateForeignKeyRef(entity: EntityMetadata, relation: RelationMetadata, operator: '>' | '-'): string {
         const fromTable = entity.tableName;
         const toTable = relation.target;
 
         // Get join column info
-        const joinColumnName = relation.joinColumn.name || `${this.toSnakeCase(relation.propertyName)}_id`;
-        const referencedColumnName = relation.joinColumn.referencedColumnName || 'id';
+        const joinColumns = relation.joinColumns?.length ? relation.joinColumns : [{}];
+        const referencedColumnNames = joinColumns.map((c) => c.referencedColumnName || 'id');
+        const joinColumnNames = joinColumns.map(
+            (c, i) => c.name || this.namingStrategy.joinColumnName(relation.propertyName, referencedColumnNames[i]),
+        );
 
         const parts: string[] = [];
-        parts.push(`Ref: ${this.escapeIdentifier(fromTable)}.${this.escapeIdentifier(joinColumnName)}`);
-        parts.push('-');
-        parts.push(`${this.escapeIdentifier(toTable)}.${this.escapeIdentifier(referencedColumnName)}`);
+        parts.push(`Ref: ${this.formatEndpoint(fromTable, joinColumnNames)}`);
+        parts.push(operator);
+        parts.push(this.formatEndpoint(toTable, referencedColumnNames));
 
         // Add relationship options
         const options = this.generateRelationOptions(relation);
@@ -101,7 +106,7 @@ export class RelationGenerator {
 
     /**
      * Generate many-to-many relationship
-     * This creates a join table representation
+     * Format: two references from the join table, or Ref: table1.primary_key <> table2.primary_key when collapsed
      */
     private generateManyToMany(entity: EntityMetadata, relation: RelationMetadata): string | null {
         // Only generate from the side that has the join table
@@ -113,36 +118,66 @@ export class RelationGenerator {
         const toTable = relation.target;
 
         // Get join table name
-        const joinTableName = relation.joinTable.name || `${this.toSnakeCase(fromTable)}_${this.toSnakeCase(toTable)}`;
-
-        // Get join column names
-        const fromJoinColumn = relation.joinTable.joinColumns?.[0];
-        const toJoinColumn = relation.joinTable.inverseJoinColumns?.[0];
+        const joinTableName =
+            relation.joinTable.name ||
+            this.namingStrategy.joinTableName(fromTable, toTable, relation.propertyName, relation.inverseSide ?? '');
+
+        // Get join column names, one per primary key column of each side
+        const fromJoinColumns = relation.joinTable.joinColumns?.length ? relation.joinTable.joinColumns : [{}];
+        const toJoinColumns = relation.joinTable.inverseJoinColumns?.length
+            ? relation.joinTable.inverseJoinColumns
+            : [{}];
+
+        const fromReferencedColumns = fromJoinColumns.map((c) => c.referencedColumnName || 'id');
+        const fromColumnNames = fromJoinColumns.map(
+            (c, i) =>
+                c.name ||
+                this.namingStrategy.joinTableColumnName(fromTable, fromReferencedColumns[i], fromReferencedColumns[i]),
+        );
 
-        const fromColumnName = fromJoinColumn?.name || `${this.toSnakeCase(fromTable)}_id`;
-        const fromReferencedColumn = fromJoinColumn?.referencedColumnName || 'id';
+        const toReferencedColumns = toJoinColumns.map((c) => c.referencedColumnName || 'id');
+        const toColumnNames = toJoinColumns.map(
+            (c, i) =>
+                c.name ||
+                this.namingStrategy.joinTableInverseColumnName(toTable, toReferencedColumns[i], toReferencedColumns[i]),
+        );
 
-        const toColumnName = toJoinColumn?.name || `${this.toSnakeCase(toTable)}_id`;
-        const toReferencedColumn = toJoinColumn?.referencedColumnName || 'id';
+        // DBML's native many-to-many, leaving the join table implicit, when both sides have as many key columns
+        if (this.collapseJoinTables && isCollapsible(relation)) {
+            return (
+                `Ref: ${this.formatEndpoint(fromTable, fromReferencedColumns)} <> ` +
+                this.formatEndpoint(toTable, toReferencedColumns)
+            );
+        }
 
         // Generate two references for the join table
         const refs: string[] = [];
 
         // Reference from join table to first entity
         refs.push(
-            `Ref: ${this.escapeIdentifier(joinTableName)}.${this.escapeIdentifier(fromColumnName)} > ` +
-                `${this.escapeIdentifier(fromTable)}.${this.escapeIdentifier(fromReferencedColumn)}`,
+            `Ref: ${this.formatEndpoint(joinTableName, fromColumnNames)} > ` +
+                this.formatEndpoint(fromTable, fromReferencedColumns),
         );
 
         // Reference from join table to second entity
         refs.push(
-            `Ref: ${this.escapeIdentifier(joinTableName)}.${this.escapeIdentifier(toColumnName)} > ` +
-                `${this.escapeIdentifier(toTable)}.${this.escapeIdentifier(toReferencedColumn)}`,
+            `Ref: ${this.formatEndpoint(joinTableName, toColumnNames)} > ` +
+                this.formatEndpoint(toTable, toReferencedColumns),
         );
 
         return refs.join('\n');
     }
 
+    /**
+     * Format one side of a reference: table.column, or table.(column1, column2) for composite keys
+     */
+    private formatEndpoint(table: string, columns: string[]): string {
+        const escapedColumns = columns.map((column) => this.escapeIdentifier(column));
+        const columnList = escapedColumns.length === 1 ? escapedColumns[0] : `(${escapedColumns.join(', ')})`;
+
+        return `${this.escapeIdentifier(table)}.${columnList}`;
+    }
+
     /**
      * Generate relationship options (delete/update actions)
      */
@@ -185,14 +220,4 @@ export class RelationGenerator {
         }
         return identifier;
     }
-
-    /**
-     * Convert PascalCase/camelCase to snake_case
-     */
-    private toSnakeCase(str: string): string {
-        return str
-            .replace(/([A-Z])/g, '_$1')
-            .toLowerCase()
-            .replace(/^_/, '');
-    }
 }
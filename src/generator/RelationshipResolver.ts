@@ -0,0 +1,188 @@
+/**
+ * RelationshipResolver - Resolves the relations of entities to the table relationships drawn by ER diagrams
+ */
+
+import DBMLSchema from '../utils/interfaces/DBMLSchema';
+import EntityMetadata from '../utils/interfaces/EntityMetadata';
+import JoinColumnMetadata from '../utils/interfaces/JoinColumnMetadata';
+import NamingStrategy from '../utils/interfaces/NamingStrategy';
+import RelationMetadata from '../utils/interfaces/RelationMetadata';
+import Relationship from '../utils/interfaces/Relationship';
+import { DefaultNamingStrategy } from '../naming/DefaultNamingStrategy';
+import { isCollapsible } from '../utils/RendererUtils';
+
+export class RelationshipResolver {
+    private namingStrategy: NamingStrategy;
+    private collapseJoinTables: boolean;
+
+    constructor(namingStrategy: NamingStrategy = new DefaultNamingStrategy(), collapseJoinTables = false) {
+        this.namingStrategy = namingStrategy;
+        this.collapseJoinTables = collapseJoinTables;
+    }
+
+    /**
+     * Resolve the relationships of all entities, from the side that owns the foreign key or join table
+     */
+    resolve(schema: DBMLSchema): Relationship[] {
+        const joinTableNames = new Set(schema.joinTables.map((t) => t.name));
+
+        return schema.entities.flatMap((entity) =>
+            entity.relations.flatMap((relation) =>
+                this.resolveRelation(entity, relation, schema.entities, joinTableNames),
+            ),
+        );
+    }
+
+    /**
+     * Get the foreign key columns of each table, including the columns of join tables
+     */
+    getForeignKeys(relationships: Relationship[]): Map<string, Set<string>> {
+        const foreignKeys = new Map<string, Set<string>>();
+
+        // Collapsed many-to-many relations go through primary keys, not foreign keys
+        for (const relationship of relationships.filter((r) => r.toCardinality !== 'many')) {
+            if (!foreignKeys.has(relationship.from)) {
+                foreignKeys.set(relationship.from, new Set());
+            }
+            relationship.fromColumns.forEach((column) => foreignKeys.get(relationship.from)!.add(column));
+        }
+
+        return foreignKeys;
+    }
+
+    /**
+     * Resolve the relationships of a single relation
+     */
+    private resolveRelation(
+        entity: EntityMetadata,
+        relation: RelationMetadata,
+        entities: EntityMetadata[],
+        joinTableNames: Set<string>,
+    ): Relationship[] {
+        const from = entity.tableName;
+        const to = relation.target;
+        const label = relation.propertyName;
+
+        switch (relation.type) {
+            case 'many-to-one':
+            case 'one-to-one': {
+                // Only generate one-to-one from the side that has the join column
+                if (relation.type === 'one-to-one' && !relation.joinColumns?.length) {
+                    return [];
+                }
+
+                const joinColumns = relation.joinColumns?.length ? relation.joinColumns : [{}];
+                const toColumns = joinColumns.map((c) => c.referencedColumnName || 'id');
+                const fromColumns = joinColumns.map(
+                    (c, i) => c.name || this.namingStrategy.joinColumnName(relation.propertyName, toColumns[i]),
+                );
+
+                return [
+                    {
+                        from,
+                        fromColumns,
+                        fromCardinality: relation.type === 'many-to-one' ? 'many' : 'zero-or-one',
+                        to,
+                        toColumns,
+                        toCardinality: this.isNullable(entity, relation, fromColumns) ? 'zero-or-one' : 'one',
+                        label,
+                    },
+                ];
+            }
+            case 'many-to-many': {
+                // Only generate from the side that has the join table
+                if (!relation.joinTable) {
+                    return [];
+                }
+
+                const joinTable =
+                    relation.joinTable.name ||
+                    this.namingStrategy.joinTableName(from, to, relation.propertyName, relation.inverseSide ?? '');
+                const fromSide = this.resolveJoinColumns(relation.joinTable.joinColumns, (referenced) =>
+                    this.namingStrategy.joinTableColumnName(from, referenced, referenced),
+                );
+                const toSide = this.resolveJoinColumns(relation.joinTable.inverseJoinColumns, (referenced) =>
+                    this.namingStrategy.joinTableInverseColumnName(to, referenced, referenced),
+                );
+
+                // Directly between both sides when the join table is not rendered
+                if (!joinTableNames.has(joinTable) || (this.collapseJoinTables && isCollapsible(relation))) {
+                    return [
+                        {
+                            from,
+                            fromColumns: fromSide.referenced,
+                            fromCardinality: 'many',
+                            to,
+                            toColumns: toSide.referenced,
+                            toCardinality: 'many',
+                            label,
+                        },
+                    ];
+                }
+
+                // Otherwise both sides are reached through the rows of the join table
+                const inverseLabel = relation.inverseSide ?? this.findInverseSide(relation, entity, entities) ?? label;
+                return [
+                    {
+                        from: joinTable,
+                        fromColumns: fromSide.names,
+                        fromCardinality: 'many',
+                        to: from,
+                        toColumns: fromSide.referenced,
+                        toCardinality: 'one',
+                        label,
+                    },
+                    {
+                        from: joinTable,
+                        fromColumns: toSide.names,
+                        fromCardinality: 'many',
+                        to,
+                        toColumns: toSide.referenced,
+                        toCardinality: 'one',
+                        label: inverseLabel,
+                    },
+                ];
+            }
+            default:
+                // OneToMany is the inverse of ManyToOne, handled by the other side
+                return [];
+        }
+    }
+
+    /**
+     * Whether the foreign key may be null, from its columns when they are known
+     */
+    private isNullable(entity: EntityMetadata, relation: RelationMetadata, columnNames: string[]): boolean {
+        const columns = columnNames.map((name) => entity.columns.find((c) => c.columnName === name));
+
+        return columns.every((c) => c) ? columns.some((c) => c!.isNullable) : (relation.isNullable ?? true);
+    }
+
+    /**
+     * Get the column names of one side of a join table, and the columns they reference
+     */
+    private resolveJoinColumns(
+        joinColumns: JoinColumnMetadata[] | undefined,
+        defaultName: (referenced: string) => string,
+    ): { names: string[]; referenced: string[] } {
+        const columns = joinColumns?.length ? joinColumns : [{}];
+        const referenced = columns.map((c) => c.referencedColumnName || 'id');
+
+        return { names: columns.map((c, i) => c.name || defaultName(referenced[i])), referenced };
+    }
+
+    /**
+     * Find the property of the target entity pointing back at a many-to-many relation
+     */
+    private findInverseSide(
+        relation: RelationMetadata,
+        entity: EntityMetadata,
+        entities: EntityMetadata[],
+    ): string | undefined {
+        const target = entities.find((e) => e.tableName === relation.target);
+        return target?.relations.find(
+            (r) =>
+                r.type === 'many-to-many' && r.target === entity.tableName && r.inverseSide === relation.propertyName,
+        )?.propertyName;
+    }
+}
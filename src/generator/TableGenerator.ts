@@ -2,7 +2,14 @@
  * TableGenerator - Generates DBML table definitions from entity metadata
  */
 
-import { EntityMetadata, ColumnMetadata, GeneratorOptions } from '../parser/types';
+import CheckMetadata from '../utils/interfaces/CheckMetadata';
+import ColumnMetadata from '../utils/interfaces/ColumnMetadata';
+import EntityMetadata from '../utils/interfaces/EntityMetadata';
+import GeneratorOptions from '../utils/interfaces/GeneratorOptions';
+import IndexMetadata from '../utils/interfaces/IndexMetadata';
+import JoinTableEntity from '../utils/interfaces/JoinTableEntity';
+import UniqueMetadata from '../utils/interfaces/UniqueMetadata';
+import ViewMetadata from '../utils/interfaces/ViewMetadata';
 import { TypeMapper } from './TypeMapper';
 
 export class TableGenerator {
@@ -11,7 +18,7 @@ export class TableGenerator {
 
     constructor(options: Required<GeneratorOptions>) {
         this.options = options;
-        this.typeMapper = new TypeMapper();
+        this.typeMapper = new TypeMapper(options.databaseType);
     }
 
     /**
@@ -24,22 +31,135 @@ export class TableGenerator {
         const tableDeclaration = this.generateTableDeclaration(entity);
         lines.push(tableDeclaration);
 
-        // Columns
-        const columns = entity.columns.map((col) => this.generateColumn(col));
-        lines.push(...columns.map((c) => `  ${c}`));
+        lines.push(...this.generateTableBody(entity.columns, entity.indexes, entity.uniques, entity.checks));
+        lines.push('}');
+
+        return lines.join('\n');
+    }
+
+    /**
+     * Generate the table of a many-to-many relation
+     */
+    generateJoinTable(joinTable: JoinTableEntity): string {
+        const lines: string[] = [];
 
-        // Indexes (if enabled)
-        if (this.options.includeIndexes && entity.indexes.length > 0) {
+        let declaration = `Table ${this.escapeIdentifier(joinTable.name)}`;
+        if (this.options.includeSchemas && joinTable.schema) {
+            declaration += ` [schema: "${joinTable.schema}"]`;
+        }
+        lines.push(`${declaration} {`);
+
+        lines.push(...this.generateTableBody(joinTable.columns, joinTable.indexes));
+        lines.push('}');
+
+        return lines.join('\n');
+    }
+
+    /**
+     * Generate the columns, the Indexes block and the checks block of a table
+     */
+    private generateTableBody(
+        columns: ColumnMetadata[],
+        indexes: IndexMetadata[],
+        uniques: UniqueMetadata[] = [],
+        checks: CheckMetadata[] = [],
+    ): string[] {
+        const lines: string[] = [];
+        const primaryKey = this.getPrimaryKeyIndex(columns);
+
+        // Columns; the primary key is set on the column unless it needs an index
+        lines.push(...columns.map((col) => `  ${this.generateColumn(col, !primaryKey)}`));
+
+        // Indexes and unique constraints (if enabled), always preceded by a primary key index
+        const tableIndexes = [
+            ...(primaryKey ? [primaryKey] : []),
+            ...(this.options.includeIndexes ? indexes : []),
+            ...(this.options.includeUniques ? uniques.map((u) => ({ ...u, isUnique: true })) : []),
+        ];
+        if (tableIndexes.length > 0) {
             lines.push('');
             lines.push('  Indexes {');
 
-            for (const index of entity.indexes) {
+            for (const index of tableIndexes) {
                 lines.push(`    ${this.generateIndex(index)}`);
             }
 
             lines.push('  }');
         }
 
+        // Check constraints (if enabled)
+        if (this.options.includeChecks && checks.length > 0) {
+            lines.push('');
+            lines.push('  checks {');
+
+            for (const check of checks) {
+                lines.push(`    ${this.generateCheck(check)}`);
+            }
+
+            lines.push('  }');
+        }
+
+        return lines;
+    }
+
+    /**
+     * Get the primary key as a `[pk]` index when it cannot be a column setting:
+     * DBML reads `pk` on several columns as several primary keys, and column settings cannot name it
+     */
+    private getPrimaryKeyIndex(columns: ColumnMetadata[]): IndexMetadata | undefined {
+        const primaryColumns = columns.filter((c) => c.isPrimary);
+        const name = primaryColumns.find((c) => c.primaryKeyConstraintName)?.primaryKeyConstraintName;
+
+        if (primaryColumns.length < 2 && !name) {
+            return undefined;
+        }
+
+        return {
+            name,
+            columns: primaryColumns.map((c) => c.columnName),
+            isUnique: false,
+            isPrimary: true,
+        };
+    }
+
+    /**
+     * Generate a view as a table with a distinct header color and a note holding its SQL
+     */
+    generateView(view: ViewMetadata): string {
+        const lines: string[] = [];
+
+        const options = ['headercolor: #7F8C8D'];
+        if (this.options.includeSchemas && view.schema) {
+            options.push(`schema: "${view.schema}"`);
+        }
+        lines.push(`Table ${this.escapeIdentifier(view.viewName)} [${options.join(', ')}] {`);
+
+        // Columns
+        const columns = view.columns.map((col) => this.generateColumn(col));
+        lines.push(...columns.map((c) => `  ${c}`));
+
+        // Multi-line note: view marker, description, dependencies and SQL
+        if (this.options.includeNotes) {
+            const noteLines = [view.isMaterialized ? 'MATERIALIZED VIEW' : 'VIEW'];
+
+            if (view.note) {
+                noteLines.push(view.note);
+            }
+
+            if (view.dependsOn.length > 0) {
+                noteLines.push(`Depends on: ${view.dependsOn.join(', ')}`);
+            }
+
+            if (view.expression) {
+                noteLines.push('', ...view.expression.split('\n'));
+            }
+
+            lines.push('');
+            lines.push("  Note: '''");
+            lines.push(...noteLines.map((line) => (line ? `    ${line.replace(/'''/g, "\\'''")}` : '')));
+            lines.push("  '''");
+        }
+
         lines.push('}');
 
         return lines.join('\n');
@@ -77,18 +197,20 @@ export class TableGenerator {
     /**
      * Generate a column definition
      */
-    private generateColumn(column: ColumnMetadata): string {
+    private generateColumn(column: ColumnMetadata, inlinePrimaryKey = true): string {
         const parts: string[] = [];
 
         // Column name
         parts.push(this.escapeIdentifier(column.columnName));
 
-        // Column type
-        const dbmlType = this.typeMapper.mapType(column);
+        // Column type; enums lose their schema along with the tables
+        const dbmlType = this.typeMapper.mapType(
+            this.options.includeSchemas ? column : { ...column, enumSchema: undefined },
+        );
         parts.push(dbmlType);
 
         // Column settings
-        const settings = this.generateColumnSettings(column);
+        const settings = this.generateColumnSettings(column, inlinePrimaryKey);
         if (settings) {
             parts.push(settings);
         }
@@ -99,18 +221,16 @@ export class TableGenerator {
     /**
      * Generate column settings (constraints and options)
      */
-    private generateColumnSettings(column: ColumnMetadata): string {
+    private generateColumnSettings(column: ColumnMetadata, inlinePrimaryKey: boolean): string {
         const settings: string[] = [];
 
-        // Primary key
+        // Primary key, unless declared as an index
         if (column.isPrimary) {
-            if (column.isGenerated && column.generationStrategy === 'increment') {
+            if (inlinePrimaryKey) {
                 settings.push('pk');
+            }
+            if (column.isGenerated && column.generationStrategy === 'increment') {
                 settings.push('increment');
-            } else if (column.isGenerated && column.generationStrategy === 'uuid') {
-                settings.push('pk');
-            } else {
-                settings.push('pk');
             }
         }
 
@@ -130,26 +250,54 @@ export class TableGenerator {
             settings.push(`default: ${defaultValue}`);
         }
 
+        // Uuids generated by the database, rather than by TypeORM
+        const uuidDefault = this.typeMapper.getUuidDefault();
+        if (column.isGenerated && column.generationStrategy === 'uuid' && uuidDefault && column.default === undefined) {
+            settings.push(`default: \`${uuidDefault}\``);
+        }
+
         // Special date columns
         if (column.isCreateDate || column.isUpdateDate) {
-            settings.push('default: `now()`');
+            settings.push(`default: \`${this.typeMapper.getCurrentTimestamp()}\``);
         }
 
         // Note/comment
-        if (this.options.includeNotes && column.comment) {
-            const escapedNote = this.escapeNote(column.comment);
+        const note = this.generateColumnNote(column);
+        if (this.options.includeNotes && note) {
+            const escapedNote = this.escapeNote(note);
             settings.push(`note: '${escapedNote}'`);
         }
 
         return settings.length > 0 ? `[${settings.join(', ')}]` : '';
     }
 
+    /**
+     * Build the column note from its comment and, optionally, its embeddable origin
+     */
+    private generateColumnNote(column: ColumnMetadata): string | undefined {
+        const notes: string[] = [];
+
+        if (column.comment) {
+            notes.push(column.comment);
+        }
+
+        if (column.foreignKeyOf) {
+            notes.push(`Foreign key of ${column.foreignKeyOf}`);
+        }
+
+        if (this.options.includeEmbeddedNotes && column.embeddedFrom) {
+            notes.push(`Embedded from ${column.embeddedFrom} (${column.propertyName})`);
+        }
+
+        return notes.length > 0 ? notes.join(' - ') : undefined;
+    }
+
     /**
      * Format default value for DBML
      */
     private formatDefaultValue(defaultValue: string, column: ColumnMetadata): string {
-        // Check if it's a function call
-        if (defaultValue.includes('(') || defaultValue.toLowerCase().includes('now')) {
+        // SQL expressions, such as `() => 'now()'`
+        if (column.isDefaultExpression) {
             return `\`${defaultValue}\``;
         }
 
@@ -158,19 +306,23 @@ export class TableGenerator {
             return `'${defaultValue}'`;
         }
 
-        // Boolean values
+        // Boolean values, as 1/0 in dialects without a boolean type
         if (column.type === 'boolean') {
-            return defaultValue.toLowerCase();
+            const value = defaultValue.toLowerCase();
+            if (this.typeMapper.mapType(column) === 'boolean') {
+                return value;
+            }
+            return value === 'true' ? '1' : value === 'false' ? '0' : value;
         }
 
-        // Numeric values
-        return defaultValue;
+        // Numeric values, and any other value as a string
+        return /^-?\d+(\.\d+)?$/.test(defaultValue) ? defaultValue : `'${defaultValue}'`;
     }
 
     /**
      * Generate an index definition
      */
-    private generateIndex(index: any): string {
+    private generateIndex(index: IndexMetadata): string {
         const parts: string[] = [];
 
         // Column(s)
@@ -184,6 +336,10 @@ export class TableGenerator {
         // Index settings
         const settings: string[] = [];
 
+        if (index.isPrimary) {
+            settings.push('pk');
+        }
+
         if (index.isUnique) {
             settings.push('unique');
         }
@@ -207,6 +363,14 @@ export class TableGenerator {
         return parts.join(' ');
     }
 
+    /**
+     * Generate a check constraint definition
+     */
+    private generateCheck(check: CheckMetadata): string {
+        const expression = `\`${check.expression.replace(/`/g, '\\`')}\``;
+        return check.name ? `${expression} [name: '${check.name}']` : expression;
+    }
+
     /**
      * Escape identifier if needed
      */
@@ -1,17 +1,231 @@
 /**
- * TypeMapper - Maps TypeORM column types to DBML types
+ * TypeMapper - Maps TypeORM column types to the DBML types of a database dialect
  */
 
-import { ColumnMetadata } from '../parser/types';
+import ColumnMetadata from '../utils/interfaces/ColumnMetadata';
+import GeneratorOptions from '../utils/interfaces/GeneratorOptions';
+
+type DatabaseType = NonNullable<GeneratorOptions['databaseType']>;
+
+// MariaDB shares the MySQL types, apart from its native uuid
+const MYSQL_TYPES: Record<string, string> = {
+    'string': 'varchar',
+    'int': 'int',
+    'integer': 'int',
+    'int2': 'smallint',
+    'int4': 'int',
+    'int8': 'bigint',
+    'float4': 'float',
+    'float8': 'double',
+    'double': 'double',
+    'double precision': 'double',
+    'boolean': 'tinyint(1)',
+    'bool': 'tinyint(1)',
+    'time with time zone': 'time',
+    'timestamp with time zone': 'timestamp',
+    'timestamptz': 'timestamp',
+    'datetime': 'datetime',
+    'uuid': 'varchar(36)',
+    'uniqueidentifier': 'varchar(36)',
+    'bytea': 'blob',
+    'blob': 'blob',
+    'binary': 'binary',
+    'varbinary': 'varbinary',
+    'jsonb': 'json',
+};
 
 export class TypeMapper {
+    private static readonly DATABASE_NAMES: Record<DatabaseType, string> = {
+        postgres: 'PostgreSQL',
+        mysql: 'MySQL',
+        mariadb: 'MariaDB',
+        mssql: 'SQL Server',
+        sqlite: 'SQLite',
+        oracle: 'Oracle',
+        cockroachdb: 'CockroachDB',
+    };
+
+    // DataSource `type` values, by the dialect their tables are created in
+    private static readonly DATA_SOURCE_TYPES: Record<string, DatabaseType> = {
+        'postgres': 'postgres',
+        'aurora-postgres': 'postgres',
+        'mysql': 'mysql',
+        'aurora-mysql': 'mysql',
+        'mariadb': 'mariadb',
+        'mssql': 'mssql',
+        'sqlite': 'sqlite',
+        'better-sqlite3': 'sqlite',
+        'sqljs': 'sqlite',
+        'capacitor': 'sqlite',
+        'cordova': 'sqlite',
+        'expo': 'sqlite',
+        'nativescript': 'sqlite',
+        'react-native': 'sqlite',
+        'oracle': 'oracle',
+        'cockroachdb': 'cockroachdb',
+    };
+
+    // Types that differ from the PostgreSQL flavoured base mapping
+    private static readonly DIALECT_TYPES: Record<DatabaseType, Record<string, string>> = {
+        postgres: {},
+        cockroachdb: {
+            int: 'int8',
+            integer: 'int8',
+        },
+        mysql: MYSQL_TYPES,
+        mariadb: { ...MYSQL_TYPES, uuid: 'uuid' },
+        mssql: {
+            'string': 'nvarchar',
+            'text': 'nvarchar(max)',
+            'int': 'int',
+            'integer': 'int',
+            'int2': 'smallint',
+            'int4': 'int',
+            'int8': 'bigint',
+            'float8': 'float',
+            'double': 'float',
+            'double precision': 'float',
+            'boolean': 'bit',
+            'bool': 'bit',
+            'time with time zone': 'time',
+            'timestamp': 'datetime2',
+            'timestamp without time zone': 'datetime2',
+            'timestamp with time zone': 'datetimeoffset',
+            'timestamptz': 'datetimeoffset',
+            'datetime': 'datetime',
+            'uuid': 'uniqueidentifier',
+            'uniqueidentifier': 'uniqueidentifier',
+            'bytea': 'varbinary(max)',
+            'blob': 'varbinary(max)',
+            'binary': 'binary',
+            'varbinary': 'varbinary',
+            'json': 'nvarchar(max)',
+            'jsonb': 'nvarchar(max)',
+        },
+        sqlite: {
+            'uuid': 'varchar',
+            'uniqueidentifier': 'varchar',
+            'timestamp': 'datetime',
+            'timestamp without time zone': 'datetime',
+            'timestamp with time zone': 'datetime',
+            'timestamptz': 'datetime',
+            'datetime': 'datetime',
+            'float8': 'double',
+            'double': 'double',
+            'bytea': 'blob',
+            'blob': 'blob',
+            'json': 'text',
+            'jsonb': 'text',
+        },
+        oracle: {
+            'varchar': 'varchar2',
+            'character varying': 'varchar2',
+            'string': 'varchar2',
+            'text': 'clob',
+            'bigint': 'number(19)',
+            'boolean': 'number(1)',
+            'bool': 'number(1)',
+            'datetime': 'timestamp',
+            'timestamptz': 'timestamp with time zone',
+            'timestamp with time zone': 'timestamp with time zone',
+            'uuid': 'varchar2(36)',
+            'uniqueidentifier': 'varchar2(36)',
+            'bytea': 'blob',
+            'blob': 'blob',
+            'binary': 'raw',
+            'varbinary': 'raw',
+            'json': 'clob',
+            'jsonb': 'clob',
+        },
+    };
+
+    // Expression of CreateDateColumn/UpdateDateColumn defaults
+    private static readonly CURRENT_TIMESTAMP: Record<DatabaseType, string> = {
+        postgres: 'now()',
+        cockroachdb: 'now()',
+        mysql: 'CURRENT_TIMESTAMP',
+        mariadb: 'CURRENT_TIMESTAMP',
+        mssql: 'getdate()',
+        sqlite: "datetime('now')",
+        oracle: 'CURRENT_TIMESTAMP',
+    };
+
+    // Database generated uuid primary keys; TypeORM generates them itself on the other dialects
+    private static readonly UUID_DEFAULTS: Partial<Record<DatabaseType, string>> = {
+        postgres: 'uuid_generate_v4()',
+        cockroachdb: 'gen_random_uuid()',
+        mssql: 'newsequentialid()',
+    };
+
+    // Schema tables are created in when they name none
+    private static readonly DEFAULT_SCHEMAS: Partial<Record<DatabaseType, string>> = {
+        postgres: 'public',
+        cockroachdb: 'public',
+        mssql: 'dbo',
+    };
+
+    private databaseType: DatabaseType;
+
+    constructor(databaseType: DatabaseType = 'postgres') {
+        if (!TypeMapper.DATABASE_NAMES[databaseType]) {
+            throw new Error(
+                `Unknown database type "${databaseType}" ` +
+                    `(supported: ${Object.keys(TypeMapper.DATABASE_NAMES).join(', ')})`,
+            );
+        }
+        this.databaseType = databaseType;
+    }
+
+    /**
+     * Get the dialect of a DataSource `type` option, if it is one DBML can be generated for
+     */
+    static fromDataSourceType(type: string): DatabaseType | undefined {
+        return TypeMapper.DATA_SOURCE_TYPES[type];
+    }
+
+    /**
+     * Get the dialect of a Project `database_type`, the reverse of `getDatabaseName`
+     */
+    static fromDatabaseName(name: string): DatabaseType | undefined {
+        const names = Object.entries(TypeMapper.DATABASE_NAMES) as [DatabaseType, string][];
+        return names.find(([, databaseName]) => databaseName.toLowerCase() === name.toLowerCase())?.[0];
+    }
+
+    /**
+     * Get the name of the database, as written in the Project header
+     */
+    getDatabaseName(): string {
+        return TypeMapper.DATABASE_NAMES[this.databaseType];
+    }
+
+    /**
+     * Get the default expression of creation and update dates
+     */
+    getCurrentTimestamp(): string {
+        return TypeMapper.CURRENT_TIMESTAMP[this.databaseType];
+    }
+
+    /**
+     * Get the default expression of generated uuid columns, when the database generates them
+     */
+    getUuidDefault(): string | undefined {
+        return TypeMapper.UUID_DEFAULTS[this.databaseType];
+    }
+
+    /**
+     * Get the schema tables are created in when they name none, on dialects with schemas
+     */
+    getDefaultSchema(): string | undefined {
+        return TypeMapper.DEFAULT_SCHEMAS[this.databaseType];
+    }
+
     /**
      * Map TypeORM column type to DBML type
      */
     mapType(column: ColumnMetadata): string {
-        // If it's an enum, use the enum name
+        // If it's an enum, use the enum name, qualified when it belongs to a schema
         if (column.enumName) {
-            return column.enumName;
+            return column.enumSchema ? `${column.enumSchema}.${column.enumName}` : column.enumName;
         }
 
         // Get base type
@@ -22,7 +236,11 @@ export class TypeMapper {
             dbmlType += '[]';
         }
 
-        // Add length/precision for applicable types
+        // Add length/precision for applicable types, unless the dialect type is already sized (varchar(36))
+        if (dbmlType.includes('(')) {
+            return dbmlType;
+        }
+
         if (column.length && this.supportsLength(column.type)) {
             dbmlType += `(${column.length})`;
         } else if (column.precision !== undefined) {
@@ -37,12 +255,17 @@ export class TypeMapper {
     }
 
     /**
-     * Get base DBML type from TypeORM type
+     * Get base DBML type from TypeORM type, in the types of the dialect
      */
     private getBaseType(typeormType: string): string {
         // Normalize type to lowercase
         const type = typeormType.toLowerCase();
 
+        const dialectType = TypeMapper.DIALECT_TYPES[this.databaseType][type];
+        if (dialectType) {
+            return dialectType;
+        }
+
         // Direct mappings
         const typeMap: Record<string, string> = {
             // String types
@@ -70,7 +293,6 @@ export class TypeMapper {
             'double': 'double precision',
             'double precision': 'double precision',
             'money': 'money',
-            'number': 'numeric',
 
             // Boolean
             'boolean': 'boolean',
@@ -3,76 +3,403 @@
  * Programmatic API for converting TypeORM entities to DBML
  */
 
+import * as fs from 'fs';
+import { ClassDeclaration, ObjectLiteralExpression } from 'ts-morph';
 import { EntityParser } from './parser/EntityParser';
-import { MetadataExtractor } from './parser/MetadataExtractor';
+import { MetadataExtractor } from './extractor/MetadataExtractor';
 import { DBMLGenerator } from './generator/DBMLGenerator';
-import { Config, DBMLSchema, GeneratorOptions } from './parser/types';
+import { DotGenerator } from './generator/DotGenerator';
+import { MermaidGenerator } from './generator/MermaidGenerator';
+import { PlantUmlGenerator } from './generator/PlantUmlGenerator';
+import { EntityGenerator } from './generator/EntityGenerator';
+import { DBMLParser } from './parser/DBMLParser';
+import { SchemaDiffer } from './diff/SchemaDiffer';
+import { SchemaNormalizer } from './diff/SchemaNormalizer';
+import { MigrationReplayer } from './database/MigrationReplayer';
+import { SqlDumpImporter } from './database/SqlDumpImporter';
+import { SchemaLinter } from './lint/SchemaLinter';
+import { TypeMapper } from './generator/TypeMapper';
+import { NamingStrategyLoader } from './naming/NamingStrategyLoader';
+import { DiagnosticCollector } from './utils/DiagnosticCollector';
+import { isCollapsible } from './utils/RendererUtils';
+import Config from './utils/interfaces/Config';
+import DBMLSchema from './utils/interfaces/DBMLSchema';
+import Diagnostic from './utils/interfaces/Diagnostic';
+import GenerateResult from './utils/interfaces/GenerateResult';
+import GeneratorOptions from './utils/interfaces/GeneratorOptions';
+import LintOptions from './utils/interfaces/LintOptions';
+import NamingStrategy from './utils/interfaces/NamingStrategy';
+import ScaffoldConfig from './utils/interfaces/ScaffoldConfig';
+import ScaffoldResult from './utils/interfaces/ScaffoldResult';
+import SchemaDiff from './utils/interfaces/SchemaDiff';
+import SchemaRenderer from './utils/interfaces/SchemaRenderer';
 
 /**
- * Generate DBML from TypeORM entity files
+ * Generate DBML from TypeORM entity files, along with the diagnostics of everything that could not be resolved
  */
-export async function generateDBML(config: Config): Promise<string> {
-    // Parse entity files
-    const parser = new EntityParser({
-        tsConfigPath: config.options?.projectName ? undefined : './tsconfig.json',
-    });
+export async function generateDBML(config: Config): Promise<GenerateResult> {
+    // Extract metadata from the entity files, or import it from a SQL dump
+    const diagnostics = new DiagnosticCollector();
+    const namingStrategy = new NamingStrategyLoader().load(config.namingStrategy);
+    const { schema, databaseType } = await loadSchema(config, diagnostics, namingStrategy);
 
-    const entities = await parser.parseEntities({
-        input: config.input,
-        exclude: config.exclude,
-    });
-
-    // Extract metadata
-    const extractor = new MetadataExtractor();
-    const schema = extractor.extractMetadata(entities);
-
-    // Generate DBML
-    const generator = new DBMLGenerator(config.options);
+    // Generate DBML, or the diagram language of `format`
+    const options = { ...config.options, databaseType: config.options?.databaseType ?? databaseType };
+    const generator = createGenerator(config.format ?? 'dbml', options, namingStrategy);
     const dbml = generator.generate(schema);
+    if (options.collapseJoinTables) {
+        reportUncollapsedJoinTables(schema, diagnostics);
+    }
 
     // Write to file if output path specified
     if (config.output) {
         await generator.generateToFile(schema, config.output);
     }
 
-    return dbml;
+    return { dbml, diagnostics: diagnostics.getDiagnostics() };
+}
+
+/**
+ * Convert schema metadata to a Mermaid erDiagram
+ */
+export function schemaToMermaid(
+    schema: DBMLSchema,
+    options?: GeneratorOptions,
+    namingStrategy?: NamingStrategy,
+): string {
+    const generator = new MermaidGenerator(options, namingStrategy);
+    return generator.generate(schema);
+}
+
+/**
+ * Convert schema metadata to a PlantUML entity-relationship diagram
+ */
+export function schemaToPlantUml(
+    schema: DBMLSchema,
+    options?: GeneratorOptions,
+    namingStrategy?: NamingStrategy,
+): string {
+    const generator = new PlantUmlGenerator(options, namingStrategy);
+    return generator.generate(schema);
+}
+
+/**
+ * Convert schema metadata to a Graphviz DOT graph
+ */
+export function schemaToDot(schema: DBMLSchema, options?: GeneratorOptions, namingStrategy?: NamingStrategy): string {
+    const generator = new DotGenerator(options, namingStrategy);
+    return generator.generate(schema);
 }
 
 /**
  * Generate DBML schema metadata without converting to string
  */
 export async function generateSchema(config: Config): Promise<DBMLSchema> {
-    const parser = new EntityParser({
-        tsConfigPath: config.options?.projectName ? undefined : './tsconfig.json',
-    });
+    const diagnostics = new DiagnosticCollector();
+    const { schema } = await loadSchema(config, diagnostics);
 
-    const entities = await parser.parseEntities({
-        input: config.input,
-        exclude: config.exclude,
-    });
+    return { ...schema, diagnostics: diagnostics.getDiagnostics() };
+}
 
-    const extractor = new MetadataExtractor();
-    return extractor.extractMetadata(entities);
+/**
+ * Get the files and globs a schema is read from, to watch them for changes
+ * With a DataSource, these are its file, the files of its entities and its entity globs
+ */
+export async function getSourcePaths(config: Config): Promise<string[]> {
+    if (config.sql) {
+        return [config.sql];
+    }
+    if (config.dataSource) {
+        const dataSource = typeof config.dataSource === 'string' ? { path: config.dataSource } : config.dataSource;
+        return createEntityParser(config, new DiagnosticCollector()).parseDataSourceFiles(dataSource);
+    }
+
+    if (!config.input) {
+        return [];
+    }
+    return Array.isArray(config.input) ? config.input : [config.input];
 }
 
 /**
  * Convert schema metadata to DBML string
  */
-export function schemaToDBML(schema: DBMLSchema, options?: GeneratorOptions): string {
-    const generator = new DBMLGenerator(options);
+export function schemaToDBML(schema: DBMLSchema, options?: GeneratorOptions, namingStrategy?: NamingStrategy): string {
+    const generator = new DBMLGenerator(options, namingStrategy);
     return generator.generate(schema);
 }
 
+/**
+ * Read schema metadata back from DBML, the reverse of `schemaToDBML`
+ */
+export function dbmlToSchema(dbml: string): DBMLSchema {
+    const diagnostics = new DiagnosticCollector();
+    const { schema } = new DBMLParser(diagnostics).parse(dbml);
+
+    return { ...schema, diagnostics: diagnostics.getDiagnostics() };
+}
+
+/**
+ * Write TypeORM entity classes for the tables, views and enums of a DBML file or SQL dump
+ */
+export async function scaffoldEntities(config: ScaffoldConfig): Promise<ScaffoldResult> {
+    const diagnostics = new DiagnosticCollector();
+    const source = await fs.promises.readFile(config.input, 'utf-8');
+
+    const { schema, databaseType } = config.input.endsWith('.sql')
+        ? await loadSchema({ sql: config.input, options: { databaseType: config.databaseType } }, diagnostics)
+        : new DBMLParser(diagnostics).parse(source, config.input);
+
+    const namingStrategy = new NamingStrategyLoader().load(config.namingStrategy);
+    const generator = new EntityGenerator(namingStrategy, config.databaseType ?? databaseType);
+    const files = await generator.generateToDirectory(schema, config.output, config.overwrite);
+
+    return { files, diagnostics: diagnostics.getDiagnostics() };
+}
+
+/**
+ * Compare two schemas, e.g. a saved snapshot and the current entities
+ */
+export function diffSchemas(a: DBMLSchema, b: DBMLSchema): SchemaDiff {
+    return new SchemaDiffer().diff(a, b);
+}
+
+/**
+ * Compare what a database holds, e.g. replayed from migrations or imported from a dump, with the entities
+ * Both are normalized first, so names TypeORM generates and spellings of the same type do not count
+ * `added` changes are in the entities but not in the database, `removed` ones the other way around
+ */
+export function diffDatabase(
+    database: DBMLSchema,
+    entities: DBMLSchema,
+    databaseType?: GeneratorOptions['databaseType'],
+): SchemaDiff {
+    const normalizer = new SchemaNormalizer(databaseType);
+    return new SchemaDiffer().diff(normalizer.normalize(database), normalizer.normalize(entities));
+}
+
+/**
+ * Compare the entities with the schema their migrations create, replayed statically
+ * `added` changes are in the entities but missing from the migrations, `removed` ones the other way around
+ */
+export async function detectDrift(config: Config): Promise<SchemaDiff> {
+    if (!config.migrations) {
+        throw new Error('`migrations` must be provided');
+    }
+
+    const diagnostics = new DiagnosticCollector();
+    const { schema, databaseType } = await loadSchema(config, diagnostics);
+
+    const migrations = await new EntityParser({ diagnostics }).parseMigrations({ input: config.migrations });
+    const replayed = new MigrationReplayer(diagnostics).replay(
+        migrations,
+        new TypeMapper(databaseType).getDefaultSchema(),
+    );
+
+    return { ...diffDatabase(replayed, schema, databaseType), diagnostics: diagnostics.getDiagnostics() };
+}
+
+/**
+ * Check the entities against database conventions
+ * Returns the lint results along with anything that could not be resolved while extracting
+ */
+export async function lintSchema(config: Config, lintOptions?: LintOptions): Promise<Diagnostic[]> {
+    const diagnostics = new DiagnosticCollector();
+    const { schema } = await loadSchema(config, diagnostics);
+
+    return new SchemaLinter(lintOptions, diagnostics).lint(schema);
+}
+
+/**
+ * Create the generator of an output format
+ */
+function createGenerator(format: string, options: GeneratorOptions, namingStrategy: NamingStrategy): SchemaRenderer {
+    switch (format) {
+        case 'dbml':
+            return new DBMLGenerator(options, namingStrategy);
+        case 'mermaid':
+            return new MermaidGenerator(options, namingStrategy);
+        case 'plantuml':
+            return new PlantUmlGenerator(options, namingStrategy);
+        case 'dot':
+            return new DotGenerator(options, namingStrategy);
+        default:
+            throw new Error(`Unknown output format "${format}", expected dbml, mermaid, plantuml or dot`);
+    }
+}
+
+/**
+ * Report the many-to-many relations `collapseJoinTables` keeps the join table of, as their sides have keys of
+ * different sizes
+ */
+function reportUncollapsedJoinTables(schema: DBMLSchema, diagnostics: DiagnosticCollector): void {
+    for (const entity of schema.entities) {
+        for (const relation of entity.relations) {
+            if (relation.type !== 'many-to-many' || !relation.joinTable || isCollapsible(relation)) {
+                continue;
+            }
+
+            const { joinColumns, inverseJoinColumns } = relation.joinTable;
+            diagnostics.warning(
+                'uncollapsible-join-table',
+                `Many-to-many \`${entity.name}.${relation.propertyName}\` joins keys of ${joinColumns?.length || 1} and ` +
+                    `${inverseJoinColumns?.length || 1} columns, which a \`<>\` ref cannot pair; its join table was kept`,
+                relation,
+            );
+        }
+    }
+}
+
+/**
+ * Extract the schema of the entities, or import it from the SQL dump of `config.sql`,
+ * along with the database type set in the options, of the DataSource or of the dump
+ */
+async function loadSchema(
+    config: Config,
+    diagnostics: DiagnosticCollector,
+    namingStrategy: NamingStrategy = new NamingStrategyLoader().load(config.namingStrategy),
+): Promise<{ schema: DBMLSchema; databaseType?: GeneratorOptions['databaseType'] }> {
+    if (config.sql) {
+        const importer = new SqlDumpImporter(diagnostics);
+        const sql = await fs.promises.readFile(config.sql, 'utf-8');
+        const databaseType = config.options?.databaseType ?? importer.detectDatabaseType(sql);
+
+        return { schema: importer.import(sql, databaseType, config.sql), databaseType };
+    }
+
+    const { entities, entitySchemas, databaseType } = await parseEntities(config, diagnostics);
+    const extractor = new MetadataExtractor(namingStrategy, diagnostics);
+
+    return {
+        schema: extractor.extractMetadata(entities, entitySchemas),
+        databaseType: config.options?.databaseType ?? databaseType,
+    };
+}
+
+/**
+ * Find entity classes and EntitySchemas from either a DataSource definition or input globs,
+ * along with the database type of the DataSource
+ */
+async function parseEntities(
+    config: Config,
+    diagnostics: DiagnosticCollector,
+): Promise<{
+    entities: ClassDeclaration[];
+    entitySchemas: ObjectLiteralExpression[];
+    databaseType?: GeneratorOptions['databaseType'];
+}> {
+    const parser = createEntityParser(config, diagnostics);
+
+    if (config.dataSource) {
+        const dataSource = typeof config.dataSource === 'string' ? { path: config.dataSource } : config.dataSource;
+        const type = await parser.parseDataSourceType(dataSource);
+        const databaseType = type ? TypeMapper.fromDataSourceType(type) : undefined;
+
+        if (type && !databaseType && !config.options?.databaseType) {
+            diagnostics.warning(
+                'unsupported-database-type',
+                `DataSource type "${type}" has no DBML dialect; generating PostgreSQL types`,
+            );
+        }
+
+        return {
+            entities: await parser.parseDataSource(dataSource),
+            entitySchemas: await parser.parseDataSourceSchemas(dataSource),
+            databaseType,
+        };
+    }
+
+    if (!config.input) {
+        throw new Error('Either `input` or `dataSource` must be provided');
+    }
+
+    const parserOptions = {
+        input: config.input,
+        exclude: config.exclude,
+    };
+
+    return {
+        entities: await parser.parseEntities(parserOptions),
+        entitySchemas: await parser.parseEntitySchemas(parserOptions),
+    };
+}
+
+/**
+ * Create an entity parser resolving the entities with the tsconfig.json of the config
+ */
+function createEntityParser(config: Config, diagnostics: DiagnosticCollector): EntityParser {
+    return new EntityParser({
+        tsConfigPath: config.tsConfig ?? (fs.existsSync('./tsconfig.json') ? './tsconfig.json' : undefined),
+        diagnostics,
+    });
+}
+
 // Export types
-export * from './parser/types';
+export type { default as CheckMetadata } from './utils/interfaces/CheckMetadata';
+export type { default as ColumnMetadata } from './utils/interfaces/ColumnMetadata';
+export type { default as Config } from './utils/interfaces/Config';
+export type { default as DataSourceConfig } from './utils/interfaces/DataSourceConfig';
+export type { default as DataSourceDefinition } from './utils/interfaces/DataSourceDefinition';
+export type { default as DBMLSchema } from './utils/interfaces/DBMLSchema';
+export type { default as Diagnostic } from './utils/interfaces/Diagnostic';
+export type { default as EntityMetadata } from './utils/interfaces/EntityMetadata';
+export type { default as EnumMetadata } from './utils/interfaces/EnumMetadata';
+export type { default as GenerateResult } from './utils/interfaces/GenerateResult';
+export type { default as GeneratorOptions } from './utils/interfaces/GeneratorOptions';
+export type { default as IndexMetadata } from './utils/interfaces/IndexMetadata';
+export type { default as InheritanceMetadata } from './utils/interfaces/InheritanceMetadata';
+export type { default as JoinColumnMetadata } from './utils/interfaces/JoinColumnMetadata';
+export type { default as JoinTableEntity } from './utils/interfaces/JoinTableEntity';
+export type { default as JoinTableMetadata } from './utils/interfaces/JoinTableMetadata';
+export type { default as LintOptions } from './utils/interfaces/LintOptions';
+export type { default as LintRule } from './utils/interfaces/LintRule';
+export type { default as NamingStrategy } from './utils/interfaces/NamingStrategy';
+export type { default as NamingStrategyConfig } from './utils/interfaces/NamingStrategyConfig';
+export type { default as ParserOptions } from './utils/interfaces/ParserOptions';
+export type { default as RelationMetadata } from './utils/interfaces/RelationMetadata';
+export type { default as Relationship } from './utils/interfaces/Relationship';
+export type { default as ScaffoldConfig } from './utils/interfaces/ScaffoldConfig';
+export type { default as ScaffoldResult } from './utils/interfaces/ScaffoldResult';
+export type { default as SchemaChange } from './utils/interfaces/SchemaChange';
+export type { default as SchemaDiff } from './utils/interfaces/SchemaDiff';
+export type { default as SchemaRenderer } from './utils/interfaces/SchemaRenderer';
+export type { default as TreeMetadata } from './utils/interfaces/TreeMetadata';
+export type { default as UniqueMetadata } from './utils/interfaces/UniqueMetadata';
+export type { default as ViewMetadata } from './utils/interfaces/ViewMetadata';
 
 // Export classes for advanced usage
 export { EntityParser } from './parser/EntityParser';
-export { MetadataExtractor } from './parser/MetadataExtractor';
+export { DataSourceParser } from './parser/DataSourceParser';
+export { DBMLParser } from './parser/DBMLParser';
+export { MetadataExtractor } from './extractor/MetadataExtractor';
 export { DBMLGenerator } from './generator/DBMLGenerator';
+export { MermaidGenerator } from './generator/MermaidGenerator';
+export { PlantUmlGenerator } from './generator/PlantUmlGenerator';
+export { DotGenerator } from './generator/DotGenerator';
+export { RelationshipResolver } from './generator/RelationshipResolver';
+export { EntityGenerator } from './generator/EntityGenerator';
 export { ColumnExtractor } from './extractor/ColumnExtractor';
 export { RelationExtractor } from './extractor/RelationExtractor';
 export { ConstraintExtractor } from './extractor/ConstraintExtractor';
+export { EntitySchemaExtractor } from './extractor/EntitySchemaExtractor';
+export { ViewExtractor } from './extractor/ViewExtractor';
+export { TreeExtractor } from './extractor/TreeExtractor';
+export { InheritanceExtractor } from './extractor/InheritanceExtractor';
+export { EnumExtractor } from './extractor/EnumExtractor';
+export { StaticEvaluator } from './extractor/StaticEvaluator';
+export { DiagnosticCollector } from './utils/DiagnosticCollector';
+export { DefaultNamingStrategy } from './naming/DefaultNamingStrategy';
+export { SnakeNamingStrategy } from './naming/SnakeNamingStrategy';
+export { NamingStrategyLoader } from './naming/NamingStrategyLoader';
 export { TableGenerator } from './generator/TableGenerator';
 export { RelationGenerator } from './generator/RelationGenerator';
 export { TypeMapper } from './generator/TypeMapper';
+export { SchemaDiffer } from './diff/SchemaDiffer';
+export { DiffFormatter } from './diff/DiffFormatter';
+export { DBMLComparer } from './diff/DBMLComparer';
+export { SchemaNormalizer } from './diff/SchemaNormalizer';
+export { SchemaBuilder } from './database/SchemaBuilder';
+export { SqlDdlParser } from './database/SqlDdlParser';
+export { MigrationReplayer } from './database/MigrationReplayer';
+export { SqlDumpImporter } from './database/SqlDumpImporter';
+export { SchemaLinter } from './lint/SchemaLinter';
+export { LintFormatter } from './lint/LintFormatter';
@@ -0,0 +1,101 @@
+/**
+ * LintFormatter - Renders lint results as text for the terminal, JSON, or SARIF for code scanning tools
+ */
+
+import * as path from 'path';
+import Diagnostic from '../utils/interfaces/Diagnostic';
+import LintRule from '../utils/interfaces/LintRule';
+
+export class LintFormatter {
+    private static readonly FORMATS = ['text', 'json', 'sarif'];
+    private static readonly SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+
+    /**
+     * Render diagnostics in the given format; `rules` describes the rules in SARIF output
+     */
+    format(diagnostics: Diagnostic[], format = 'text', rules: LintRule[] = []): string {
+        switch (format) {
+            case 'text':
+                return this.formatText(diagnostics);
+            case 'json':
+                return JSON.stringify(diagnostics, null, 2);
+            case 'sarif':
+                return JSON.stringify(this.formatSarif(diagnostics, rules), null, 2);
+            default:
+                throw new Error(`Unknown lint format "${format}" (supported: ${LintFormatter.FORMATS.join(', ')})`);
+        }
+    }
+
+    /**
+     * One `file:line:column severity code message` line per diagnostic, followed by a summary
+     */
+    private formatText(diagnostics: Diagnostic[]): string {
+        if (diagnostics.length === 0) {
+            return 'No problems found';
+        }
+
+        const lines = diagnostics.map((d) => {
+            const location = d.file ? `${this.relativePath(d.file)}:${d.line}:${d.column} ` : '';
+            return `${location}${d.severity} ${d.code} ${d.message}`;
+        });
+
+        const errors = diagnostics.filter((d) => d.severity === 'error').length;
+        const warnings = diagnostics.length - errors;
+        lines.push(
+            '',
+            `${errors} ${errors === 1 ? 'error' : 'errors'}, ${warnings} ${warnings === 1 ? 'warning' : 'warnings'}`,
+        );
+
+        return lines.join('\n');
+    }
+
+    /**
+     * A SARIF 2.1.0 log with a single run
+     */
+    private formatSarif(diagnostics: Diagnostic[], rules: LintRule[]): object {
+        return {
+            $schema: LintFormatter.SARIF_SCHEMA,
+            version: '2.1.0',
+            runs: [
+                {
+                    tool: {
+                        driver: {
+                            name: 'typeorm-to-dbml',
+                            rules: rules.map((rule) => ({
+                                id: rule.name,
+                                shortDescription: { text: rule.description },
+                                defaultConfiguration: {
+                                    level: rule.defaultSeverity === 'off' ? 'none' : rule.defaultSeverity,
+                                },
+                            })),
+                        },
+                    },
+                    results: diagnostics.map((d) => ({
+                        ruleId: d.code,
+                        level: d.severity,
+                        message: { text: d.message },
+                        locations: d.file
+                            ? [
+                                  {
+                                      physicalLocation: {
+                                          artifactLocation: {
+                                              uri: this.relativePath(d.file).split(path.sep).join('/'),
+                                          },
+                                          region: { startLine: d.line, startColumn: d.column },
+                                      },
+                                  },
+                              ]
+                            : [],
+                    })),
+                },
+            ],
+        };
+    }
+
+    /**
+     * Get a path relative to the working directory
+     */
+    private relativePath(file: string): string {
+        return path.relative(process.cwd(), file);
+    }
+}
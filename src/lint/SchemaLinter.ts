@@ -0,0 +1,105 @@
+/**
+ * SchemaLinter - Checks the tables of a schema against database conventions
+ * Each rule has a configurable severity; an entity opts out of rules with a `@lint-ignore` JSDoc tag
+ */
+
+import DBMLSchema from '../utils/interfaces/DBMLSchema';
+import Diagnostic from '../utils/interfaces/Diagnostic';
+import LintOptions from '../utils/interfaces/LintOptions';
+import LintRule from '../utils/interfaces/LintRule';
+import { DiagnosticCollector } from '../utils/DiagnosticCollector';
+import { BoundedVarcharRule } from './rules/BoundedVarcharRule';
+import { IndexedForeignKeysRule } from './rules/IndexedForeignKeysRule';
+import { NamingConventionRule } from './rules/NamingConventionRule';
+import { NullableUniqueRule } from './rules/NullableUniqueRule';
+import { RequirePrimaryKeyRule } from './rules/RequirePrimaryKeyRule';
+import { SharedEnumRule } from './rules/SharedEnumRule';
+import { TableNotesRule } from './rules/TableNotesRule';
+
+type Severity = LintRule['defaultSeverity'];
+
+export class SchemaLinter {
+    private static readonly SEVERITIES: Severity[] = ['error', 'warning', 'off'];
+    private static readonly RULES: LintRule[] = [
+        new RequirePrimaryKeyRule(),
+        new IndexedForeignKeysRule(),
+        new BoundedVarcharRule(),
+        new NullableUniqueRule(),
+        new NamingConventionRule(),
+        new SharedEnumRule(),
+        new TableNotesRule(),
+    ];
+
+    private rules: LintRule[];
+    private settings: Map<string, { severity: Severity; options: Record<string, unknown> }>;
+    private diagnostics: DiagnosticCollector;
+
+    /**
+     * Violations are reported to `diagnostics`, located at the entities it extracted
+     * `rules` replaces the built-in rules, e.g. to add rules of your own to them
+     */
+    constructor(
+        options: LintOptions = {},
+        diagnostics: DiagnosticCollector = new DiagnosticCollector(),
+        rules: LintRule[] = SchemaLinter.RULES,
+    ) {
+        this.rules = rules;
+        this.diagnostics = diagnostics;
+        this.settings = new Map(rules.map((rule) => [rule.name, { severity: rule.defaultSeverity, options: {} }]));
+
+        for (const [name, setting] of Object.entries(options.rules ?? {})) {
+            const [severity, ruleOptions = {}] = Array.isArray(setting) ? setting : [setting];
+
+            if (!this.settings.has(name)) {
+                throw new Error(`Unknown lint rule "${name}" (available: ${rules.map((r) => r.name).join(', ')})`);
+            }
+            if (!SchemaLinter.SEVERITIES.includes(severity)) {
+                throw new Error(
+                    `Invalid severity "${severity}" for lint rule "${name}" (supported: ${SchemaLinter.SEVERITIES.join(', ')})`,
+                );
+            }
+
+            this.settings.set(name, { severity, options: ruleOptions });
+        }
+    }
+
+    /**
+     * Get the built-in rules
+     */
+    static getBuiltinRules(): LintRule[] {
+        return [...SchemaLinter.RULES];
+    }
+
+    /**
+     * Get the rules that are not turned off
+     */
+    getEnabledRules(): LintRule[] {
+        return this.rules.filter((rule) => this.settings.get(rule.name)!.severity !== 'off');
+    }
+
+    /**
+     * Check every table of the schema, returning all diagnostics reported so far
+     */
+    lint(schema: DBMLSchema): Diagnostic[] {
+        for (const entity of schema.entities) {
+            const ignored = entity.lintIgnore;
+
+            for (const rule of this.getEnabledRules()) {
+                if (ignored && (ignored.length === 0 || ignored.includes(rule.name))) {
+                    continue;
+                }
+
+                const { severity, options } = this.settings.get(rule.name)!;
+                for (const message of rule.check(entity, schema, options)) {
+                    if (severity === 'error') {
+                        this.diagnostics.error(rule.name, message, entity);
+                    } else {
+                        this.diagnostics.warning(rule.name, message, entity);
+                    }
+                }
+            }
+        }
+
+        return this.diagnostics.getDiagnostics();
+    }
+}
@@ -0,0 +1,20 @@
+/**
+ * BoundedVarcharRule - varchar columns state their length instead of relying on the database default
+ */
+
+import EntityMetadata from '../../utils/interfaces/EntityMetadata';
+import LintRule from '../../utils/interfaces/LintRule';
+
+export class BoundedVarcharRule implements LintRule {
+    private static readonly VARCHAR_TYPES = ['varchar', 'character varying', 'nvarchar', 'varchar2', 'nvarchar2'];
+
+    readonly name = 'bounded-varchar';
+    readonly description = 'varchar columns have a length';
+    readonly defaultSeverity = 'warning';
+
+    check(entity: EntityMetadata): string[] {
+        return entity.columns
+            .filter((c) => BoundedVarcharRule.VARCHAR_TYPES.includes(c.type) && !c.length)
+            .map((c) => `Column \`${entity.tableName}.${c.columnName}\` is a ${c.type} without a length`);
+    }
+}
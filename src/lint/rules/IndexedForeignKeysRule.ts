@@ -0,0 +1,40 @@
+/**
+ * IndexedForeignKeysRule - Foreign keys need an index, or joins and cascading deletes scan the whole table
+ * A foreign key is covered by the primary key, a unique constraint or an index starting with its columns
+ */
+
+import EntityMetadata from '../../utils/interfaces/EntityMetadata';
+import LintRule from '../../utils/interfaces/LintRule';
+
+export class IndexedForeignKeysRule implements LintRule {
+    readonly name = 'indexed-foreign-keys';
+    readonly description = 'Foreign key columns are covered by an index';
+    readonly defaultSeverity = 'warning';
+
+    check(entity: EntityMetadata): string[] {
+        const indexed = [
+            entity.columns.filter((c) => c.isPrimary).map((c) => c.columnName),
+            ...entity.columns.filter((c) => c.isUnique).map((c) => [c.columnName]),
+            ...entity.indexes.map((i) => i.columns),
+            ...entity.uniques.map((u) => u.columns),
+        ];
+
+        return entity.relations
+            .filter((r) => r.type === 'many-to-one' || r.type === 'one-to-one')
+            .map((r) => (r.joinColumns ?? []).map((c) => c.name).filter((name): name is string => !!name))
+            .filter((columns) => columns.length > 0)
+            .filter((columns) => !indexed.some((index) => this.startsWith(index, columns)))
+            .map((columns) => {
+                const key = columns.length === 1 ? columns[0] : `(${columns.join(', ')})`;
+                return `Foreign key \`${entity.tableName}.${key}\` is not covered by an index`;
+            });
+    }
+
+    /**
+     * Check if the leading columns of an index are the columns of the foreign key, in any order
+     */
+    private startsWith(index: string[], columns: string[]): boolean {
+        const leading = index.slice(0, columns.length);
+        return leading.length === columns.length && columns.every((c) => leading.includes(c));
+    }
+}
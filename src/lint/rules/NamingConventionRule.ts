@@ -0,0 +1,52 @@
+/**
+ * NamingConventionRule - Table and column names follow a naming convention
+ * Options: `{ tables: 'snake_case', columns: 'camelCase' }`, matching TypeORM's default naming strategy
+ */
+
+import DBMLSchema from '../../utils/interfaces/DBMLSchema';
+import EntityMetadata from '../../utils/interfaces/EntityMetadata';
+import LintRule from '../../utils/interfaces/LintRule';
+
+export class NamingConventionRule implements LintRule {
+    private static readonly CONVENTIONS: Record<string, RegExp> = {
+        snake_case: /^[a-z][a-z0-9]*(_[a-z0-9]+)*$/,
+        camelCase: /^[a-z][a-zA-Z0-9]*$/,
+        PascalCase: /^[A-Z][a-zA-Z0-9]*$/,
+        UPPER_CASE: /^[A-Z][A-Z0-9]*(_[A-Z0-9]+)*$/,
+    };
+
+    readonly name = 'naming-convention';
+    readonly description = 'Table and column names follow the naming convention';
+    readonly defaultSeverity = 'warning';
+
+    check(entity: EntityMetadata, _schema: DBMLSchema, options: Record<string, unknown>): string[] {
+        const tables = this.getConvention(options.tables ?? 'snake_case');
+        const columns = this.getConvention(options.columns ?? 'camelCase');
+        const messages: string[] = [];
+
+        if (!NamingConventionRule.CONVENTIONS[tables].test(entity.tableName)) {
+            messages.push(`Table name \`${entity.tableName}\` is not ${tables}`);
+        }
+
+        for (const column of entity.columns) {
+            if (!NamingConventionRule.CONVENTIONS[columns].test(column.columnName)) {
+                messages.push(`Column name \`${entity.tableName}.${column.columnName}\` is not ${columns}`);
+            }
+        }
+
+        return messages;
+    }
+
+    /**
+     * Validate a convention option
+     */
+    private getConvention(convention: unknown): string {
+        if (typeof convention !== 'string' || !NamingConventionRule.CONVENTIONS[convention]) {
+            throw new Error(
+                `Unknown naming convention "${convention}" (supported: ${Object.keys(NamingConventionRule.CONVENTIONS).join(', ')})`,
+            );
+        }
+
+        return convention;
+    }
+}
@@ -0,0 +1,26 @@
+/**
+ * NullableUniqueRule - Unique columns are not nullable, as NULLs never conflict and slip past the constraint
+ */
+
+import EntityMetadata from '../../utils/interfaces/EntityMetadata';
+import LintRule from '../../utils/interfaces/LintRule';
+
+export class NullableUniqueRule implements LintRule {
+    readonly name = 'nullable-unique';
+    readonly description = 'Unique columns are not nullable';
+    readonly defaultSeverity = 'warning';
+
+    check(entity: EntityMetadata): string[] {
+        // Unique columns and single-column @Unique constraints or unique indexes
+        const unique = new Set([
+            ...entity.columns.filter((c) => c.isUnique).map((c) => c.columnName),
+            ...[...entity.uniques, ...entity.indexes.filter((i) => i.isUnique)]
+                .filter((u) => u.columns.length === 1)
+                .map((u) => u.columns[0]),
+        ]);
+
+        return entity.columns
+            .filter((c) => unique.has(c.columnName) && c.isNullable && !c.isPrimary)
+            .map((c) => `Unique column \`${entity.tableName}.${c.columnName}\` is nullable`);
+    }
+}
@@ -0,0 +1,16 @@
+/**
+ * RequirePrimaryKeyRule - Tables need a primary key to identify their rows
+ */
+
+import EntityMetadata from '../../utils/interfaces/EntityMetadata';
+import LintRule from '../../utils/interfaces/LintRule';
+
+export class RequirePrimaryKeyRule implements LintRule {
+    readonly name = 'require-primary-key';
+    readonly description = 'Tables have a primary key';
+    readonly defaultSeverity = 'error';
+
+    check(entity: EntityMetadata): string[] {
+        return entity.columns.some((c) => c.isPrimary) ? [] : [`Table \`${entity.tableName}\` has no primary key`];
+    }
+}
@@ -0,0 +1,22 @@
+/**
+ * SharedEnumRule - Enum columns name their enum type with `enumName` so that other columns can share it,
+ * rather than getting a type of their own per column (`<table>_<column>_enum`)
+ */
+
+import EntityMetadata from '../../utils/interfaces/EntityMetadata';
+import LintRule from '../../utils/interfaces/LintRule';
+
+export class SharedEnumRule implements LintRule {
+    readonly name = 'shared-enum';
+    readonly description = 'Enum columns name a shareable enum type with `enumName`';
+    readonly defaultSeverity = 'warning';
+
+    check(entity: EntityMetadata): string[] {
+        return entity.columns
+            .filter((c) => c.enumValues && !c.isNamedEnum)
+            .map(
+                (c) =>
+                    `Enum column \`${entity.tableName}.${c.columnName}\` gets an enum type of its own; set \`enumName\` to share one`,
+            );
+    }
+}
@@ -0,0 +1,16 @@
+/**
+ * TableNotesRule - Tables are documented with a JSDoc comment or the `comment` option
+ */
+
+import EntityMetadata from '../../utils/interfaces/EntityMetadata';
+import LintRule from '../../utils/interfaces/LintRule';
+
+export class TableNotesRule implements LintRule {
+    readonly name = 'table-notes';
+    readonly description = 'Tables have a note';
+    readonly defaultSeverity = 'warning';
+
+    check(entity: EntityMetadata): string[] {
+        return entity.note?.trim() ? [] : [`Table \`${entity.tableName}\` has no note`];
+    }
+}
@@ -0,0 +1,73 @@
+/**
+ * DefaultNamingStrategy - TypeORM's DefaultNamingStrategy
+ * snake_case tables, columns named after their properties, camelCase join columns
+ */
+
+import NamingStrategy from '../utils/interfaces/NamingStrategy';
+import { camelCase, snakeCase, titleCase } from '../utils/StringUtils';
+
+export class DefaultNamingStrategy implements NamingStrategy {
+    name = 'typeorm';
+    materializedPathColumnName = 'mpath';
+    nestedSetColumnNames = { left: 'nsleft', right: 'nsright' };
+
+    /**
+     * Table name of an entity: the given name or the snake_cased class name
+     */
+    tableName(targetName: string, userSpecifiedName: string | undefined): string {
+        return userSpecifiedName ? userSpecifiedName : snakeCase(targetName);
+    }
+
+    /**
+     * Table holding the ancestor/descendant pairs of a closure-table tree
+     */
+    closureJunctionTableName(originalClosureTableName: string): string {
+        return originalClosureTableName + '_closure';
+    }
+
+    /**
+     * Column name of a property; embedded columns are prefixed in camelCase (addressCity)
+     */
+    columnName(propertyName: string, customName: string | undefined, embeddedPrefixes: string[]): string {
+        const name = customName || propertyName;
+
+        if (embeddedPrefixes.length) {
+            return camelCase(embeddedPrefixes.join('_')) + titleCase(name);
+        }
+
+        return name;
+    }
+
+    /**
+     * Foreign key column of a relation (authorId)
+     */
+    joinColumnName(relationName: string, referencedColumnName: string): string {
+        return camelCase(relationName + '_' + referencedColumnName);
+    }
+
+    /**
+     * Join table of a many-to-many relation (user_posts_post)
+     */
+    joinTableName(
+        firstTableName: string,
+        secondTableName: string,
+        firstPropertyName: string,
+        _secondPropertyName: string,
+    ): string {
+        return snakeCase(firstTableName + '_' + firstPropertyName.replace(/\./gi, '_') + '_' + secondTableName);
+    }
+
+    /**
+     * Join table column referencing the owning side (userId)
+     */
+    joinTableColumnName(tableName: string, propertyName: string, columnName?: string): string {
+        return camelCase(tableName + '_' + (columnName ? columnName : propertyName));
+    }
+
+    /**
+     * Join table column referencing the inverse side (postId)
+     */
+    joinTableInverseColumnName(tableName: string, propertyName: string, columnName?: string): string {
+        return this.joinTableColumnName(tableName, propertyName, columnName);
+    }
+}
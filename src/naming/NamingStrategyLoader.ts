@@ -0,0 +1,140 @@
+/**
+ * NamingStrategyLoader - Resolves the naming strategy from config
+ * Accepts a built-in name, a module exporting a strategy class, or a strategy instance
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import NamingStrategy from '../utils/interfaces/NamingStrategy';
+import NamingStrategyConfig from '../utils/interfaces/NamingStrategyConfig';
+import { DefaultNamingStrategy } from './DefaultNamingStrategy';
+import { SnakeNamingStrategy } from './SnakeNamingStrategy';
+
+type NamingStrategyClass = new () => Partial<NamingStrategy>;
+
+export class NamingStrategyLoader {
+    private static readonly BUILT_IN: Record<string, () => NamingStrategy> = {
+        typeorm: () => new DefaultNamingStrategy(),
+        default: () => new DefaultNamingStrategy(),
+        snake: () => new SnakeNamingStrategy(),
+    };
+
+    /**
+     * Resolve a naming strategy, defaulting to TypeORM's DefaultNamingStrategy
+     */
+    load(option?: string | NamingStrategyConfig | Partial<NamingStrategy>): NamingStrategy {
+        if (!option) {
+            return new DefaultNamingStrategy();
+        }
+
+        if (typeof option === 'string') {
+            const builtIn = NamingStrategyLoader.BUILT_IN[option];
+            return builtIn ? builtIn() : this.loadFromModule({ path: option });
+        }
+
+        if (this.isModuleConfig(option)) {
+            return this.loadFromModule(option);
+        }
+
+        return this.withFallbacks(option);
+    }
+
+    /**
+     * Instantiate a strategy class exported from a project module
+     */
+    private loadFromModule(config: NamingStrategyConfig): NamingStrategy {
+        const modulePath = path.resolve(config.path);
+        if (!fs.existsSync(modulePath)) {
+            throw new Error(
+                `Naming strategy "${config.path}" is neither a built-in strategy ` +
+                    `(${Object.keys(NamingStrategyLoader.BUILT_IN).join(', ')}) nor an existing file`,
+            );
+        }
+
+        if (/\.[cm]?ts$/.test(modulePath)) {
+            this.registerTypeScript();
+        }
+
+        const exports: Record<string, unknown> = require(modulePath);
+        const strategyClass = this.findStrategyClass(exports, config.name);
+
+        if (!strategyClass) {
+            throw new Error(
+                config.name
+                    ? `Export "${config.name}" of ${config.path} is not a naming strategy class`
+                    : `No naming strategy class exported from ${config.path}`,
+            );
+        }
+
+        return this.withFallbacks(new strategyClass());
+    }
+
+    /**
+     * Pick the strategy class: the named export, the default export, or the only exported class
+     */
+    private findStrategyClass(exports: Record<string, unknown>, name?: string): NamingStrategyClass | undefined {
+        const isClass = (value: unknown): value is NamingStrategyClass =>
+            typeof value === 'function' && !!value.prototype;
+
+        if (name) {
+            return isClass(exports[name]) ? exports[name] : undefined;
+        }
+
+        if (isClass(exports.default)) {
+            return exports.default;
+        }
+
+        const classes = Object.values(exports).filter(isClass);
+        return classes.length === 1 ? classes[0] : undefined;
+    }
+
+    /**
+     * Fill members a custom strategy does not implement from the TypeORM default,
+     * as strategies usually extend DefaultNamingStrategy and override only a few methods
+     */
+    private withFallbacks(strategy: Partial<NamingStrategy>): NamingStrategy {
+        const fallback = new DefaultNamingStrategy();
+        const pick = <K extends keyof NamingStrategy>(key: K): NamingStrategy[K] => {
+            const member = strategy[key];
+            if (typeof member === 'function') {
+                return member.bind(strategy) as NamingStrategy[K];
+            }
+            return (member ?? fallback[key]) as NamingStrategy[K];
+        };
+
+        return {
+            name: strategy.name,
+            materializedPathColumnName: pick('materializedPathColumnName'),
+            nestedSetColumnNames: pick('nestedSetColumnNames'),
+            tableName: pick('tableName'),
+            closureJunctionTableName: pick('closureJunctionTableName'),
+            columnName: pick('columnName'),
+            joinColumnName: pick('joinColumnName'),
+            joinTableName: pick('joinTableName'),
+            joinTableColumnName: pick('joinTableColumnName'),
+            joinTableInverseColumnName: pick('joinTableInverseColumnName'),
+        };
+    }
+
+    /**
+     * Let `require` load TypeScript strategy files through ts-node, when available
+     */
+    private registerTypeScript(): void {
+        if ((process as unknown as Record<symbol, unknown>)[Symbol.for('ts-node.register.instance')]) {
+            return;
+        }
+
+        try {
+            require('ts-node').register({ transpileOnly: true });
+        } catch {
+            throw new Error('Loading a TypeScript naming strategy requires ts-node to be installed');
+        }
+    }
+
+    /**
+     * Check for a `{ path, name }` module reference, as opposed to a strategy instance
+     */
+    private isModuleConfig(option: NamingStrategyConfig | Partial<NamingStrategy>): option is NamingStrategyConfig {
+        return typeof (option as NamingStrategyConfig).path === 'string';
+    }
+}
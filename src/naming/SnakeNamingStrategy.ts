@@ -0,0 +1,38 @@
+/**
+ * SnakeNamingStrategy - snake_case for every identifier, with pluralized table names
+ */
+
+import { pluralize, snakeCase } from '../utils/StringUtils';
+import { DefaultNamingStrategy } from './DefaultNamingStrategy';
+
+export class SnakeNamingStrategy extends DefaultNamingStrategy {
+    name = 'snake';
+
+    /**
+     * Table name of an entity: the given name or the pluralized snake_case class name (user_profiles)
+     */
+    tableName(targetName: string, userSpecifiedName: string | undefined): string {
+        return userSpecifiedName ? userSpecifiedName : pluralize(snakeCase(targetName));
+    }
+
+    /**
+     * Column name of a property; embedded columns are prefixed in snake_case (address_city)
+     */
+    columnName(propertyName: string, customName: string | undefined, embeddedPrefixes: string[]): string {
+        return snakeCase(embeddedPrefixes.concat('').join('_')) + (customName ? customName : snakeCase(propertyName));
+    }
+
+    /**
+     * Foreign key column of a relation (author_id)
+     */
+    joinColumnName(relationName: string, referencedColumnName: string): string {
+        return snakeCase(relationName + '_' + referencedColumnName);
+    }
+
+    /**
+     * Join table column referencing the owning side (user_id)
+     */
+    joinTableColumnName(tableName: string, propertyName: string, columnName?: string): string {
+        return snakeCase(tableName + '_' + (columnName ? columnName : propertyName));
+    }
+}
@@ -0,0 +1,1010 @@
+/**
+ * DBMLParser - Reads DBML back into schema metadata, the reverse of DBMLGenerator
+ * Tables, enums, indexes, checks, notes and refs are read from hand-written DBML as well as generated DBML;
+ * the join tables and views DBMLGenerator writes become many-to-many relations and views again
+ */
+
+import { SqlDdlParser } from '../database/SqlDdlParser';
+import { TypeMapper } from '../generator/TypeMapper';
+import { DiagnosticCollector } from '../utils/DiagnosticCollector';
+import CheckMetadata from '../utils/interfaces/CheckMetadata';
+import ColumnMetadata from '../utils/interfaces/ColumnMetadata';
+import DBMLSchema from '../utils/interfaces/DBMLSchema';
+import EntityMetadata from '../utils/interfaces/EntityMetadata';
+import EnumMetadata from '../utils/interfaces/EnumMetadata';
+import GeneratorOptions from '../utils/interfaces/GeneratorOptions';
+import IndexMetadata from '../utils/interfaces/IndexMetadata';
+import JoinColumnMetadata from '../utils/interfaces/JoinColumnMetadata';
+import JoinTableEntity from '../utils/interfaces/JoinTableEntity';
+import RelationMetadata from '../utils/interfaces/RelationMetadata';
+import ViewMetadata from '../utils/interfaces/ViewMetadata';
+
+type DatabaseType = NonNullable<GeneratorOptions['databaseType']>;
+
+type Token = {
+    kind: 'word' | 'quoted' | 'string' | 'expression' | 'number' | 'symbol' | 'newline';
+    value: string;
+    line: number;
+    column: number;
+    start: number;
+    end: number;
+};
+
+// Table and columns on one side of a ref
+type Endpoint = { schema?: string; table: string; columns: string[] };
+
+// Ref between two tables, `<` turned around into `>`; `name` is the name it was declared with
+type Ref = {
+    from: Endpoint;
+    to: Endpoint;
+    operator: '>' | '-' | '<>';
+    name?: string;
+    actions: Pick<RelationMetadata, 'onDelete' | 'onUpdate'>;
+};
+
+// Entry of a `[...]` settings list: `not null`, `default: 'a'` or `ref: > users.id`
+type Setting = { name: string; value: Token[]; ref?: Pick<Ref, 'operator' | 'to'> };
+
+// Table as read, before its refs and type references are resolved
+type Table = { entity: EntityMetadata; alias?: string; headerColor?: string; types: Map<ColumnMetadata, string> };
+
+export class DBMLParser {
+    // Header color DBMLGenerator marks views with
+    private static readonly VIEW_HEADER_COLOR = '#7F8C8D';
+
+    // Referential actions of ref settings
+    private static readonly ACTIONS: Record<string, RelationMetadata['onDelete']> = {
+        'cascade': 'CASCADE',
+        'set null': 'SET NULL',
+        'set default': 'SET DEFAULT',
+        'restrict': 'RESTRICT',
+        'no action': 'NO ACTION',
+    };
+
+    private diagnostics: DiagnosticCollector;
+    private sqlParser = new SqlDdlParser();
+    private dbml = '';
+    private file?: string;
+    private tokens: Token[] = [];
+    private position = 0;
+
+    constructor(diagnostics: DiagnosticCollector = new DiagnosticCollector()) {
+        this.diagnostics = diagnostics;
+    }
+
+    /**
+     * Read the schema of a DBML text, along with the database type of its Project
+     * `file` locates syntax errors and the elements that were skipped
+     */
+    parse(dbml: string, file?: string): { schema: DBMLSchema; databaseType?: DatabaseType } {
+        this.dbml = dbml;
+        this.file = file;
+        this.tokens = this.tokenize(dbml);
+        this.position = 0;
+
+        const tables: Table[] = [];
+        const enums: EnumMetadata[] = [];
+        const refs: Ref[] = [];
+        let databaseType: DatabaseType | undefined;
+
+        while (this.skipNewlines()) {
+            const keyword = this.next();
+
+            switch (keyword.kind === 'word' ? keyword.value.toLowerCase() : '') {
+                case 'project':
+                    databaseType = this.parseProject();
+                    break;
+                case 'enum':
+                    enums.push(this.parseEnum());
+                    break;
+                case 'table':
+                    tables.push(this.parseTable(refs));
+                    break;
+                case 'ref':
+                    refs.push(...this.parseRefs());
+                    break;
+                case 'tablegroup':
+                case 'note':
+                    this.skipElement();
+                    break;
+                default:
+                    this.diagnostics.warning(
+                        'unsupported-dbml',
+                        `\`${keyword.value}\` is not read from DBML; it was skipped`,
+                        this.locate(keyword),
+                    );
+                    this.skipElement();
+            }
+        }
+
+        for (const table of tables) {
+            this.linkEnums(table, enums);
+        }
+
+        return { schema: this.buildSchema(tables, enums, refs), databaseType };
+    }
+
+    /**
+     * Project name { database_type: 'PostgreSQL' ... }
+     */
+    private parseProject(): DatabaseType | undefined {
+        let databaseType: DatabaseType | undefined;
+        if (!this.isSymbol(this.peek(), '{')) {
+            this.parseName();
+        }
+        this.expect('{');
+
+        while (!this.acceptBlockEnd()) {
+            const key = this.next();
+            if (!this.accept(':')) {
+                continue;
+            }
+
+            const value = this.next();
+            if (this.isWord(key, 'database_type')) {
+                databaseType = TypeMapper.fromDatabaseName(value.value);
+                if (!databaseType) {
+                    this.diagnostics.warning(
+                        'unsupported-database-type',
+                        `Database type "${value.value}" has no DBML dialect; PostgreSQL types are assumed`,
+                        this.locate(value),
+                    );
+                }
+            }
+        }
+
+        return databaseType;
+    }
+
+    /**
+     * Enum [schema.]name { value [note: '...'] ... }
+     */
+    private parseEnum(): EnumMetadata {
+        const [name, schema] = this.parseQualifiedName().reverse();
+        const values: string[] = [];
+        const valueNotes: Record<string, string> = {};
+        this.expect('{');
+
+        while (!this.acceptBlockEnd()) {
+            const value = this.parseName();
+            const note = this.getSetting(this.parseSettings(), 'note');
+
+            values.push(value);
+            if (note) {
+                valueNotes[value] = note;
+            }
+        }
+
+        return { name, schema, values, valueNotes: Object.keys(valueNotes).length > 0 ? valueNotes : undefined };
+    }
+
+    /**
+     * Table [schema.]name [as alias] [settings] { columns, Indexes { ... }, checks { ... }, Note: '...' }
+     * Column refs (`ref: > users.id`) are added to `refs`
+     */
+    private parseTable(refs: Ref[]): Table {
+        const [name, qualifiedSchema] = this.parseQualifiedName().reverse();
+        const alias = this.accept('as') ? this.parseName() : undefined;
+        const settings = this.parseSettings();
+
+        const entity: EntityMetadata = {
+            name,
+            tableName: name,
+            schema: this.getSetting(settings, 'schema') ?? qualifiedSchema,
+            columns: [],
+            relations: [],
+            indexes: [],
+            uniques: [],
+            checks: [],
+            note: this.getSetting(settings, 'note'),
+        };
+        const table: Table = { entity, alias, headerColor: this.getSetting(settings, 'headercolor'), types: new Map() };
+        this.expect('{');
+
+        while (!this.acceptBlockEnd()) {
+            if (this.isWord(this.peek(), 'indexes') && this.isSymbol(this.peek(1), '{')) {
+                this.next();
+                this.parseIndexes(entity);
+            } else if (this.isWord(this.peek(), 'checks') && this.isSymbol(this.peek(1), '{')) {
+                this.next();
+                this.parseChecks(entity);
+            } else if (this.isWord(this.peek(), 'note') && ['{', ':'].includes(this.peek(1)?.value ?? '')) {
+                this.next();
+                entity.note = this.parseNote();
+            } else {
+                this.parseColumn(table, refs);
+            }
+        }
+
+        return table;
+    }
+
+    /**
+     * name type [settings]; the type runs to the settings or the end of the line
+     */
+    private parseColumn(table: Table, refs: Ref[]): void {
+        const name = this.parseName();
+        const typeTokens: Token[] = [];
+        // Array types end in `[]`, settings start with `[`
+        const isTypeEnd = (token?: Token) =>
+            !token ||
+            token.kind === 'newline' ||
+            this.isSymbol(token, '}') ||
+            (this.isSymbol(token, '[') && !this.isSymbol(this.peek(1), ']'));
+        while (!isTypeEnd(this.peek())) {
+            typeTokens.push(this.next());
+        }
+        if (typeTokens.length === 0) {
+            throw this.error(`Expected the type of column "${name}"`, this.peek());
+        }
+
+        const type = ['quoted', 'string'].includes(typeTokens[0].kind)
+            ? typeTokens[0].value
+            : this.dbml.slice(typeTokens[0].start, typeTokens[typeTokens.length - 1].end);
+
+        const column: ColumnMetadata = {
+            propertyName: name,
+            columnName: name,
+            isPrimary: false,
+            isNullable: true,
+            isUnique: false,
+            ...this.parseColumnType(type),
+        };
+        table.types.set(column, type);
+
+        for (const setting of this.parseSettings()) {
+            switch (setting.name) {
+                case 'pk':
+                case 'primary key':
+                    column.isPrimary = true;
+                    column.isNullable = false;
+                    break;
+                case 'increment':
+                    column.isGenerated = true;
+                    column.generationStrategy = 'increment';
+                    break;
+                case 'unique':
+                    column.isUnique = true;
+                    break;
+                case 'not null':
+                    column.isNullable = false;
+                    break;
+                case 'null':
+                    column.isNullable = true;
+                    break;
+                case 'default':
+                    Object.assign(column, this.parseDefault(setting.value));
+                    break;
+                case 'note':
+                    Object.assign(column, this.parseColumnNote(this.getText(setting.value)));
+                    break;
+                case 'ref':
+                    refs.push({
+                        from: { schema: table.entity.schema, table: table.entity.tableName, columns: [name] },
+                        ...setting.ref!,
+                        actions: {},
+                    });
+                    break;
+                default:
+                    this.warnSetting(setting, `column \`${table.entity.tableName}.${name}\``);
+            }
+        }
+
+        table.entity.columns.push(column);
+    }
+
+    /**
+     * Read a type as the database writes it; types naming an enum are linked once all enums are read
+     * Arguments that are not sizes, as in `nvarchar(max)`, stay part of the type
+     */
+    private parseColumnType(
+        type: string,
+    ): Pick<
+        ColumnMetadata,
+        'type' | 'length' | 'precision' | 'scale' | 'isArray' | 'isGenerated' | 'generationStrategy'
+    > {
+        const { isSerial, ...columnType } = this.sqlParser.parseType(type);
+        const args = type.match(/\(([^)]*)\)/)?.[1].split(',') ?? [];
+
+        if (args.some((arg) => isNaN(Number(arg)))) {
+            columnType.type = type.toLowerCase().replace(/\s+/g, ' ');
+        }
+
+        return { ...columnType, isGenerated: !!isSerial, generationStrategy: isSerial ? 'increment' : undefined };
+    }
+
+    /**
+     * Read a default value: 'text', a number, true/false/null, or an `expression`
+     * Sequences and uuid functions make the column generated, as for SQL defaults
+     */
+    private parseDefault(
+        tokens: Token[],
+    ): Partial<Pick<ColumnMetadata, 'default' | 'isDefaultExpression' | 'isGenerated' | 'generationStrategy'>> {
+        const [token] = tokens;
+        if (tokens.length !== 1) {
+            return { default: this.getText(tokens) };
+        }
+
+        if (token.kind === 'expression') {
+            return this.sqlParser.parseDefault(token.value);
+        }
+        if (this.isWord(token, 'null')) {
+            return { default: undefined };
+        }
+        return { default: this.isWord(token, 'true', 'false') ? token.value.toLowerCase() : token.value };
+    }
+
+    /**
+     * Split a column note into its comment and the relation DBMLGenerator notes an implicit foreign key of
+     */
+    private parseColumnNote(note: string): Pick<ColumnMetadata, 'comment' | 'foreignKeyOf'> {
+        const match = note.match(/^(?:([\s\S]*) - )?Foreign key of (\S+ -> \S+)$/);
+        return match ? { comment: match[1], foreignKeyOf: match[2] } : { comment: note };
+    }
+
+    /**
+     * Indexes { column [settings], (a, b) [settings] }; `pk` indexes are the primary key of the table
+     */
+    private parseIndexes(entity: EntityMetadata): void {
+        this.expect('{');
+
+        while (!this.acceptBlockEnd()) {
+            const start = this.peek()!;
+            const columns = this.isSymbol(start, '(')
+                ? this.parseList(() => this.parseIndexColumn())
+                : [this.parseIndexColumn()];
+            const settings = this.parseSettings();
+            const name = this.getSetting(settings, 'name');
+
+            if (columns.some((column) => column === undefined)) {
+                this.diagnostics.warning(
+                    'unsupported-dbml',
+                    `Expression indexes of \`${entity.tableName}\` are not read from DBML; the index was skipped`,
+                    this.locate(start),
+                );
+                continue;
+            }
+
+            if (settings.some((s) => s.name === 'pk')) {
+                for (const column of entity.columns.filter((c) => columns.includes(c.columnName))) {
+                    column.isPrimary = true;
+                    column.isNullable = false;
+                    column.primaryKeyConstraintName = name;
+                }
+                continue;
+            }
+
+            const type = this.getSetting(settings, 'type')?.toLowerCase();
+            const index: IndexMetadata = {
+                name,
+                columns: columns as string[],
+                isUnique: settings.some((s) => s.name === 'unique'),
+                type: ['btree', 'hash', 'gist', 'gin'].includes(type ?? '')
+                    ? (type as IndexMetadata['type'])
+                    : undefined,
+                where: this.getSetting(settings, 'where'),
+            };
+            entity.indexes.push(index);
+        }
+    }
+
+    /**
+     * Get a column of an index; expressions, which are not columns, are undefined
+     */
+    private parseIndexColumn(): string | undefined {
+        if (this.peek()?.kind === 'expression') {
+            this.next();
+            return undefined;
+        }
+        return this.parseName();
+    }
+
+    /**
+     * checks { `expression` [name: '...'] }
+     */
+    private parseChecks(entity: EntityMetadata): void {
+        this.expect('{');
+
+        while (!this.acceptBlockEnd()) {
+            const expression = this.next();
+            if (expression.kind !== 'expression') {
+                throw this.error(`Expected a check expression but found "${expression.value}"`, expression);
+            }
+
+            const check: CheckMetadata = { expression: expression.value };
+            check.name = this.getSetting(this.parseSettings(), 'name');
+            entity.checks.push(check);
+        }
+    }
+
+    /**
+     * Note: '...' or Note { '...' }
+     */
+    private parseNote(): string {
+        if (this.accept(':')) {
+            return this.next().value;
+        }
+
+        this.expect('{');
+        this.skipNewlines();
+        const note = this.next().value;
+        if (!this.acceptBlockEnd()) {
+            throw this.error('Expected "}" after the note', this.peek());
+        }
+        return note;
+    }
+
+    /**
+     * Ref [name]: a.b > c.d [settings], or Ref [name] { ... } holding several
+     */
+    private parseRefs(): Ref[] {
+        const name = this.isSymbol(this.peek(), ':') || this.isSymbol(this.peek(), '{') ? undefined : this.parseName();
+
+        if (this.accept(':')) {
+            return [this.parseRef(name)];
+        }
+
+        const refs: Ref[] = [];
+        this.expect('{');
+        while (!this.acceptBlockEnd()) {
+            refs.push(this.parseRef(name));
+        }
+        return refs;
+    }
+
+    /**
+     * endpoint operator endpoint [delete: cascade, update: ...]
+     */
+    private parseRef(name?: string): Ref {
+        const from = this.parseEndpoint();
+        const operator = this.parseOperator();
+        const to = this.parseEndpoint();
+        const settings = this.parseSettings();
+
+        const actions: Ref['actions'] = {};
+        for (const setting of settings) {
+            if (setting.name === 'delete' || setting.name === 'update') {
+                const action = this.getText(setting.value).toLowerCase();
+                if (!DBMLParser.ACTIONS[action]) {
+                    throw this.error(`Unknown referential action "${action}"`, setting.value[0]);
+                }
+                actions[setting.name === 'delete' ? 'onDelete' : 'onUpdate'] = DBMLParser.ACTIONS[action];
+            } else {
+                this.warnSetting(setting, 'a ref');
+            }
+        }
+
+        return operator === '<'
+            ? { from: to, to: from, operator: '>', name, actions }
+            : { from, to, operator, name, actions };
+    }
+
+    /**
+     * [schema.]table.column or [schema.]table.(column, ...)
+     */
+    private parseEndpoint(): Endpoint {
+        const names = [this.parseName()];
+        let columns: string[] | undefined;
+
+        while (!columns && this.accept('.')) {
+            if (this.isSymbol(this.peek(), '(')) {
+                columns = this.parseList(() => this.parseName());
+            } else {
+                names.push(this.parseName());
+            }
+        }
+        if (!columns) {
+            if (names.length < 2) {
+                throw this.error(`Expected table.column but found "${names[0]}"`, this.peek(-1));
+            }
+            columns = [names.pop()!];
+        }
+
+        const [table, schema] = names.reverse();
+        return { schema, table, columns };
+    }
+
+    /**
+     * One of the ref operators: > (many-to-one), < (one-to-many), - (one-to-one) or <> (many-to-many)
+     */
+    private parseOperator(): '>' | '<' | '-' | '<>' {
+        const token = this.next();
+        if (token.kind !== 'symbol' || !['>', '<', '-', '<>'].includes(token.value)) {
+            throw this.error(`Expected a ref operator (>, <, - or <>) but found "${token.value}"`, token);
+        }
+        return token.value as '>' | '<' | '-' | '<>';
+    }
+
+    /**
+     * [setting, name: value, ...]; names of several words are joined (`not null`, `primary key`)
+     */
+    private parseSettings(): Setting[] {
+        if (!this.accept('[')) {
+            return [];
+        }
+
+        const settings: Setting[] = [];
+        while (!this.accept(']')) {
+            this.skipNewlines();
+            const words: string[] = [];
+            while (this.peek()?.kind === 'word') {
+                words.push(this.next().value.toLowerCase());
+            }
+            if (words.length === 0) {
+                throw this.error(`Expected a setting but found "${this.peek()?.value ?? 'end of file'}"`, this.peek());
+            }
+
+            const setting: Setting = { name: words.join(' '), value: [] };
+            if (this.accept(':')) {
+                if (setting.name === 'ref') {
+                    const operator = this.parseOperator();
+                    const to = this.parseEndpoint();
+                    setting.ref = operator === '<' ? { operator: '>', to } : { operator, to };
+                } else {
+                    while (!this.atEnd() && !this.isSymbol(this.peek(), ',') && !this.isSymbol(this.peek(), ']')) {
+                        setting.value.push(this.next());
+                    }
+                }
+            }
+            settings.push(setting);
+
+            this.skipNewlines();
+            if (!this.accept(',') && !this.isSymbol(this.peek(), ']')) {
+                throw this.error(`Expected "," or "]" but found "${this.peek()?.value ?? 'end of file'}"`, this.peek());
+            }
+        }
+
+        return settings;
+    }
+
+    /**
+     * Get the text of a setting, if it was given
+     */
+    private getSetting(settings: Setting[], name: string): string | undefined {
+        const setting = settings.find((s) => s.name === name);
+        return setting ? this.getText(setting.value) : undefined;
+    }
+
+    /**
+     * Get the text of a value: a string, name or number as is, and words joined (`set null`)
+     */
+    private getText(tokens: Token[]): string {
+        return tokens.map((t) => t.value).join(' ');
+    }
+
+    /**
+     * Report a setting that has no metadata equivalent
+     */
+    private warnSetting(setting: Setting, of: string): void {
+        this.diagnostics.warning(
+            'unsupported-dbml',
+            `Setting \`${setting.name}\` of ${of} is not read from DBML and was ignored`,
+            this.locate(this.peek(-1)),
+        );
+    }
+
+    /**
+     * (item, item, ...)
+     */
+    private parseList<T>(parseItem: () => T): T[] {
+        const items: T[] = [];
+        this.expect('(');
+        do {
+            items.push(parseItem());
+        } while (this.accept(','));
+        this.expect(')');
+        return items;
+    }
+
+    /**
+     * name(.name)*
+     */
+    private parseQualifiedName(): string[] {
+        const names = [this.parseName()];
+        while (this.accept('.')) {
+            names.push(this.parseName());
+        }
+        return names;
+    }
+
+    /**
+     * A name: a word, a "quoted name", a number (enum values) or a 'string'
+     */
+    private parseName(): string {
+        const token = this.next();
+        if (!['word', 'quoted', 'number', 'string'].includes(token.kind)) {
+            throw this.error(`Expected a name but found "${token.value}"`, token);
+        }
+        return token.value;
+    }
+
+    /**
+     * Link the columns typed with an enum to it, in the schema of their table unless qualified
+     */
+    private linkEnums(table: Table, enums: EnumMetadata[]): void {
+        for (const [column, type] of table.types) {
+            const name = type.replace(/\[\]$/, '');
+            const enumType =
+                enums.find((e) => (e.schema ? `${e.schema}.${e.name}` : e.name) === name) ??
+                enums.find((e) => e.name === name && e.schema === table.entity.schema);
+
+            if (enumType) {
+                Object.assign(column, {
+                    type: enumType.name,
+                    length: undefined,
+                    precision: undefined,
+                    scale: undefined,
+                    enumName: enumType.name,
+                    enumSchema: enumType.schema,
+                    enumValues: enumType.values,
+                    enumValueNotes: enumType.valueNotes,
+                    isArray: name !== type || undefined,
+                });
+            }
+        }
+    }
+
+    /**
+     * Turn the tables and refs into entities with their relations, join tables and views
+     */
+    private buildSchema(tables: Table[], enums: EnumMetadata[], refs: Ref[]): DBMLSchema {
+        const find = (endpoint: Endpoint): Table => {
+            const table =
+                tables.find((t) => t.alias === endpoint.table && !endpoint.schema) ??
+                tables.find(
+                    (t) =>
+                        t.entity.tableName === endpoint.table &&
+                        (!endpoint.schema || t.entity.schema === endpoint.schema),
+                );
+            if (!table) {
+                throw this.error(`Ref to unknown table "${endpoint.table}"`);
+            }
+            return table;
+        };
+
+        const views = tables.filter((t) => t.headerColor?.toUpperCase() === DBMLParser.VIEW_HEADER_COLOR);
+        const joinTables = tables.filter(
+            (t) =>
+                !views.includes(t) &&
+                this.isJoinTable(
+                    t.entity,
+                    refs.filter((r) => find(r.from) === t),
+                    refs.filter((r) => find(r.to) === t),
+                    find,
+                ),
+        );
+
+        for (const ref of refs) {
+            const from = find(ref.from);
+            const to = find(ref.to);
+            const pairs = (endpoint: Endpoint, referenced: Endpoint): JoinColumnMetadata[] =>
+                endpoint.columns.map((name, i) => ({ name, referencedColumnName: referenced.columns[i] }));
+
+            // The refs of a join table become one many-to-many relation of the table of its first ref
+            if (joinTables.includes(from)) {
+                const [owner, inverse] = refs.filter((r) => find(r.from) === from);
+                if (ref === owner) {
+                    const ownerTable = find(owner.to);
+                    ownerTable.entity.relations.push({
+                        propertyName: from.entity.tableName,
+                        type: 'many-to-many',
+                        target: find(inverse.to).entity.tableName,
+                        joinTable: {
+                            name: from.entity.tableName,
+                            schema: from.entity.schema !== ownerTable.entity.schema ? from.entity.schema : undefined,
+                            joinColumns: pairs(owner.from, owner.to),
+                            inverseJoinColumns: pairs(inverse.from, inverse.to),
+                        },
+                    });
+                }
+                continue;
+            }
+
+            if (ref.operator === '<>') {
+                from.entity.relations.push({
+                    propertyName: ref.name ?? to.entity.tableName,
+                    type: 'many-to-many',
+                    target: to.entity.tableName,
+                    joinTable: {},
+                });
+                continue;
+            }
+
+            const columns = ref.from.columns.map((name) => from.entity.columns.find((c) => c.columnName === name));
+            if (columns.some((column) => !column)) {
+                throw this.error(
+                    `Ref from unknown column of "${from.entity.tableName}": ${ref.from.columns.join(', ')}`,
+                );
+            }
+
+            // Foreign keys DBMLGenerator notes as implicit are named after their relation
+            const implicitOf = columns[0]!.foreignKeyOf?.split(' -> ')[0];
+            const isImplicit = columns.every((c) => c!.foreignKeyOf?.split(' -> ')[0] === implicitOf);
+
+            from.entity.relations.push({
+                propertyName: (isImplicit && implicitOf) || ref.name || ref.from.columns.join(', '),
+                type: ref.operator === '-' ? 'one-to-one' : 'many-to-one',
+                target: to.entity.tableName,
+                joinColumns: pairs(ref.from, ref.to),
+                ...ref.actions,
+                isNullable: columns.every((c) => c!.isNullable),
+            });
+        }
+
+        return {
+            entities: tables.filter((t) => !views.includes(t) && !joinTables.includes(t)).map((t) => t.entity),
+            enums,
+            joinTables: joinTables.map(({ entity }) => this.toJoinTable(entity)),
+            views: views.map(({ entity }) => this.toView(entity)),
+        };
+    }
+
+    /**
+     * Check if a table is a join table as MetadataExtractor builds them: two refs without actions,
+     * whose columns make up the primary key and have an index each, typed after the columns they reference
+     */
+    private isJoinTable(
+        entity: EntityMetadata,
+        outgoing: Ref[],
+        incoming: Ref[],
+        find: (e: Endpoint) => Table,
+    ): boolean {
+        if (outgoing.length !== 2 || incoming.length > 0 || entity.note || entity.checks.length > 0) {
+            return false;
+        }
+        if (outgoing.some((r) => r.operator !== '>' || r.actions.onDelete || r.actions.onUpdate)) {
+            return false;
+        }
+
+        const sides = outgoing.map((r) => r.from.columns.join('\n'));
+        const matchesType = (column: ColumnMetadata) =>
+            outgoing.some((ref) => {
+                const i = ref.from.columns.indexOf(column.columnName);
+                const referenced = find(ref.to).entity.columns.find((c) => c.columnName === ref.to.columns[i]);
+                return (
+                    referenced &&
+                    ['type', 'length', 'precision', 'scale', 'enumName'].every(
+                        (key) => referenced[key as keyof ColumnMetadata] === column[key as keyof ColumnMetadata],
+                    )
+                );
+            });
+
+        return (
+            entity.columns.map((c) => c.columnName).join('\n') === sides.join('\n') &&
+            entity.columns.every(
+                (c) => c.isPrimary && !c.primaryKeyConstraintName && !c.isGenerated && !c.default && !c.comment,
+            ) &&
+            entity.columns.every(matchesType) &&
+            entity.indexes.length === 2 &&
+            entity.indexes.every((index, i) => !index.name && !index.isUnique && index.columns.join('\n') === sides[i])
+        );
+    }
+
+    /**
+     * Get a join table as MetadataExtractor lists it
+     */
+    private toJoinTable(entity: EntityMetadata): JoinTableEntity {
+        return { name: entity.tableName, schema: entity.schema, columns: entity.columns, indexes: entity.indexes };
+    }
+
+    /**
+     * Get a view from its table; DBMLGenerator notes the kind of view, its description, dependencies and SQL
+     */
+    private toView(entity: EntityMetadata): ViewMetadata {
+        const view: ViewMetadata = {
+            name: entity.tableName,
+            viewName: entity.tableName,
+            schema: entity.schema,
+            isMaterialized: false,
+            columns: entity.columns,
+            dependsOn: [],
+        };
+
+        const lines = entity.note?.split('\n') ?? [];
+        if (!['VIEW', 'MATERIALIZED VIEW'].includes(lines[0])) {
+            return { ...view, note: entity.note };
+        }
+
+        view.isMaterialized = lines[0] === 'MATERIALIZED VIEW';
+        const blank = lines.indexOf('');
+        const header = lines.slice(1, blank === -1 ? undefined : blank);
+        const dependsOn = header.find((line) => line.startsWith('Depends on: '));
+
+        view.note = header.filter((line) => line !== dependsOn).join('\n') || undefined;
+        view.dependsOn = dependsOn ? dependsOn.slice('Depends on: '.length).split(', ') : [];
+        view.expression = blank === -1 ? undefined : lines.slice(blank + 1).join('\n');
+        return view;
+    }
+
+    /**
+     * Skip an element that is not read: up to the end of its `{ }` block, or of its line
+     */
+    private skipElement(): void {
+        while (!this.atEnd()) {
+            const token = this.next();
+            if (token.kind === 'newline') {
+                return;
+            }
+            if (this.isSymbol(token, '{')) {
+                for (let depth = 1; depth > 0 && !this.atEnd();) {
+                    const inner = this.next();
+                    depth += this.isSymbol(inner, '{') ? 1 : this.isSymbol(inner, '}') ? -1 : 0;
+                }
+                return;
+            }
+        }
+    }
+
+    /**
+     * Skip line breaks; false at the end of the text
+     */
+    private skipNewlines(): boolean {
+        while (this.peek()?.kind === 'newline') {
+            this.position++;
+        }
+        return !this.atEnd();
+    }
+
+    /**
+     * Consume the `}` closing a block, skipping line breaks before it
+     */
+    private acceptBlockEnd(): boolean {
+        if (!this.skipNewlines()) {
+            throw this.error('Expected "}" but found end of file');
+        }
+        return this.accept('}');
+    }
+
+    /**
+     * Consume a symbol or word (case-insensitively) if it is next
+     */
+    private accept(value: string): boolean {
+        const token = this.peek();
+        const matches = token?.kind === 'symbol' ? token.value === value : this.isWord(token, value);
+        if (matches) {
+            this.position++;
+        }
+        return matches;
+    }
+
+    /**
+     * Consume a symbol that must be next, skipping line breaks before a block
+     */
+    private expect(value: string): void {
+        if (value === '{') {
+            this.skipNewlines();
+        }
+        if (!this.accept(value)) {
+            throw this.error(`Expected "${value}" but found "${this.peek()?.value ?? 'end of file'}"`, this.peek());
+        }
+    }
+
+    /**
+     * Get the next token, which must exist
+     */
+    private next(): Token {
+        const token = this.tokens[this.position++];
+        if (!token) {
+            throw this.error('Unexpected end of file');
+        }
+        return token;
+    }
+
+    /**
+     * Look at a token ahead, or behind, without consuming it
+     */
+    private peek(offset = 0): Token | undefined {
+        return this.tokens[this.position + offset];
+    }
+
+    /**
+     * Check if all tokens were consumed
+     */
+    private atEnd(): boolean {
+        return this.position >= this.tokens.length;
+    }
+
+    /**
+     * Check if a token is one of the words, case-insensitively
+     */
+    private isWord(token: Token | undefined, ...words: string[]): boolean {
+        return token?.kind === 'word' && words.includes(token.value.toLowerCase());
+    }
+
+    /**
+     * Check if a token is the symbol
+     */
+    private isSymbol(token: Token | undefined, symbol: string): boolean {
+        return token?.kind === 'symbol' && token.value === symbol;
+    }
+
+    /**
+     * Get the location of a token for diagnostics, when the DBML comes from a file
+     */
+    private locate(token?: Token): { file: string; line: number; column: number } | undefined {
+        return this.file && token ? { file: this.file, line: token.line, column: token.column } : undefined;
+    }
+
+    /**
+     * Create a syntax error, located at a token
+     */
+    private error(message: string, token?: Token): Error {
+        const at = token ? `${this.file ?? 'DBML'}:${token.line}:${token.column}: ` : this.file ? `${this.file}: ` : '';
+        return new Error(at + message);
+    }
+
+    /**
+     * Split DBML into tokens; line breaks are kept, as they end columns and other block entries
+     */
+    private tokenize(dbml: string): Token[] {
+        const tokens: Token[] = [];
+        const patterns: [Token['kind'] | 'skip', RegExp][] = [
+            ['skip', /[ \t\r]+|\/\/[^\n]*|\/\*[\s\S]*?(\*\/|$)/y],
+            ['newline', /\n/y],
+            // Notes DBMLGenerator writes may span lines in single quotes too
+            ['string', /'''[\s\S]*?(?<!\\)'''|'(?:[^'\\]|\\[\s\S])*'/y],
+            ['quoted', /"(?:[^"\\]|\\.)*"/y],
+            ['expression', /`(?:[^`\\]|\\[\s\S])*`/y],
+            ['word', /#[0-9A-Fa-f]{3,8}\b|[A-Za-z_]\w*/y],
+            ['number', /-?\d+(?:\.\d+)?/y],
+            ['symbol', /<>|[^\s]/y],
+        ];
+
+        let position = 0;
+        let line = 1;
+        let lineStart = 0;
+        while (position < dbml.length) {
+            for (const [kind, pattern] of patterns) {
+                pattern.lastIndex = position;
+                const match = pattern.exec(dbml);
+                if (!match) continue;
+
+                const end = position + match[0].length;
+                if (kind !== 'skip') {
+                    const value = this.unquote(kind, match[0]);
+                    tokens.push({ kind, value, line, column: position - lineStart + 1, start: position, end });
+                }
+
+                // Strings and comments may span lines too
+                for (let i = match[0].indexOf('\n'); i !== -1; i = match[0].indexOf('\n', i + 1)) {
+                    line++;
+                    lineStart = position + i + 1;
+                }
+                position = end;
+                break;
+            }
+        }
+
+        return tokens;
+    }
+
+    /**
+     * Get the value of a string, quoted name or expression
+     * Multi-line strings lose the indentation common to their lines, as DBML defines
+     */
+    private unquote(kind: Token['kind'], text: string): string {
+        if (kind === 'quoted') {
+            return text.slice(1, -1).replace(/\\"/g, '"');
+        }
+        if (kind === 'expression') {
+            return text.slice(1, -1).replace(/\\`/g, '`');
+        }
+        if (kind !== 'string') {
+            return text;
+        }
+        if (!text.startsWith("'''")) {
+            return text.slice(1, -1).replace(/\\'/g, "'");
+        }
+
+        const lines = text
+            .slice(3, -3)
+            .replace(/\\'''/g, "'''")
+            .replace(/^[ \t]*\n/, '')
+            .replace(/\n[ \t]*$/, '')
+            .split('\n');
+        const indents = lines.filter((l) => l.trim()).map((l) => l.match(/^[ \t]*/)![0].length);
+        const indent = indents.length > 0 ? Math.min(...indents) : 0;
+
+        return lines.map((l) => l.slice(indent)).join('\n');
+    }
+}
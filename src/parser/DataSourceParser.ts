@@ -0,0 +1,334 @@
+/**
+ * DataSourceParser - Statically reads TypeORM DataSource definitions to discover entities
+ */
+
+import { ClassDeclaration, Node, NewExpression, ObjectLiteralExpression, SourceFile, SyntaxKind } from 'ts-morph';
+import * as path from 'path';
+import DataSourceDefinition from '../utils/interfaces/DataSourceDefinition';
+import { DiagnosticCollector } from '../utils/DiagnosticCollector';
+import { getDeclaration } from '../utils/AstUtils';
+
+export class DataSourceParser {
+    private diagnostics: DiagnosticCollector;
+
+    constructor(diagnostics: DiagnosticCollector = new DiagnosticCollector()) {
+        this.diagnostics = diagnostics;
+    }
+
+    /**
+     * Find all `new DataSource({ ... })` definitions in a source file
+     */
+    parseDataSources(sourceFile: SourceFile): DataSourceDefinition[] {
+        const definitions: DataSourceDefinition[] = [];
+        const newExpressions = sourceFile.getDescendantsOfKind(SyntaxKind.NewExpression);
+
+        for (const newExpression of newExpressions) {
+            if (newExpression.getExpression().getText() !== 'DataSource') {
+                continue;
+            }
+
+            const options = this.resolveOptionsObject(newExpression);
+            if (!options) {
+                continue;
+            }
+
+            const definition: DataSourceDefinition = {
+                name: this.getDataSourceName(newExpression, options),
+                type: this.getStringOption(options, 'type'),
+                options,
+                entityClasses: [],
+                entitySchemas: [],
+                entityGlobs: [],
+            };
+
+            const entities = this.getOption(options, 'entities');
+            if (entities) {
+                this.collectEntities(entities, definition, new Set());
+            }
+
+            definitions.push(definition);
+        }
+
+        return definitions;
+    }
+
+    /**
+     * Pick a single DataSource from a file, by name when there are several
+     */
+    selectDataSource(definitions: DataSourceDefinition[], name?: string): DataSourceDefinition {
+        if (definitions.length === 0) {
+            throw new Error('No `new DataSource({ ... })` definition found');
+        }
+
+        if (name) {
+            const match = definitions.find((d) => d.name === name || this.getOptionName(d.options) === name);
+            if (!match) {
+                const available = definitions.map((d) => d.name).join(', ');
+                throw new Error(`DataSource "${name}" not found (available: ${available})`);
+            }
+            return match;
+        }
+
+        if (definitions.length > 1) {
+            const available = definitions.map((d) => d.name).join(', ');
+            throw new Error(`Multiple DataSources found, select one by name (available: ${available})`);
+        }
+
+        return definitions[0];
+    }
+
+    /**
+     * Resolve the options object passed to the DataSource constructor
+     */
+    private resolveOptionsObject(newExpression: NewExpression): ObjectLiteralExpression | undefined {
+        const args = newExpression.getArguments();
+        if (args.length === 0) {
+            return undefined;
+        }
+
+        const resolved = this.resolveExpression(args[0]);
+        return resolved?.asKind(SyntaxKind.ObjectLiteralExpression);
+    }
+
+    /**
+     * Name a DataSource after the variable holding it, its `name` option, or `default`
+     */
+    private getDataSourceName(newExpression: NewExpression, options: ObjectLiteralExpression): string {
+        const variable = newExpression.getFirstAncestorByKind(SyntaxKind.VariableDeclaration);
+        if (variable) {
+            return variable.getName();
+        }
+
+        return this.getOptionName(options) ?? 'default';
+    }
+
+    /**
+     * Get the literal `name` option of a DataSource
+     */
+    private getOptionName(options: ObjectLiteralExpression): string | undefined {
+        return this.getStringOption(options, 'name');
+    }
+
+    /**
+     * Get an option given as a string literal, including `'postgres' as const`
+     */
+    private getStringOption(options: ObjectLiteralExpression, name: string): string | undefined {
+        let value = this.getOption(options, name);
+        while (value && Node.isAsExpression(value)) {
+            value = value.getExpression();
+        }
+        if (value && Node.isStringLiteral(value)) {
+            return value.getLiteralValue();
+        }
+        return undefined;
+    }
+
+    /**
+     * Get an option value, following spreads of other option objects
+     */
+    private getOption(options: ObjectLiteralExpression, name: string): Node | undefined {
+        let value: Node | undefined;
+
+        // Later properties win, as in a real object literal
+        for (const prop of options.getProperties()) {
+            if (Node.isPropertyAssignment(prop) && prop.getName() === name) {
+                value = prop.getInitializer();
+            } else if (Node.isShorthandPropertyAssignment(prop) && prop.getName() === name) {
+                value = prop.getNameNode();
+            } else if (Node.isSpreadAssignment(prop)) {
+                const spread = this.resolveExpression(prop.getExpression());
+                if (spread && Node.isObjectLiteralExpression(spread)) {
+                    value = this.getOption(spread, name) ?? value;
+                }
+            }
+        }
+
+        return value;
+    }
+
+    /**
+     * Collect entity classes and glob patterns from an `entities` value
+     */
+    private collectEntities(node: Node, definition: DataSourceDefinition, visited: Set<Node>): void {
+        if (visited.has(node)) {
+            return;
+        }
+        visited.add(node);
+
+        // Glob patterns
+        const pattern = this.evaluatePath(node, definition.options.getSourceFile());
+        if (pattern !== undefined) {
+            definition.entityGlobs.push(pattern);
+            return;
+        }
+
+        // [User, ...otherEntities, 'dist/**/*.entity.js']
+        if (Node.isArrayLiteralExpression(node)) {
+            for (const element of node.getElements()) {
+                const target = Node.isSpreadElement(element) ? element.getExpression() : element;
+                this.collectEntities(target, definition, visited);
+            }
+            return;
+        }
+
+        // { User, Post }
+        if (Node.isObjectLiteralExpression(node)) {
+            for (const prop of node.getProperties()) {
+                if (Node.isPropertyAssignment(prop)) {
+                    const initializer = prop.getInitializer();
+                    if (initializer) {
+                        this.collectEntities(initializer, definition, visited);
+                    }
+                } else if (Node.isShorthandPropertyAssignment(prop)) {
+                    this.collectEntities(prop.getNameNode(), definition, visited);
+                } else if (Node.isSpreadAssignment(prop)) {
+                    this.collectEntities(prop.getExpression(), definition, visited);
+                }
+            }
+            return;
+        }
+
+        // new EntitySchema({ ... })
+        if (Node.isNewExpression(node) && node.getExpression().getText() === 'EntitySchema') {
+            const [schemaOptions] = node.getArguments();
+            if (schemaOptions && Node.isObjectLiteralExpression(schemaOptions)) {
+                definition.entitySchemas.push(schemaOptions);
+            }
+            return;
+        }
+
+        // Object.values(entities)
+        if (Node.isCallExpression(node) && node.getExpression().getText() === 'Object.values') {
+            const [arg] = node.getArguments();
+            if (arg) {
+                this.collectEntities(arg, definition, visited);
+            }
+            return;
+        }
+
+        if (Node.isIdentifier(node) || Node.isPropertyAccessExpression(node)) {
+            const declaration = getDeclaration(node);
+
+            if (declaration && Node.isClassDeclaration(declaration)) {
+                if (!definition.entityClasses.includes(declaration)) {
+                    definition.entityClasses.push(declaration);
+                }
+                return;
+            }
+
+            const initializer = declaration && this.getInitializer(declaration);
+            if (initializer) {
+                this.collectEntities(initializer, definition, visited);
+                return;
+            }
+        }
+
+        this.diagnostics.warning(
+            'unresolved-entity',
+            `Cannot statically resolve \`${node.getText()}\` in the entities of DataSource "${definition.name}"; it was skipped`,
+            node,
+        );
+    }
+
+    /**
+     * Follow identifiers and `as`/parenthesized wrappers to the underlying expression
+     */
+    private resolveExpression(node: Node): Node | undefined {
+        if (Node.isAsExpression(node) || Node.isParenthesizedExpression(node) || Node.isSatisfiesExpression(node)) {
+            return this.resolveExpression(node.getExpression());
+        }
+
+        if (Node.isIdentifier(node) || Node.isPropertyAccessExpression(node)) {
+            const declaration = getDeclaration(node);
+            const initializer = declaration ? this.getInitializer(declaration) : undefined;
+            return initializer ? this.resolveExpression(initializer) : undefined;
+        }
+
+        return node;
+    }
+
+    /**
+     * Get the initializer of a variable or property declaration
+     */
+    private getInitializer(declaration: Node): Node | undefined {
+        if (Node.isVariableDeclaration(declaration) || Node.isPropertyAssignment(declaration)) {
+            return declaration.getInitializer();
+        }
+
+        if (Node.isShorthandPropertyAssignment(declaration)) {
+            return declaration.getNameNode();
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Statically evaluate a path-like string expression
+     * Supports literals, `__dirname`, concatenation and `path.join`/`path.resolve`
+     */
+    private evaluatePath(node: Node, sourceFile: SourceFile): string | undefined {
+        const dirname = path.dirname(sourceFile.getFilePath());
+
+        if (Node.isStringLiteral(node) || Node.isNoSubstitutionTemplateLiteral(node)) {
+            return node.getLiteralValue();
+        }
+
+        if (Node.isIdentifier(node)) {
+            if (node.getText() === '__dirname') {
+                return dirname;
+            }
+            if (node.getText() === '__filename') {
+                return sourceFile.getFilePath();
+            }
+            const declaration = getDeclaration(node);
+            const initializer = declaration ? this.getInitializer(declaration) : undefined;
+            return initializer ? this.evaluatePath(initializer, initializer.getSourceFile()) : undefined;
+        }
+
+        if (Node.isTemplateExpression(node)) {
+            let result = node.getHead().getLiteralText();
+            for (const span of node.getTemplateSpans()) {
+                const value = this.evaluatePath(span.getExpression(), sourceFile);
+                if (value === undefined) {
+                    return undefined;
+                }
+                result += value + span.getLiteral().getLiteralText();
+            }
+            return result;
+        }
+
+        if (Node.isBinaryExpression(node) && node.getOperatorToken().getKind() === SyntaxKind.PlusToken) {
+            const left = this.evaluatePath(node.getLeft(), sourceFile);
+            const right = this.evaluatePath(node.getRight(), sourceFile);
+            return left !== undefined && right !== undefined ? left + right : undefined;
+        }
+
+        if (Node.isCallExpression(node)) {
+            const callee = node.getExpression().getText();
+            const isJoin = callee === 'path.join' || callee === 'join';
+            const isResolve = callee === 'path.resolve' || callee === 'resolve';
+
+            if (callee === 'process.cwd') {
+                return process.cwd();
+            }
+
+            if (isJoin || isResolve) {
+                const parts: string[] = [];
+                for (const arg of node.getArguments()) {
+                    const value = this.evaluatePath(arg, sourceFile);
+                    if (value === undefined) {
+                        return undefined;
+                    }
+                    parts.push(value);
+                }
+                return isJoin ? path.join(...parts) : path.resolve(...parts);
+            }
+        }
+
+        if (Node.isParenthesizedExpression(node)) {
+            return this.evaluatePath(node.getExpression(), sourceFile);
+        }
+
+        return undefined;
+    }
+}
@@ -2,25 +2,135 @@
  * EntityParser - Parses TypeScript files to find TypeORM entities
  */
 
-import { Project, SourceFile, ClassDeclaration, SyntaxKind } from 'ts-morph';
+import { Project, SourceFile, ClassDeclaration, Node, ObjectLiteralExpression, SyntaxKind } from 'ts-morph';
 import { glob } from 'glob';
 import * as path from 'path';
-import { ParserOptions } from './types';
+import DataSourceConfig from '../utils/interfaces/DataSourceConfig';
+import DataSourceDefinition from '../utils/interfaces/DataSourceDefinition';
+import ParserOptions from '../utils/interfaces/ParserOptions';
+import { DiagnosticCollector } from '../utils/DiagnosticCollector';
+import { DataSourceParser } from './DataSourceParser';
 
 export class EntityParser {
     private project: Project;
+    private dataSourceParser: DataSourceParser;
+    private diagnostics: DiagnosticCollector;
 
-    constructor(options?: { tsConfigPath?: string }) {
+    constructor(options?: { tsConfigPath?: string; diagnostics?: DiagnosticCollector }) {
         this.project = new Project({
             tsConfigFilePath: options?.tsConfigPath,
             skipAddingFilesFromTsConfig: true,
         });
+        this.diagnostics = options?.diagnostics ?? new DiagnosticCollector();
+        this.dataSourceParser = new DataSourceParser(this.diagnostics);
     }
 
     /**
      * Find and parse all entity files based on glob patterns
      */
     async parseEntities(options: ParserOptions): Promise<ClassDeclaration[]> {
+        const sourceFiles = await this.addSourceFiles(options);
+
+        // Extract entity classes from all source files
+        const entities: ClassDeclaration[] = [];
+
+        for (const sourceFile of sourceFiles) {
+            const fileEntities = this.extractEntitiesFromFile(sourceFile);
+            entities.push(...fileEntities);
+        }
+
+        return entities;
+    }
+
+    /**
+     * Find and parse all `new EntitySchema({ ... })` definitions based on glob patterns
+     * Returns the options object of each schema
+     */
+    async parseEntitySchemas(options: ParserOptions): Promise<ObjectLiteralExpression[]> {
+        const sourceFiles = await this.addSourceFiles(options);
+
+        return sourceFiles.flatMap((sourceFile) => this.extractEntitySchemasFromFile(sourceFile));
+    }
+
+    /**
+     * Find and parse all migration classes based on glob patterns
+     * A migration implements MigrationInterface, or has the `up` and `down` methods it requires
+     */
+    async parseMigrations(options: ParserOptions): Promise<ClassDeclaration[]> {
+        const sourceFiles = await this.addSourceFiles(options);
+
+        return sourceFiles.flatMap((sourceFile) =>
+            sourceFile.getClasses().filter((classDecl) => this.isMigrationClass(classDecl)),
+        );
+    }
+
+    /**
+     * Find and parse the entity classes registered on a TypeORM DataSource
+     * Follows imported entity arrays as well as glob strings in the `entities` option
+     */
+    async parseDataSource(config: DataSourceConfig): Promise<ClassDeclaration[]> {
+        const dataSource = this.loadDataSource(config);
+        const entities = new Set<ClassDeclaration>(dataSource.entityClasses);
+
+        if (dataSource.entityGlobs.length > 0) {
+            const globEntities = await this.parseEntities({ input: dataSource.entityGlobs });
+            globEntities.forEach((entity) => entities.add(entity));
+        }
+
+        return Array.from(entities);
+    }
+
+    /**
+     * Find and parse the EntitySchemas registered on a TypeORM DataSource
+     */
+    async parseDataSourceSchemas(config: DataSourceConfig): Promise<ObjectLiteralExpression[]> {
+        const dataSource = this.loadDataSource(config);
+        const schemas = new Set<ObjectLiteralExpression>(dataSource.entitySchemas);
+
+        if (dataSource.entityGlobs.length > 0) {
+            const globSchemas = await this.parseEntitySchemas({ input: dataSource.entityGlobs });
+            globSchemas.forEach((schema) => schemas.add(schema));
+        }
+
+        return Array.from(schemas);
+    }
+
+    /**
+     * Get the `type` option of a TypeORM DataSource, e.g. 'postgres'
+     */
+    async parseDataSourceType(config: DataSourceConfig): Promise<string | undefined> {
+        return this.loadDataSource(config).type;
+    }
+
+    /**
+     * Get the paths a TypeORM DataSource is read from: its own file, the files of its entities and its entity globs
+     */
+    async parseDataSourceFiles(config: DataSourceConfig): Promise<string[]> {
+        const dataSource = this.loadDataSource(config);
+        const entityFiles = [...dataSource.entityClasses, ...dataSource.entitySchemas].map((entity) =>
+            entity.getSourceFile().getFilePath(),
+        );
+
+        return Array.from(new Set([path.resolve(config.path), ...entityFiles, ...dataSource.entityGlobs]));
+    }
+
+    /**
+     * Read the selected DataSource definition from its file
+     */
+    private loadDataSource(config: DataSourceConfig): DataSourceDefinition {
+        const sourceFile = this.project.addSourceFileAtPath(path.resolve(config.path));
+
+        // Load imported files so entity references can be followed
+        this.project.resolveSourceFileDependencies();
+
+        const definitions = this.dataSourceParser.parseDataSources(sourceFile);
+        return this.dataSourceParser.selectDataSource(definitions, config.name);
+    }
+
+    /**
+     * Add all files matching the input patterns to the project
+     */
+    private async addSourceFiles(options: ParserOptions): Promise<SourceFile[]> {
         const inputPatterns = Array.isArray(options.input) ? options.input : [options.input];
         const excludePatterns = options.exclude
             ? Array.isArray(options.exclude)
@@ -32,17 +142,7 @@ export class EntityParser {
         const filePaths = await this.findEntityFiles(inputPatterns, excludePatterns);
 
         // Add files to project
-        const sourceFiles = filePaths.map((filePath) => this.project.addSourceFileAtPath(filePath));
-
-        // Extract entity classes from all source files
-        const entities: ClassDeclaration[] = [];
-
-        for (const sourceFile of sourceFiles) {
-            const fileEntities = this.extractEntitiesFromFile(sourceFile);
-            entities.push(...fileEntities);
-        }
-
-        return entities;
+        return filePaths.map((filePath) => this.project.addSourceFileAtPath(filePath));
     }
 
     /**
@@ -57,6 +157,10 @@ export class EntityParser {
                 absolute: true,
             });
             files.forEach((file) => allFiles.add(file));
+
+            if (files.length === 0) {
+                this.diagnostics.warning('no-files-matched', `Input pattern "${pattern}" did not match any file`);
+            }
         }
 
         return Array.from(allFiles);
@@ -64,7 +168,7 @@ export class EntityParser {
 
     /**
      * Extract entity classes from a source file
-     * An entity is a class decorated with @Entity
+     * An entity is a class decorated with @Entity, @ChildEntity or @ViewEntity
      */
     private extractEntitiesFromFile(sourceFile: SourceFile): ClassDeclaration[] {
         const entities: ClassDeclaration[] = [];
@@ -82,17 +186,39 @@ export class EntityParser {
     }
 
     /**
-     * Check if a class is a TypeORM entity
+     * Extract EntitySchema options objects from a source file
+     */
+    private extractEntitySchemasFromFile(sourceFile: SourceFile): ObjectLiteralExpression[] {
+        return sourceFile
+            .getDescendantsOfKind(SyntaxKind.NewExpression)
+            .filter((newExpression) => newExpression.getExpression().getText() === 'EntitySchema')
+            .map((newExpression) => newExpression.getArguments()[0])
+            .filter((arg): arg is ObjectLiteralExpression => !!arg && Node.isObjectLiteralExpression(arg));
+    }
+
+    /**
+     * Check if a class is a TypeORM entity, child entity or view entity
      */
     private isEntityClass(classDecl: ClassDeclaration): boolean {
         const decorators = classDecl.getDecorators();
 
         return decorators.some((decorator) => {
             const name = decorator.getName();
-            return name === 'Entity';
+            return name === 'Entity' || name === 'ViewEntity' || name === 'ChildEntity';
         });
     }
 
+    /**
+     * Check if a class is a TypeORM migration
+     */
+    private isMigrationClass(classDecl: ClassDeclaration): boolean {
+        const implementsInterface = classDecl
+            .getImplements()
+            .some((heritage) => heritage.getExpression().getText() === 'MigrationInterface');
+
+        return implementsInterface || (!!classDecl.getMethod('up') && !!classDecl.getMethod('down'));
+    }
+
     /**
      * Get the ts-morph Project instance for advanced usage
      */
@@ -101,7 +227,7 @@ export class EntityParser {
     }
 
     /**
-     * Parse a single file and return its entities
+     * Parse a single file and return its entity classes
      */
     parseFile(filePath: string): ClassDeclaration[] {
         const sourceFile = this.project.addSourceFileAtPath(filePath);
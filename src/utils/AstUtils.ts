@@ -0,0 +1,20 @@
+/**
+ * AstUtils - Follows references in the TypeScript syntax tree to what they declare
+ */
+
+import { Node } from 'ts-morph';
+
+/**
+ * Get the declaration behind an identifier or property access, following imports and re-exports
+ */
+export function getDeclaration(node: Node): Node | undefined {
+    // `{ User }` refers to the value, not the property being declared
+    const parent = node.getParent();
+    let symbol = parent && Node.isShorthandPropertyAssignment(parent) ? parent.getValueSymbol() : node.getSymbol();
+    if (!symbol) {
+        return undefined;
+    }
+
+    symbol = symbol.getAliasedSymbol() ?? symbol;
+    return symbol.getValueDeclaration() ?? symbol.getDeclarations()[0];
+}
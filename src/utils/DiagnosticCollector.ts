@@ -0,0 +1,101 @@
+/**
+ * DiagnosticCollector - Records warnings and errors about things that could not be resolved,
+ * with the source location they came from
+ */
+
+import { Node } from 'ts-morph';
+import Diagnostic from './interfaces/Diagnostic';
+
+// Position in a file that is not TypeScript, e.g. a line of a SQL dump
+type Location = { file: string; line: number; column?: number };
+
+export class DiagnosticCollector {
+    private diagnostics: Diagnostic[] = [];
+    private sources = new WeakMap<object, Node>();
+
+    /**
+     * Record an error; errors mean the generated DBML is incomplete or wrong
+     */
+    error(code: string, message: string, at?: Node | Location | object): void {
+        this.add('error', code, message, at);
+    }
+
+    /**
+     * Record a warning; warnings mean something was approximated or ignored
+     */
+    warning(code: string, message: string, at?: Node | Location | object): void {
+        this.add('warning', code, message, at);
+    }
+
+    /**
+     * Report an option that is valid TypeORM but not reflected in the DBML
+     */
+    unsupportedOption(option: Node, optionName: string, decoratorName: string): void {
+        this.warning(
+            'unsupported-option',
+            `Option \`${optionName}\` of ${decoratorName} is not reflected in the DBML and was ignored`,
+            option,
+        );
+    }
+
+    /**
+     * Remember the declaration metadata was extracted from, so later passes can report against it
+     */
+    setSource(metadata: object, node: Node): void {
+        this.sources.set(metadata, node);
+    }
+
+    /**
+     * Get all diagnostics recorded so far, in the order they were reported
+     */
+    getDiagnostics(): Diagnostic[] {
+        return [...this.diagnostics];
+    }
+
+    /**
+     * Check if any error-level diagnostic was recorded
+     */
+    hasErrors(): boolean {
+        return this.diagnostics.some((d) => d.severity === 'error');
+    }
+
+    /**
+     * Record a diagnostic, locating it through the node, the metadata's remembered source or the file location
+     * The same diagnostic is recorded once, even when a declaration is visited more than once
+     */
+    private add(severity: Diagnostic['severity'], code: string, message: string, at?: Node | Location | object): void {
+        const diagnostic: Diagnostic = { severity, code, message };
+        const node = at instanceof Node ? at : at ? this.sources.get(at) : undefined;
+
+        if (node) {
+            const sourceFile = node.getSourceFile();
+            const { line, column } = sourceFile.getLineAndColumnAtPos(node.getStart());
+            diagnostic.file = sourceFile.getFilePath();
+            diagnostic.line = line;
+            diagnostic.column = column;
+        } else if (this.isLocation(at)) {
+            diagnostic.file = at.file;
+            diagnostic.line = at.line;
+            diagnostic.column = at.column;
+        }
+
+        const isDuplicate = this.diagnostics.some(
+            (d) =>
+                d.code === code &&
+                d.message === message &&
+                d.file === diagnostic.file &&
+                d.line === diagnostic.line &&
+                d.column === diagnostic.column,
+        );
+        if (!isDuplicate) {
+            this.diagnostics.push(diagnostic);
+        }
+    }
+
+    /**
+     * Check if a diagnostic is reported at a file location rather than at a node or metadata
+     */
+    private isLocation(at: unknown): at is Location {
+        return typeof at === 'object' && at !== null && typeof (at as Location).file === 'string';
+    }
+}
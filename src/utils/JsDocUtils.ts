@@ -0,0 +1,20 @@
+/**
+ * JsDocUtils - Reads the tags of the JSDoc comments on entity declarations
+ */
+
+import { JSDoc } from 'ts-morph';
+
+/**
+ * Get the lint rules suppressed with `@lint-ignore rule-a, rule-b`; an empty list for a bare `@lint-ignore`
+ */
+export function getLintIgnores(jsDocs: JSDoc[]): string[] | undefined {
+    const tags = jsDocs.flatMap((jsDoc) => jsDoc.getTags()).filter((tag) => tag.getTagName() === 'lint-ignore');
+
+    if (tags.length === 0) {
+        return undefined;
+    }
+
+    // Any bare tag suppresses every rule
+    const rules = tags.map((tag) => (tag.getCommentText() ?? '').split(/[\s,]+/).filter((rule) => rule));
+    return rules.some((r) => r.length === 0) ? [] : rules.flat();
+}
@@ -0,0 +1,142 @@
+/**
+ * RendererUtils - Option handling and table grouping shared by the output formats
+ */
+
+import DBMLSchema from './interfaces/DBMLSchema';
+import GeneratorOptions from './interfaces/GeneratorOptions';
+import JoinTableEntity from './interfaces/JoinTableEntity';
+import RelationMetadata from './interfaces/RelationMetadata';
+import Relationship from './interfaces/Relationship';
+import RenderedTable from './interfaces/RenderedTable';
+
+// Crow's-foot markers of each cardinality, on the left and right side of a relationship
+const LEFT_MARKERS: Record<Relationship['toCardinality'], string> = {
+    'one': '||',
+    'zero-or-one': '|o',
+    'many': '}o',
+};
+
+const RIGHT_MARKERS: Record<Relationship['toCardinality'], string> = {
+    'one': '||',
+    'zero-or-one': 'o|',
+    'many': 'o{',
+};
+
+/**
+ * Fill in the defaults of the generator options
+ */
+export function resolveGeneratorOptions(options?: GeneratorOptions): Required<GeneratorOptions> {
+    return {
+        includeSchemas: options?.includeSchemas ?? true,
+        includeIndexes: options?.includeIndexes ?? true,
+        includeUniques: options?.includeUniques ?? true,
+        includeChecks: options?.includeChecks ?? true,
+        includeNotes: options?.includeNotes ?? true,
+        includeEnums: options?.includeEnums ?? true,
+        includeEmbeddedNotes: options?.includeEmbeddedNotes ?? false,
+        includeViews: options?.includeViews ?? true,
+        groupViews: options?.groupViews ?? false,
+        collapseJoinTables: options?.collapseJoinTables ?? false,
+        tableGrouping: options?.tableGrouping ?? 'schema',
+        projectName: options?.projectName ?? 'Database Schema',
+        databaseType: options?.databaseType ?? 'postgres',
+    };
+}
+
+/**
+ * Check if `collapseJoinTables` may draw a many-to-many relation without its join table: a `<>` ref pairs the
+ * key columns of both sides, so they must be as many
+ */
+export function isCollapsible(relation: RelationMetadata): boolean {
+    const joinTable = relation.joinTable;
+    return (joinTable?.joinColumns?.length || 1) === (joinTable?.inverseJoinColumns?.length || 1);
+}
+
+/**
+ * Get the join tables rendered as tables; with `collapseJoinTables`, only those of relations that cannot be collapsed
+ */
+export function getJoinTables(schema: DBMLSchema, options: Required<GeneratorOptions>): JoinTableEntity[] {
+    if (!options.collapseJoinTables) {
+        return schema.joinTables;
+    }
+
+    const kept = new Set(
+        schema.entities
+            .flatMap((e) => e.relations.filter((r) => r.type === 'many-to-many' && r.joinTable && !isCollapsible(r)))
+            .map((r) => r.joinTable!.name),
+    );
+    return schema.joinTables.filter((t) => kept.has(t.name));
+}
+
+/**
+ * Group the rendered tables, join tables and views by schema ('public' when unset), with views in a
+ * `views` group of their own when `groupViews` is set; the groups of DBML `TableGroup`s and diagram clusters
+ */
+export function groupTables(schema: DBMLSchema, options: Required<GeneratorOptions>): Map<string, string[]> {
+    const groups = new Map<string, string[]>();
+    const joinTables = getJoinTables(schema, options);
+    const views = options.includeViews ? schema.views : [];
+
+    if (options.includeSchemas && options.tableGrouping === 'schema') {
+        const members = [
+            ...schema.entities.map((e) => ({ schema: e.schema, name: e.tableName })),
+            ...joinTables.map((t) => ({ schema: t.schema, name: t.name })),
+            ...(options.groupViews ? [] : views.map((v) => ({ schema: v.schema, name: v.viewName }))),
+        ];
+
+        for (const member of members) {
+            const schema = member.schema || 'public';
+            if (!groups.has(schema)) {
+                groups.set(schema, []);
+            }
+            groups.get(schema)!.push(member.name);
+        }
+    }
+
+    if (options.groupViews && views.length > 0) {
+        groups.set('views', [...(groups.get('views') ?? []), ...views.map((v) => v.viewName)]);
+    }
+
+    return groups;
+}
+
+/**
+ * Collect the tables, join tables and views a diagram renders
+ */
+export function getRenderedTables(schema: DBMLSchema, options: Required<GeneratorOptions>): RenderedTable[] {
+    const joinTables = getJoinTables(schema, options);
+    const views = options.includeViews ? schema.views : [];
+
+    return [
+        ...schema.entities.map((e): RenderedTable => ({
+            name: e.tableName,
+            kind: 'table',
+            columns: e.columns,
+            indexes: [
+                ...e.indexes,
+                ...(options.includeUniques ? e.uniques.map((u) => ({ ...u, isUnique: true })) : []),
+            ],
+            note: e.note,
+        })),
+        ...joinTables.map((t): RenderedTable => ({
+            name: t.name,
+            kind: 'join table',
+            columns: t.columns,
+            indexes: t.indexes,
+        })),
+        ...views.map((v): RenderedTable => ({
+            name: v.viewName,
+            kind: v.isMaterialized ? 'materialized view' : 'view',
+            columns: v.columns,
+            indexes: [],
+            note: v.note,
+        })),
+    ];
+}
+
+/**
+ * Format the cardinalities of a relationship in the crow's-foot notation of Mermaid and PlantUML, e.g. `}o--||`
+ */
+export function formatCrowsFoot(relationship: Relationship): string {
+    return `${LEFT_MARKERS[relationship.fromCardinality]}--${RIGHT_MARKERS[relationship.toCardinality]}`;
+}
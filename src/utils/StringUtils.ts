@@ -0,0 +1,62 @@
+/**
+ * StringUtils - Case conversions used by the naming strategies, matching TypeORM's own helpers
+ */
+
+/**
+ * Convert snake_case, kebab-case or spaced words to camelCase
+ */
+export function camelCase(str: string, firstCapital = false): string {
+    if (firstCapital) {
+        str = ' ' + str;
+    }
+
+    return str.replace(/^([A-Z])|[\s-_](\w)/g, (_match, p1: string | undefined, p2: string | undefined) =>
+        p2 ? p2.toUpperCase() : p1!.toLowerCase(),
+    );
+}
+
+/**
+ * Convert PascalCase/camelCase to snake_case, keeping acronyms together (UUIDKey -> uuid_key)
+ */
+export function snakeCase(str: string): string {
+    return str
+        .replace(/([A-Z])([A-Z])([a-z])/g, '$1_$2$3')
+        .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+        .toLowerCase();
+}
+
+/**
+ * Capitalize the first letter of each word and lowercase the rest
+ */
+export function titleCase(str: string): string {
+    return str.replace(/\w\S*/g, (word) => word.charAt(0).toUpperCase() + word.substring(1).toLowerCase());
+}
+
+/**
+ * Pluralize the last word of a snake_case name (user_profile -> user_profiles, category -> categories)
+ */
+export function pluralize(str: string): string {
+    if (/[^aeiou]y$/.test(str)) {
+        return str.slice(0, -1) + 'ies';
+    }
+    if (/(s|x|z|ch|sh)$/.test(str)) {
+        return str + 'es';
+    }
+    return str + 's';
+}
+
+/**
+ * Singularize the last word of a snake_case name, the reverse of `pluralize` (categories -> category)
+ */
+export function singularize(str: string): string {
+    if (/[^aeiou]ies$/.test(str)) {
+        return str.slice(0, -3) + 'y';
+    }
+    if (/(ss|x|z|ch|sh)es$/.test(str)) {
+        return str.slice(0, -2);
+    }
+    if (/[^su]s$/.test(str)) {
+        return str.slice(0, -1);
+    }
+    return str;
+}
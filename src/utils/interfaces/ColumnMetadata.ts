@@ -3,6 +3,7 @@ export default interface ColumnMetadata {
     columnName: string;
     type: string;
     isPrimary: boolean;
+    primaryKeyConstraintName?: string;
     isGenerated: boolean;
     generationStrategy?: 'increment' | 'uuid' | 'rowid';
     isNullable: boolean;
@@ -11,12 +12,18 @@ export default interface ColumnMetadata {
     precision?: number;
     scale?: number;
     default?: string;
+    isDefaultExpression?: boolean; // The default is a raw SQL expression, such as `() => 'now()'`, rather than a value
     enumName?: string;
+    enumSchema?: string;
+    isNamedEnum?: boolean; // The enum type was named with `enumName`, so other columns can share it
     enumValues?: string[];
+    enumValueNotes?: Record<string, string>; // JSDoc of the enum members, by value
     isArray?: boolean;
     isCreateDate?: boolean;
     isUpdateDate?: boolean;
     isDeleteDate?: boolean;
     isVersion?: boolean;
     comment?: string;
+    embeddedFrom?: string; // Embeddable class the column was flattened from
+    foreignKeyOf?: string; // Relation an implicit foreign key column was added for, e.g. `author -> users.id`
 }
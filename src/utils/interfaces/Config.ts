@@ -1,10 +1,19 @@
 // Custom Modules
+import DataSourceConfig from './DataSourceConfig';
 import GeneratorOptions from './GeneratorOptions';
+import NamingStrategy from './NamingStrategy';
+import NamingStrategyConfig from './NamingStrategyConfig';
 
 export default interface Config {
-    input: string | string[];
+    input?: string | string[];
     output?: string;
+    format?: 'dbml' | 'mermaid' | 'plantuml' | 'dot'; // Output language, DBML by default
     exclude?: string | string[];
+    tsConfig?: string; // tsconfig.json to resolve the entities with, ./tsconfig.json when it exists
+    migrations?: string | string[]; // Migration files to replay when detecting drift
+    dataSource?: string | DataSourceConfig; // Read entities from a DataSource file instead of `input`
+    sql?: string; // Read the schema from a pg_dump or mysqldump file instead of entities
+    namingStrategy?: string | NamingStrategyConfig | Partial<NamingStrategy>; // 'typeorm' (default), 'snake', a module path or an instance
     projectName?: string;
     options?: GeneratorOptions;
 }
@@ -1,10 +1,14 @@
 // Custom Modules
+import Diagnostic from './Diagnostic';
 import EntityMetadata from './EntityMetadata';
 import EnumMetadata from './EnumMetadata';
 import JoinTableEntity from './JoinTableEntity';
+import ViewMetadata from './ViewMetadata';
 
 export default interface DBMLSchema {
     entities: EntityMetadata[];
     enums: EnumMetadata[];
     joinTables: JoinTableEntity[];
+    views: ViewMetadata[];
+    diagnostics?: Diagnostic[]; // Everything that could not be resolved while extracting
 }
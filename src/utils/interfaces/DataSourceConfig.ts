@@ -0,0 +1,4 @@
+export default interface DataSourceConfig {
+    path: string;
+    name?: string; // Variable name or `name` option of the DataSource to use
+}
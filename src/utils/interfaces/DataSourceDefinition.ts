@@ -0,0 +1,10 @@
+import { ClassDeclaration, ObjectLiteralExpression } from 'ts-morph';
+
+export default interface DataSourceDefinition {
+    name: string;
+    type?: string; // The `type` option, e.g. 'postgres'
+    options: ObjectLiteralExpression;
+    entityClasses: ClassDeclaration[];
+    entitySchemas: ObjectLiteralExpression[]; // Options objects of `new EntitySchema({ ... })`
+    entityGlobs: string[];
+}
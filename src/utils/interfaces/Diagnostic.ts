@@ -0,0 +1,8 @@
+export default interface Diagnostic {
+    severity: 'error' | 'warning';
+    code: string;
+    message: string;
+    file?: string;
+    line?: number;
+    column?: number;
+}
@@ -4,6 +4,7 @@ import ColumnMetadata from './ColumnMetadata';
 import IndexMetadata from './IndexMetadata';
 import InheritanceMetadata from './InheritanceMetadata';
 import RelationMetadata from './RelationMetadata';
+import TreeMetadata from './TreeMetadata';
 import UniqueMetadata from './UniqueMetadata';
 
 export default interface EntityMetadata {
@@ -17,4 +18,6 @@ export default interface EntityMetadata {
     uniques: UniqueMetadata[];
     note?: string;
     inheritance?: InheritanceMetadata;
+    tree?: TreeMetadata;
+    lintIgnore?: string[]; // Lint rules suppressed with `@lint-ignore` JSDoc tags, empty for all rules
 }
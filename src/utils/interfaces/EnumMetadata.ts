@@ -1,4 +1,6 @@
 export default interface EnumMetadata {
     name: string;
+    schema?: string; // Schema of the tables using it; the same enum name may exist in several schemas
     values: string[];
+    valueNotes?: Record<string, string>; // JSDoc of the enum members, by value
 }
@@ -0,0 +1,7 @@
+// Custom Modules
+import Diagnostic from './Diagnostic';
+
+export default interface GenerateResult {
+    dbml: string; // The generated output, in the language of `Config.format`
+    diagnostics: Diagnostic[];
+}
@@ -1,8 +1,15 @@
 export default interface GeneratorOptions {
     includeSchemas?: boolean;
     includeIndexes?: boolean;
+    includeUniques?: boolean; // Render @Unique constraints as unique indexes
+    includeChecks?: boolean; // Render @Check constraints in a `checks` block
     includeNotes?: boolean;
     includeEnums?: boolean;
+    includeEmbeddedNotes?: boolean;
+    includeViews?: boolean;
+    groupViews?: boolean; // Put views in their own `views` TableGroup instead of their schema group
+    collapseJoinTables?: boolean; // Render many-to-many relations as `<>` refs instead of join tables
     tableGrouping?: 'schema' | 'none';
+    databaseType?: 'postgres' | 'mysql' | 'mariadb' | 'mssql' | 'sqlite' | 'oracle' | 'cockroachdb'; // Dialect of types, defaults and the Project header
     projectName?: string;
 }
@@ -2,6 +2,7 @@ export default interface IndexMetadata {
     name?: string;
     columns: string[];
     isUnique: boolean;
+    isPrimary?: boolean; // Primary key spanning several columns
     isSpatial?: boolean;
     isFulltext?: boolean;
     where?: string;
@@ -1,5 +1,7 @@
 export default interface InheritanceMetadata {
     pattern: 'STI' | 'CTI' | 'TPC'; // Single Table, Class Table, Table Per Concrete
+    parent?: string; // Class name of the root entity declaring @TableInheritance, set on its children
     discriminatorColumn?: string;
+    discriminatorType?: string;
     discriminatorValue?: string;
 }
@@ -3,6 +3,7 @@ import JoinColumnMetadata from './JoinColumnMetadata';
 
 export default interface JoinTableMetadata {
     name?: string;
+    schema?: string;
     joinColumns?: JoinColumnMetadata[];
     inverseJoinColumns?: JoinColumnMetadata[];
 }
@@ -0,0 +1,6 @@
+// Custom Modules
+import LintRule from './LintRule';
+
+export default interface LintOptions {
+    rules?: Record<string, LintRule['defaultSeverity'] | [LintRule['defaultSeverity'], Record<string, unknown>]>; // Severity of rules by name, optionally with rule options: ['warning', { tables: 'snake_case' }]
+}
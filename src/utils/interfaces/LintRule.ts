@@ -0,0 +1,10 @@
+// Custom Modules
+import DBMLSchema from './DBMLSchema';
+import EntityMetadata from './EntityMetadata';
+
+export default interface LintRule {
+    name: string; // Used in the lint configuration and `@lint-ignore` tags, e.g. `require-primary-key`
+    description: string; // What the rule enforces, shown in SARIF output
+    defaultSeverity: 'error' | 'warning' | 'off';
+    check(entity: EntityMetadata, schema: DBMLSchema, options: Record<string, unknown>): string[]; // A message for each violation in the table
+}
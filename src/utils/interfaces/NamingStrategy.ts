@@ -0,0 +1,19 @@
+// Mirrors the parts of TypeORM's NamingStrategyInterface that shape the schema,
+// so a project's own strategy class can be used as-is
+export default interface NamingStrategy {
+    name?: string;
+    materializedPathColumnName: string;
+    nestedSetColumnNames: { left: string; right: string };
+    tableName(targetName: string, userSpecifiedName: string | undefined): string;
+    closureJunctionTableName(originalClosureTableName: string): string;
+    columnName(propertyName: string, customName: string | undefined, embeddedPrefixes: string[]): string;
+    joinColumnName(relationName: string, referencedColumnName: string): string;
+    joinTableName(
+        firstTableName: string,
+        secondTableName: string,
+        firstPropertyName: string,
+        secondPropertyName: string,
+    ): string;
+    joinTableColumnName(tableName: string, propertyName: string, columnName?: string): string;
+    joinTableInverseColumnName(tableName: string, propertyName: string, columnName?: string): string;
+}
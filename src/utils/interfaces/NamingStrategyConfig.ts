@@ -0,0 +1,4 @@
+export default interface NamingStrategyConfig {
+    path: string; // Module exporting the naming strategy class
+    name?: string; // Export to use; defaults to the default export or the only exported class
+}
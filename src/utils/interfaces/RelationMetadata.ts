@@ -7,8 +7,9 @@ export default interface RelationMetadata {
     type: 'one-to-one' | 'many-to-one' | 'one-to-many' | 'many-to-many';
     target: string; // Entity class name
     inverseSide?: string;
-    joinColumn?: JoinColumnMetadata;
+    joinColumns?: JoinColumnMetadata[]; // Foreign key columns, several for a composite key
     joinTable?: JoinTableMetadata;
     onDelete?: 'CASCADE' | 'SET NULL' | 'RESTRICT' | 'NO ACTION' | 'SET DEFAULT';
     onUpdate?: 'CASCADE' | 'SET NULL' | 'RESTRICT' | 'NO ACTION' | 'SET DEFAULT';
+    isNullable?: boolean; // Whether the foreign key may be null, true unless `nullable: false`
 }
@@ -0,0 +1,9 @@
+export default interface Relationship {
+    from: string; // Table holding the foreign key: the owning entity, or the join table of a many-to-many relation
+    fromColumns: string[];
+    fromCardinality: 'one' | 'zero-or-one' | 'many'; // How many rows of `from` a row of `to` is related to
+    to: string;
+    toColumns: string[]; // Referenced columns
+    toCardinality: 'one' | 'zero-or-one' | 'many'; // How many rows of `to` a row of `from` is related to
+    label: string; // Property name of the relation
+}
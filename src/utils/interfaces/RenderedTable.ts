@@ -0,0 +1,11 @@
+// Custom Modules
+import ColumnMetadata from './ColumnMetadata';
+import IndexMetadata from './IndexMetadata';
+
+export default interface RenderedTable {
+    name: string;
+    kind: 'table' | 'join table' | 'view' | 'materialized view';
+    columns: ColumnMetadata[];
+    indexes: IndexMetadata[]; // Indexes and, with `includeUniques`, unique constraints as unique indexes
+    note?: string;
+}
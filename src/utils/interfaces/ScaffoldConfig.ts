@@ -0,0 +1,12 @@
+// Custom Modules
+import GeneratorOptions from './GeneratorOptions';
+import NamingStrategy from './NamingStrategy';
+import NamingStrategyConfig from './NamingStrategyConfig';
+
+export default interface ScaffoldConfig {
+    input: string; // DBML file, or a pg_dump or mysqldump file
+    output: string; // Directory the entity files are written to
+    overwrite?: boolean; // Replace existing files instead of failing
+    namingStrategy?: string | NamingStrategyConfig | Partial<NamingStrategy>; // Strategy the entities will be used with, so names it derives are left out
+    databaseType?: GeneratorOptions['databaseType']; // Dialect of the types, unless the DBML Project or the dump tells
+}
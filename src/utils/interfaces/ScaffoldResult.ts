@@ -0,0 +1,7 @@
+// Custom Modules
+import Diagnostic from './Diagnostic';
+
+export default interface ScaffoldResult {
+    files: string[]; // Paths of the entity and enum files written
+    diagnostics: Diagnostic[];
+}
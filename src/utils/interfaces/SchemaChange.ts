@@ -0,0 +1,9 @@
+export default interface SchemaChange {
+    action: 'added' | 'removed' | 'renamed' | 'changed';
+    kind: 'table' | 'column' | 'index' | 'constraint' | 'relation';
+    table: string; // Table name, schema-qualified; the new name of a renamed table
+    name?: string; // Column, index, constraint or relation the change is about
+    property?: string; // What changed, e.g. `type` or `nullable` of a column
+    from?: string; // Previous value or definition
+    to?: string; // New value or definition
+}
@@ -0,0 +1,8 @@
+// Custom Modules
+import Diagnostic from './Diagnostic';
+import SchemaChange from './SchemaChange';
+
+export default interface SchemaDiff {
+    changes: SchemaChange[]; // Table additions, removals and renames first, then the changes within each table
+    diagnostics?: Diagnostic[]; // Migration steps that could not be replayed, when detecting drift
+}
@@ -0,0 +1,9 @@
+// Custom Modules
+import DBMLSchema from './DBMLSchema';
+import GeneratorOptions from './GeneratorOptions';
+
+export default interface SchemaRenderer {
+    generate(schema: DBMLSchema): string;
+    generateToFile(schema: DBMLSchema, outputPath: string): Promise<void>;
+    getOptions(): Required<GeneratorOptions>; // The options with their defaults filled in
+}
@@ -0,0 +1,6 @@
+export default interface TreeMetadata {
+    type: 'closure-table' | 'nested-set' | 'materialized-path' | 'adjacency-list';
+    closureTableName?: string;
+    ancestorColumnName?: string;
+    descendantColumnName?: string;
+}
@@ -0,0 +1,13 @@
+// Custom Modules
+import ColumnMetadata from './ColumnMetadata';
+
+export default interface ViewMetadata {
+    name: string;
+    viewName: string;
+    schema?: string;
+    isMaterialized: boolean;
+    expression?: string; // SQL text, or the source of a query builder function
+    columns: ColumnMetadata[];
+    dependsOn: string[];
+    note?: string;
+}
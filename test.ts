@@ -0,0 +1,29 @@
+/**
+ * Runs the tests of the test directory
+ * Run with `npm test`; exits with code 1 when a test fails
+ */
+
+import './test/check.test';
+import './test/constraints.test';
+import './test/database.test';
+import './test/datasource.test';
+import './test/diagnostics.test';
+import './test/diff.test';
+import './test/dialects.test';
+import './test/embedded.test';
+import './test/evaluation.test';
+import './test/entity-schema.test';
+import './test/enums.test';
+import './test/inheritance.test';
+import './test/join-tables.test';
+import './test/lint.test';
+import './test/naming.test';
+import './test/primary-keys.test';
+import './test/relations.test';
+import './test/renderers.test';
+import './test/scaffold.test';
+import './test/trees.test';
+import './test/views.test';
+import { run } from './test/harness';
+
+run();
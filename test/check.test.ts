@@ -0,0 +1,64 @@
+/**
+ * Tests of --check, which compares the committed DBML with freshly generated DBML
+ */
+
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import path from 'node:path';
+import { DBMLComparer } from '../src/diff/DBMLComparer';
+import { runCli, test, withFiles } from './harness';
+
+const files = {
+    'user.ts': `
+import { Column, Entity, PrimaryGeneratedColumn } from 'typeorm';
+
+@Entity()
+export class User {
+    @PrimaryGeneratedColumn()
+    id: number;
+
+    @Column()
+    name: string;
+}
+`,
+};
+
+test('exits with 1 and prints a unified diff when the output file is stale', async () => {
+    await withFiles(files, async (dir) => {
+        const missing = runCli(['-i', 'user.ts', '-o', 'schema.dbml', '--check'], dir);
+        assert.equal(missing.status, 1);
+        assert.match(missing.stderr, /schema\.dbml does not exist/);
+
+        assert.equal(runCli(['-i', 'user.ts', '-o', 'schema.dbml'], dir).status, 0);
+        const fresh = runCli(['-i', 'user.ts', '-o', 'schema.dbml', '--check'], dir);
+        assert.equal(fresh.status, 0);
+        assert.match(fresh.stdout, /schema\.dbml is up to date/);
+
+        const output = path.join(dir, 'schema.dbml');
+        fs.writeFileSync(output, fs.readFileSync(output, 'utf-8').replace('  name varchar', '  title varchar'));
+        const stale = runCli(['-i', 'user.ts', '-o', 'schema.dbml', '--check'], dir);
+        assert.equal(stale.status, 1);
+        assert.match(stale.stdout, /^--- schema\.dbml\n\+\+\+ schema\.dbml \(generated\)$/m);
+        assert.match(stale.stdout, /^-  title varchar \[not null\]\n\+  name varchar \[not null\]$/m);
+        assert.match(stale.stderr, /schema\.dbml is out of date/);
+
+        assert.equal(runCli(['-i', 'user.ts', '-o', 'schema.dbml'], dir).status, 0);
+        fs.writeFileSync(output, fs.readFileSync(output, 'utf-8').replace(/^  /gm, '    '));
+        const reindented = runCli(['-i', 'user.ts', '-o', 'schema.dbml', '--check', '--ignore-whitespace'], dir);
+        assert.equal(reindented.status, 0);
+    });
+});
+
+test('ignores whitespace and the order of blocks and lines when asked to', () => {
+    const committed = 'Table b {\n  id integer\n}\n\nTable a {\n  name varchar\n  id integer\n}\n';
+    const generated = 'Table a {\n    id integer\n    name varchar\n}\nTable b {\n    id integer\n}\n';
+    const comparer = new DBMLComparer();
+
+    assert.notEqual(comparer.compare(committed, generated), undefined);
+    assert.notEqual(comparer.compare(committed, generated, { ignoreWhitespace: true }), undefined);
+    assert.equal(comparer.compare(committed, generated, { ignoreWhitespace: true, ignoreOrder: true }), undefined);
+    assert.notEqual(
+        comparer.compare(committed, generated.replace('name', 'title'), { ignoreWhitespace: true, ignoreOrder: true }),
+        undefined,
+    );
+});
@@ -0,0 +1,69 @@
+/**
+ * Tests of @Unique and @Check constraints
+ */
+
+import assert from 'node:assert/strict';
+import { getTableLines, loadDBML, test } from './harness';
+
+const ACCOUNT = `
+import { Check, Column, Entity, PrimaryGeneratedColumn, Unique } from 'typeorm';
+
+@Entity()
+@Unique('UQ_account_email', ['email'])
+@Unique(['firstName', 'lastName'])
+@Check('CHK_account_age', '"age" >= 18')
+@Check('"balance" >= 0')
+export class Account {
+    @PrimaryGeneratedColumn()
+    id: number;
+
+    @Column()
+    email: string;
+
+    @Column({ name: 'first_name' })
+    firstName: string;
+
+    @Column({ name: 'last_name' })
+    lastName: string;
+
+    @Column()
+    age: number;
+
+    @Column()
+    balance: number;
+}
+`;
+
+test('renders unique constraints as unique indexes and checks in a checks block', async () => {
+    const { dbml, diagnostics } = await loadDBML({ 'account.ts': ACCOUNT });
+
+    assert.deepEqual(diagnostics, []);
+    assert.deepEqual(getTableLines(dbml, 'account').slice(6), [
+        '',
+        'Indexes {',
+        "email [unique, name: 'UQ_account_email']",
+        '(first_name, last_name) [unique]',
+        '}',
+        '',
+        'checks {',
+        '`"age" >= 18` [name: \'CHK_account_age\']',
+        '`"balance" >= 0`',
+        '}',
+    ]);
+});
+
+test('leaves out unique and check constraints when includeUniques and includeChecks are off', async () => {
+    const { dbml } = await loadDBML(
+        { 'account.ts': ACCOUNT },
+        { options: { includeUniques: false, includeChecks: false } },
+    );
+
+    assert.deepEqual(getTableLines(dbml, 'account'), [
+        'id integer [pk, increment, not null]',
+        'email varchar [not null]',
+        'first_name varchar [not null]',
+        'last_name varchar [not null]',
+        'age integer [not null]',
+        'balance integer [not null]',
+    ]);
+});
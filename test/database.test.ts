@@ -0,0 +1,198 @@
+/**
+ * Tests of the schemas read from a database: SQL dumps and replayed migrations
+ */
+
+import assert from 'node:assert/strict';
+import { Project } from 'ts-morph';
+import { MigrationReplayer, SqlDumpImporter } from '../src';
+import { getColumns, getTable, test } from './harness';
+
+test('imports a pg_dump file', () => {
+    const sql = `
+SET client_encoding = 'UTF8';
+SELECT pg_catalog.set_config('search_path', '', false);
+
+CREATE TYPE public.users_role_enum AS ENUM (
+    'admin',
+    'user'
+);
+
+CREATE TABLE public.users (
+    id integer NOT NULL,
+    email character varying(255) NOT NULL,
+    role public.users_role_enum DEFAULT 'user'::public.users_role_enum NOT NULL,
+    nickname text
+);
+
+CREATE SEQUENCE public.users_id_seq AS integer START WITH 1 INCREMENT BY 1 NO MINVALUE NO MAXVALUE CACHE 1;
+ALTER SEQUENCE public.users_id_seq OWNED BY public.users.id;
+
+CREATE TABLE public.posts (
+    id integer NOT NULL,
+    title character varying NOT NULL,
+    "authorId" integer
+);
+
+ALTER TABLE ONLY public.users ALTER COLUMN id SET DEFAULT nextval('public.users_id_seq'::regclass);
+ALTER TABLE ONLY public.users ADD CONSTRAINT "PK_users" PRIMARY KEY (id);
+ALTER TABLE ONLY public.users ADD CONSTRAINT "UQ_users_email" UNIQUE (email);
+ALTER TABLE ONLY public.posts ADD CONSTRAINT "PK_posts" PRIMARY KEY (id);
+CREATE INDEX "IDX_posts_title" ON public.posts USING btree (title);
+ALTER TABLE ONLY public.posts
+    ADD CONSTRAINT "FK_posts_author" FOREIGN KEY ("authorId") REFERENCES public.users(id) ON DELETE CASCADE;
+`;
+    const importer = new SqlDumpImporter();
+    assert.equal(importer.detectDatabaseType(sql), 'postgres');
+
+    const schema = importer.import(sql);
+    assert.deepEqual(
+        schema.enums.map((e) => [e.name, e.values]),
+        [['users_role_enum', ['admin', 'user']]],
+    );
+
+    const users = getTable(schema, 'users');
+    assert.deepEqual(getColumns(users), [
+        ['id', 'integer', false],
+        ['email', 'varchar', false],
+        ['role', 'users_role_enum', false],
+        ['nickname', 'text', true],
+    ]);
+    assert.equal(users.columns[0].isPrimary, true);
+    assert.equal(users.columns[0].isGenerated, true);
+    assert.equal(users.columns[1].length, 255);
+    assert.equal(users.columns[2].default, 'user');
+    assert.deepEqual(users.uniques, [{ name: 'UQ_users_email', columns: ['email'] }]);
+
+    const posts = getTable(schema, 'posts');
+    assert.deepEqual(
+        posts.indexes.map((i) => [i.name, i.columns]),
+        [['IDX_posts_title', ['title']]],
+    );
+    assert.equal(posts.relations.length, 1);
+    assert.equal(posts.relations[0].target, 'users');
+    assert.equal(posts.relations[0].onDelete, 'CASCADE');
+    assert.deepEqual(posts.relations[0].joinColumns, [{ name: 'authorId', referencedColumnName: 'id' }]);
+});
+
+test('imports a mysqldump file', () => {
+    const sql = `
+-- MySQL dump 10.13
+/*!40101 SET @OLD_CHARACTER_SET_CLIENT=@@CHARACTER_SET_CLIENT */;
+DROP TABLE IF EXISTS \`users\`;
+CREATE TABLE \`users\` (
+  \`id\` int NOT NULL AUTO_INCREMENT,
+  \`email\` varchar(255) NOT NULL,
+  \`role\` enum('admin','user') NOT NULL DEFAULT 'user',
+  PRIMARY KEY (\`id\`),
+  UNIQUE KEY \`IDX_email\` (\`email\`)
+) ENGINE=InnoDB AUTO_INCREMENT=3 DEFAULT CHARSET=utf8mb4;
+CREATE TABLE \`posts\` (
+  \`id\` int NOT NULL AUTO_INCREMENT,
+  \`title\` varchar(255) NOT NULL,
+  \`authorId\` int DEFAULT NULL,
+  PRIMARY KEY (\`id\`),
+  KEY \`FK_author\` (\`authorId\`),
+  KEY \`IDX_title\` (\`title\`),
+  CONSTRAINT \`FK_author\` FOREIGN KEY (\`authorId\`) REFERENCES \`users\` (\`id\`) ON DELETE CASCADE
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4;
+`;
+    const importer = new SqlDumpImporter();
+    assert.equal(importer.detectDatabaseType(sql), 'mysql');
+
+    const schema = importer.import(sql);
+    assert.deepEqual(
+        schema.enums.map((e) => [e.name, e.values]),
+        [['users_role_enum', ['admin', 'user']]],
+    );
+
+    const users = getTable(schema, 'users');
+    assert.deepEqual(getColumns(users), [
+        ['id', 'integer', false],
+        ['email', 'varchar', false],
+        ['role', 'users_role_enum', false],
+    ]);
+    assert.equal(users.columns[0].isGenerated, true);
+    assert.deepEqual(users.uniques, [{ name: 'IDX_email', columns: ['email'] }]);
+
+    // The index MySQL creates for the foreign key is not one the entities declare
+    const posts = getTable(schema, 'posts');
+    assert.deepEqual(
+        posts.indexes.map((i) => i.name),
+        ['IDX_title'],
+    );
+    assert.equal(posts.relations[0].target, 'users');
+    assert.deepEqual(posts.relations[0].joinColumns, [{ name: 'authorId', referencedColumnName: 'id' }]);
+});
+
+test('replays createTable, addColumn and createForeignKey migrations', () => {
+    const project = new Project({ useInMemoryFileSystem: true });
+    project.createSourceFile(
+        'migrations.ts',
+        `
+import { MigrationInterface, QueryRunner, Table, TableColumn, TableForeignKey } from 'typeorm';
+
+export class Init1700000000000 implements MigrationInterface {
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.createTable(
+            new Table({
+                name: 'users',
+                columns: [
+                    { name: 'id', type: 'int', isPrimary: true, isGenerated: true, generationStrategy: 'increment' },
+                    { name: 'email', type: 'varchar', length: '255', isUnique: true },
+                ],
+            }),
+        );
+        await queryRunner.createTable(
+            new Table({
+                name: 'posts',
+                columns: [
+                    { name: 'id', type: 'int', isPrimary: true },
+                    { name: 'authorId', type: 'int', isNullable: true },
+                ],
+            }),
+        );
+    }
+}
+
+export class Posts1700000000001 implements MigrationInterface {
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.addColumn('posts', new TableColumn({ name: 'title', type: 'varchar', default: "'untitled'" }));
+        await queryRunner.createForeignKey(
+            'posts',
+            new TableForeignKey({
+                columnNames: ['authorId'],
+                referencedTableName: 'users',
+                referencedColumnNames: ['id'],
+                onDelete: 'CASCADE',
+            }),
+        );
+    }
+}
+`,
+    );
+
+    // Migrations replay by their timestamp, whatever order they are found in
+    const migrations = project.getSourceFileOrThrow('migrations.ts').getClasses().reverse();
+    const schema = new MigrationReplayer().replay(migrations);
+
+    const users = getTable(schema, 'users');
+    assert.deepEqual(getColumns(users), [
+        ['id', 'integer', false],
+        ['email', 'varchar', false],
+    ]);
+    assert.equal(users.columns[0].isPrimary, true);
+    assert.equal(users.columns[0].isGenerated, true);
+    assert.equal(users.columns[1].isUnique, true);
+
+    const posts = getTable(schema, 'posts');
+    assert.deepEqual(getColumns(posts), [
+        ['id', 'integer', false],
+        ['authorId', 'integer', true],
+        ['title', 'varchar', false],
+    ]);
+    assert.equal(posts.columns[2].default, 'untitled');
+    assert.equal(posts.relations.length, 1);
+    assert.equal(posts.relations[0].target, 'users');
+    assert.equal(posts.relations[0].onDelete, 'CASCADE');
+    assert.deepEqual(posts.relations[0].joinColumns, [{ name: 'authorId', referencedColumnName: 'id' }]);
+});
@@ -0,0 +1,145 @@
+/**
+ * Tests of the entities found through a TypeORM DataSource
+ */
+
+import assert from 'node:assert/strict';
+import { generateDBML, generateSchema, getSourcePaths } from '../src';
+import { test, withFiles } from './harness';
+
+const user = `
+import { Entity, PrimaryGeneratedColumn } from 'typeorm';
+
+@Entity()
+export class User {
+    @PrimaryGeneratedColumn()
+    id: number;
+}
+`;
+
+const entities = {
+    'entities/user.ts': user,
+    'entities/post.entity.ts': `
+import { Entity, PrimaryGeneratedColumn } from 'typeorm';
+
+@Entity()
+export class Post {
+    @PrimaryGeneratedColumn()
+    id: number;
+}
+`,
+    'entities/tag.ts': `
+import { Entity, PrimaryGeneratedColumn } from 'typeorm';
+
+@Entity()
+export class Tag {
+    @PrimaryGeneratedColumn()
+    id: number;
+}
+`,
+    'entities/index.ts': `
+import { User } from './user';
+
+export const coreEntities = [User];
+`,
+};
+
+test('follows imported entity arrays, spreads, entity maps and globs', async () => {
+    const files = {
+        ...entities,
+        'data-source.ts': `
+import * as path from 'path';
+import { DataSource } from 'typeorm';
+import { coreEntities } from './entities';
+import { Tag } from './entities/tag';
+
+const options = { type: 'postgres' as const };
+
+export const AppDataSource = new DataSource({
+    ...options,
+    entities: [...coreEntities, Object.values({ Tag }), path.join(__dirname, 'entities/*.entity.ts')],
+});
+`,
+    };
+
+    await withFiles(files, async (dir) => {
+        const schema = await generateSchema({ dataSource: `${dir}/data-source.ts` });
+        assert.deepEqual(schema.diagnostics, []);
+        assert.deepEqual(schema.entities.map((e) => e.tableName).sort(), ['post', 'tag', 'user']);
+    });
+});
+
+test('selects a DataSource by variable name or name option and uses its database type', async () => {
+    const files = {
+        ...entities,
+        'data-source.ts': `
+import { DataSource } from 'typeorm';
+import { Tag } from './entities/tag';
+import { User } from './entities/user';
+
+export const AppDataSource = new DataSource({ type: 'postgres', entities: [User] });
+export const ReportingDataSource = new DataSource({ type: 'mysql', name: 'reporting', entities: [Tag] });
+`,
+    };
+
+    await withFiles(files, async (dir) => {
+        const path = `${dir}/data-source.ts`;
+        await assert.rejects(generateDBML({ dataSource: path }), /Multiple DataSources found/);
+        await assert.rejects(generateDBML({ dataSource: { path, name: 'Missing' } }), /DataSource "Missing" not found/);
+
+        const app = await generateDBML({ dataSource: { path, name: 'AppDataSource' } });
+        assert.match(app.dbml, /database_type: 'PostgreSQL'/);
+        assert.match(app.dbml, /^Table user \{$/m);
+
+        const reporting = await generateDBML({ dataSource: { path, name: 'reporting' } });
+        assert.match(reporting.dbml, /database_type: 'MySQL'/);
+        assert.match(reporting.dbml, /^  id int \[pk, increment, not null\]$/m);
+        assert.doesNotMatch(reporting.dbml, /^Table user/m);
+    });
+});
+
+test('warns about entities that cannot be resolved statically', async () => {
+    const files = {
+        ...entities,
+        'data-source.ts': `
+import { DataSource } from 'typeorm';
+import { User } from './entities/user';
+
+export const AppDataSource = new DataSource({ type: 'postgres', entities: [User, ...loadEntities()] });
+`,
+    };
+
+    await withFiles(files, async (dir) => {
+        const schema = await generateSchema({ dataSource: `${dir}/data-source.ts` });
+        assert.deepEqual(
+            schema.entities.map((e) => e.tableName),
+            ['user'],
+        );
+        assert.deepEqual(
+            schema.diagnostics?.map((d) => [d.code, d.message]),
+            [
+                [
+                    'unresolved-entity',
+                    'Cannot statically resolve `loadEntities()` in the entities of DataSource "AppDataSource"; it was skipped',
+                ],
+            ],
+        );
+    });
+});
+
+test('watches the DataSource file, the files of its entities and its entity globs', async () => {
+    await withFiles(
+        {
+            'data-source.ts': `
+import { DataSource } from 'typeorm';
+import { User } from './entities/user';
+
+export const AppDataSource = new DataSource({ type: 'postgres', entities: [User, 'src/**/*.entity.ts'] });
+`,
+            'entities/user.ts': user,
+        },
+        async (dir) => {
+            const paths = await getSourcePaths({ dataSource: `${dir}/data-source.ts` });
+            assert.deepEqual(paths, [`${dir}/data-source.ts`, `${dir}/entities/user.ts`, 'src/**/*.entity.ts']);
+        },
+    );
+});
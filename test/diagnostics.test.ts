@@ -0,0 +1,54 @@
+/**
+ * Tests of the diagnostics reported for what could not be resolved, and of --strict
+ */
+
+import assert from 'node:assert/strict';
+import { loadDBML, runCli, test, withFiles } from './harness';
+
+const files = {
+    'post.ts': `
+import { Column, Entity, ManyToOne, PrimaryGeneratedColumn } from 'typeorm';
+
+@Entity()
+export class Post {
+    @PrimaryGeneratedColumn()
+    id: number;
+
+    @Column({ charset: 'utf8mb4' })
+    title: string;
+
+    @ManyToOne(() => Author)
+    author: Author;
+}
+`,
+};
+
+test('reports diagnostics with their severity, code and source location', async () => {
+    const { dbml, diagnostics } = await loadDBML(files);
+
+    assert.deepEqual(
+        diagnostics.map((d) => [d.severity, d.code, d.file?.replace(/^.*\//, ''), d.line, d.column]),
+        [
+            ['warning', 'unsupported-option', 'post.ts', 9, 15],
+            ['error', 'unknown-relation-target', 'post.ts', 12, 5],
+        ],
+    );
+    assert.equal(
+        diagnostics[1].message,
+        'Relation `Post.author` targets `Author`, which is not a known entity; it was left out',
+    );
+    assert.doesNotMatch(dbml, /authorId|Ref:/);
+});
+
+test('fails with --strict when a diagnostic is an error', async () => {
+    await withFiles(files, async (dir) => {
+        const lenient = runCli(['-i', 'post.ts', '-o', 'schema.dbml'], dir);
+        assert.equal(lenient.status, 0);
+        assert.match(lenient.stderr, /^post\.ts:12:5 error unknown-relation-target /m);
+        assert.match(lenient.stdout, /1 error, 1 warning/);
+
+        const strict = runCli(['-i', 'post.ts', '-o', 'schema.dbml', '--strict'], dir);
+        assert.equal(strict.status, 1);
+        assert.match(strict.stderr, /Failing because of errors \(--strict\)/);
+    });
+});
@@ -0,0 +1,128 @@
+/**
+ * Tests of the output for each database type and of column defaults
+ */
+
+import assert from 'node:assert/strict';
+import { dbmlToSchema, SqlDumpImporter } from '../src';
+import { getTable, getTableLines, loadDBML, test } from './harness';
+
+const event = `
+import { Column, CreateDateColumn, Entity, PrimaryGeneratedColumn } from 'typeorm';
+
+@Entity()
+export class Event {
+    @PrimaryGeneratedColumn('uuid')
+    id: string;
+
+    @Column({ default: () => 'now()' })
+    startsAt: Date;
+
+    @Column({ default: 'nowhere' })
+    place: string;
+
+    @Column({ default: 'f(x)' })
+    formula: string;
+
+    @Column({ default: 0 })
+    attendees: number;
+
+    @Column({ default: true })
+    isPublic: boolean;
+
+    @Column({ type: 'jsonb', nullable: true })
+    details: object;
+
+    @CreateDateColumn()
+    createdAt: Date;
+}
+`;
+
+test('writes function defaults as expressions and other defaults as values', async () => {
+    const { dbml } = await loadDBML({ 'event.ts': event }, { options: { databaseType: 'postgres' } });
+
+    assert.match(dbml, /database_type: 'PostgreSQL'/);
+    assert.deepEqual(getTableLines(dbml, 'event'), [
+        'id uuid [pk, not null, default: `uuid_generate_v4()`]',
+        'startsAt timestamp [not null, default: `now()`]',
+        "place varchar [not null, default: 'nowhere']",
+        "formula varchar [not null, default: 'f(x)']",
+        'attendees integer [not null, default: 0]',
+        'isPublic boolean [not null, default: true]',
+        'details jsonb',
+        'createdAt timestamp [not null, default: `now()`]',
+    ]);
+});
+
+test('maps types, booleans and the current time to the database type', async () => {
+    const mysql = await loadDBML({ 'event.ts': event }, { options: { databaseType: 'mysql' } });
+    assert.match(mysql.dbml, /database_type: 'MySQL'/);
+    assert.deepEqual(getTableLines(mysql.dbml, 'event'), [
+        'id varchar(36) [pk, not null]',
+        'startsAt timestamp [not null, default: `now()`]',
+        "place varchar [not null, default: 'nowhere']",
+        "formula varchar [not null, default: 'f(x)']",
+        'attendees int [not null, default: 0]',
+        'isPublic tinyint(1) [not null, default: 1]',
+        'details json',
+        'createdAt timestamp [not null, default: `CURRENT_TIMESTAMP`]',
+    ]);
+
+    const mssql = await loadDBML({ 'event.ts': event }, { options: { databaseType: 'mssql' } });
+    assert.deepEqual(getTableLines(mssql.dbml, 'event'), [
+        'id uniqueidentifier [pk, not null, default: `newsequentialid()`]',
+        'startsAt datetime2 [not null, default: `now()`]',
+        "place varchar [not null, default: 'nowhere']",
+        "formula varchar [not null, default: 'f(x)']",
+        'attendees int [not null, default: 0]',
+        'isPublic bit [not null, default: 1]',
+        'details nvarchar(max)',
+        'createdAt datetime2 [not null, default: `getdate()`]',
+    ]);
+
+    const sqlite = await loadDBML({ 'event.ts': event }, { options: { databaseType: 'sqlite' } });
+    assert.deepEqual(getTableLines(sqlite.dbml, 'event'), [
+        'id varchar [pk, not null]',
+        'startsAt datetime [not null, default: `now()`]',
+        "place varchar [not null, default: 'nowhere']",
+        "formula varchar [not null, default: 'f(x)']",
+        'attendees integer [not null, default: 0]',
+        'isPublic boolean [not null, default: true]',
+        'details text',
+        "createdAt datetime [not null, default: `datetime('now')`]",
+    ]);
+});
+
+test('reads expression defaults from DBML and SQL dumps', () => {
+    const schema = dbmlToSchema(`
+Table event {
+  startsAt timestamp [default: \`now()\`]
+  place varchar [default: 'nowhere']
+  formula varchar [default: 'f(x)']
+}
+`);
+    assert.deepEqual(
+        getTable(schema, 'event').columns.map((c) => [c.columnName, c.default, c.isDefaultExpression]),
+        [
+            ['startsAt', 'now()', true],
+            ['place', 'nowhere', undefined],
+            ['formula', 'f(x)', undefined],
+        ],
+    );
+
+    const dump = new SqlDumpImporter().import(
+        `CREATE TABLE event (
+    "startsAt" timestamp DEFAULT now() NOT NULL,
+    place character varying DEFAULT 'nowhere'::character varying NOT NULL,
+    attendees integer DEFAULT 0 NOT NULL
+);`,
+        'postgres',
+    );
+    assert.deepEqual(
+        getTable(dump, 'event').columns.map((c) => [c.columnName, c.default, c.isDefaultExpression]),
+        [
+            ['startsAt', 'now()', true],
+            ['place', 'nowhere', undefined],
+            ['attendees', '0', undefined],
+        ],
+    );
+});
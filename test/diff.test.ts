@@ -0,0 +1,113 @@
+/**
+ * Tests of the semantic diff of two schemas
+ */
+
+import assert from 'node:assert/strict';
+import { dbmlToSchema, diffSchemas, schemaToDBML } from '../src';
+import { DiffFormatter } from '../src/diff/DiffFormatter';
+import { loadSchema, test } from './harness';
+
+const BEFORE = `
+import { Column, Entity, PrimaryGeneratedColumn } from 'typeorm';
+
+@Entity()
+export class Author {
+    @PrimaryGeneratedColumn()
+    id: number;
+
+    @Column({ length: 100 })
+    email: string;
+
+    @Column()
+    nickname: string;
+}
+
+@Entity()
+export class Note {
+    @PrimaryGeneratedColumn()
+    id: number;
+
+    @Column()
+    body: string;
+}
+`;
+
+const AFTER = `
+import { Column, Entity, Index, ManyToOne, PrimaryGeneratedColumn } from 'typeorm';
+
+@Entity()
+@Index(['email'], { unique: true })
+export class Author {
+    @PrimaryGeneratedColumn()
+    id: number;
+
+    @Column({ length: 255, nullable: true })
+    email: string;
+
+    @Column({ default: 'active' })
+    status: string;
+
+    @ManyToOne(() => Note)
+    pinnedNote: Note;
+}
+
+@Entity('memo')
+export class Note {
+    @PrimaryGeneratedColumn()
+    id: number;
+
+    @Column()
+    body: string;
+}
+`;
+
+test('reports table, column, index and relation changes between two schemas', async () => {
+    const before = await loadSchema({ 'entities.ts': BEFORE });
+    const after = await loadSchema({ 'entities.ts': AFTER });
+
+    const changes = diffSchemas(before, after).changes;
+
+    assert.deepEqual(changes[0], { action: 'renamed', kind: 'table', table: 'memo', from: 'note', to: 'memo' });
+    assert.deepEqual(
+        changes.slice(1).map((c) => [c.action, c.kind, c.name, c.property ?? null]),
+        [
+            ['changed', 'column', 'email', 'type'],
+            ['changed', 'column', 'email', 'nullable'],
+            ['added', 'column', 'status', null],
+            ['added', 'column', 'pinnedNoteId', null],
+            ['removed', 'column', 'nickname', null],
+            ['added', 'index', '(email) unique', null],
+            ['added', 'relation', 'pinnedNote', null],
+        ],
+    );
+    assert.ok(changes.slice(1).every((c) => c.table === 'author'));
+});
+
+test('formats a diff as text, grouped by table', async () => {
+    const before = await loadSchema({ 'entities.ts': BEFORE });
+    const after = await loadSchema({ 'entities.ts': AFTER });
+
+    assert.equal(
+        new DiffFormatter().format(diffSchemas(before, after)),
+        [
+            '~ table memo (renamed from note)',
+            '',
+            'author:',
+            '  ~ column email type: varchar(100) -> varchar(255)',
+            '  ~ column email nullable: false -> true',
+            '  + column status: varchar not null default active',
+            '  + column pinnedNoteId: integer',
+            '  - column nickname: varchar not null',
+            '  + index (email) unique',
+            '  + relation pinnedNote: many-to-one memo (pinnedNoteId)',
+            '',
+            '8 changes in 2 tables',
+        ].join('\n'),
+    );
+});
+
+test('finds no changes between a schema and its DBML snapshot', async () => {
+    const schema = await loadSchema({ 'entities.ts': AFTER });
+
+    assert.deepEqual(diffSchemas(dbmlToSchema(schemaToDBML(schema)), schema).changes, []);
+});
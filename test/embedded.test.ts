@@ -0,0 +1,78 @@
+/**
+ * Tests of embedded entities flattened into their owner's table
+ */
+
+import assert from 'node:assert/strict';
+import { getTableLines, loadDBML, test } from './harness';
+
+const customer = `
+import { Column, Entity, PrimaryGeneratedColumn } from 'typeorm';
+
+export class Geo {
+    @Column('decimal')
+    lat: number;
+
+    @Column('decimal')
+    lng: number;
+}
+
+export class Address {
+    /** Street line */
+    @Column()
+    street: string;
+
+    @Column({ name: 'town' })
+    city: string;
+
+    @Column(() => Geo)
+    geo: Geo;
+}
+
+@Entity()
+export class Customer {
+    @PrimaryGeneratedColumn()
+    id: number;
+
+    @Column(() => Address)
+    address: Address;
+
+    @Column((type) => Address, { prefix: 'bill' })
+    billingAddress: Address;
+
+    @Column(() => Address, { prefix: false })
+    shipping: Address;
+}
+`;
+
+test('flattens embedded entities into prefixed columns, recursively', async () => {
+    const { dbml, diagnostics } = await loadDBML({ 'customer.ts': customer });
+
+    assert.deepEqual(diagnostics, []);
+    assert.deepEqual(getTableLines(dbml, 'customer'), [
+        'id integer [pk, increment, not null]',
+        "addressStreet varchar [not null, note: 'Street line']",
+        'addressTown varchar [not null]',
+        'addressGeoLat decimal [not null]',
+        'addressGeoLng decimal [not null]',
+        "billStreet varchar [not null, note: 'Street line']",
+        'billTown varchar [not null]',
+        'billGeoLat decimal [not null]',
+        'billGeoLng decimal [not null]',
+        "street varchar [not null, note: 'Street line']",
+        'town varchar [not null]',
+        'geoLat decimal [not null]',
+        'geoLng decimal [not null]',
+    ]);
+    assert.doesNotMatch(dbml, /^Table (address|geo)/m);
+});
+
+test('notes the embeddable each column came from', async () => {
+    const { dbml } = await loadDBML({ 'customer.ts': customer }, { options: { includeEmbeddedNotes: true } });
+
+    assert.deepEqual(getTableLines(dbml, 'customer').slice(0, 4), [
+        'id integer [pk, increment, not null]',
+        "addressStreet varchar [not null, note: 'Street line - Embedded from Address (address.street)']",
+        "addressTown varchar [not null, note: 'Embedded from Address (address.city)']",
+        "addressGeoLat decimal [not null, note: 'Embedded from Geo (address.geo.lat)']",
+    ]);
+});
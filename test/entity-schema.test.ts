@@ -0,0 +1,84 @@
+/**
+ * Tests of EntitySchema definitions, read without decorators
+ */
+
+import assert from 'node:assert/strict';
+import { getTableLines, loadDBML, test } from './harness';
+
+test('reads columns, relations and constraints of EntitySchema definitions', async () => {
+    const { dbml, diagnostics } = await loadDBML({
+        'category.ts': `
+import { EntitySchema } from 'typeorm';
+
+export class Category {
+    id: number;
+    name: string;
+}
+
+/** Product categories */
+export const CategorySchema = new EntitySchema<Category>({
+    name: 'Category',
+    target: Category,
+    tableName: 'categories',
+    columns: {
+        id: { type: Number, primary: true, generated: true },
+        name: { type: 'varchar', length: 80, unique: true },
+        createdAt: { type: 'timestamp', createDate: true },
+        parentId: { type: Number, name: 'parent', nullable: true },
+    },
+    relations: {
+        parent: { type: 'many-to-one', target: 'Category', joinColumn: { name: 'parent' }, onDelete: 'CASCADE' },
+        products: { type: 'many-to-many', target: 'Product', joinTable: { name: 'category_products' } },
+    },
+    indices: [{ name: 'IDX_category_name', columns: ['name'] }],
+    uniques: [{ name: 'UQ_category_parent_name', columns: ['parentId', 'name'] }],
+    checks: [{ expression: \`"name" <> ''\` }],
+});
+`,
+        'product.ts': `
+import { EntitySchema } from 'typeorm';
+import { Category } from './category';
+
+export const ProductSchema = new EntitySchema({
+    name: 'Product',
+    columns: {
+        id: { type: 'uuid', primary: true, generated: 'uuid' },
+    },
+    relations: {
+        mainCategory: { type: 'many-to-one', target: () => Category },
+    },
+});
+`,
+    });
+
+    assert.deepEqual(diagnostics, []);
+    assert.match(dbml, /^Table categories \[note: 'Product categories'\] \{$/m);
+    assert.deepEqual(getTableLines(dbml, 'categories'), [
+        'id integer [pk, increment, not null]',
+        'name varchar(80) [unique, not null]',
+        'createdAt timestamp [not null, default: `now()`]',
+        'parent integer',
+        '',
+        'Indexes {',
+        "name [name: 'IDX_category_name']",
+        "(parent, name) [unique, name: 'UQ_category_parent_name']",
+        '}',
+        '',
+        'checks {',
+        '`"name" <> \'\'`',
+        '}',
+    ]);
+    assert.deepEqual(getTableLines(dbml, 'product'), [
+        'id uuid [pk, not null, default: `uuid_generate_v4()`]',
+        "mainCategoryId integer [note: 'Foreign key of mainCategory -> categories.id']",
+    ]);
+    assert.deepEqual(
+        dbml.split('\n').filter((line) => line.startsWith('Ref:')),
+        [
+            'Ref: product.mainCategoryId > categories.id',
+            'Ref: categories.parent > categories.id [delete: cascade]',
+            'Ref: category_products.categoriesId > categories.id',
+            'Ref: category_products.productId > product.id',
+        ],
+    );
+});
@@ -0,0 +1,106 @@
+/**
+ * Tests of enum columns and the enum types they share
+ */
+
+import assert from 'node:assert/strict';
+import { getTableLines, loadDBML, test } from './harness';
+
+test('reads enum values from enums, as const objects, arrays and union types', async () => {
+    const { dbml, diagnostics } = await loadDBML({
+        'post.ts': `
+import { Column, Entity, PrimaryGeneratedColumn } from 'typeorm';
+
+export enum Priority {
+    /** Whenever there is time */
+    Low,
+    Normal,
+    High = 10,
+}
+
+export const Status = {
+    /** Not published yet */
+    Draft: 'draft',
+    Published: 'published',
+} as const;
+
+@Entity({ schema: 'app' })
+export class Post {
+    @PrimaryGeneratedColumn()
+    id: number;
+
+    @Column({ type: 'enum', enum: Priority })
+    priority: Priority;
+
+    @Column({ type: 'enum', enum: Status })
+    status: string;
+
+    @Column({ type: 'simple-enum', enum: ['a', 'b'] })
+    kind: string;
+
+    @Column({ type: 'enum' })
+    mood: 'happy' | 'sad' | null;
+}
+`,
+    });
+
+    assert.deepEqual(diagnostics, []);
+    assert.ok(
+        dbml.includes('Enum app.post_priority_enum {\n  "0" [note: \'Whenever there is time\']\n  "1"\n  "10"\n}'),
+    );
+    assert.ok(dbml.includes("Enum app.post_status_enum {\n  draft [note: 'Not published yet']\n  published\n}"));
+    assert.ok(dbml.includes('Enum app.post_kind_enum {\n  a\n  b\n}'));
+    assert.ok(dbml.includes('Enum app.post_mood_enum {\n  happy\n  sad\n}'));
+    assert.deepEqual(getTableLines(dbml, 'post'), [
+        'id integer [pk, increment, not null]',
+        'priority app.post_priority_enum [not null]',
+        'status app.post_status_enum [not null]',
+        'kind app.post_kind_enum [not null]',
+        'mood app.post_mood_enum [not null]',
+    ]);
+});
+
+test('shares an enum type between columns with the same enumName, warning when their values differ', async () => {
+    const { dbml, diagnostics } = await loadDBML({
+        'entities.ts': `
+import { Column, Entity, PrimaryGeneratedColumn } from 'typeorm';
+
+@Entity()
+export class Post {
+    @PrimaryGeneratedColumn()
+    id: number;
+
+    @Column({ type: 'enum', enum: ['draft', 'published'], enumName: 'status' })
+    status: string;
+}
+
+@Entity()
+export class Page {
+    @PrimaryGeneratedColumn()
+    id: number;
+
+    @Column({ type: 'enum', enum: ['draft', 'published'], enumName: 'status' })
+    status: string;
+
+    @Column({ type: 'enum', enum: ['draft', 'archived'], enumName: 'status' })
+    legacyStatus: string;
+}
+`,
+    });
+
+    assert.equal(dbml.match(/^Enum /gm)?.length, 1);
+    assert.ok(dbml.includes('Enum status {\n  draft\n  published\n}'));
+    assert.deepEqual(getTableLines(dbml, 'page'), [
+        'id integer [pk, increment, not null]',
+        'status status [not null]',
+        'legacyStatus status [not null]',
+    ]);
+    assert.deepEqual(
+        diagnostics.map((d) => [d.code, d.message]),
+        [
+            [
+                'conflicting-enum',
+                'Enum `status` of `page.legacyStatus` has other values than an enum of the same name; the first one is kept',
+            ],
+        ],
+    );
+});
@@ -0,0 +1,83 @@
+/**
+ * Tests of the static evaluation of decorator arguments
+ */
+
+import assert from 'node:assert/strict';
+import { getTable, loadSchema, test } from './harness';
+
+test('evaluates constants, enums and expressions in decorator arguments', async () => {
+    const schema = await loadSchema({
+        'constants.ts': `
+export const EMAIL_MAX_LENGTH = 320;
+export const SCHEMA = 'auth';
+export enum UserRole { USER = 'user', ADMIN = 'admin' }
+export const TableNames = { USERS: 'users', POSTS: \`\${SCHEMA}_posts\` } as const;
+export enum Sizes { Small = 10, Large = Small * 4 }
+export const PREFIX = 'idx';
+`,
+        'entities.ts': `
+import { Column, Entity, Index, JoinColumn, ManyToOne, PrimaryGeneratedColumn } from 'typeorm';
+import { EMAIL_MAX_LENGTH, PREFIX, SCHEMA, Sizes, TableNames, UserRole } from './constants';
+import * as C from './constants';
+
+declare function runtimeLength(): number;
+
+@Entity({ name: TableNames.USERS, schema: SCHEMA })
+@Index(PREFIX + '_email', ['email'])
+export class User {
+    @PrimaryGeneratedColumn()
+    id: number;
+
+    @Column({ length: EMAIL_MAX_LENGTH })
+    email: string;
+
+    @Column({ type: 'enum', enum: UserRole, default: UserRole.USER })
+    role: UserRole;
+
+    @Column({ length: Sizes.Large, name: \`nick_\${C.SCHEMA}\` })
+    nick: string;
+
+    @Column('decimal', { precision: 10, scale: -(-2) })
+    balance: number;
+
+    @Column({ length: runtimeLength() })
+    bio: string;
+}
+
+@Entity(TableNames.POSTS)
+export class Post {
+    @PrimaryGeneratedColumn()
+    id: number;
+
+    @ManyToOne(() => User)
+    @JoinColumn({ name: C.PREFIX + '_author' })
+    author: User;
+}
+`,
+    });
+
+    const users = getTable(schema, 'users');
+    assert.equal(users.schema, 'auth');
+    assert.deepEqual(
+        users.columns.map((c) => [c.columnName, c.length, c.precision, c.scale, c.default]),
+        [
+            ['id', undefined, undefined, undefined, undefined],
+            ['email', 320, undefined, undefined, undefined],
+            ['role', undefined, undefined, undefined, 'user'],
+            ['nick_auth', 40, undefined, undefined, undefined],
+            ['balance', undefined, 10, 2, undefined],
+            ['bio', undefined, undefined, undefined, undefined],
+        ],
+    );
+    assert.deepEqual(users.columns[2].enumValues, ['user', 'admin']);
+    assert.deepEqual(users.indexes[0].name, 'idx_email');
+    assert.deepEqual(getTable(schema, 'auth_posts').relations[0].joinColumns, [
+        { name: 'idx_author', referencedColumnName: 'id' },
+    ]);
+
+    // The length of `bio` is only known at runtime
+    assert.deepEqual(
+        schema.diagnostics?.map((d) => [d.code, d.line]),
+        [['unresolved-value', 26]],
+    );
+});
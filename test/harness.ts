@@ -0,0 +1,118 @@
+/**
+ * Harness - Registers and runs the tests, with helpers to generate schemas from entity sources
+ */
+
+import assert from 'node:assert/strict';
+import { spawnSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Config, DBMLSchema, EntityMetadata, generateDBML, GenerateResult, generateSchema } from '../src';
+
+type Test = { name: string; run: () => void | Promise<void> };
+
+const tests: Test[] = [];
+
+/**
+ * Register a test
+ */
+export function test(name: string, run: Test['run']): void {
+    tests.push({ name, run });
+}
+
+/**
+ * Run the registered tests one after another and report each of them
+ * Exits with code 1 when a test fails
+ */
+export async function run(): Promise<void> {
+    let failed = 0;
+
+    for (const { name, run } of tests) {
+        try {
+            await run();
+            console.log(`✅ ${name}`);
+        } catch (error) {
+            failed++;
+            console.error(`❌ ${name}`);
+            console.error(error);
+        }
+    }
+
+    console.log(`\n${tests.length - failed} passed, ${failed} failed`);
+    process.exit(failed > 0 ? 1 : 0);
+}
+
+/**
+ * Write files, by their path relative to a temporary directory, and remove them once `run` is done
+ */
+export async function withFiles<T>(files: Record<string, string>, run: (dir: string) => Promise<T>): Promise<T> {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'typeorm-to-dbml-test-'));
+    try {
+        for (const [file, content] of Object.entries(files)) {
+            fs.mkdirSync(path.dirname(path.join(dir, file)), { recursive: true });
+            fs.writeFileSync(path.join(dir, file), content);
+        }
+        return await run(dir.replace(/\\/g, '/'));
+    } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+    }
+}
+
+/**
+ * Extract the schema of entity sources
+ */
+export function loadSchema(files: Record<string, string>, config: Config = {}): Promise<DBMLSchema> {
+    return withFiles(files, (dir) => generateSchema({ input: `${dir}/**/*.ts`, ...config }));
+}
+
+/**
+ * Generate the DBML, or the diagram of `format`, of entity sources
+ */
+export function loadDBML(files: Record<string, string>, config: Config = {}): Promise<GenerateResult> {
+    return withFiles(files, (dir) => generateDBML({ input: `${dir}/**/*.ts`, ...config }));
+}
+
+/**
+ * Run the command line in a directory, returning its exit code and output
+ */
+export function runCli(args: string[], cwd: string): { status: number | null; stdout: string; stderr: string } {
+    const cli = path.join(__dirname, '..', 'src', 'cli.ts');
+    const { status, stdout, stderr } = spawnSync(
+        process.execPath,
+        ['-r', require.resolve('ts-node/register/transpile-only'), cli, ...args],
+        // Compiled with the tsconfig.json of the repository, not one found from `cwd`
+        {
+            cwd,
+            encoding: 'utf-8',
+            timeout: 120000,
+            env: { ...process.env, TS_NODE_PROJECT: path.join(__dirname, '..', 'tsconfig.json') },
+        },
+    );
+
+    return { status, stdout, stderr };
+}
+
+/**
+ * Get a table of a schema, failing when it is missing
+ */
+export function getTable(schema: DBMLSchema, tableName: string): EntityMetadata {
+    const entity = schema.entities.find((e) => e.tableName === tableName);
+    assert.ok(entity, `table ${tableName} is missing`);
+    return entity;
+}
+
+/**
+ * Get the name, type and nullability of each column of a table
+ */
+export function getColumns(entity: EntityMetadata): [string, string, boolean][] {
+    return entity.columns.map((c) => [c.columnName, c.type, c.isNullable]);
+}
+
+/**
+ * Get the lines of a DBML table, without their indentation
+ */
+export function getTableLines(dbml: string, tableName: string): string[] {
+    const table = dbml.match(new RegExp(`^Table ${tableName} (?:\\[[^\\n]*\\] )?\\{\\n([\\s\\S]*?)\\n\\}`, 'm'));
+    assert.ok(table, `table ${tableName} is missing`);
+    return table[1].split('\n').map((line) => line.trim());
+}
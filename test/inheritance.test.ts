@@ -0,0 +1,171 @@
+/**
+ * Tests of entity inheritance: abstract base classes, mixins and table inheritance
+ */
+
+import assert from 'node:assert/strict';
+import { getTableLines, loadDBML, test } from './harness';
+
+test('inherits columns, relations and indexes from abstract base classes and mixins', async () => {
+    const { dbml, diagnostics } = await loadDBML({
+        'base.ts': `
+import { Column, CreateDateColumn, Index, ManyToOne, PrimaryGeneratedColumn } from 'typeorm';
+import { User } from './user';
+
+export abstract class BaseModel {
+    @PrimaryGeneratedColumn('uuid')
+    id: string;
+
+    @CreateDateColumn()
+    createdAt: Date;
+}
+
+@Index(['tenantId'])
+export abstract class TenantModel extends BaseModel {
+    @Column()
+    tenantId: string;
+
+    @ManyToOne(() => User)
+    owner: User;
+}
+
+type Constructor = new (...args: any[]) => object;
+
+export function Sluggable<TBase extends Constructor>(Base: TBase) {
+    abstract class SluggableMixin extends Base {
+        @Index()
+        @Column()
+        slug: string;
+    }
+    return SluggableMixin;
+}
+`,
+        'user.ts': `
+import { Entity, PrimaryGeneratedColumn } from 'typeorm';
+
+@Entity()
+export class User {
+    @PrimaryGeneratedColumn()
+    id: number;
+}
+`,
+        'article.ts': `
+import { Column, Entity } from 'typeorm';
+import { Sluggable, TenantModel } from './base';
+
+@Entity()
+export class Article extends Sluggable(TenantModel) {
+    @Column({ type: 'bigint' })
+    tenantId: string;
+
+    @Column()
+    title: string;
+}
+`,
+    });
+
+    assert.deepEqual(diagnostics, []);
+    assert.deepEqual(getTableLines(dbml, 'article'), [
+        'id uuid [pk, not null, default: `uuid_generate_v4()`]',
+        'createdAt timestamp [not null, default: `now()`]',
+        'tenantId bigint [not null]',
+        'slug varchar [not null]',
+        'title varchar [not null]',
+        "ownerId integer [note: 'Foreign key of owner -> user.id']",
+        '',
+        'Indexes {',
+        'tenantId',
+        'slug',
+        '}',
+    ]);
+    assert.match(dbml, /^Ref: article\.ownerId > user\.id$/m);
+    assert.doesNotMatch(dbml, /^Table (base_model|tenant_model)/m);
+});
+
+test('merges single-table children into their parent table, with the discriminator column', async () => {
+    const { dbml, diagnostics } = await loadDBML({
+        'content.ts': `
+import { ChildEntity, Column, Entity, ManyToOne, PrimaryGeneratedColumn, TableInheritance } from 'typeorm';
+
+const DISCRIMINATOR = 'kind';
+
+@Entity('contents')
+@TableInheritance({ column: { type: 'varchar', name: DISCRIMINATOR } })
+export class Content {
+    @PrimaryGeneratedColumn()
+    id: number;
+
+    @Column()
+    title: string;
+}
+
+@ChildEntity('photo')
+export class Photo extends Content {
+    @Column()
+    size: string;
+}
+
+@ChildEntity()
+export class Video extends Content {
+    @Column()
+    length: number;
+}
+
+@Entity()
+export class Album {
+    @PrimaryGeneratedColumn()
+    id: number;
+
+    @ManyToOne(() => Photo)
+    cover: Photo;
+}
+`,
+    });
+
+    assert.deepEqual(diagnostics, []);
+    assert.match(
+        dbml,
+        /^Table contents \[note: 'Discriminator kind: Content = \\'Content\\', Photo = \\'photo\\', Video = \\'Video\\''\] \{$/m,
+    );
+    assert.deepEqual(getTableLines(dbml, 'contents'), [
+        'id integer [pk, increment, not null]',
+        'title varchar [not null]',
+        'kind varchar [not null]',
+        'size varchar',
+        'length integer',
+    ]);
+    assert.doesNotMatch(dbml, /^Table (photo|video) /m);
+    assert.match(dbml, /^Ref: album\.coverId > contents\.id$/m);
+});
+
+test('gives class-table children their own table, keyed by the parent primary key', async () => {
+    const { dbml, diagnostics } = await loadDBML({
+        'payment.ts': `
+import { ChildEntity, Column, Entity, PrimaryGeneratedColumn, TableInheritance } from 'typeorm';
+
+@Entity()
+@TableInheritance({ pattern: 'CTI' })
+export abstract class Payment {
+    @PrimaryGeneratedColumn()
+    id: number;
+
+    @Column()
+    amount: number;
+}
+
+@ChildEntity()
+export class CardPayment extends Payment {
+    @Column()
+    last4: string;
+}
+`,
+    });
+
+    assert.deepEqual(diagnostics, []);
+    assert.deepEqual(getTableLines(dbml, 'payment'), [
+        'id integer [pk, increment, not null]',
+        'amount integer [not null]',
+        'type varchar [not null]',
+    ]);
+    assert.deepEqual(getTableLines(dbml, 'card_payment'), ['id integer [pk, not null]', 'last4 varchar [not null]']);
+    assert.match(dbml, /^Ref: card_payment\.id - payment\.id \[delete: cascade\]$/m);
+});
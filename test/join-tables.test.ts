@@ -0,0 +1,114 @@
+/**
+ * Tests of the join tables of many-to-many relations, and of collapsing them into <> refs
+ */
+
+import assert from 'node:assert/strict';
+import { getTableLines, loadDBML, test } from './harness';
+
+const blog = `
+import { Entity, JoinTable, ManyToMany, PrimaryColumn, PrimaryGeneratedColumn } from 'typeorm';
+
+@Entity()
+export class Post {
+    @PrimaryGeneratedColumn()
+    id: number;
+
+    @ManyToMany(() => Tag)
+    @JoinTable()
+    tags: Tag[];
+
+    @ManyToMany(() => Label)
+    @JoinTable({
+        name: 'post_labels',
+        joinColumn: { name: 'post', referencedColumnName: 'id' },
+        inverseJoinColumn: { name: 'label_tenant', referencedColumnName: 'tenant' },
+    })
+    labels: Label[];
+
+    @ManyToMany(() => Label)
+    @JoinTable()
+    allLabels: Label[];
+}
+
+@Entity()
+export class Tag {
+    @PrimaryGeneratedColumn('uuid')
+    id: string;
+}
+
+@Entity()
+export class Label {
+    @PrimaryColumn()
+    tenant: string;
+
+    @PrimaryColumn()
+    name: string;
+}
+`;
+
+test('writes a join table per owning many-to-many relation, with its columns, keys and refs', async () => {
+    const { dbml, diagnostics } = await loadDBML({ 'blog.ts': blog });
+
+    assert.deepEqual(diagnostics, []);
+    assert.deepEqual(getTableLines(dbml, 'post_tags_tag'), [
+        'postId integer [not null]',
+        'tagId uuid [not null]',
+        '',
+        'Indexes {',
+        '(postId, tagId) [pk]',
+        'postId',
+        'tagId',
+        '}',
+    ]);
+    assert.deepEqual(getTableLines(dbml, 'post_labels').slice(0, 2), [
+        'post integer [not null]',
+        'label_tenant varchar [not null]',
+    ]);
+    assert.deepEqual(getTableLines(dbml, 'post_all_labels_label'), [
+        'postId integer [not null]',
+        'labelTenant varchar [not null]',
+        'labelName varchar [not null]',
+        '',
+        'Indexes {',
+        '(postId, labelTenant, labelName) [pk]',
+        'postId',
+        '(labelTenant, labelName)',
+        '}',
+    ]);
+    assert.deepEqual(
+        dbml.split('\n').filter((line) => line.startsWith('Ref:')),
+        [
+            'Ref: post_tags_tag.postId > post.id',
+            'Ref: post_tags_tag.tagId > tag.id',
+            'Ref: post_labels.post > post.id',
+            'Ref: post_labels.label_tenant > label.tenant',
+            'Ref: post_all_labels_label.postId > post.id',
+            'Ref: post_all_labels_label.(labelTenant, labelName) > label.(tenant, name)',
+        ],
+    );
+});
+
+test('collapses join tables into <> refs unless their sides have keys of other sizes', async () => {
+    const { dbml, diagnostics } = await loadDBML({ 'blog.ts': blog }, { options: { collapseJoinTables: true } });
+
+    assert.doesNotMatch(dbml, /^Table (post_tags_tag|post_labels) /m);
+    assert.match(dbml, /^Table post_all_labels_label \{$/m);
+    assert.deepEqual(
+        dbml.split('\n').filter((line) => line.startsWith('Ref:')),
+        [
+            'Ref: post.id <> tag.id',
+            'Ref: post.id <> label.tenant',
+            'Ref: post_all_labels_label.postId > post.id',
+            'Ref: post_all_labels_label.(labelTenant, labelName) > label.(tenant, name)',
+        ],
+    );
+    assert.deepEqual(
+        diagnostics.map((d) => [d.code, d.message]),
+        [
+            [
+                'uncollapsible-join-table',
+                'Many-to-many `Post.allLabels` joins keys of 1 and 2 columns, which a `<>` ref cannot pair; its join table was kept',
+            ],
+        ],
+    );
+});
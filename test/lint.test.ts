@@ -0,0 +1,116 @@
+/**
+ * Tests of the schema lint rules
+ */
+
+import assert from 'node:assert/strict';
+import { lintSchema } from '../src';
+import LintOptions from '../src/utils/interfaces/LintOptions';
+import { test, withFiles } from './harness';
+
+const files = {
+    'entities.ts': `
+import { Column, Entity, ManyToOne, PrimaryGeneratedColumn } from 'typeorm';
+
+/** People who can sign in */
+@Entity()
+export class User {
+    @PrimaryGeneratedColumn()
+    id: number;
+
+    @Column()
+    name: string;
+
+    @Column({ unique: true, nullable: true })
+    email: string;
+
+    @Column({ type: 'enum', enum: ['a', 'b'] })
+    role: string;
+}
+
+/** Posts of users */
+@Entity()
+export class Post {
+    @PrimaryGeneratedColumn()
+    id: number;
+
+    @Column({ length: 200 })
+    title: string;
+
+    @ManyToOne(() => User)
+    author: User;
+}
+
+/**
+ * @lint-ignore
+ */
+@Entity()
+export class Legacy {
+    @Column({ length: 10 })
+    code: string;
+}
+
+/**
+ * Logs
+ * @lint-ignore require-primary-key
+ */
+@Entity()
+export class AuditLog {
+    @Column({ length: 10 })
+    code: string;
+}
+
+@Entity()
+export class Tag {
+    @Column({ length: 50 })
+    label: string;
+}
+`,
+};
+
+/**
+ * Lint the test entities, as `[severity, code, message]`
+ */
+function lint(lintOptions?: LintOptions) {
+    return withFiles(files, async (dir) => {
+        const diagnostics = await lintSchema({ input: `${dir}/*.ts` }, lintOptions);
+        return diagnostics.map((d) => [d.severity, d.code, d.message]);
+    });
+}
+
+test('reports violations of the built-in rules with their default severity, except for ignored ones', async () => {
+    assert.deepEqual(await lint(), [
+        ['warning', 'bounded-varchar', 'Column `user.name` is a varchar without a length'],
+        ['warning', 'bounded-varchar', 'Column `user.email` is a varchar without a length'],
+        ['warning', 'nullable-unique', 'Unique column `user.email` is nullable'],
+        ['warning', 'shared-enum', 'Enum column `user.role` gets an enum type of its own; set `enumName` to share one'],
+        ['warning', 'indexed-foreign-keys', 'Foreign key `post.authorId` is not covered by an index'],
+        ['error', 'require-primary-key', 'Table `tag` has no primary key'],
+        ['warning', 'table-notes', 'Table `tag` has no note'],
+    ]);
+});
+
+test('takes the severity and options of rules from the lint configuration', async () => {
+    assert.deepEqual(
+        await lint({ rules: { 'bounded-varchar': 'off', 'naming-convention': ['error', { columns: 'snake_case' }] } }),
+        [
+            ['warning', 'nullable-unique', 'Unique column `user.email` is nullable'],
+            [
+                'warning',
+                'shared-enum',
+                'Enum column `user.role` gets an enum type of its own; set `enumName` to share one',
+            ],
+            ['warning', 'indexed-foreign-keys', 'Foreign key `post.authorId` is not covered by an index'],
+            ['error', 'naming-convention', 'Column name `post.authorId` is not snake_case'],
+            ['error', 'require-primary-key', 'Table `tag` has no primary key'],
+            ['warning', 'table-notes', 'Table `tag` has no note'],
+        ],
+    );
+});
+
+test('rejects unknown rules and severities', async () => {
+    await assert.rejects(lint({ rules: { 'no-such-rule': 'error' } }), /Unknown lint rule "no-such-rule"/);
+    await assert.rejects(
+        lint({ rules: { 'table-notes': 'fatal' as any } }),
+        /Invalid severity "fatal" for lint rule "table-notes"/,
+    );
+});
@@ -0,0 +1,102 @@
+/**
+ * Tests of the naming strategies tables, columns and join tables are named with
+ */
+
+import assert from 'node:assert/strict';
+import { generateDBML } from '../src';
+import { getTableLines, loadDBML, test, withFiles } from './harness';
+
+const blog = `
+import { Column, Entity, JoinTable, ManyToMany, ManyToOne, PrimaryGeneratedColumn } from 'typeorm';
+
+@Entity()
+export class UserProfile {
+    @PrimaryGeneratedColumn()
+    id: number;
+
+    @Column()
+    firstName: string;
+}
+
+@Entity()
+export class BlogPost {
+    @PrimaryGeneratedColumn()
+    id: number;
+
+    @ManyToOne(() => UserProfile)
+    mainAuthor: UserProfile;
+
+    @ManyToMany(() => UserProfile)
+    @JoinTable()
+    coAuthors: UserProfile[];
+}
+`;
+
+test("names tables and columns as TypeORM's DefaultNamingStrategy does", async () => {
+    const { dbml } = await loadDBML({ 'blog.ts': blog });
+
+    assert.deepEqual(getTableLines(dbml, 'user_profile'), [
+        'id integer [pk, increment, not null]',
+        'firstName varchar [not null]',
+    ]);
+    assert.deepEqual(getTableLines(dbml, 'blog_post'), [
+        'id integer [pk, increment, not null]',
+        "mainAuthorId integer [note: 'Foreign key of mainAuthor -> user_profile.id']",
+    ]);
+    assert.deepEqual(getTableLines(dbml, 'blog_post_co_authors_user_profile').slice(0, 2), [
+        'blogPostId integer [not null]',
+        'userProfileId integer [not null]',
+    ]);
+});
+
+test('names tables and columns in snake case with the snake strategy', async () => {
+    const { dbml } = await loadDBML({ 'blog.ts': blog }, { namingStrategy: 'snake' });
+
+    assert.deepEqual(getTableLines(dbml, 'user_profiles'), [
+        'id integer [pk, increment, not null]',
+        'first_name varchar [not null]',
+    ]);
+    assert.deepEqual(getTableLines(dbml, 'blog_posts'), [
+        'id integer [pk, increment, not null]',
+        "main_author_id integer [note: 'Foreign key of mainAuthor -> user_profiles.id']",
+    ]);
+    assert.deepEqual(getTableLines(dbml, 'blog_posts_co_authors_user_profiles').slice(0, 2), [
+        'blog_posts_id integer [not null]',
+        'user_profiles_id integer [not null]',
+    ]);
+});
+
+test('loads a strategy class from a module or takes an instance, with defaults for the rest', async () => {
+    const files = {
+        'blog.ts': blog,
+        'naming.ts': `
+export class PrefixNamingStrategy {
+    tableName(targetName: string, userSpecifiedName: string | undefined): string {
+        return userSpecifiedName ?? 'tbl_' + targetName.toLowerCase();
+    }
+}
+`,
+    };
+
+    await withFiles(files, async (dir) => {
+        const input = `${dir}/blog.ts`;
+        const fromModule = await generateDBML({ input, namingStrategy: `${dir}/naming.ts` });
+        assert.deepEqual(getTableLines(fromModule.dbml, 'tbl_blogpost').slice(1), [
+            "mainAuthorId integer [note: 'Foreign key of mainAuthor -> tbl_userprofile.id']",
+        ]);
+
+        const fromInstance = await generateDBML({
+            input,
+            namingStrategy: { columnName: (propertyName, customName) => customName ?? propertyName.toUpperCase() },
+        });
+        assert.deepEqual(getTableLines(fromInstance.dbml, 'user_profile'), [
+            'ID integer [pk, increment, not null]',
+            'FIRSTNAME varchar [not null]',
+        ]);
+
+        await assert.rejects(
+            generateDBML({ input, namingStrategy: `${dir}/missing.ts` }),
+            /is neither a built-in strategy \(typeorm, default, snake\) nor an existing file/,
+        );
+    });
+});
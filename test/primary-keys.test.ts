@@ -0,0 +1,57 @@
+/**
+ * Tests of primary keys, inline or as a pk index
+ */
+
+import assert from 'node:assert/strict';
+import { getTableLines, loadDBML, test } from './harness';
+
+test('writes composite and named primary keys as a pk index', async () => {
+    const { dbml, diagnostics } = await loadDBML({
+        'entities.ts': `
+import { Column, Entity, PrimaryColumn, PrimaryGeneratedColumn } from 'typeorm';
+
+@Entity()
+export class Membership {
+    @PrimaryColumn()
+    userId: number;
+
+    @PrimaryColumn({ length: 16 })
+    groupCode: string;
+
+    @Column()
+    role: string;
+}
+
+@Entity()
+export class Invoice {
+    @PrimaryGeneratedColumn({ primaryKeyConstraintName: 'PK_invoice' })
+    id: number;
+}
+
+@Entity()
+export class Tag {
+    @PrimaryGeneratedColumn()
+    id: number;
+}
+`,
+    });
+
+    assert.deepEqual(diagnostics, []);
+    assert.deepEqual(getTableLines(dbml, 'membership'), [
+        'userId integer [not null]',
+        'groupCode varchar(16) [not null]',
+        'role varchar [not null]',
+        '',
+        'Indexes {',
+        '(userId, groupCode) [pk]',
+        '}',
+    ]);
+    assert.deepEqual(getTableLines(dbml, 'invoice'), [
+        'id integer [increment, not null]',
+        '',
+        'Indexes {',
+        "id [pk, name: 'PK_invoice']",
+        '}',
+    ]);
+    assert.deepEqual(getTableLines(dbml, 'tag'), ['id integer [pk, increment, not null]']);
+});
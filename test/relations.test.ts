@@ -0,0 +1,215 @@
+/**
+ * Tests of relations: foreign key columns, composite keys and their references
+ */
+
+import assert from 'node:assert/strict';
+import { getColumns, getTable, getTableLines, loadDBML, loadSchema, test } from './harness';
+
+const country = `
+import { Entity, PrimaryColumn } from 'typeorm';
+
+@Entity()
+export class Country {
+    @PrimaryColumn({ length: 2 })
+    iso: string;
+}
+`;
+
+const code = `
+import { Entity, PrimaryColumn } from 'typeorm';
+
+@Entity()
+export class Code {
+    @PrimaryColumn()
+    tenant: string;
+
+    @PrimaryColumn()
+    code: string;
+}
+`;
+
+test('names implicit foreign keys after the primary key of the target', async () => {
+    const files = {
+        'country.ts': country,
+        'city.ts': `
+import { Entity, Index, JoinColumn, ManyToOne, OneToOne, PrimaryGeneratedColumn } from 'typeorm';
+import { Country } from './country';
+
+@Entity()
+@Index(['country'])
+export class City {
+    @PrimaryGeneratedColumn()
+    id: number;
+
+    @ManyToOne(() => Country, { nullable: false })
+    country: Country;
+
+    @OneToOne(() => Country)
+    @JoinColumn()
+    capitalOf: Country;
+}
+`,
+    };
+
+    const schema = await loadSchema(files);
+    const city = getTable(schema, 'city');
+    assert.deepEqual(getColumns(city), [
+        ['id', 'integer', false],
+        ['countryIso', 'varchar', false],
+        ['capitalOfIso', 'varchar', true],
+    ]);
+    assert.equal(city.columns[1].length, 2);
+    assert.deepEqual(
+        city.relations.map((r) => r.joinColumns),
+        [
+            [{ name: 'countryIso', referencedColumnName: 'iso' }],
+            [{ name: 'capitalOfIso', referencedColumnName: 'iso' }],
+        ],
+    );
+    assert.deepEqual(city.indexes[0].columns, ['countryIso']);
+
+    const { dbml } = await loadDBML(files);
+    assert.match(dbml, /^Ref: city\.countryIso > country\.iso$/m);
+    assert.match(dbml, /^Ref: city\.capitalOfIso - country\.iso$/m);
+});
+
+test('keeps foreign key columns the entity declares itself', async () => {
+    const { dbml } = await loadDBML({
+        'country.ts': country,
+        'city.ts': `
+import { Column, Entity, JoinColumn, ManyToOne, PrimaryGeneratedColumn } from 'typeorm';
+import { Country } from './country';
+
+@Entity()
+export class City {
+    @PrimaryGeneratedColumn()
+    id: number;
+
+    /** ISO code of the country */
+    @Column({ length: 2 })
+    countryIso: string;
+
+    @ManyToOne(() => Country)
+    country: Country;
+
+    @ManyToOne(() => Country)
+    @JoinColumn({ name: 'visa_country' })
+    visaCountry: Country;
+}
+`,
+    });
+
+    assert.deepEqual(getTableLines(dbml, 'city'), [
+        'id integer [pk, increment, not null]',
+        "countryIso varchar(2) [not null, note: 'ISO code of the country']",
+        "visa_country varchar(2) [note: 'Foreign key of visaCountry -> country.iso']",
+    ]);
+    assert.match(dbml, /^Ref: city\.countryIso > country\.iso$/m);
+    assert.match(dbml, /^Ref: city\.visa_country > country\.iso$/m);
+});
+
+test('adds a foreign key column per primary key column of a composite target', async () => {
+    const files = {
+        'code.ts': code,
+        'post.ts': `
+import { Entity, ManyToOne, PrimaryGeneratedColumn } from 'typeorm';
+import { Code } from './code';
+
+@Entity()
+export class Post {
+    @PrimaryGeneratedColumn()
+    id: number;
+
+    @ManyToOne(() => Code)
+    code: Code;
+}
+`,
+    };
+
+    const { dbml, diagnostics } = await loadDBML(files);
+    assert.deepEqual(diagnostics, []);
+    assert.deepEqual(getTableLines(dbml, 'post'), [
+        'id integer [pk, increment, not null]',
+        "codeTenant varchar [note: 'Foreign key of code -> code.tenant']",
+        "codeCode varchar [note: 'Foreign key of code -> code.code']",
+    ]);
+    assert.match(dbml, /^Ref: post\.\(codeTenant, codeCode\) > code\.\(tenant, code\)$/m);
+});
+
+test('keeps the names and referenced columns of explicit composite join columns', async () => {
+    const files = {
+        'code.ts': code,
+        'post.ts': `
+import { Entity, JoinColumn, ManyToOne, PrimaryGeneratedColumn } from 'typeorm';
+import { Code } from './code';
+
+@Entity()
+export class Post {
+    @PrimaryGeneratedColumn()
+    id: number;
+
+    @ManyToOne(() => Code)
+    @JoinColumn([
+        { name: 'code_tenant', referencedColumnName: 'tenant' },
+        { name: 'code_value', referencedColumnName: 'code' },
+    ])
+    code: Code;
+}
+`,
+    };
+
+    const { dbml } = await loadDBML(files);
+    assert.match(dbml, /^Ref: post\.\(code_tenant, code_value\) > code\.\(tenant, code\)$/m);
+});
+
+test('reports a foreign key to a target without primary key', async () => {
+    const schema = await loadSchema({
+        'tag.ts': `
+import { Column, Entity, ManyToOne } from 'typeorm';
+
+@Entity()
+export class Keyless {
+    @Column()
+    name: string;
+}
+
+@Entity()
+export class Tag {
+    @Column()
+    label: string;
+
+    @ManyToOne(() => Keyless)
+    keyless: Keyless;
+}
+`,
+    });
+
+    assert.deepEqual(getTable(schema, 'tag').relations, []);
+    assert.deepEqual(
+        schema.diagnostics?.map((d) => [d.severity, d.code, d.line]),
+        [['error', 'unresolved-foreign-key', 15]],
+    );
+});
+
+test('expands indexes on a relation to all columns of its composite foreign key', async () => {
+    const { dbml } = await loadDBML({
+        'code.ts': code,
+        'post.ts': `
+import { Entity, Index, ManyToOne, PrimaryGeneratedColumn } from 'typeorm';
+import { Code } from './code';
+
+@Entity()
+@Index(['code'], { unique: true })
+export class Post {
+    @PrimaryGeneratedColumn()
+    id: number;
+
+    @ManyToOne(() => Code, { onDelete: 'CASCADE' })
+    code: Code;
+}
+`,
+    });
+
+    assert.deepEqual(getTableLines(dbml, 'post').slice(3), ['', 'Indexes {', '(codeTenant, codeCode) [unique]', '}']);
+    assert.match(dbml, /^Ref: post\.\(codeTenant, codeCode\) > code\.\(tenant, code\) \[delete: cascade\]$/m);
+});
@@ -0,0 +1,166 @@
+/**
+ * Tests of the diagram output formats
+ */
+
+import assert from 'node:assert/strict';
+import { loadDBML, test } from './harness';
+
+const files = {
+    'entities.ts': `
+import { Column, Entity, Index, ManyToOne, OneToOne, JoinColumn, PrimaryGeneratedColumn } from 'typeorm';
+
+/** People who write */
+@Entity({ schema: 'blog' })
+export class Author {
+    @PrimaryGeneratedColumn()
+    id: number;
+
+    @Column({ unique: true })
+    email: string;
+}
+
+@Entity({ schema: 'blog' })
+@Index(['title'])
+export class Post {
+    @PrimaryGeneratedColumn()
+    id: number;
+
+    /** Shown in lists */
+    @Column({ length: 200 })
+    title: string;
+
+    @ManyToOne(() => Author, { nullable: false })
+    author: Author;
+
+    @ManyToOne(() => Author)
+    editor: Author;
+}
+
+@Entity()
+export class Profile {
+    @PrimaryGeneratedColumn()
+    id: number;
+
+    @OneToOne(() => Author)
+    @JoinColumn()
+    author: Author;
+}
+`,
+};
+
+test('renders a Mermaid erDiagram with key markers and cardinalities from nullability', async () => {
+    const { dbml, diagnostics } = await loadDBML(files, { format: 'mermaid' });
+
+    assert.deepEqual(diagnostics, []);
+    assert.equal(
+        dbml,
+        [
+            '---',
+            'title: Database Schema',
+            '---',
+            'erDiagram',
+            '    author {',
+            '        integer id PK',
+            '        varchar email UK',
+            '    }',
+            '',
+            '    post {',
+            '        integer id PK',
+            '        varchar(200) title "Shown in lists"',
+            '        integer authorId FK',
+            '        integer editorId FK',
+            '    }',
+            '',
+            '    profile {',
+            '        integer id PK',
+            '        integer authorId FK, UK',
+            '    }',
+            '',
+            '    post }o--|| author : author',
+            '    post }o--o| author : editor',
+            '    profile |o--o| author : author',
+        ].join('\n'),
+    );
+});
+
+test('renders PlantUML entities with mandatory markers, in a package per schema', async () => {
+    const { dbml, diagnostics } = await loadDBML(files, { format: 'plantuml' });
+
+    assert.deepEqual(diagnostics, []);
+    assert.equal(
+        dbml,
+        [
+            '@startuml',
+            'title Database Schema',
+            'hide circle',
+            'skinparam linetype ortho',
+            '',
+            'package "blog" {',
+            '    entity author {',
+            '        * id : integer <<PK>>',
+            '        --',
+            '        * email : varchar <<UK>>',
+            '    }',
+            '    note bottom of author',
+            '        People who write',
+            '    end note',
+            '',
+            '    entity post {',
+            '        * id : integer <<PK>>',
+            '        --',
+            '        * title : varchar(200) //Shown in lists//',
+            '        * authorId : integer <<FK>>',
+            '        editorId : integer <<FK>>',
+            '        ..',
+            '        (title) <<index>>',
+            '    }',
+            '}',
+            '',
+            'package "public" {',
+            '    entity profile {',
+            '        * id : integer <<PK>>',
+            '        --',
+            '        authorId : integer <<FK>> <<UK>>',
+            '    }',
+            '}',
+            '',
+            'post }o--|| author : author',
+            'post }o--o| author : editor',
+            'profile |o--o| author : author',
+            '',
+            '@enduml',
+        ].join('\n'),
+    );
+});
+
+test('renders DOT tables clustered by schema, with edges between the key columns', async () => {
+    const { dbml, diagnostics } = await loadDBML(files, { format: 'dot' });
+
+    assert.deepEqual(diagnostics, []);
+    assert.match(dbml, /^digraph "Database Schema" \{$/m);
+    assert.deepEqual(dbml.match(/^ {4}subgraph "[^"]+"/gm), [
+        '    subgraph "cluster_blog"',
+        '    subgraph "cluster_public"',
+    ]);
+    assert.match(
+        dbml,
+        /<tr><td port="authorId" align="left"><b>authorId<\/b><\/td><td align="left">integer<\/td><td align="left">FK<\/td><td align="left"><\/td><\/tr>/,
+    );
+    assert.match(dbml, /<tr><td colspan="3" align="left"><i>People who write<\/i><\/td><\/tr>/);
+    assert.deepEqual(dbml.match(/^ {4}"\w+":"\w+" -> .*$/gm), [
+        '    "post":"authorId" -> "author":"id" [arrowtail=crowodot, arrowhead=teetee, label="author"];',
+        '    "post":"editorId" -> "author":"id" [arrowtail=crowodot, arrowhead=teeodot, label="editor"];',
+        '    "profile":"authorId" -> "author":"id" [arrowtail=teeodot, arrowhead=teeodot, label="author"];',
+    ]);
+});
+
+test('shares the grouping, note and index options between the renderers', async () => {
+    const options = { tableGrouping: 'none', includeNotes: false, includeIndexes: false } as const;
+    const plantUml = await loadDBML(files, { format: 'plantuml', options });
+    const dot = await loadDBML(files, { format: 'dot', options });
+
+    assert.match(plantUml.dbml, /^entity post \{$/m);
+    assert.match(dot.dbml, /^ {4}"post" \[label=</m);
+    assert.doesNotMatch(plantUml.dbml, /package |note bottom|<<index>>|Shown in lists/);
+    assert.doesNotMatch(dot.dbml, /subgraph|People who write|Shown in lists| index</);
+});
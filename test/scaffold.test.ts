@@ -0,0 +1,52 @@
+/**
+ * Tests of the entities scaffolded from DBML
+ */
+
+import assert from 'node:assert/strict';
+import { dbmlToSchema, diffSchemas, generateDBML, scaffoldEntities } from '../src';
+import { test, withFiles } from './harness';
+
+test('scaffolds entities that regenerate the DBML they came from', async () => {
+    const dbml = `
+Project "Shop" {
+  database_type: 'PostgreSQL'
+}
+
+Enum order_status {
+  pending
+  shipped [note: 'Left the warehouse']
+}
+
+Table customers [note: 'People who buy things'] {
+  id integer [pk, increment, not null]
+  email varchar(255) [unique, not null, note: 'Login']
+  name varchar
+  createdAt timestamp [not null, default: \`now()\`]
+}
+
+Table orders {
+  id uuid [pk, not null, default: \`uuid_generate_v4()\`]
+  status order_status [not null, default: 'pending']
+  total numeric(10,2) [not null]
+  customerId integer [not null]
+
+  Indexes {
+    (customerId, status)
+  }
+}
+
+Ref: orders.customerId > customers.id [delete: cascade]
+`;
+    await withFiles({ 'schema.dbml': dbml }, async (dir) => {
+        const scaffolded = await scaffoldEntities({ input: `${dir}/schema.dbml`, output: `${dir}/entities` });
+        assert.deepEqual(scaffolded.diagnostics, []);
+
+        const generated = await generateDBML({ input: `${dir}/entities/*.ts` });
+        assert.deepEqual(generated.diagnostics, []);
+
+        const original = dbmlToSchema(dbml);
+        const regenerated = dbmlToSchema(generated.dbml);
+        assert.deepEqual(diffSchemas(original, regenerated).changes, []);
+        assert.deepEqual(regenerated.enums, original.enums);
+    });
+});
@@ -0,0 +1,98 @@
+/**
+ * Tests of tree entities and the columns and tables TypeORM adds for them
+ */
+
+import assert from 'node:assert/strict';
+import { getTableLines, loadDBML, test } from './harness';
+
+test('adds the columns and closure table of each kind of tree', async () => {
+    const { dbml, diagnostics } = await loadDBML({
+        'trees.ts': `
+import { Column, Entity, PrimaryGeneratedColumn, Tree, TreeChildren, TreeParent } from 'typeorm';
+
+@Entity()
+@Tree('closure-table', { ancestorColumnName: (column) => 'ancestor_' + column.propertyName })
+export class Category {
+    @PrimaryGeneratedColumn()
+    id: number;
+
+    @Column()
+    name: string;
+
+    @TreeChildren()
+    children: Category[];
+
+    @TreeParent({ onDelete: 'CASCADE' })
+    parent: Category;
+}
+
+@Entity()
+@Tree('nested-set')
+export class Region {
+    @PrimaryGeneratedColumn('uuid')
+    id: string;
+
+    @TreeParent()
+    parent: Region;
+}
+
+@Entity()
+@Tree('materialized-path')
+export class Folder {
+    @PrimaryGeneratedColumn()
+    id: number;
+
+    @TreeParent()
+    parent: Folder;
+}
+
+@Entity()
+@Tree('adjacency-list')
+export class Comment {
+    @PrimaryGeneratedColumn()
+    id: number;
+
+    @TreeParent()
+    parentComment: Comment;
+}
+`,
+    });
+
+    assert.deepEqual(diagnostics, []);
+    assert.deepEqual(getTableLines(dbml, 'category'), [
+        'id integer [pk, increment, not null]',
+        'name varchar [not null]',
+        "parentId integer [note: 'Foreign key of parent -> category.id']",
+    ]);
+    assert.match(dbml, /^Table category_closure \[note: 'Closure table of category'\] \{$/m);
+    assert.deepEqual(getTableLines(dbml, 'category_closure'), [
+        'ancestor_id integer [not null]',
+        'id_descendant integer [not null]',
+        '',
+        'Indexes {',
+        '(ancestor_id, id_descendant) [pk]',
+        '}',
+    ]);
+    assert.deepEqual(getTableLines(dbml, 'region'), [
+        'id uuid [pk, not null, default: `uuid_generate_v4()`]',
+        'nsleft integer [not null, default: 1]',
+        'nsright integer [not null, default: 2]',
+        "parentId uuid [note: 'Foreign key of parent -> region.id']",
+    ]);
+    assert.deepEqual(getTableLines(dbml, 'folder'), [
+        'id integer [pk, increment, not null]',
+        "mpath varchar [default: '']",
+        "parentId integer [note: 'Foreign key of parent -> folder.id']",
+    ]);
+    assert.deepEqual(
+        dbml.split('\n').filter((line) => line.startsWith('Ref:')),
+        [
+            'Ref: category.parentId > category.id [delete: cascade]',
+            'Ref: category_closure.ancestor_id > category.id [delete: cascade]',
+            'Ref: category_closure.id_descendant > category.id [delete: cascade]',
+            'Ref: region.parentId > region.id',
+            'Ref: folder.parentId > folder.id',
+            'Ref: comment.parentCommentId > comment.id',
+        ],
+    );
+});
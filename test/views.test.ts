@@ -0,0 +1,74 @@
+/**
+ * Tests of view entities
+ */
+
+import assert from 'node:assert/strict';
+import { getTableLines, loadDBML, test } from './harness';
+
+const files = {
+    'user.ts': `
+import { Entity, PrimaryGeneratedColumn } from 'typeorm';
+
+@Entity('users')
+export class User {
+    @PrimaryGeneratedColumn()
+    id: number;
+}
+`,
+    'stats.ts': `
+import { ViewColumn, ViewEntity } from 'typeorm';
+import { User } from './user';
+
+/** Post counts per user */
+@ViewEntity({
+    name: 'user_post_stats',
+    materialized: true,
+    dependsOn: [User, 'post'],
+    expression: \`
+        SELECT u.id AS user_id, COUNT(p.id) AS post_count
+        FROM users u
+        LEFT JOIN post p ON p.author_id = u.id
+        GROUP BY u.id
+    \`,
+})
+export class UserPostStats {
+    @ViewColumn()
+    userId: string;
+
+    /** Number of posts */
+    @ViewColumn({ name: 'post_count' })
+    posts: number;
+}
+`,
+};
+
+test('writes views with their columns, SQL and dependencies', async () => {
+    const { dbml, diagnostics } = await loadDBML(files);
+
+    assert.deepEqual(diagnostics, []);
+    assert.match(dbml, /^Table user_post_stats \[headercolor: #7F8C8D\] \{$/m);
+    assert.deepEqual(getTableLines(dbml, 'user_post_stats'), [
+        'userId varchar',
+        "post_count integer [note: 'Number of posts']",
+        '',
+        "Note: '''",
+        'MATERIALIZED VIEW',
+        'Post counts per user',
+        'Depends on: users, post',
+        '',
+        'SELECT u.id AS user_id, COUNT(p.id) AS post_count',
+        'FROM users u',
+        'LEFT JOIN post p ON p.author_id = u.id',
+        'GROUP BY u.id',
+        "'''",
+    ]);
+});
+
+test('groups views apart or leaves them out', async () => {
+    const grouped = await loadDBML(files, { options: { groupViews: true } });
+    assert.match(grouped.dbml, /^TableGroup views \{\n  user_post_stats\n\}/m);
+
+    const withoutViews = await loadDBML(files, { options: { includeViews: false } });
+    assert.doesNotMatch(withoutViews.dbml, /user_post_stats/);
+    assert.match(withoutViews.dbml, /^Table users \{$/m);
+});